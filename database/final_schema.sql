@@ -15,6 +15,116 @@
 /*!40101 SET @OLD_SQL_MODE=@@SQL_MODE, SQL_MODE='NO_AUTO_VALUE_ON_ZERO' */;
 /*!40111 SET @OLD_SQL_NOTES=@@SQL_NOTES, SQL_NOTES=0 */;
 
+--
+-- Table structure for table `asofix_quarantine`
+--
+
+DROP TABLE IF EXISTS `asofix_quarantine`;
+/*!40101 SET @saved_cs_client     = @@character_set_client */;
+/*!50503 SET character_set_client = utf8mb4 */;
+CREATE TABLE `asofix_quarantine` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `source` varchar(100) COLLATE utf8mb4_unicode_ci NOT NULL DEFAULT 'asofix',
+  `quarantine_key` varchar(255) COLLATE utf8mb4_unicode_ci NOT NULL,
+  `asofix_id` varchar(255) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `license_plate` varchar(50) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `reasons` json NOT NULL,
+  `payload` json NOT NULL,
+  `sync_log_id` int DEFAULT NULL,
+  `times_seen` int NOT NULL DEFAULT '1',
+  `first_seen_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP,
+  `last_seen_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP,
+  `released_at` timestamp NULL DEFAULT NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uk_source_key` (`source`,`quarantine_key`),
+  KEY `idx_asofix_id` (`asofix_id`),
+  KEY `idx_released_at` (`released_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+/*!40101 SET character_set_client = @saved_cs_client */;
+
+--
+-- Table structure for table `exchange_rates`
+--
+
+DROP TABLE IF EXISTS `exchange_rates`;
+/*!40101 SET @saved_cs_client     = @@character_set_client */;
+/*!50503 SET character_set_client = utf8mb4 */;
+CREATE TABLE `exchange_rates` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `rate_date` date NOT NULL,
+  `ars_per_usd` decimal(15,4) NOT NULL,
+  `source` enum('admin','file') COLLATE utf8mb4_unicode_ci NOT NULL DEFAULT 'admin',
+  `updated_by` varchar(100) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `created_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uk_rate_date` (`rate_date`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+/*!40101 SET character_set_client = @saved_cs_client */;
+
+--
+-- Table structure for table `filter_rule_changes`
+--
+
+DROP TABLE IF EXISTS `filter_rule_changes`;
+/*!40101 SET @saved_cs_client     = @@character_set_client */;
+/*!50503 SET character_set_client = utf8mb4 */;
+CREATE TABLE `filter_rule_changes` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `rule_key` varchar(50) COLLATE utf8mb4_unicode_ci NOT NULL,
+  `old_value` json DEFAULT NULL,
+  `new_value` json DEFAULT NULL,
+  `is_reset` tinyint(1) NOT NULL DEFAULT '0',
+  `changed_by` varchar(100) COLLATE utf8mb4_unicode_ci NOT NULL,
+  `comment` varchar(500) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `changed_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `idx_rule_key_changed` (`rule_key`,`changed_at`),
+  KEY `idx_changed_at` (`changed_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+/*!40101 SET character_set_client = @saved_cs_client */;
+
+--
+-- Table structure for table `filter_rules`
+--
+
+DROP TABLE IF EXISTS `filter_rules`;
+/*!40101 SET @saved_cs_client     = @@character_set_client */;
+/*!50503 SET character_set_client = utf8mb4 */;
+CREATE TABLE `filter_rules` (
+  `rule_key` varchar(50) COLLATE utf8mb4_unicode_ci NOT NULL,
+  `value` json DEFAULT NULL,
+  `updated_by` varchar(100) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `updated_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`rule_key`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+/*!40101 SET character_set_client = @saved_cs_client */;
+
+--
+-- Table structure for table `image_blobs`
+--
+
+DROP TABLE IF EXISTS `image_blobs`;
+/*!40101 SET @saved_cs_client     = @@character_set_client */;
+/*!50503 SET character_set_client = utf8mb4 */;
+CREATE TABLE `image_blobs` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `sha256` char(64) COLLATE utf8mb4_unicode_ci NOT NULL,
+  `file_path` varchar(1000) COLLATE utf8mb4_unicode_ci NOT NULL,
+  `source_url` varchar(1000) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `mime_type` varchar(100) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `bytes` int DEFAULT NULL,
+  `variants` json DEFAULT NULL,
+  `ref_count` int NOT NULL DEFAULT '0',
+  `created_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `idx_sha256` (`sha256`),
+  KEY `idx_source_url` (`source_url`(255)),
+  KEY `idx_ref_count` (`ref_count`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+/*!40101 SET character_set_client = @saved_cs_client */;
+
 --
 -- Table structure for table `pending_images`
 --
@@ -26,13 +136,40 @@ CREATE TABLE `pending_images` (
   `id` int NOT NULL AUTO_INCREMENT,
   `vehicle_id` int NOT NULL,
   `image_url` varchar(1000) COLLATE utf8mb4_unicode_ci NOT NULL,
+  `status` enum('pending','dead') COLLATE utf8mb4_unicode_ci NOT NULL DEFAULT 'pending',
+  `attempts` int NOT NULL DEFAULT '0',
+  `last_error` text COLLATE utf8mb4_unicode_ci,
+  `last_attempt_at` timestamp NULL DEFAULT NULL,
+  `next_retry_at` timestamp NULL DEFAULT NULL,
   `created_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP,
   PRIMARY KEY (`id`),
   KEY `idx_vehicle_id` (`vehicle_id`),
+  KEY `idx_status_next_retry` (`status`,`next_retry_at`),
   CONSTRAINT `pending_images_ibfk_1` FOREIGN KEY (`vehicle_id`) REFERENCES `vehicles` (`id`) ON DELETE CASCADE
 ) ENGINE=InnoDB AUTO_INCREMENT=23120 DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 /*!40101 SET character_set_client = @saved_cs_client */;
 
+--
+-- Table structure for table `sync_locks`
+--
+
+DROP TABLE IF EXISTS `sync_locks`;
+/*!40101 SET @saved_cs_client     = @@character_set_client */;
+/*!50503 SET character_set_client = utf8mb4 */;
+CREATE TABLE `sync_locks` (
+  `name` varchar(50) COLLATE utf8mb4_unicode_ci NOT NULL,
+  `owner_id` varchar(36) COLLATE utf8mb4_unicode_ci NOT NULL,
+  `sync_log_id` int DEFAULT NULL,
+  `sync_type` varchar(20) COLLATE utf8mb4_unicode_ci NOT NULL,
+  `host` varchar(255) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `pid` int DEFAULT NULL,
+  `acquired_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP,
+  `heartbeat_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP,
+  `expires_at` timestamp NOT NULL,
+  PRIMARY KEY (`name`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+/*!40101 SET character_set_client = @saved_cs_client */;
+
 --
 -- Table structure for table `sync_logs`
 --
@@ -43,7 +180,7 @@ DROP TABLE IF EXISTS `sync_logs`;
 CREATE TABLE `sync_logs` (
   `id` int NOT NULL AUTO_INCREMENT,
   `sync_type` enum('full','incremental','manual') COLLATE utf8mb4_unicode_ci NOT NULL,
-  `status` enum('running','completed','failed') COLLATE utf8mb4_unicode_ci NOT NULL,
+  `status` enum('running','completed','failed','needs_review') COLLATE utf8mb4_unicode_ci NOT NULL,
   `vehicles_processed` int DEFAULT '0',
   `vehicles_created` int DEFAULT '0',
   `vehicles_updated` int DEFAULT '0',
@@ -81,6 +218,31 @@ CREATE TABLE `taxonomy_terms` (
 ) ENGINE=InnoDB AUTO_INCREMENT=211 DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 /*!40101 SET character_set_client = @saved_cs_client */;
 
+--
+-- Table structure for table `vehicle_events`
+--
+
+DROP TABLE IF EXISTS `vehicle_events`;
+/*!40101 SET @saved_cs_client     = @@character_set_client */;
+/*!50503 SET character_set_client = utf8mb4 */;
+CREATE TABLE `vehicle_events` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `vehicle_id` int NOT NULL,
+  `asofix_id` varchar(255) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `sync_log_id` int DEFAULT NULL,
+  `event_type` enum('created','updated','archived','reactivated','images_added','images_removed','override_set','override_removed') COLLATE utf8mb4_unicode_ci NOT NULL,
+  `changes` json DEFAULT NULL,
+  `filter_reason` varchar(100) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `message` varchar(1000) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `created_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `idx_vehicle_created` (`vehicle_id`,`created_at`),
+  KEY `idx_event_type` (`event_type`),
+  KEY `idx_sync_log_id` (`sync_log_id`),
+  CONSTRAINT `vehicle_events_ibfk_1` FOREIGN KEY (`vehicle_id`) REFERENCES `vehicles` (`id`) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+/*!40101 SET character_set_client = @saved_cs_client */;
+
 --
 -- Table structure for table `vehicle_images`
 --
@@ -93,16 +255,73 @@ CREATE TABLE `vehicle_images` (
   `vehicle_id` int NOT NULL,
   `image_url` varchar(1000) COLLATE utf8mb4_unicode_ci NOT NULL,
   `file_path` varchar(1000) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `variants` json DEFAULT NULL,
+  `blob_id` int DEFAULT NULL,
   `is_featured` tinyint(1) DEFAULT '0',
   `sort_order` int DEFAULT '0',
   `created_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP,
   PRIMARY KEY (`id`),
   KEY `idx_vehicle_id` (`vehicle_id`),
   KEY `idx_is_featured` (`is_featured`),
-  CONSTRAINT `vehicle_images_ibfk_1` FOREIGN KEY (`vehicle_id`) REFERENCES `vehicles` (`id`) ON DELETE CASCADE
+  KEY `idx_blob_id` (`blob_id`),
+  KEY `idx_image_url` (`image_url`(255)),
+  CONSTRAINT `vehicle_images_ibfk_1` FOREIGN KEY (`vehicle_id`) REFERENCES `vehicles` (`id`) ON DELETE CASCADE,
+  CONSTRAINT `vehicle_images_blob_fk` FOREIGN KEY (`blob_id`) REFERENCES `image_blobs` (`id`) ON DELETE SET NULL
 ) ENGINE=InnoDB AUTO_INCREMENT=7687 DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 /*!40101 SET character_set_client = @saved_cs_client */;
 
+--
+-- Table structure for table `vehicle_overrides`
+--
+
+DROP TABLE IF EXISTS `vehicle_overrides`;
+/*!40101 SET @saved_cs_client     = @@character_set_client */;
+/*!50503 SET character_set_client = utf8mb4 */;
+CREATE TABLE `vehicle_overrides` (
+  `vehicle_id` int NOT NULL,
+  `force_publish` tinyint(1) NOT NULL DEFAULT '0',
+  `force_hide` tinyint(1) NOT NULL DEFAULT '0',
+  `title` varchar(500) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `content` text COLLATE utf8mb4_unicode_ci,
+  `price_usd` decimal(15,2) DEFAULT NULL,
+  `price_ars` decimal(15,2) DEFAULT NULL,
+  `featured_image_id` int DEFAULT NULL,
+  `expires_at` timestamp NULL DEFAULT NULL,
+  `note` varchar(500) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `created_by` varchar(100) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `updated_by` varchar(100) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `created_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`vehicle_id`),
+  KEY `idx_expires_at` (`expires_at`),
+  KEY `fk_override_featured_image` (`featured_image_id`),
+  CONSTRAINT `vehicle_overrides_ibfk_1` FOREIGN KEY (`vehicle_id`) REFERENCES `vehicles` (`id`) ON DELETE CASCADE,
+  CONSTRAINT `fk_override_featured_image` FOREIGN KEY (`featured_image_id`) REFERENCES `vehicle_images` (`id`) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+/*!40101 SET character_set_client = @saved_cs_client */;
+
+--
+-- Table structure for table `vehicle_price_history`
+--
+
+DROP TABLE IF EXISTS `vehicle_price_history`;
+/*!40101 SET @saved_cs_client     = @@character_set_client */;
+/*!50503 SET character_set_client = utf8mb4 */;
+CREATE TABLE `vehicle_price_history` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `vehicle_id` int NOT NULL,
+  `price_usd` decimal(15,2) DEFAULT NULL,
+  `price_ars` decimal(15,2) DEFAULT NULL,
+  `list_price` decimal(15,2) DEFAULT NULL,
+  `currency_name` varchar(100) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `sync_log_id` int DEFAULT NULL,
+  `recorded_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `idx_vehicle_recorded` (`vehicle_id`,`recorded_at`),
+  CONSTRAINT `vehicle_price_history_ibfk_1` FOREIGN KEY (`vehicle_id`) REFERENCES `vehicles` (`id`) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+/*!40101 SET character_set_client = @saved_cs_client */;
+
 --
 -- Table structure for table `vehicle_taxonomies`
 --
@@ -136,14 +355,24 @@ DROP TABLE IF EXISTS `vehicles`;
 CREATE TABLE `vehicles` (
   `id` int NOT NULL AUTO_INCREMENT,
   `asofix_id` varchar(255) COLLATE utf8mb4_unicode_ci NOT NULL,
+  `source` varchar(100) COLLATE utf8mb4_unicode_ci NOT NULL DEFAULT 'asofix',
   `title` varchar(500) COLLATE utf8mb4_unicode_ci NOT NULL,
   `content` text COLLATE utf8mb4_unicode_ci,
   `status` enum('draft','published','archived') COLLATE utf8mb4_unicode_ci DEFAULT 'published',
+  `filter_reason` varchar(50) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
   `year` int DEFAULT NULL,
   `kilometres` int DEFAULT '0',
   `license_plate` varchar(50) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
   `price_usd` decimal(15,2) DEFAULT NULL,
   `price_ars` decimal(15,2) DEFAULT NULL,
+  `price_currency` enum('USD','ARS') COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `normalized_price_usd` decimal(15,2) DEFAULT NULL,
+  `normalized_price_ars` decimal(15,2) DEFAULT NULL,
+  `exchange_rate` decimal(15,4) DEFAULT NULL,
+  `exchange_rate_date` date DEFAULT NULL,
+  `previous_price_usd` decimal(15,2) DEFAULT NULL,
+  `previous_price_ars` decimal(15,2) DEFAULT NULL,
+  `price_changed_at` timestamp NULL DEFAULT NULL,
   `featured_image_id` int DEFAULT NULL,
   `created_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP,
   `updated_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
@@ -155,12 +384,17 @@ CREATE TABLE `vehicles` (
   UNIQUE KEY `asofix_id` (`asofix_id`),
   KEY `idx_asofix_id` (`asofix_id`),
   KEY `idx_status` (`status`),
+  KEY `idx_status_filter_reason` (`status`,`filter_reason`),
+  KEY `idx_source_status` (`source`,`status`),
   KEY `idx_year` (`year`),
   KEY `idx_price_usd` (`price_usd`),
   KEY `idx_price_ars` (`price_ars`),
   KEY `fk_featured_image` (`featured_image_id`),
   KEY `idx_last_synced_at` (`last_synced_at`),
   KEY `idx_version_hash` (`version_hash`),
+  KEY `idx_price_changed_at` (`price_changed_at`),
+  KEY `idx_normalized_price_usd` (`normalized_price_usd`),
+  KEY `idx_normalized_price_ars` (`normalized_price_ars`),
   CONSTRAINT `fk_featured_image` FOREIGN KEY (`featured_image_id`) REFERENCES `vehicle_images` (`id`) ON DELETE SET NULL
 ) ENGINE=InnoDB AUTO_INCREMENT=405 DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 /*!40101 SET character_set_client = @saved_cs_client */;
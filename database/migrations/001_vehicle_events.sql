@@ -0,0 +1,19 @@
+-- Historial de cambios por vehículo (alimentado por SyncService.processVehicle)
+-- Expuesto en GET /internal/vehicles/:id/history
+
+CREATE TABLE IF NOT EXISTS `vehicle_events` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `vehicle_id` int NOT NULL,
+  `asofix_id` varchar(255) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `sync_log_id` int DEFAULT NULL,
+  `event_type` enum('created','updated','archived','reactivated','images_added','images_removed') COLLATE utf8mb4_unicode_ci NOT NULL,
+  `changes` json DEFAULT NULL,
+  `filter_reason` varchar(100) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `message` varchar(1000) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `created_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `idx_vehicle_created` (`vehicle_id`,`created_at`),
+  KEY `idx_event_type` (`event_type`),
+  KEY `idx_sync_log_id` (`sync_log_id`),
+  CONSTRAINT `vehicle_events_ibfk_1` FOREIGN KEY (`vehicle_id`) REFERENCES `vehicles` (`id`) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,28 @@
+-- Historial de precios por vehículo y detección de bajas de precio
+-- Alimentado por SyncService.setVehicleMetadata, expuesto en GET /autos/:id/price-history
+
+CREATE TABLE IF NOT EXISTS `vehicle_price_history` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `vehicle_id` int NOT NULL,
+  `price_usd` decimal(15,2) DEFAULT NULL,
+  `price_ars` decimal(15,2) DEFAULT NULL,
+  `list_price` decimal(15,2) DEFAULT NULL,
+  `currency_name` varchar(100) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `sync_log_id` int DEFAULT NULL,
+  `recorded_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `idx_vehicle_recorded` (`vehicle_id`,`recorded_at`),
+  CONSTRAINT `vehicle_price_history_ibfk_1` FOREIGN KEY (`vehicle_id`) REFERENCES `vehicles` (`id`) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+ALTER TABLE `vehicles`
+  ADD COLUMN `previous_price_usd` decimal(15,2) DEFAULT NULL AFTER `price_ars`,
+  ADD COLUMN `previous_price_ars` decimal(15,2) DEFAULT NULL AFTER `previous_price_usd`,
+  ADD COLUMN `price_changed_at` timestamp NULL DEFAULT NULL AFTER `previous_price_ars`,
+  ADD KEY `idx_price_changed_at` (`price_changed_at`);
+
+-- Precio actual de cada vehículo como punto de partida del historial
+INSERT INTO `vehicle_price_history` (`vehicle_id`, `price_usd`, `price_ars`)
+SELECT `id`, `price_usd`, `price_ars`
+FROM `vehicles`
+WHERE `price_usd` IS NOT NULL OR `price_ars` IS NOT NULL;
@@ -0,0 +1,15 @@
+-- Lock de sincronización compartido entre procesos (API, cron y scripts)
+-- Una fila por lock; el dueño renueva expires_at con un heartbeat (SyncLock)
+
+CREATE TABLE IF NOT EXISTS `sync_locks` (
+  `name` varchar(50) COLLATE utf8mb4_unicode_ci NOT NULL,
+  `owner_id` varchar(36) COLLATE utf8mb4_unicode_ci NOT NULL,
+  `sync_log_id` int DEFAULT NULL,
+  `sync_type` varchar(20) COLLATE utf8mb4_unicode_ci NOT NULL,
+  `host` varchar(255) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `pid` int DEFAULT NULL,
+  `acquired_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP,
+  `heartbeat_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP,
+  `expires_at` timestamp NOT NULL,
+  PRIMARY KEY (`name`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,10 @@
+-- Reintentos de descarga de imágenes: intentos, último error, próximo reintento y dead-letter
+-- Usado por SyncService.downloadAllImages y GET /sync/images/pending
+
+ALTER TABLE `pending_images`
+  ADD COLUMN `status` enum('pending','dead') COLLATE utf8mb4_unicode_ci NOT NULL DEFAULT 'pending' AFTER `image_url`,
+  ADD COLUMN `attempts` int NOT NULL DEFAULT '0' AFTER `status`,
+  ADD COLUMN `last_error` text COLLATE utf8mb4_unicode_ci AFTER `attempts`,
+  ADD COLUMN `last_attempt_at` timestamp NULL DEFAULT NULL AFTER `last_error`,
+  ADD COLUMN `next_retry_at` timestamp NULL DEFAULT NULL AFTER `last_attempt_at`,
+  ADD KEY `idx_status_next_retry` (`status`,`next_retry_at`);
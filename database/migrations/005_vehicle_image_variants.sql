@@ -0,0 +1,5 @@
+-- Variantes redimensionadas de cada imagen (thumbnail, card, full en WebP y JPEG)
+-- Rutas relativas a IMAGES_PATH; las imágenes existentes se completan con `npm run images:variants`
+
+ALTER TABLE `vehicle_images`
+  ADD COLUMN `variants` json DEFAULT NULL AFTER `file_path`;
@@ -0,0 +1,27 @@
+-- Almacenamiento de imágenes direccionado por contenido (SHA-256)
+-- Cada archivo se guarda una sola vez en IMAGES_PATH/blobs/<aa>/<bb>/<sha256>.<ext>
+-- y vehicle_images lo referencia por blob_id; ref_count cuenta esas referencias.
+-- Las filas existentes quedan con blob_id NULL y conservan su file_path original.
+
+CREATE TABLE IF NOT EXISTS `image_blobs` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `sha256` char(64) COLLATE utf8mb4_unicode_ci NOT NULL,
+  `file_path` varchar(1000) COLLATE utf8mb4_unicode_ci NOT NULL,
+  `source_url` varchar(1000) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `mime_type` varchar(100) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `bytes` int DEFAULT NULL,
+  `variants` json DEFAULT NULL,
+  `ref_count` int NOT NULL DEFAULT '0',
+  `created_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `idx_sha256` (`sha256`),
+  KEY `idx_source_url` (`source_url`(255)),
+  KEY `idx_ref_count` (`ref_count`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+ALTER TABLE `vehicle_images`
+  ADD COLUMN `blob_id` int DEFAULT NULL AFTER `variants`,
+  ADD KEY `idx_blob_id` (`blob_id`),
+  ADD KEY `idx_image_url` (`image_url`(255)),
+  ADD CONSTRAINT `vehicle_images_blob_fk` FOREIGN KEY (`blob_id`) REFERENCES `image_blobs` (`id`) ON DELETE SET NULL;
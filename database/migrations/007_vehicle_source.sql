@@ -0,0 +1,6 @@
+-- Fuente de inventario de cada vehículo ('asofix' o el nombre de una planilla de stock)
+-- La limpieza global y la reactivación solo consideran los vehículos de la fuente sincronizada
+
+ALTER TABLE `vehicles`
+  ADD COLUMN `source` varchar(100) COLLATE utf8mb4_unicode_ci NOT NULL DEFAULT 'asofix' AFTER `asofix_id`,
+  ADD KEY `idx_source_status` (`source`, `status`);
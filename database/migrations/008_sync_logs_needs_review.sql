@@ -0,0 +1,6 @@
+-- Estado 'needs_review': la limpieza global quiso archivar más vehículos que los umbrales
+-- SYNC_ARCHIVE_MAX_COUNT / SYNC_ARCHIVE_MAX_PERCENT y no archivó nada
+-- El set retenido se guarda en sync_logs.metadata.archive_review hasta aprobarlo o descartarlo
+
+ALTER TABLE `sync_logs`
+  MODIFY COLUMN `status` enum('running','completed','failed','needs_review') COLLATE utf8mb4_unicode_ci NOT NULL;
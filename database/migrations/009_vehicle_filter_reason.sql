@@ -0,0 +1,15 @@
+-- Código de motivo de archivado en su propia columna (antes solo en additional_data.filter_reason)
+-- Valores: FILTER_REASON_CODES de src/services/vehicle-filters.ts; NULL si el vehículo está publicado
+
+ALTER TABLE `vehicles`
+  ADD COLUMN `filter_reason` varchar(50) COLLATE utf8mb4_unicode_ci DEFAULT NULL AFTER `status`,
+  ADD KEY `idx_status_filter_reason` (`status`, `filter_reason`);
+
+-- Backfill de los vehículos archivados ('dakota_location' pasó a llamarse 'blocked_branch_office')
+UPDATE `vehicles`
+SET `filter_reason` = CASE JSON_UNQUOTE(JSON_EXTRACT(`additional_data`, '$.filter_reason'))
+    WHEN 'dakota_location' THEN 'blocked_branch_office'
+    ELSE LEFT(JSON_UNQUOTE(JSON_EXTRACT(`additional_data`, '$.filter_reason')), 50)
+  END
+WHERE `status` = 'archived'
+  AND JSON_EXTRACT(`additional_data`, '$.filter_reason') IS NOT NULL;
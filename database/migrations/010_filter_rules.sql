@@ -0,0 +1,27 @@
+-- Reglas de filtrado editables desde PUT /internal/filters (FilterRules)
+-- Una fila por regla; las que no tienen fila usan el valor de las variables de entorno (src/config/filters.ts)
+
+CREATE TABLE IF NOT EXISTS `filter_rules` (
+  `rule_key` varchar(50) COLLATE utf8mb4_unicode_ci NOT NULL,
+  `value` json DEFAULT NULL,
+  `updated_by` varchar(100) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `updated_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`rule_key`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Auditoría de cambios: quién cambió qué regla, valor anterior y nuevo
+-- new_value NULL con is_reset = 1 significa que la regla volvió al valor de entorno
+
+CREATE TABLE IF NOT EXISTS `filter_rule_changes` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `rule_key` varchar(50) COLLATE utf8mb4_unicode_ci NOT NULL,
+  `old_value` json DEFAULT NULL,
+  `new_value` json DEFAULT NULL,
+  `is_reset` tinyint(1) NOT NULL DEFAULT '0',
+  `changed_by` varchar(100) COLLATE utf8mb4_unicode_ci NOT NULL,
+  `comment` varchar(500) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `changed_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `idx_rule_key_changed` (`rule_key`,`changed_at`),
+  KEY `idx_changed_at` (`changed_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
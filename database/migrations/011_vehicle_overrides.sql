@@ -0,0 +1,40 @@
+-- Overrides manuales por vehículo, administrados desde /internal/overrides (VehicleOverrides)
+-- La sync sigue escribiendo los valores de la fuente en vehicles; los endpoints públicos y los feeds
+-- leen los valores efectivos (override vigente sobre vehicles). expires_at NULL = sin vencimiento
+
+CREATE TABLE IF NOT EXISTS `vehicle_overrides` (
+  `vehicle_id` int NOT NULL,
+  `force_publish` tinyint(1) NOT NULL DEFAULT '0',
+  `force_hide` tinyint(1) NOT NULL DEFAULT '0',
+  `title` varchar(500) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `content` text COLLATE utf8mb4_unicode_ci,
+  `price_usd` decimal(15,2) DEFAULT NULL,
+  `price_ars` decimal(15,2) DEFAULT NULL,
+  `featured_image_id` int DEFAULT NULL,
+  `expires_at` timestamp NULL DEFAULT NULL,
+  `note` varchar(500) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `created_by` varchar(100) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `updated_by` varchar(100) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `created_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`vehicle_id`),
+  KEY `idx_expires_at` (`expires_at`),
+  KEY `fk_override_featured_image` (`featured_image_id`),
+  CONSTRAINT `vehicle_overrides_ibfk_1` FOREIGN KEY (`vehicle_id`) REFERENCES `vehicles` (`id`) ON DELETE CASCADE,
+  CONSTRAINT `fk_override_featured_image` FOREIGN KEY (`featured_image_id`) REFERENCES `vehicle_images` (`id`) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Los cambios de overrides quedan en el historial del vehículo
+ALTER TABLE `vehicle_events`
+  MODIFY COLUMN `event_type` enum('created','updated','archived','reactivated','images_added','images_removed','override_set','override_removed') COLLATE utf8mb4_unicode_ci NOT NULL;
+
+-- El flag keep_published de additional_data pasa a ser un override force_publish
+INSERT INTO `vehicle_overrides` (`vehicle_id`, `force_publish`, `note`, `created_by`, `updated_by`)
+SELECT `id`, 1, 'Migrado desde additional_data.keep_published', 'migration', 'migration'
+FROM `vehicles`
+WHERE JSON_EXTRACT(`additional_data`, '$.keep_published') = true
+ON DUPLICATE KEY UPDATE `force_publish` = 1;
+
+UPDATE `vehicles`
+SET `additional_data` = JSON_REMOVE(`additional_data`, '$.keep_published')
+WHERE JSON_EXTRACT(`additional_data`, '$.keep_published') IS NOT NULL;
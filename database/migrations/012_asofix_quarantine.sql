@@ -0,0 +1,22 @@
+-- Vehículos de ASOFIX que no pasaron la validación de esquema (AsofixSchema)
+-- No se importan ni se archivan: quedan acá con el motivo hasta que la fuente los envíe bien
+-- quarantine_key = asofix_id, o sha1 del payload si el vehículo llegó sin id
+
+CREATE TABLE IF NOT EXISTS `asofix_quarantine` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `source` varchar(100) COLLATE utf8mb4_unicode_ci NOT NULL DEFAULT 'asofix',
+  `quarantine_key` varchar(255) COLLATE utf8mb4_unicode_ci NOT NULL,
+  `asofix_id` varchar(255) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `license_plate` varchar(50) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `reasons` json NOT NULL,
+  `payload` json NOT NULL,
+  `sync_log_id` int DEFAULT NULL,
+  `times_seen` int NOT NULL DEFAULT '1',
+  `first_seen_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP,
+  `last_seen_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP,
+  `released_at` timestamp NULL DEFAULT NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uk_source_key` (`source`,`quarantine_key`),
+  KEY `idx_asofix_id` (`asofix_id`),
+  KEY `idx_released_at` (`released_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
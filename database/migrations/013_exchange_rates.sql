@@ -0,0 +1,35 @@
+-- Tipo de cambio USD/ARS para normalizar precios (ExchangeRates)
+-- Una fila por fecha; se carga desde PUT /internal/exchange-rates o desde un archivo local
+-- (EXCHANGE_RATES_FILE / npm run exchange-rates:load). Vale el de fecha más reciente <= hoy
+
+CREATE TABLE IF NOT EXISTS `exchange_rates` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `rate_date` date NOT NULL,
+  `ars_per_usd` decimal(15,4) NOT NULL,
+  `source` enum('admin','file') COLLATE utf8mb4_unicode_ci NOT NULL DEFAULT 'admin',
+  `updated_by` varchar(100) COLLATE utf8mb4_unicode_ci DEFAULT NULL,
+  `created_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uk_rate_date` (`rate_date`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Moneda explícita del precio publicado (price_usd / price_ars siguen siendo el precio de lista)
+-- y precio normalizado en ambas monedas con el tipo de cambio y la fecha usados
+ALTER TABLE `vehicles`
+  ADD COLUMN `price_currency` enum('USD','ARS') COLLATE utf8mb4_unicode_ci DEFAULT NULL AFTER `price_ars`,
+  ADD COLUMN `normalized_price_usd` decimal(15,2) DEFAULT NULL AFTER `price_currency`,
+  ADD COLUMN `normalized_price_ars` decimal(15,2) DEFAULT NULL AFTER `normalized_price_usd`,
+  ADD COLUMN `exchange_rate` decimal(15,4) DEFAULT NULL AFTER `normalized_price_ars`,
+  ADD COLUMN `exchange_rate_date` date DEFAULT NULL AFTER `exchange_rate`,
+  ADD KEY `idx_normalized_price_usd` (`normalized_price_usd`),
+  ADD KEY `idx_normalized_price_ars` (`normalized_price_ars`);
+
+-- Backfill: la moneda que ya tiene cada vehículo; la conversión se completa al cargar un tipo
+-- de cambio (ExchangeRates.renormalize) y la próxima sincronización corrige la moneda con currency_name
+UPDATE `vehicles`
+SET `price_currency` = IF(`price_usd` IS NOT NULL, 'USD', 'ARS'),
+    `normalized_price_usd` = `price_usd`,
+    `normalized_price_ars` = `price_ars`,
+    `updated_at` = `updated_at`
+WHERE `price_usd` IS NOT NULL OR `price_ars` IS NOT NULL;
@@ -1,4 +1,4 @@
-import mysql from 'mysql2/promise';
+import mysql, { Pool, PoolConnection } from 'mysql2/promise';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -14,5 +14,10 @@ const pool = mysql.createPool({
   queueLimit: 0
 });
 
+/**
+ * Pool o conexión dedicada (para ejecutar dentro de una transacción)
+ */
+export type DbConnection = Pool | PoolConnection;
+
 export default pool;
 
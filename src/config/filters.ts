@@ -1,44 +1,78 @@
 /**
  * Configuración de filtros obligatorios para vehículos
  * Estos filtros se aplican automáticamente en todos los endpoints públicos
+ * Las variables de entorno son los valores por defecto: cada regla se puede pisar
+ * desde PUT /internal/filters (tabla filter_rules, ver FilterRules)
  */
 
+/**
+ * Precio mínimo por moneda; se combina con minPrice (se usa el mayor de los dos)
+ */
+export interface CurrencyPriceFloors {
+  USD: number;
+  ARS: number;
+}
+
 export interface FilterConfig {
   blockedBranchOffices: string[];
   minPrice: number;
+  minPriceByCurrency: CurrencyPriceFloors;
   blockedStatuses: string[];
   requireImages: boolean;
+  blockedBrands: string[];
+  minYear: number | null;
+  maxYear: number | null;
+  maxKilometres: number | null;
 }
 
 /**
- * Carga la configuración de filtros desde variables de entorno
+ * Lista separada por comas, normalizada a minúsculas
  */
-export function loadFilterConfig(): FilterConfig {
-  const blockedStr = process.env.BLOCKED_BRANCH_OFFICES || 'Dakota';
-  const blockedBranchOffices = blockedStr
+function parseList(value: string): string[] {
+  return value
     .split(',')
-    .map(office => office.trim().toLowerCase())
-    .filter(office => office.length > 0);
+    .map(item => item.trim().toLowerCase())
+    .filter(item => item.length > 0);
+}
 
-  const minPrice = parseFloat(process.env.MIN_PRICE || '1');
-  const blockedStatusesStr = process.env.BLOCKED_STATUSES || 'reservado';
-  const blockedStatuses = blockedStatusesStr
-    .split(',')
-    .map(status => status.trim().toLowerCase())
-    .filter(status => status.length > 0);
+/**
+ * Entero opcional: vacío o inválido = sin límite
+ */
+function parseOptionalInt(value: string | undefined): number | null {
+  if (!value) return null;
+  const num = parseInt(value, 10);
+  return isNaN(num) ? null : num;
+}
 
+/**
+ * Carga la configuración de filtros desde variables de entorno
+ */
+export function loadFilterConfig(): FilterConfig {
+  const blockedBranchOffices = parseList(process.env.BLOCKED_BRANCH_OFFICES || 'Dakota');
+  const minPrice = parseFloat(process.env.MIN_PRICE || '1');
+  const minPriceByCurrency: CurrencyPriceFloors = {
+    USD: parseFloat(process.env.MIN_PRICE_USD || '0') || 0,
+    ARS: parseFloat(process.env.MIN_PRICE_ARS || '0') || 0
+  };
+  const blockedStatuses = parseList(process.env.BLOCKED_STATUSES || 'reservado');
   const requireImages = process.env.REQUIRE_IMAGES !== 'false';
+  const blockedBrands = parseList(process.env.BLOCKED_BRANDS || '');
 
   return {
     blockedBranchOffices,
     minPrice,
+    minPriceByCurrency,
     blockedStatuses,
-    requireImages
+    requireImages,
+    blockedBrands,
+    minYear: parseOptionalInt(process.env.MIN_YEAR),
+    maxYear: parseOptionalInt(process.env.MAX_YEAR),
+    maxKilometres: parseOptionalInt(process.env.MAX_KILOMETRES)
   };
 }
 
 /**
- * Configuración global de filtros
+ * Configuración de filtros de las variables de entorno (sin las reglas guardadas en BD)
+ * Para la configuración vigente usar FilterRules.current() / FilterRules.getConfig()
  */
 export const filterConfig = loadFilterConfig();
-
@@ -0,0 +1,120 @@
+/**
+ * Schedules de sincronización automática
+ * Cada schedule corre la Fase 1 de datos (1.1 y 1.2) y agrega los pasos que tenga configurados:
+ * - reactivation: Fase 1.3, revisión de vehículos archivados/omitidos para reactivarlos
+ * - cleanup: limpieza global patente por patente (la más cara)
+ * - images: Fase 2, descarga de imágenes pendientes
+ *
+ * Por defecto:
+ * - light: cada 15 minutos, solo datos (deshabilitado)
+ * - hourly: cada hora, datos + imágenes (SYNC_CRON_SCHEDULE sigue valiendo como su expresión)
+ * - nightly: 3:30 (fuera del minuto 0 para no chocar con hourly), sincronización completa con reactivación y limpieza
+ *
+ * Cada uno se ajusta con SYNC_SCHEDULE_<NOMBRE>_CRON, _ENABLED y _STEPS (lista separada por comas),
+ * o se reemplaza la lista entera con SYNC_SCHEDULES (JSON con el formato de SyncScheduleConfig).
+ */
+
+export const SYNC_SCHEDULE_STEPS = ['reactivation', 'cleanup', 'images'] as const;
+export type SyncScheduleStep = typeof SYNC_SCHEDULE_STEPS[number];
+
+export interface SyncScheduleConfig {
+  name: string;
+  description: string;
+  cron: string;
+  enabled: boolean;
+  /**
+   * false = sync_type 'full' (sin filtrar por fecha de actualización en ASOFIX)
+   */
+  incremental: boolean;
+  steps: SyncScheduleStep[];
+}
+
+/**
+ * Schedules por defecto (función: SYNC_CRON_SCHEDULE se lee al cargar, no al importar)
+ */
+function defaultSchedules(): SyncScheduleConfig[] {
+  return [
+    {
+      name: 'light',
+      description: 'Solo datos de vehículos, sin imágenes ni limpieza',
+      cron: '*/15 * * * *',
+      enabled: false,
+      incremental: true,
+      steps: []
+    },
+    {
+      name: 'hourly',
+      description: 'Datos de vehículos e imágenes',
+      cron: process.env.SYNC_CRON_SCHEDULE || '0 * * * *',
+      enabled: true,
+      incremental: true,
+      steps: ['images']
+    },
+    {
+      name: 'nightly',
+      description: 'Sincronización completa con reactivación y limpieza global',
+      cron: '30 3 * * *',
+      enabled: true,
+      incremental: false,
+      steps: ['reactivation', 'cleanup', 'images']
+    }
+  ];
+}
+
+/**
+ * Lista separada por comas, solo con pasos conocidos
+ */
+function parseSteps(value: string): SyncScheduleStep[] {
+  return value
+    .split(',')
+    .map(item => item.trim().toLowerCase())
+    .filter((item): item is SyncScheduleStep => (SYNC_SCHEDULE_STEPS as readonly string[]).includes(item));
+}
+
+/**
+ * Aplica las variables SYNC_SCHEDULE_<NOMBRE>_* sobre un schedule
+ */
+function applyEnvOverrides(schedule: SyncScheduleConfig): SyncScheduleConfig {
+  const prefix = `SYNC_SCHEDULE_${schedule.name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+  const cron = process.env[`${prefix}_CRON`];
+  const enabled = process.env[`${prefix}_ENABLED`];
+  const steps = process.env[`${prefix}_STEPS`];
+
+  return {
+    ...schedule,
+    cron: cron || schedule.cron,
+    enabled: enabled !== undefined ? enabled === 'true' : schedule.enabled,
+    steps: steps !== undefined ? parseSteps(steps) : schedule.steps
+  };
+}
+
+/**
+ * Carga los schedules desde variables de entorno
+ * @throws Error si SYNC_SCHEDULES no es un JSON válido
+ */
+export function loadSyncSchedules(): SyncScheduleConfig[] {
+  let schedules = defaultSchedules();
+
+  if (process.env.SYNC_SCHEDULES) {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(process.env.SYNC_SCHEDULES);
+    } catch (error: any) {
+      throw new Error(`SYNC_SCHEDULES no es un JSON válido: ${error.message}`);
+    }
+    if (!Array.isArray(parsed)) {
+      throw new Error('SYNC_SCHEDULES debe ser un array de schedules');
+    }
+
+    schedules = parsed.map((item: any): SyncScheduleConfig => ({
+      name: String(item.name || '').trim(),
+      description: item.description ? String(item.description) : '',
+      cron: String(item.cron || '').trim(),
+      enabled: item.enabled !== false,
+      incremental: item.incremental !== false,
+      steps: Array.isArray(item.steps) ? parseSteps(item.steps.join(',')) : []
+    }));
+  }
+
+  return schedules.map(applyEnvOverrides);
+}
@@ -1,15 +1,85 @@
 import { Request, Response } from 'express';
-import asofixApi from '../services/asofix-api';
 import logger from '../services/logger';
+import { AsofixSnapshot } from '../services/asofix-snapshot';
 
 /**
  * Controlador para endpoints que interactúan directamente con la API de Asofix
  * Estos endpoints NO interactúan con la base de datos
+ * Las búsquedas usan el snapshot en memoria del catálogo (se refresca según ASOFIX_SNAPSHOT_TTL_SECONDS
+ * o con ?refresh=true)
  */
 export class AsofixController {
+  /**
+   * Obtiene el snapshot vigente (o fuerza uno nuevo con ?refresh=true)
+   */
+  private static getSnapshot(req: Request): Promise<AsofixSnapshot> {
+    return req.query.refresh === 'true' ? AsofixSnapshot.refresh() : AsofixSnapshot.get();
+  }
+
+  /**
+   * Datos del snapshot usado para responder
+   */
+  private static snapshotInfo(snapshot: AsofixSnapshot) {
+    return {
+      built_at: snapshot.builtAt,
+      age_seconds: snapshot.ageSeconds,
+      vehicles: snapshot.size
+    };
+  }
+
+  /**
+   * GET /asofix/vehicle/id/:id
+   * Busca un vehículo por su id de Asofix
+   * No interactúa con la base de datos
+   */
+  static async getVehicleById(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      if (!id || id.trim().length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'El parámetro id es requerido'
+        });
+      }
+
+      const snapshot = await AsofixController.getSnapshot(req);
+      const vehicle = snapshot.findById(id.trim());
+
+      if (!vehicle) {
+        return res.status(404).json({
+          success: false,
+          message: `No se encontró ningún vehículo con id: ${id}`,
+          snapshot: AsofixController.snapshotInfo(snapshot)
+        });
+      }
+
+      res.json({
+        success: true,
+        data: vehicle,
+        snapshot: AsofixController.snapshotInfo(snapshot)
+      });
+    } catch (error: any) {
+      logger.error(`Error en GET /asofix/vehicle/id/:id: ${error.message}`);
+
+      // Si es un error de API Key, devolver un mensaje más claro
+      if (error.message?.includes('API Key')) {
+        return res.status(500).json({
+          success: false,
+          message: 'Error de configuración: La API Key de Asofix no está configurada correctamente'
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Error al buscar vehículo en la API de Asofix'
+      });
+    }
+  }
+
   /**
    * GET /asofix/vehicle/:license_plate
-   * Busca un vehículo por license_plate directamente en la API de Asofix
+   * Busca un vehículo por license_plate (normalizada) en el snapshot del catálogo de Asofix
    * No interactúa con la base de datos
    */
   static async getVehicleByLicensePlate(req: Request, res: Response) {
@@ -25,12 +95,14 @@ export class AsofixController {
 
       logger.info(`Buscando vehículo en Asofix con license_plate: ${license_plate}`);
 
-      const vehicle = await asofixApi.getVehicleByLicensePlate(license_plate);
+      const snapshot = await AsofixController.getSnapshot(req);
+      const vehicle = snapshot.findByLicensePlate(license_plate);
 
       if (!vehicle) {
         return res.status(404).json({
           success: false,
-          message: `No se encontró ningún vehículo con license_plate: ${license_plate}`
+          message: `No se encontró ningún vehículo con license_plate: ${license_plate}`,
+          snapshot: AsofixController.snapshotInfo(snapshot)
         });
       }
 
@@ -38,7 +110,8 @@ export class AsofixController {
 
       res.json({
         success: true,
-        data: vehicle
+        data: vehicle,
+        snapshot: AsofixController.snapshotInfo(snapshot)
       });
     } catch (error: any) {
       logger.error(`Error en GET /asofix/vehicle/:license_plate: ${error.message}`);
@@ -61,7 +134,7 @@ export class AsofixController {
 
   /**
    * GET /asofix/vehicle/origin/:origin
-   * Busca un vehículo por origin directamente en la API de Asofix
+   * Busca un vehículo por origin en el snapshot del catálogo de Asofix
    * No interactúa con la base de datos
    */
   static async getVehicleByOrigin(req: Request, res: Response) {
@@ -77,12 +150,14 @@ export class AsofixController {
 
       logger.info(`Buscando vehículo en Asofix con origin: ${origin}`);
 
-      const vehicle = await asofixApi.getVehicleByOrigin(origin);
+      const snapshot = await AsofixController.getSnapshot(req);
+      const vehicle = snapshot.findByOrigin(origin);
 
       if (!vehicle) {
         return res.status(404).json({
           success: false,
-          message: `No se encontró ningún vehículo con origin: ${origin}`
+          message: `No se encontró ningún vehículo con origin: ${origin}`,
+          snapshot: AsofixController.snapshotInfo(snapshot)
         });
       }
 
@@ -90,7 +165,8 @@ export class AsofixController {
 
       res.json({
         success: true,
-        data: vehicle
+        data: vehicle,
+        snapshot: AsofixController.snapshotInfo(snapshot)
       });
     } catch (error: any) {
       logger.error(`Error en GET /asofix/vehicle/origin/:origin: ${error.message}`);
@@ -1,6 +1,11 @@
 import { Request, Response } from 'express';
+import pool from '../config/database';
 import auditService from '../services/audit.service';
 import logger from '../services/logger';
+import { VehicleEvents } from '../services/vehicle-events';
+import { FILTER_REASON_CODES } from '../services/vehicle-filters';
+import { SyncLogger } from '../services/sync-logger';
+import { AsofixQuarantine } from '../services/asofix-quarantine';
 
 export class AuditController {
   /**
@@ -40,5 +45,166 @@ export class AuditController {
       });
     }
   }
-}
 
+  /**
+   * GET /internal/vehicles/filtered
+   * Vehículos archivados agrupados por código de motivo (min_price, blocked_branch_office, ...)
+   *
+   * Query params:
+   * - reason: código de motivo a listar (ver FILTER_REASON_CODES)
+   * - limit: cantidad máxima de vehículos a listar (default 500, máximo 5000)
+   */
+  static async getFilteredVehicles(req: Request, res: Response): Promise<void> {
+    try {
+      const reason = req.query.reason ? String(req.query.reason) : undefined;
+      const limit = Math.min(Number(req.query.limit) || 500, 5000);
+
+      const result = await auditService.getFilteredVehicles(reason, limit);
+
+      res.json({
+        success: true,
+        data: {
+          reason_codes: FILTER_REASON_CODES,
+          by_reason: result.byReason,
+          total_archived: result.totalArchived,
+          reason: reason || null,
+          total: result.vehicles.length,
+          vehicles: result.vehicles,
+          generated_at: result.generatedAt
+        }
+      });
+    } catch (error: any) {
+      logger.error(`Error al obtener vehículos filtrados: ${error.message}`, {
+        stack: error.stack
+      });
+      res.status(500).json({
+        success: false,
+        message: 'Error al obtener vehículos filtrados',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * GET /internal/vehicles/:id/history
+   * Obtiene el historial de cambios de un vehículo (creado, actualizado, archivado, reactivado, imágenes)
+   * Acepta ID numérico o asofix_id, sin aplicar filtros (incluye vehículos archivados)
+   *
+   * Query params:
+   * - limit: cantidad máxima de eventos (default 200, máximo 1000)
+   */
+  static async getVehicleHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const limit = Math.min(Number(req.query.limit) || 200, 1000);
+
+      const numericId = Number(id);
+      const isNumericId = !isNaN(numericId) && isFinite(numericId);
+
+      const [vehicles] = await pool.execute<any[]>(
+        `SELECT id, asofix_id, title, status, filter_reason, license_plate, additional_data, updated_at
+         FROM vehicles
+         WHERE id = ? OR asofix_id = ?
+         LIMIT 1`,
+        [isNumericId ? numericId : null, String(id)]
+      );
+
+      if (vehicles.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Vehículo no encontrado'
+        });
+        return;
+      }
+
+      const vehicle = vehicles[0];
+      const events = await VehicleEvents.getHistory(vehicle.id, limit);
+
+      let additionalData: any = {};
+      try {
+        additionalData = typeof vehicle.additional_data === 'string'
+          ? JSON.parse(vehicle.additional_data)
+          : (vehicle.additional_data || {});
+      } catch (e) {
+        additionalData = {};
+      }
+
+      res.json({
+        success: true,
+        data: {
+          vehicle: {
+            id: vehicle.id,
+            asofix_id: vehicle.asofix_id,
+            title: vehicle.title,
+            status: vehicle.status,
+            license_plate: vehicle.license_plate,
+            filter_reason: vehicle.filter_reason || additionalData.filter_reason || null,
+            updated_at: vehicle.updated_at
+          },
+          total: events.length,
+          events
+        }
+      });
+    } catch (error: any) {
+      logger.error(`Error al obtener historial del vehículo: ${error.message}`, {
+        stack: error.stack
+      });
+      res.status(500).json({
+        success: false,
+        message: 'Error al obtener historial del vehículo',
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * GET /internal/asofix/schema-drift
+   * Drift del esquema de ASOFIX por sincronización (campos nuevos, faltantes y cambios de tipo)
+   * y vehículos en cuarentena por no pasar la validación
+   *
+   * Query params:
+   * - limit: cantidad de sincronizaciones (default 10, máximo 100)
+   * - include_released: true para listar también los vehículos ya liberados de la cuarentena
+   */
+  static async getSchemaDrift(req: Request, res: Response): Promise<void> {
+    try {
+      const limit = Math.min(Math.max(Number(req.query.limit) || 10, 1), 100);
+      const includeReleased = req.query.include_released === 'true';
+
+      const reports = await SyncLogger.getSchemaDriftReports(limit);
+      const quarantine = await AsofixQuarantine.list({ includeReleased, limit: 500 });
+
+      res.json({
+        success: true,
+        data: {
+          latest: reports[0] || null,
+          history: reports.map(entry => ({
+            sync_log_id: entry.sync_log_id,
+            sync_type: entry.sync_type,
+            status: entry.status,
+            started_at: entry.started_at,
+            source: entry.report.source,
+            vehicles_checked: entry.report.vehicles_checked,
+            vehicles_quarantined: entry.report.vehicles_quarantined,
+            unknown_fields: entry.report.unknown_fields.map(field => field.path),
+            missing_fields: entry.report.missing_fields.map(field => field.path),
+            type_changes: entry.report.type_changes.map(field => field.path)
+          })),
+          quarantine: {
+            total: quarantine.length,
+            vehicles: quarantine
+          }
+        }
+      });
+    } catch (error: any) {
+      logger.error(`Error al obtener drift de esquema de ASOFIX: ${error.message}`, {
+        stack: error.stack
+      });
+      res.status(500).json({
+        success: false,
+        message: 'Error al obtener drift de esquema de ASOFIX',
+        error: error.message
+      });
+    }
+  }
+}
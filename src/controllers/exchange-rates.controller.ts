@@ -0,0 +1,69 @@
+import { Request, Response } from 'express';
+import logger from '../services/logger';
+import { AdminAuth } from '../services/admin-auth';
+import { ExchangeRates, ExchangeRateValidationError } from '../services/exchange-rates';
+
+/**
+ * Controlador del tipo de cambio USD/ARS (/internal/exchange-rates)
+ */
+export class ExchangeRatesController {
+  /**
+   * GET /internal/exchange-rates
+   * Tipo de cambio vigente y últimos cargados
+   *
+   * Query params:
+   * - limit: cantidad de fechas (default 30, máximo 365)
+   */
+  static async getExchangeRates(req: Request, res: Response) {
+    try {
+      const limit = Math.min(Number(req.query.limit) || 30, 365);
+      const [current, rates] = await Promise.all([
+        ExchangeRates.reload(),
+        ExchangeRates.list(limit)
+      ]);
+
+      res.json({
+        success: true,
+        data: { current, rates }
+      });
+    } catch (error: any) {
+      logger.error(`Error en GET /internal/exchange-rates: ${error.message}`);
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  /**
+   * PUT /internal/exchange-rates
+   * Carga tipos de cambio (reemplaza los de la misma fecha) y recalcula los precios normalizados
+   * Body: { ars_per_usd, rate_date? } (default hoy en Argentina) o { rates: [{ rate_date, ars_per_usd }] }
+   */
+  static async updateExchangeRates(req: Request, res: Response) {
+    try {
+      const user = AdminAuth.currentUser(res);
+
+      const body = req.body || {};
+      if (body.rates !== undefined && !Array.isArray(body.rates)) {
+        return res.status(400).json({ success: false, message: 'rates debe ser una lista de { rate_date, ars_per_usd }' });
+      }
+
+      const today = new Date().toLocaleDateString('en-CA', { timeZone: 'America/Argentina/Buenos_Aires' });
+      const entries = body.rates !== undefined
+        ? body.rates
+        : [{ rate_date: body.rate_date ?? today, ars_per_usd: body.ars_per_usd }];
+
+      const result = await ExchangeRates.set(entries, 'admin', user);
+
+      res.json({
+        success: true,
+        message: `${result.saved} tipo(s) de cambio guardado(s), ${result.vehicles_updated} vehículos recalculados`,
+        data: result
+      });
+    } catch (error: any) {
+      if (error instanceof ExchangeRateValidationError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      logger.error(`Error en PUT /internal/exchange-rates: ${error.message}`);
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { Request, Response } from 'express';
+import logger from '../services/logger';
+import { AdminAuth } from '../services/admin-auth';
+import { FilterRules, FilterRuleValidationError, FILTER_RULE_KEYS } from '../services/filter-rules';
+
+/**
+ * Controlador de las reglas de filtrado editables (/internal/filters)
+ */
+export class FiltersController {
+  /**
+   * GET /internal/filters
+   * Reglas vigentes (valor, origen BD/entorno, última modificación) y últimos cambios auditados
+   *
+   * Query params:
+   * - rule: limitar el historial a una regla
+   * - limit: cantidad de cambios del historial (default 50, máximo 500)
+   */
+  static async getFilters(req: Request, res: Response) {
+    try {
+      const rule = req.query.rule ? String(req.query.rule) : undefined;
+      const limit = Math.min(Number(req.query.limit) || 50, 500);
+
+      const [config, rules, changes] = await Promise.all([
+        FilterRules.getConfig(),
+        FilterRules.getRules(),
+        FilterRules.getChanges(limit, rule)
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          config,
+          rules,
+          rule_keys: FILTER_RULE_KEYS,
+          changes
+        }
+      });
+    } catch (error: any) {
+      logger.error(`Error en GET /internal/filters: ${error.message}`);
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  /**
+   * PUT /internal/filters
+   * Modifica reglas de filtrado; se aplican en el momento a /autos, los feeds y la próxima sync
+   * Body: { rules?: { [regla]: valor }, reset?: string[], comment?: string }
+   */
+  static async updateFilters(req: Request, res: Response) {
+    try {
+      const user = AdminAuth.currentUser(res);
+
+      const body = req.body || {};
+      if (body.rules !== undefined && (typeof body.rules !== 'object' || body.rules === null || Array.isArray(body.rules))) {
+        return res.status(400).json({ success: false, message: 'rules debe ser un objeto { regla: valor }' });
+      }
+      if (body.reset !== undefined && !Array.isArray(body.reset)) {
+        return res.status(400).json({ success: false, message: 'reset debe ser una lista de reglas' });
+      }
+
+      const changed = await FilterRules.update(
+        { rules: body.rules, reset: body.reset, comment: body.comment },
+        user
+      );
+
+      res.json({
+        success: true,
+        message: changed.length > 0
+          ? `Reglas modificadas: ${changed.join(', ')}`
+          : 'Sin cambios: las reglas ya tenían esos valores',
+        data: {
+          changed,
+          config: await FilterRules.getConfig()
+        }
+      });
+    } catch (error: any) {
+      if (error instanceof FilterRuleValidationError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      logger.error(`Error en PUT /internal/filters: ${error.message}`);
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+}
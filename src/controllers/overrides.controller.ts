@@ -0,0 +1,127 @@
+import { Request, Response } from 'express';
+import logger from '../services/logger';
+import { AdminAuth } from '../services/admin-auth';
+import { VehicleOverrides, VehicleOverrideError, OVERRIDE_FIELDS } from '../services/vehicle-overrides';
+
+/**
+ * Controlador de overrides manuales por vehículo (/internal/overrides)
+ */
+export class OverridesController {
+  /**
+   * GET /internal/overrides
+   * Overrides cargados (por defecto solo los vigentes)
+   *
+   * Query params:
+   * - include_expired: 'true' para incluir los vencidos
+   * - limit: cantidad máxima (default 500, máximo 5000)
+   */
+  static async listOverrides(req: Request, res: Response) {
+    try {
+      const overrides = await VehicleOverrides.list({
+        includeExpired: req.query.include_expired === 'true',
+        limit: Math.min(Number(req.query.limit) || 500, 5000)
+      });
+
+      res.json({
+        success: true,
+        data: {
+          total: overrides.length,
+          fields: OVERRIDE_FIELDS,
+          overrides
+        }
+      });
+    } catch (error: any) {
+      logger.error(`Error en GET /internal/overrides: ${error.message}`);
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  /**
+   * GET /internal/overrides/:vehicleId
+   * Override de un vehículo (acepta ID numérico o asofix_id)
+   */
+  static async getOverride(req: Request, res: Response) {
+    try {
+      const vehicle = await VehicleOverrides.resolveVehicle(req.params.vehicleId);
+      if (!vehicle) {
+        return res.status(404).json({ success: false, message: 'Vehículo no encontrado' });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          vehicle,
+          override: await VehicleOverrides.get(vehicle.id)
+        }
+      });
+    } catch (error: any) {
+      logger.error(`Error en GET /internal/overrides/:vehicleId: ${error.message}`);
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  /**
+   * PUT /internal/overrides/:vehicleId
+   * Crea o modifica el override; los campos omitidos se conservan y null los borra
+   * Body: { force_publish?, force_hide?, title?, content?, price_usd?, price_ars?, featured_image_id?, expires_at?, note? }
+   */
+  static async setOverride(req: Request, res: Response) {
+    try {
+      const user = AdminAuth.currentUser(res);
+
+      if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+        return res.status(400).json({ success: false, message: 'El body debe ser un objeto con los campos del override' });
+      }
+
+      const vehicle = await VehicleOverrides.resolveVehicle(req.params.vehicleId);
+      if (!vehicle) {
+        return res.status(404).json({ success: false, message: 'Vehículo no encontrado' });
+      }
+
+      const override = await VehicleOverrides.set(vehicle, req.body, user);
+
+      res.json({
+        success: true,
+        message: `Override del vehículo ${vehicle.id} guardado`,
+        data: {
+          vehicle,
+          override
+        }
+      });
+    } catch (error: any) {
+      if (error instanceof VehicleOverrideError) {
+        return res.status(error.statusCode).json({ success: false, message: error.message });
+      }
+      logger.error(`Error en PUT /internal/overrides/:vehicleId: ${error.message}`);
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  /**
+   * DELETE /internal/overrides/:vehicleId
+   * Elimina el override: el vehículo vuelve a mostrar los valores de la sincronización
+   */
+  static async deleteOverride(req: Request, res: Response) {
+    try {
+      const user = AdminAuth.currentUser(res);
+
+      const vehicle = await VehicleOverrides.resolveVehicle(req.params.vehicleId);
+      if (!vehicle) {
+        return res.status(404).json({ success: false, message: 'Vehículo no encontrado' });
+      }
+
+      const removed = await VehicleOverrides.remove(vehicle, user);
+      if (!removed) {
+        return res.status(404).json({ success: false, message: `El vehículo ${vehicle.id} no tiene override` });
+      }
+
+      res.json({
+        success: true,
+        message: `Override del vehículo ${vehicle.id} eliminado`
+      });
+    } catch (error: any) {
+      logger.error(`Error en DELETE /internal/overrides/:vehicleId: ${error.message}`);
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+}
@@ -1,205 +1,505 @@
 import { Request, Response } from 'express';
 import syncService from '../services/sync-service';
 import logger from '../services/logger';
+import { SyncLock, SyncInProgressError } from '../services/sync-lock';
+import { SyncLogger } from '../services/sync-logger';
+import { SyncJobs, SyncJob, SyncJobEvent, StartSyncJobOptions } from '../services/sync-jobs';
+import { ArchiveGuard, ArchiveReviewError } from '../services/archive-guard';
+import { AdminAuth } from '../services/admin-auth';
+import { SyncWebhook, SyncWebhookError } from '../services/sync-webhook';
+import { WebhookSignature, WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER } from '../services/webhook-signature';
+import syncCronJob from '../jobs/sync-cron';
 
 /**
  * Controlador para endpoints de sincronización
  */
 export class SyncController {
   /**
-   * POST /sync/inicial
-   * Carga inicial completa de todos los autos desde ASOFIX
-   * Aplica todos los filtros obligatorios durante la sincronización
+   * Valida el token de SYNC_MANUAL_TOKEN (header x-sync-token o body.token)
+   * Si el token no está configurado, no se exige
    */
-  static async syncInicial(req: Request, res: Response) {
+  private static hasValidSyncToken(req: Request): boolean {
+    const syncToken = process.env.SYNC_MANUAL_TOKEN;
+    if (!syncToken) return true;
+    const providedToken = req.headers['x-sync-token'] || req.body?.token;
+    return providedToken === syncToken;
+  }
+
+  /**
+   * Responde 409 con los datos de la sincronización que tiene el lock
+   */
+  private static sendSyncInProgress(res: Response, error: SyncInProgressError) {
+    logger.warn(`Sincronización rechazada: ${error.message}`);
+    return res.status(409).json({
+      success: false,
+      message: 'Ya hay una sincronización en curso',
+      running_sync: error.running
+        ? {
+            sync_log_id: error.running.sync_log_id,
+            sync_type: error.running.sync_type,
+            started_at: error.running.started_at,
+            heartbeat_at: error.running.heartbeat_at
+          }
+        : null
+    });
+  }
+
+  /**
+   * Inicia un job de sincronización y responde 202 con su id
+   * La sincronización sigue en segundo plano: el estado se consulta en GET /sync/jobs/:id
+   */
+  private static async startJob(res: Response, options: StartSyncJobOptions, message: string) {
+    try {
+      const { job } = await SyncJobs.start(options);
+
+      res.setHeader('Location', `/sync/jobs/${job.id}`);
+      return res.status(202).json({
+        success: true,
+        message,
+        data: {
+          job_id: job.id,
+          status_url: `/sync/jobs/${job.id}`,
+          job: SyncController.serializeJob(job)
+        }
+      });
+    } catch (error: any) {
+      if (error instanceof SyncInProgressError) {
+        return SyncController.sendSyncInProgress(res, error);
+      }
+      logger.error(`Error al iniciar sincronización (${options.trigger}): ${error.message}`);
+      return res.status(500).json({
+        success: false,
+        message: error.message,
+        error: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      });
+    }
+  }
+
+  /**
+   * Stream SSE de un job: reenvía los eventos guardados (desde Last-Event-ID si el cliente reconecta)
+   * y después los eventos en vivo. Se cierra cuando el job termina
+   */
+  private static streamJobEvents(req: Request, res: Response, job: SyncJob) {
     res.setHeader('Content-Type', 'text/event-stream');
     res.setHeader('Cache-Control', 'no-cache');
     res.setHeader('Connection', 'keep-alive');
     res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
 
-    const sendEvent = (data: any) => {
-      res.write(`data: ${JSON.stringify(data)}\n\n`);
+    const sendEvent = (event: SyncJobEvent) => {
+      res.write(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
     };
 
-    req.on('close', () => {
-      logger.info('Cliente desconectado de la sincronización inicial');
+    const lastEventId = parseInt(String(req.headers['last-event-id'] || req.query.after || '0'), 10) || 0;
+    for (const event of SyncJobs.getEvents(job.id, lastEventId)) {
+      sendEvent(event);
+    }
+
+    if (job.status !== 'running') {
       res.end();
+      return;
+    }
+
+    // Comentario SSE periódico para que proxies no corten la conexión en fases largas sin eventos
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+
+    const unsubscribe = SyncJobs.subscribe(job.id, event => {
+      sendEvent(event);
+      if (event.type === 'complete' || event.type === 'error') {
+        close();
+        res.end();
+      }
     });
 
-    try {
-      sendEvent({
-        type: 'start',
-        message: '🚀 Iniciando carga inicial completa de vehículos desde ASOFIX...',
-        timestamp: new Date().toISOString()
-      });
-
-      // Ejecutar sincronización completa (no incremental)
-      const result = await syncService.syncAll((phase, message, progress) => {
-        sendEvent({
-          type: 'progress',
-          phase,
-          message,
-          progress: {
-            current: progress.current,
-            total: progress.total,
-            percentage: progress.percentage
-          },
-          timestamp: new Date().toISOString()
-        });
-      }, false, 'full'); // incremental = false para carga inicial completa, syncType = 'full'
-
-      sendEvent({
-        type: 'complete',
-        message: '✅ Carga inicial completada',
-        result: {
-          fase1: {
-            processed: result.fase1.processed,
-            created: result.fase1.created,
-            updated: result.fase1.updated,
-            filtered: result.fase1.filtered,
-            archived: result.fase1.archived || 0,
-            errors: result.fase1.errors
-          },
-          fase2: {
-            processed: result.fase2.processed,
-            created: result.fase2.created,
-            errors: result.fase2.errors
-          }
-        },
-        timestamp: new Date().toISOString()
-      });
+    const close = () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+    };
 
-      res.end();
+    req.on('close', () => {
+      logger.info(`Cliente desconectado del stream del job ${job.id} (la sincronización sigue en curso)`);
+      close();
+    });
+  }
+
+  private static serializeJob(job: SyncJob) {
+    return {
+      ...job,
+      started_at: job.started_at.toISOString(),
+      updated_at: job.updated_at.toISOString(),
+      finished_at: job.finished_at ? job.finished_at.toISOString() : null
+    };
+  }
+
+  /**
+   * POST /sync/inicial
+   * Carga inicial completa de todos los autos desde ASOFIX
+   * Aplica todos los filtros obligatorios durante la sincronización
+   */
+  static async syncInicial(req: Request, res: Response) {
+    // Tomar el lock (dentro de SyncJobs.start) antes de abrir el stream para poder responder 409
+    let job: SyncJob;
+    try {
+      ({ job } = await SyncJobs.start({
+        trigger: 'initial',
+        syncType: 'full',
+        incremental: false // incremental = false para carga inicial completa
+      }));
     } catch (error: any) {
-      logger.error(`Error en sincronización inicial: ${error.message}`);
-      
-      sendEvent({
-        type: 'error',
-        message: `❌ Error fatal: ${error.message}`,
-        timestamp: new Date().toISOString()
-      });
-      res.end();
+      if (error instanceof SyncInProgressError) {
+        return SyncController.sendSyncInProgress(res, error);
+      }
+      logger.error(`Error al tomar lock de sincronización inicial: ${error.message}`);
+      return res.status(500).json({ success: false, message: error.message });
     }
+
+    // Si el cliente se desconecta la sincronización sigue: puede volver a engancharse en /sync/jobs/:id/events
+    SyncController.streamJobEvents(req, res, job);
   }
 
   /**
    * POST /sync/cron
-   * Sincronización incremental (para uso del cron job)
-   * Solo actualiza vehículos que han cambiado
+   * Sincronización incremental (para clientes de cron externos)
+   * Solo actualiza vehículos que han cambiado. Responde 202 con el id del job
    */
   static async syncCron(req: Request, res: Response) {
+    logger.info('Sync cron solicitada (incremental)');
+    return SyncController.startJob(
+      res,
+      { trigger: 'cron', syncType: 'incremental', incremental: true },
+      'Sincronización incremental iniciada'
+    );
+  }
+
+  /**
+   * POST /sync/manual
+   * Sincronización manual on-demand
+   * Misma lógica que syncCron pero con validación de seguridad opcional
+   * Responde 202 con el id del job; las estadísticas se consultan en GET /sync/jobs/:id
+   */
+  static async syncManual(req: Request, res: Response) {
+    // Validación de seguridad opcional
+    if (!SyncController.hasValidSyncToken(req)) {
+      logger.warn('Intento de sync manual sin token válido');
+      return res.status(401).json({
+        success: false,
+        message: 'Token de autorización requerido para sincronización manual'
+      });
+    }
+
+    logger.info('Sync manual solicitada (on-demand)');
+    return SyncController.startJob(
+      res,
+      { trigger: 'manual', syncType: 'manual', incremental: true }, // misma lógica que cron
+      'Sincronización manual iniciada'
+    );
+  }
+
+  /**
+   * POST /sync/resume/:syncLogId
+   * Reanuda una sincronización interrumpida desde su checkpoint (sync_logs.metadata.checkpoint)
+   * Solo se pueden reanudar syncs 'running' abandonadas o 'failed' que tengan checkpoint
+   */
+  static async resumeSync(req: Request, res: Response) {
     try {
-      logger.info('Sync cron iniciado (incremental)');
+      if (!SyncController.hasValidSyncToken(req)) {
+        logger.warn('Intento de reanudar sync sin token válido');
+        return res.status(401).json({
+          success: false,
+          message: 'Token de autorización requerido para reanudar sincronización'
+        });
+      }
 
-      const result = await syncService.syncAll(
-        (phase, message, progress) => {
-          // Logs detallados solo en desarrollo, resumen en producción
-          if (process.env.NODE_ENV === 'development') {
-            logger.info(`[${phase.toUpperCase()}] ${message} (${progress.percentage}%)`);
-          }
+      const syncLogId = parseInt(req.params.syncLogId, 10);
+      if (isNaN(syncLogId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'syncLogId inválido'
+        });
+      }
+
+      const syncLog = await SyncLogger.getSyncLog(syncLogId);
+      if (!syncLog) {
+        return res.status(404).json({
+          success: false,
+          message: `Sincronización ${syncLogId} no encontrada`
+        });
+      }
+
+      if (syncLog.status === 'completed' || syncLog.status === 'needs_review') {
+        return res.status(400).json({
+          success: false,
+          message: `La sincronización ${syncLogId} ya fue completada`
+        });
+      }
+
+      if (!syncLog.checkpoint) {
+        return res.status(400).json({
+          success: false,
+          message: `La sincronización ${syncLogId} no tiene checkpoint para reanudar`
+        });
+      }
+
+      logger.info(`Reanudación de sync ${syncLogId} solicitada (fase: ${syncLog.checkpoint.phase})`);
+
+      return SyncController.startJob(
+        res,
+        {
+          trigger: 'resume',
+          syncType: syncLog.sync_type,
+          incremental: syncLog.checkpoint.incremental,
+          resumeFrom: syncLogId
         },
-        true, // incremental = true
-        'incremental' // syncType
+        `Reanudando sincronización ${syncLogId} desde ${syncLog.checkpoint.phase}`
       );
+    } catch (error: any) {
+      logger.error(`Error al reanudar sync: ${error.message}`);
+      res.status(500).json({
+        success: false,
+        message: error.message,
+        error: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      });
+    }
+  }
 
-      logger.info(`Sync cron completada - Procesados: ${result.fase1.processed}, Creados: ${result.fase1.created}, Actualizados: ${result.fase1.updated}, Filtrados: ${result.fase1.filtered}, Errores: ${result.fase1.errors}`);
+  /**
+   * GET /sync/jobs/:id
+   * Estado de un job de sincronización: fase, mensaje, porcentaje y contadores
+   */
+  static async getJob(req: Request, res: Response) {
+    const job = SyncJobs.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        message: `Job de sincronización ${req.params.id} no encontrado`
+      });
+    }
+
+    res.json({
+      success: true,
+      data: SyncController.serializeJob(job)
+    });
+  }
+
+  /**
+   * GET /sync/jobs/:id/events
+   * Progreso en vivo (SSE) de cualquier job de este proceso: cron, manual, inicial o reanudación
+   * Al conectarse se reenvían los eventos recientes; varios clientes pueden seguir el mismo job.
+   * Para retomar tras una desconexión: header Last-Event-ID (lo envía EventSource) o ?after=<id>
+   */
+  static async getJobEvents(req: Request, res: Response) {
+    const job = SyncJobs.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        message: `Job de sincronización ${req.params.id} no encontrado`
+      });
+    }
+
+    SyncController.streamJobEvents(req, res, job);
+  }
+
+  /**
+   * GET /sync/jobs
+   * Jobs de sincronización recientes de este proceso (más recientes primero)
+   * Incluye la sincronización que tiene el lock aunque la haya lanzado otro proceso (ej: un script)
+   * Query opcional: ?limit=20
+   */
+  static async listJobs(req: Request, res: Response) {
+    try {
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit || '20'), 10) || 20, 1), 100);
+      const jobs = SyncJobs.list(limit);
+      const running = await SyncLock.getRunning();
 
       res.json({
         success: true,
-        message: 'Sincronización incremental completada',
         data: {
-          summary: {
-            vehicles: {
-              processed: result.fase1.processed,
-              created: result.fase1.created,
-              updated: result.fase1.updated,
-              filtered: result.fase1.filtered,
-              archived: result.fase1.archived || 0,
-              errors: result.fase1.errors
-            },
-            images: {
-              processed: result.fase2.processed,
-              created: result.fase2.created,
-              errors: result.fase2.errors
-            }
-          },
-          details: result
+          jobs: jobs.map(job => SyncController.serializeJob(job)),
+          running_sync: running
+            ? {
+                sync_log_id: running.sync_log_id,
+                sync_type: running.sync_type,
+                started_at: running.started_at,
+                heartbeat_at: running.heartbeat_at,
+                host: running.host,
+                pid: running.pid
+              }
+            : null
         }
       });
     } catch (error: any) {
-      logger.error(`Error en sync cron: ${error.message}`);
-      res.status(500).json({ 
-        success: false, 
-        message: error.message 
+      logger.error(`Error al listar jobs de sincronización: ${error.message}`);
+      res.status(500).json({
+        success: false,
+        message: error.message
       });
     }
   }
 
   /**
-   * POST /sync/manual
-   * Sincronización manual on-demand
-   * Misma lógica que syncCron pero con validación de seguridad opcional
-   * Respuesta detallada con estadísticas completas
+   * GET /sync/schedules
+   * Schedules de sincronización automática: expresión, pasos incluidos, próxima ejecución
+   * y resultado de la última (en memoria: se pierde al reiniciar el proceso)
    */
-  static async syncManual(req: Request, res: Response) {
+  static async getSchedules(req: Request, res: Response) {
+    const schedules = syncCronJob.getSchedules();
+
+    res.json({
+      success: true,
+      data: {
+        cron_active: syncCronJob.isActive(),
+        schedules
+      }
+    });
+  }
+
+  /**
+   * GET /sync/archive-reviews
+   * Sincronizaciones en 'needs_review': archivados masivos retenidos por el circuit breaker
+   * de la limpieza global, con los vehículos candidatos y el motivo
+   */
+  static async getArchiveReviews(req: Request, res: Response) {
     try {
-      // Validación de seguridad opcional
-      const syncToken = process.env.SYNC_MANUAL_TOKEN;
-      if (syncToken) {
-        const providedToken = req.headers['x-sync-token'] || req.body.token;
-        if (providedToken !== syncToken) {
-          logger.warn('Intento de sync manual sin token válido');
-          return res.status(401).json({
-            success: false,
-            message: 'Token de autorización requerido para sincronización manual'
-          });
+      const pending = await SyncLogger.getPendingArchiveReviews();
+
+      res.json({
+        success: true,
+        data: {
+          limits: ArchiveGuard.getLimits(),
+          reviews: pending.map(syncLog => ({
+            sync_log_id: syncLog.id,
+            sync_type: syncLog.sync_type,
+            started_at: syncLog.started_at,
+            completed_at: syncLog.completed_at,
+            ...syncLog.archive_review
+          }))
         }
+      });
+    } catch (error: any) {
+      logger.error(`Error al obtener revisiones de archivado: ${error.message}`);
+      res.status(500).json({
+        success: false,
+        message: error.message
+      });
+    }
+  }
+
+  /**
+   * POST /sync/archive-reviews/:syncLogId/approve
+   * POST /sync/archive-reviews/:syncLogId/discard
+   * Aprueba (archiva los candidatos que siguen publicados) o descarta un archivado masivo retenido
+   * Queda registrado como revisor el usuario del token de administración
+   */
+  static async resolveArchiveReview(req: Request, res: Response) {
+    try {
+      const syncLogId = parseInt(req.params.syncLogId, 10);
+      if (isNaN(syncLogId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'syncLogId inválido'
+        });
       }
 
-      logger.info('Sync manual iniciado (on-demand)');
+      const decision = req.params.decision === 'approve' ? 'approve' : 'discard';
+      const review = await syncService.resolveArchiveReview(syncLogId, decision, AdminAuth.currentUser(res));
+
+      res.json({
+        success: true,
+        message: decision === 'approve'
+          ? `Archivado aprobado: ${review.archived_count} vehículos archivados`
+          : 'Archivado descartado: no se archivó ningún vehículo',
+        data: {
+          sync_log_id: syncLogId,
+          ...review
+        }
+      });
+    } catch (error: any) {
+      if (error instanceof SyncInProgressError) {
+        return SyncController.sendSyncInProgress(res, error);
+      }
+      if (error instanceof ArchiveReviewError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+      }
+      logger.error(`Error al resolver revisión de archivado: ${error.message}`);
+      res.status(500).json({
+        success: false,
+        message: error.message
+      });
+    }
+  }
+
+  /**
+   * GET /sync/images/pending
+   * Estado del backlog de descarga de imágenes: pendientes, esperando reintento,
+   * dead-letter, distribución por host y últimos fallos
+   * Query opcional: ?limit=50 (cantidad de fallos recientes, máx 500)
+   */
+  static async getPendingImages(req: Request, res: Response) {
+    try {
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit || '50'), 10) || 50, 1), 500);
+      const report = await syncService.getPendingImagesReport(limit);
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error: any) {
+      logger.error(`Error al obtener backlog de imágenes: ${error.message}`);
+      res.status(500).json({
+        success: false,
+        message: error.message
+      });
+    }
+  }
+
+  /**
+   * POST /sync/preview
+   * Dry-run de la sincronización: consulta ASOFIX y aplica filtros, needsUpdate y limpieza global
+   * sin escribir en BD. Devuelve el plan de altas, actualizaciones, archivados y reactivaciones
+   * Body opcional: { incremental?: boolean } (default true, misma lógica que el cron)
+   */
+  static async syncPreview(req: Request, res: Response) {
+    try {
+      if (!SyncController.hasValidSyncToken(req)) {
+        logger.warn('Intento de preview de sync sin token válido');
+        return res.status(401).json({
+          success: false,
+          message: 'Token de autorización requerido para preview de sincronización'
+        });
+      }
+
+      const incremental = req.body?.incremental !== false && req.body?.incremental !== 'false';
+      logger.info(`Preview de sync iniciado (dry-run, ${incremental ? 'incremental' : 'completo'})`);
 
       const startTime = Date.now();
       const result = await syncService.syncAll(
         (phase, message, progress) => {
-          // Logs detallados solo en desarrollo, resumen en producción
           if (process.env.NODE_ENV === 'development') {
-            logger.info(`[${phase.toUpperCase()}] ${message} (${progress.percentage}%)`);
+            logger.info(`[DRY-RUN][${phase.toUpperCase()}] ${message} (${progress.percentage}%)`);
           }
         },
-        true, // incremental = true (misma lógica que cron)
-        'manual' // syncType
+        incremental,
+        'manual',
+        { dryRun: true }
       );
 
-      const duration = Math.round((Date.now() - startTime) / 1000); // segundos
-
-      logger.info(`Sync manual completada en ${duration}s - Procesados: ${result.fase1.processed}, Creados: ${result.fase1.created}, Actualizados: ${result.fase1.updated}, Filtrados: ${result.fase1.filtered}, Archivados: ${result.fase1.archived || 0}, Errores: ${result.fase1.errors}`);
+      const duration = Math.round((Date.now() - startTime) / 1000);
 
       res.json({
         success: true,
-        message: 'Sincronización manual completada exitosamente',
+        message: 'Preview de sincronización generado (no se aplicaron cambios)',
         data: {
           duration_seconds: duration,
           timestamp: new Date().toISOString(),
-          summary: {
-            vehicles: {
-              processed: result.fase1.processed,
-              created: result.fase1.created,
-              updated: result.fase1.updated,
-              filtered: result.fase1.filtered,
-              archived: result.fase1.archived || 0,
-              errors: result.fase1.errors
-            },
-            images: {
-              processed: result.fase2.processed,
-              created: result.fase2.created,
-              errors: result.fase2.errors
-            }
-          },
-          details: result
+          summary: result.plan?.totals,
+          plan: result.plan
         }
       });
     } catch (error: any) {
-      logger.error(`Error en sync manual: ${error.message}`);
+      logger.error(`Error en preview de sync: ${error.message}`);
       res.status(500).json({
         success: false,
         message: error.message,
@@ -207,5 +507,73 @@ export class SyncController {
       });
     }
   }
-}
 
+  /**
+   * POST /sync/webhook
+   * Notificación de cambios de stock (ASOFIX o cualquier sistema interno): encola los vehículos
+   * indicados por id de ASOFIX o patente y responde 202; se re-sincronizan en lote tras el debounce
+   * Requiere firma HMAC-SHA256 del body con SYNC_WEBHOOK_SECRET (header x-webhook-signature)
+   * Body: { id } | { license_plate } | { ids: [...], license_plates: [...] } | { vehicles: [...] }
+   */
+  static async receiveWebhook(req: Request, res: Response) {
+    try {
+      const check = WebhookSignature.verify(
+        req.rawBody,
+        req.header(WEBHOOK_SIGNATURE_HEADER),
+        req.header(WEBHOOK_TIMESTAMP_HEADER)
+      );
+      if (!check.valid) {
+        logger.warn(`Webhook de sync rechazado desde ${req.ip}: ${check.reason}`);
+        return res.status(401).json({
+          success: false,
+          message: 'Firma del webhook inválida'
+        });
+      }
+
+      const targets = SyncWebhook.parseTargets(req.body);
+      const queue = SyncWebhook.enqueue(targets);
+
+      res.status(202).json({
+        success: true,
+        message: `${queue.accepted} vehículo(s) en cola para sincronizar`,
+        data: {
+          targets,
+          queued: queue.queued,
+          next_run_at: queue.next_run_at,
+          status_url: '/sync/webhook'
+        }
+      });
+    } catch (error: any) {
+      if (error instanceof SyncWebhookError) {
+        logger.warn(`Webhook de sync rechazado: ${error.message}`);
+        return res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+      }
+      logger.error(`Error al recibir webhook de sync: ${error.message}`);
+      res.status(500).json({
+        success: false,
+        message: error.message
+      });
+    }
+  }
+
+  /**
+   * GET /sync/webhook
+   * Cola de notificaciones pendientes y resultado de los últimos lotes (en memoria)
+   */
+  static async getWebhookStatus(req: Request, res: Response) {
+    if (!SyncController.hasValidSyncToken(req)) {
+      return res.status(401).json({
+        success: false,
+        message: 'Token de autorización requerido'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: SyncWebhook.getStatus()
+    });
+  }
+}
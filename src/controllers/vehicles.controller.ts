@@ -2,6 +2,11 @@ import { Request, Response } from 'express';
 import pool from '../config/database';
 import logger from '../services/logger';
 import { VehicleFilters } from '../services/vehicle-filters';
+import { FilterRules } from '../services/filter-rules';
+import { VehicleOverrides } from '../services/vehicle-overrides';
+import { PriceHistory } from '../services/price-history';
+import { ImageVariants } from '../services/image-variants';
+import { ExchangeRates } from '../services/exchange-rates';
 
 /**
  * Controlador para endpoints de vehículos
@@ -57,43 +62,10 @@ export class VehiclesController {
       
       const offset = (page - 1) * limit;
       
-      // Construir condiciones WHERE
-      const whereConditions: string[] = [];
-      const whereParams: any[] = [];
-      
-      // FILTROS OBLIGATORIOS aplicados automáticamente
-      // 1. Status = published (solo vehículos publicados)
-      whereConditions.push('v.status = ?');
-      whereParams.push('published');
-      
-      // 2. License plate NO NULL y NO vacío (OBLIGATORIO)
-      whereConditions.push('v.license_plate IS NOT NULL');
-      whereConditions.push('v.license_plate != ?');
-      whereParams.push('');
-      
-      // 3. Precio > MIN_PRICE (por defecto > 1)
-      const filterConfig = VehicleFilters.getFilterSummary();
-      whereConditions.push('(v.price_usd > ? OR v.price_ars > ?)');
-      whereParams.push(filterConfig.minPrice, filterConfig.minPrice);
-      
-      // 4. Debe tener al menos una imagen
-      if (filterConfig.requireImages) {
-        whereConditions.push('v.featured_image_id IS NOT NULL');
-        whereConditions.push('EXISTS (SELECT 1 FROM vehicle_images vi WHERE vi.vehicle_id = v.id)');
-      }
-      
-      // 5. Excluir concesionarias bloqueadas (Dakota por defecto)
-      // Se verifica en el JSON additional_data.stock_info[].branch_office_name
-      if (filterConfig.blockedBranchOffices.length > 0) {
-        // Para cada concesionaria bloqueada, verificar que no esté en el JSON
-        const blockedConditions = filterConfig.blockedBranchOffices.map(() => {
-          return `(v.additional_data IS NULL OR v.additional_data NOT LIKE ?)`;
-        });
-        whereConditions.push(`(${blockedConditions.join(' AND ')})`);
-        for (const blocked of filterConfig.blockedBranchOffices) {
-          whereParams.push(`%${blocked.toLowerCase()}%`);
-        }
-      }
+      // FILTROS OBLIGATORIOS aplicados automáticamente (reglas vigentes de FilterRules):
+      // publicado, patente, precio mínimo, imágenes, concesionarias, marcas, años y kilometraje
+      const filterConfig = await FilterRules.getConfig();
+      const { conditions: whereConditions, params: whereParams } = VehicleFilters.buildSqlConditions(filterConfig);
       
       // Filtros opcionales del usuario
       if (search && search.length > 0) {
@@ -165,15 +137,10 @@ export class VehiclesController {
         whereParams.push(segment);
       }
       
-      // Filtro por moneda: si está especificada, solo mostrar vehículos con precio en esa moneda
+      // Filtro por precio: con moneda se compara el precio normalizado a esa moneda
+      // (el stock mezcla ARS y USD); sin moneda, el precio de lista en cualquiera de las dos
       if (currency) {
-        if (currency === 'USD') {
-          whereConditions.push('v.price_usd IS NOT NULL AND v.price_usd > 0');
-        } else {
-          whereConditions.push('v.price_ars IS NOT NULL AND v.price_ars > 0');
-        }
-        
-        const priceField = currency === 'USD' ? 'v.price_usd' : 'v.price_ars';
+        const priceField = ExchangeRates.comparablePriceSql(currency);
         if (minPrice !== null) {
           whereConditions.push(`${priceField} >= ?`);
           whereParams.push(minPrice);
@@ -217,15 +184,11 @@ export class VehiclesController {
       const whereClause = whereConditions.join(' AND ');
       
       // ORDER BY
-      let orderByField: string;
+      let orderBy: string;
       if (sortBy === 'price') {
-        if (currency === 'USD') {
-          orderByField = 'v.price_usd';
-        } else if (currency === 'ARS') {
-          orderByField = 'v.price_ars';
-        } else {
-          orderByField = 'COALESCE(v.price_usd, v.price_ars, 0)';
-        }
+        // Precio normalizado (USD si no se indicó moneda); los que no tienen precio comparable van al final
+        const priceField = ExchangeRates.comparablePriceSql(currency || 'USD');
+        orderBy = `(${priceField} IS NULL), ${priceField} ${sortOrder}`;
       } else {
         const sortFields: Record<string, string> = {
           'created_at': 'v.created_at',
@@ -233,7 +196,7 @@ export class VehiclesController {
           'kilometres': 'v.kilometres',
           'title': 'v.title'
         };
-        orderByField = sortFields[sortBy] || 'v.created_at';
+        orderBy = `${sortFields[sortBy] || 'v.created_at'} ${sortOrder}`;
       }
       
       const query = `SELECT DISTINCT
@@ -246,20 +209,33 @@ export class VehiclesController {
         v.license_plate,
         v.price_usd,
         v.price_ars,
+        v.price_currency,
+        v.normalized_price_usd,
+        v.normalized_price_ars,
+        v.exchange_rate,
+        v.exchange_rate_date,
+        v.previous_price_usd,
+        v.previous_price_ars,
+        v.price_changed_at,
         v.created_at,
         v.updated_at,
         vi.file_path as featured_image_path,
-        vi.image_url as featured_image_url
-      FROM vehicles v
+        vi.image_url as featured_image_url,
+        vi.variants as featured_image_variants
+      FROM ${VehicleOverrides.effectiveSource()} v
       LEFT JOIN vehicle_images vi ON v.featured_image_id = vi.id
       WHERE ${whereClause}
-      ORDER BY ${orderByField} ${sortOrder}
+      ORDER BY ${orderBy}
       LIMIT ? OFFSET ?`;
       
       const finalParams = [...whereParams, parseInt(String(limit), 10), parseInt(String(offset), 10)];
       
       const [rows] = await pool.query<any[]>(query, finalParams);
-      const vehicles = rows as any[];
+      // Agregar price_dropped / previous_price (badge "bajó de precio") y variantes de la imagen destacada
+      const vehicles = (rows as any[]).map(row => ({
+        ...PriceHistory.decorate(row),
+        featured_image_variants: ImageVariants.toPublic(row.featured_image_variants)
+      }));
       
       // Obtener taxonomías para cada vehículo
       for (const vehicle of vehicles) {
@@ -280,7 +256,7 @@ export class VehiclesController {
       
       // Contar total con mismos filtros
       const countQuery = `SELECT COUNT(DISTINCT v.id) as total 
-        FROM vehicles v
+        FROM ${VehicleOverrides.effectiveSource()} v
         WHERE ${whereClause}`;
       
       const [countResult] = await pool.execute<any[]>(countQuery, whereParams);
@@ -296,7 +272,7 @@ export class VehiclesController {
             total,
             totalPages: Math.ceil(total / limit)
           },
-          filters_applied: VehicleFilters.getFilterSummary()
+          filters_applied: filterConfig
         }
       });
     } catch (error: any) {
@@ -316,7 +292,7 @@ export class VehiclesController {
     try {
       const { id } = req.params;
       
-      const filterConfig = VehicleFilters.getFilterSummary();
+      const filterConfig = await FilterRules.getConfig();
       
       // Intentar convertir a número para buscar por ID numérico
       const numericId = Number(id);
@@ -335,31 +311,9 @@ export class VehiclesController {
         whereParams.push(String(id));
       }
       
-      whereConditions.push('v.status = ?');
-      whereParams.push('published');
-      
-      // License plate NO NULL y NO vacío (OBLIGATORIO)
-      whereConditions.push('v.license_plate IS NOT NULL');
-      whereConditions.push('v.license_plate != ?');
-      whereParams.push('');
-      
-      whereConditions.push('(v.price_usd > ? OR v.price_ars > ?)');
-      whereParams.push(filterConfig.minPrice, filterConfig.minPrice);
-      
-      if (filterConfig.requireImages) {
-        whereConditions.push('v.featured_image_id IS NOT NULL');
-        whereConditions.push('EXISTS (SELECT 1 FROM vehicle_images vi WHERE vi.vehicle_id = v.id)');
-      }
-      
-      if (filterConfig.blockedBranchOffices.length > 0) {
-        const blockedConditions = filterConfig.blockedBranchOffices.map(() => {
-          return `(v.additional_data IS NULL OR v.additional_data NOT LIKE ?)`;
-        });
-        whereConditions.push(`(${blockedConditions.join(' AND ')})`);
-        for (const blocked of filterConfig.blockedBranchOffices) {
-          whereParams.push(`%${blocked.toLowerCase()}%`);
-        }
-      }
+      const mandatory = VehicleFilters.buildSqlConditions(filterConfig);
+      whereConditions.push(...mandatory.conditions);
+      whereParams.push(...mandatory.params);
       
       const whereClause = whereConditions.join(' AND ');
       
@@ -367,8 +321,9 @@ export class VehiclesController {
       const [vehicles] = await pool.execute<any[]>(
         `SELECT v.*, 
           vi.file_path as featured_image_path,
-          vi.image_url as featured_image_url
-        FROM vehicles v
+          vi.image_url as featured_image_url,
+          vi.variants as featured_image_variants
+        FROM ${VehicleOverrides.effectiveSource()} v
         LEFT JOIN vehicle_images vi ON v.featured_image_id = vi.id
         WHERE ${whereClause}`,
         whereParams
@@ -394,8 +349,8 @@ export class VehiclesController {
         }
       }
       
-      // Verificar que tenga imágenes si es requerido
-      if (filterConfig.requireImages) {
+      // Verificar que tenga imágenes si es requerido (force_publish no exige filtros)
+      if (filterConfig.requireImages && !vehicles[0].override_force_publish) {
         const vehicleId = vehicles[0].id;
         const [imageCount] = await pool.execute<any[]>(
           'SELECT COUNT(*) as count FROM vehicle_images WHERE vehicle_id = ?',
@@ -409,14 +364,22 @@ export class VehiclesController {
         }
       }
       
-      const vehicle = vehicles[0];
+      const vehicle: any = PriceHistory.decorate(vehicles[0]);
       const vehicleId = vehicle.id;
-      
-      // Obtener imágenes
-      const [images] = await pool.execute<any[]>(
-        'SELECT image_url, file_path FROM vehicle_images WHERE vehicle_id = ? ORDER BY id',
+      vehicle.featured_image_variants = ImageVariants.toPublic(vehicle.featured_image_variants);
+      // Columnas internas de los overrides: no van en la respuesta pública
+      delete vehicle.override_force_publish;
+      delete vehicle.has_override;
+      
+      // Obtener imágenes (la destacada efectiva primero, igual que en los feeds)
+      const [imageRows] = await pool.execute<any[]>(
+        'SELECT id, image_url, file_path, variants FROM vehicle_images WHERE vehicle_id = ? ORDER BY id',
         [vehicleId]
       );
+      const images = VehicleOverrides.featuredFirst(imageRows, vehicle.featured_image_id).map((image: any) => ({
+        ...image,
+        variants: ImageVariants.toPublic(image.variants)
+      }));
       
       // Obtener taxonomías
       const [taxonomies] = await pool.execute<any[]>(
@@ -445,6 +408,56 @@ export class VehiclesController {
     }
   }
 
+  /**
+   * GET /autos/:id/price-history
+   * Obtiene el historial de precios de un vehículo publicado (más reciente primero)
+   * Permite buscar por ID numérico o asofix_id (string)
+   */
+  static async getPriceHistory(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const limit = Math.min(Number(req.query.limit) || 100, 500);
+      
+      const numericId = Number(id);
+      const isNumericId = !isNaN(numericId) && isFinite(numericId);
+      
+      const [vehicles] = await pool.execute<any[]>(
+        `SELECT v.id, v.price_usd, v.price_ars, v.previous_price_usd, v.previous_price_ars, v.price_changed_at
+         FROM ${VehicleOverrides.effectiveSource()} v
+         WHERE (v.id = ? OR v.asofix_id = ?) AND v.status = 'published'
+         LIMIT 1`,
+        [isNumericId ? numericId : null, String(id)]
+      );
+      
+      if (vehicles.length === 0) {
+        return res.status(404).json({ 
+          success: false, 
+          message: 'Vehículo no encontrado' 
+        });
+      }
+      
+      const vehicle = vehicles[0];
+      const history = await PriceHistory.getHistory(vehicle.id, limit);
+      const drop = PriceHistory.getPriceDrop(vehicle);
+      
+      res.json({
+        success: true,
+        data: {
+          vehicle_id: vehicle.id,
+          current: {
+            price_usd: vehicle.price_usd !== null ? Number(vehicle.price_usd) : null,
+            price_ars: vehicle.price_ars !== null ? Number(vehicle.price_ars) : null
+          },
+          ...drop,
+          history
+        }
+      });
+    } catch (error: any) {
+      logger.error(`Error en GET /autos/:id/price-history: ${error.message}`);
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
   /**
    * GET /autos/filters/options
    * Obtiene opciones de filtros disponibles con conteos dinámicos según filtros aplicados
@@ -452,7 +465,7 @@ export class VehiclesController {
    */
   static async getFilterOptions(req: Request, res: Response) {
     try {
-      const filterConfig = VehicleFilters.getFilterSummary();
+      const filterConfig = await FilterRules.getConfig();
       
       // Parsear filtros de query params (igual que en el backend antiguo)
       const condition = req.query.condition ? String(req.query.condition).trim() : null;
@@ -480,33 +493,8 @@ export class VehiclesController {
       const currencyParam = req.query.currency ? String(req.query.currency).trim() : null;
       const currency = (currencyParam === 'USD' || currencyParam === 'ARS') ? currencyParam : null;
       
-      // Construir WHERE base con filtros obligatorios
-      const baseWhere: string[] = ['v.status = ?'];
-      const baseParams: any[] = ['published'];
-      
-      // License plate NO NULL y NO vacío (OBLIGATORIO)
-      baseWhere.push('v.license_plate IS NOT NULL');
-      baseWhere.push('v.license_plate != ?');
-      baseParams.push('');
-      
-      // Aplicar filtros obligatorios del sistema
-      baseWhere.push('(v.price_usd > ? OR v.price_ars > ?)');
-      baseParams.push(filterConfig.minPrice, filterConfig.minPrice);
-      
-      if (filterConfig.requireImages) {
-        baseWhere.push('v.featured_image_id IS NOT NULL');
-        baseWhere.push('EXISTS (SELECT 1 FROM vehicle_images vi WHERE vi.vehicle_id = v.id)');
-      }
-      
-      if (filterConfig.blockedBranchOffices.length > 0) {
-        const blockedConditions = filterConfig.blockedBranchOffices.map(() => {
-          return `(v.additional_data IS NULL OR v.additional_data NOT LIKE ?)`;
-        });
-        baseWhere.push(`(${blockedConditions.join(' AND ')})`);
-        for (const blocked of filterConfig.blockedBranchOffices) {
-          baseParams.push(`%${blocked.toLowerCase()}%`);
-        }
-      }
+      // Construir WHERE base con filtros obligatorios del sistema
+      const { conditions: baseWhere, params: baseParams } = VehicleFilters.buildSqlConditions(filterConfig);
       
       // Aplicar filtros del usuario para calcular conteos dinámicos
       if (condition && condition.length > 0) {
@@ -527,9 +515,9 @@ export class VehiclesController {
         baseParams.push(brand);
       }
       
-      // Filtro por precio
+      // Filtro por precio (misma regla que GET /autos)
       if (currency) {
-        const priceField = currency === 'USD' ? 'v.price_usd' : 'v.price_ars';
+        const priceField = ExchangeRates.comparablePriceSql(currency);
         if (minPrice !== null) {
           baseWhere.push(`${priceField} >= ?`);
           baseParams.push(minPrice);
@@ -581,7 +569,7 @@ export class VehiclesController {
             COUNT(DISTINCT v.id) as count
           FROM taxonomy_terms tt
           JOIN vehicle_taxonomies vt ON tt.id = vt.term_id
-          JOIN vehicles v ON vt.vehicle_id = v.id
+          JOIN ${VehicleOverrides.effectiveSource()} v ON vt.vehicle_id = v.id
           WHERE tt.taxonomy = ? AND ${whereClause}
         `;
         
@@ -617,18 +605,18 @@ export class VehiclesController {
       const fuelTypes = await getOptionsWithCounts('fuel_type');
       const colors = await getOptionsWithCounts('color');
       
-      // Obtener rangos de precios, años y kilómetros
+      // Obtener rangos de precios (normalizados: cubren todo el stock en cada moneda), años y kilómetros
       const [ranges] = await pool.execute<any[]>(
         `SELECT 
-          MIN(v.price_usd) as min_price_usd,
-          MAX(v.price_usd) as max_price_usd,
-          MIN(v.price_ars) as min_price_ars,
-          MAX(v.price_ars) as max_price_ars,
+          MIN(${ExchangeRates.comparablePriceSql('USD')}) as min_price_usd,
+          MAX(${ExchangeRates.comparablePriceSql('USD')}) as max_price_usd,
+          MIN(${ExchangeRates.comparablePriceSql('ARS')}) as min_price_ars,
+          MAX(${ExchangeRates.comparablePriceSql('ARS')}) as max_price_ars,
           MIN(v.year) as min_year,
           MAX(v.year) as max_year,
           MIN(v.kilometres) as min_kilometres,
           MAX(v.kilometres) as max_kilometres
-         FROM vehicles v
+         FROM ${VehicleOverrides.effectiveSource()} v
          WHERE ${whereClause}`,
         baseParams
       );
@@ -673,12 +661,12 @@ export class VehiclesController {
       const { id } = req.params;
       const targetLimit = Math.min(Number(req.query.limit) || 8, 8);
       
-      const filterConfig = VehicleFilters.getFilterSummary();
+      const filterConfig = await FilterRules.getConfig();
       
       // Obtener información completa del vehículo actual
       const [currentVehicleRows] = await pool.execute<any[]>(
         `SELECT v.id, v.title, v.year, v.kilometres, v.price_usd, v.price_ars
-         FROM vehicles v
+         FROM ${VehicleOverrides.effectiveSource()} v
          WHERE v.id = ? AND v.status = 'published'`,
         [Number(id)]
       );
@@ -722,31 +710,9 @@ export class VehiclesController {
       
       // Construir condiciones base con filtros obligatorios
       const getBaseWhere = (): { conditions: string[], params: any[] } => {
-        const conditions: string[] = ['v.status = ?', 'v.id != ?'];
-        const params: any[] = ['published', Number(id)];
-        
-        // License plate NO NULL y NO vacío (OBLIGATORIO)
-        conditions.push('v.license_plate IS NOT NULL');
-        conditions.push('v.license_plate != ?');
-        params.push('');
-        
-        conditions.push('(v.price_usd > ? OR v.price_ars > ?)');
-        params.push(filterConfig.minPrice, filterConfig.minPrice);
-        
-        if (filterConfig.requireImages) {
-          conditions.push('v.featured_image_id IS NOT NULL');
-          conditions.push('EXISTS (SELECT 1 FROM vehicle_images vi WHERE vi.vehicle_id = v.id)');
-        }
-        
-        if (filterConfig.blockedBranchOffices.length > 0) {
-          const blockedConditions = filterConfig.blockedBranchOffices.map(() => {
-            return `(v.additional_data IS NULL OR v.additional_data NOT LIKE ?)`;
-          });
-          conditions.push(`(${blockedConditions.join(' AND ')})`);
-          for (const blocked of filterConfig.blockedBranchOffices) {
-            params.push(`%${blocked.toLowerCase()}%`);
-          }
-        }
+        const { conditions, params } = VehicleFilters.buildSqlConditions(filterConfig);
+        conditions.push('v.id != ?');
+        params.push(Number(id));
         
         return { conditions, params };
       };
@@ -782,8 +748,9 @@ export class VehiclesController {
             v.price_ars,
             v.created_at,
             vi.file_path as featured_image_path,
-            vi.image_url as featured_image_url
-          FROM vehicles v
+            vi.image_url as featured_image_url,
+            vi.variants as featured_image_variants
+          FROM ${VehicleOverrides.effectiveSource()} v
           LEFT JOIN vehicle_images vi ON v.featured_image_id = vi.id
           WHERE ${whereClause}
           ORDER BY v.created_at DESC
@@ -791,7 +758,10 @@ export class VehiclesController {
           [...whereParams, targetLimit * 2] // Buscar más para tener opciones
         );
         
-        return rows as any[];
+        return (rows as any[]).map(row => ({
+          ...row,
+          featured_image_variants: ImageVariants.toPublic(row.featured_image_variants)
+        }));
       };
       
       // Estrategia 1: Mismo modelo (máxima prioridad)
@@ -7,11 +7,21 @@ import vehiclesRoutes from './routes/vehicles.routes';
 import syncRoutes from './routes/sync.routes';
 import feedsRoutes from './routes/feeds.routes';
 import auditRoutes from './routes/audit.routes';
+import filtersRoutes from './routes/filters.routes';
+import overridesRoutes from './routes/overrides.routes';
+import exchangeRatesRoutes from './routes/exchange-rates.routes';
 import asofixRoutes from './routes/asofix.routes';
 import leadsRoutes from './routes/leads.routes';
 import logger from './services/logger';
 import syncCronJob from './jobs/sync-cron';
-import { VehicleFilters } from './services/vehicle-filters';
+import mediaGcCronJob from './jobs/media-gc-cron';
+import { SyncJobs } from './services/sync-jobs';
+import { SyncInProgressError } from './services/sync-lock';
+import asofixApi from './services/asofix-api';
+import { FILTER_REASON_CODES } from './services/vehicle-filters';
+import { FilterRules } from './services/filter-rules';
+import { ExchangeRates } from './services/exchange-rates';
+import auditService from './services/audit.service';
 import pool from './config/database';
 
 dotenv.config();
@@ -37,7 +47,12 @@ const corsOptions = {
 
 // Middlewares
 app.use(cors(corsOptions));
-app.use(express.json());
+// El body crudo se conserva para verificar la firma de POST /sync/webhook
+app.use(express.json({
+  verify: (req: express.Request, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // Configuración de rutas de medios
@@ -160,6 +175,9 @@ app.get('/media/videos/*', (req, res) => {
 app.use('/autos', vehiclesRoutes);
 app.use('/sync', syncRoutes);
 app.use('/feeds', feedsRoutes);
+app.use('/internal/filters', filtersRoutes);
+app.use('/internal/overrides', overridesRoutes);
+app.use('/internal/exchange-rates', exchangeRatesRoutes);
 app.use('/internal', auditRoutes);
 app.use('/api/leads', leadsRoutes);
 app.use('/asofix', asofixRoutes);
@@ -169,6 +187,7 @@ app.get('/health', async (req, res) => {
   const startTime = Date.now();
   let dbStatus = 'unknown';
   let lastSuccessfulSync = null;
+  let runningSync = null;
 
   // Verificar conectividad a base de datos
   try {
@@ -194,6 +213,17 @@ app.get('/health', async (req, res) => {
     }
   }
 
+  // Sincronización en curso (lock en BD)
+  try {
+    const { SyncLock } = await import('./services/sync-lock');
+    runningSync = await SyncLock.getRunning();
+  } catch (error: any) {
+    // No fallar si no se puede obtener
+  }
+
+  // Cliente de ASOFIX: circuit breaker, limitador de tasa y reintentos
+  const asofixClient = asofixApi.getClientState();
+
   // Calcular uptime
   const uptimeSeconds = Math.floor(process.uptime());
 
@@ -201,6 +231,9 @@ app.get('/health', async (req, res) => {
   let status = 'healthy';
   if (dbStatus !== 'connected') {
     status = 'unhealthy';
+  } else if (asofixClient.circuit.state === 'open') {
+    // ASOFIX no responde: las sincronizaciones fallan hasta que se cierre el circuito
+    status = 'degraded';
   } else if (!lastSuccessfulSync) {
     // Si no hay syncs registradas, asumir healthy (puede ser primera ejecución)
     status = 'healthy';
@@ -231,21 +264,42 @@ app.get('/health', async (req, res) => {
     uptime_seconds: uptimeSeconds,
     database: dbStatus,
     last_successful_sync_at: lastSuccessfulSync,
-    cron_active: syncCronJob.isActive()
+    running_sync: runningSync
+      ? { sync_log_id: runningSync.sync_log_id, sync_type: runningSync.sync_type, started_at: runningSync.started_at }
+      : null,
+    cron_active: syncCronJob.isActive(),
+    asofix_api: asofixClient
   });
 });
 
 // Ruta para obtener información de filtros
-app.get('/filters/info', (req, res) => {
+app.get('/filters/info', async (req, res) => {
+  // Conteo de vehículos ocultos por código de motivo (no falla si la columna no existe todavía)
+  let hiddenByReason: Record<string, number> | null = null;
+  try {
+    hiddenByReason = await auditService.countArchivedByReason();
+  } catch (error: any) {
+    logger.debug(`No se pudo contar vehículos archivados por motivo: ${error.message}`);
+  }
+
   res.json({
     success: true,
     data: {
-      filters: VehicleFilters.getFilterSummary(),
+      filters: await FilterRules.getConfig(),
+      reason_codes: FILTER_REASON_CODES,
+      hidden_by_reason: hiddenByReason,
       description: {
         blockedBranchOffices: 'Concesionarias que están bloqueadas y no se muestran en la web',
         minPrice: 'Precio mínimo permitido (en USD o ARS)',
+        minPriceByCurrency: 'Precio mínimo por moneda (se usa el mayor entre este y minPrice)',
         blockedStatuses: 'Estados de stock que están bloqueados y no se muestran',
-        requireImages: 'Si es true, solo se muestran vehículos con al menos una imagen'
+        requireImages: 'Si es true, solo se muestran vehículos con al menos una imagen',
+        blockedBrands: 'Marcas excluidas del catálogo',
+        minYear: 'Año mínimo (null = sin límite)',
+        maxYear: 'Año máximo (null = sin límite)',
+        maxKilometres: 'Kilometraje máximo (null = sin límite)',
+        rules: 'Las reglas se editan en PUT /internal/filters (los valores de entorno son el default)',
+        hiddenByReason: 'Vehículos archivados por código de motivo (detalle en /internal/vehicles/filtered?reason=<código>)'
       }
     }
   });
@@ -280,8 +334,14 @@ app.listen(PORT, () => {
   logger.info(`📊 Health check: http://localhost:${PORT}/health`);
   logger.info(`🚗 Endpoints de vehículos: http://localhost:${PORT}/autos`);
   logger.info(`🔄 Endpoints de sincronización: http://localhost:${PORT}/sync`);
+  logger.info(`🧪 Preview de sincronización (dry-run): http://localhost:${PORT}/sync/preview`);
+  logger.info(`📬 Webhook de cambios de stock: http://localhost:${PORT}/sync/webhook`);
   logger.info(`📋 Información de filtros: http://localhost:${PORT}/filters/info`);
   logger.info(`🔍 Endpoint de auditoría: http://localhost:${PORT}/internal/vehicles/audit`);
+  logger.info(`🕓 Historial de vehículos: http://localhost:${PORT}/internal/vehicles/:id/history`);
+  logger.info(`🧰 Reglas de filtrado: http://localhost:${PORT}/internal/filters`);
+  logger.info(`✍️  Overrides de vehículos: http://localhost:${PORT}/internal/overrides`);
+  logger.info(`💱 Tipo de cambio: http://localhost:${PORT}/internal/exchange-rates`);
   logger.info(`🖼️  Medios estáticos: http://localhost:${PORT}/media/images/* y /media/videos/*`);
   logger.info(`📁 MEDIA_ROOT: ${MEDIA_ROOT}`);
   logger.info(`📁 IMAGES_PATH: ${IMAGES_PATH}`);
@@ -298,13 +358,33 @@ app.listen(PORT, () => {
     logger.info(`✅ API Key configurada: ${maskedKey} (longitud: ${apiKey.length})`);
   }
 
-  // Mostrar configuración de filtros
-  const filterSummary = VehicleFilters.getFilterSummary();
-  logger.info('📋 Filtros obligatorios configurados:');
-  logger.info(`   - Concesionarias bloqueadas: ${filterSummary.blockedBranchOffices.join(', ') || 'ninguna'}`);
-  logger.info(`   - Precio mínimo: ${filterSummary.minPrice}`);
-  logger.info(`   - Estados bloqueados: ${filterSummary.blockedStatuses.join(', ') || 'ninguno'}`);
-  logger.info(`   - Requiere imágenes: ${filterSummary.requireImages ? 'Sí' : 'No'}`);
+  // Mostrar configuración de filtros (reglas de filter_rules sobre los valores de entorno)
+  FilterRules.reload().then(filterSummary => {
+    logger.info('📋 Filtros obligatorios configurados:');
+    logger.info(`   - Concesionarias bloqueadas: ${filterSummary.blockedBranchOffices.join(', ') || 'ninguna'}`);
+    logger.info(`   - Precio mínimo: ${filterSummary.minPrice} (USD ${filterSummary.minPriceByCurrency.USD}, ARS ${filterSummary.minPriceByCurrency.ARS})`);
+    logger.info(`   - Estados bloqueados: ${filterSummary.blockedStatuses.join(', ') || 'ninguno'}`);
+    logger.info(`   - Requiere imágenes: ${filterSummary.requireImages ? 'Sí' : 'No'}`);
+    logger.info(`   - Marcas excluidas: ${filterSummary.blockedBrands.join(', ') || 'ninguna'}`);
+    logger.info(`   - Años: ${filterSummary.minYear ?? 'sin mínimo'} a ${filterSummary.maxYear ?? 'sin máximo'}`);
+    logger.info(`   - Kilometraje máximo: ${filterSummary.maxKilometres ?? 'sin límite'}`);
+  });
+
+  // Tipo de cambio USD/ARS: cargar el archivo local si está configurado (no bloquea el inicio)
+  // Las fechas que un administrador cargó por PUT /internal/exchange-rates no se pisan
+  const exchangeRatesFile = process.env.EXCHANGE_RATES_FILE;
+  (exchangeRatesFile
+    ? ExchangeRates.loadFromFile(exchangeRatesFile, 'file', { keepAdminRates: true }).then(result => result.current)
+    : ExchangeRates.reload()
+  ).then(rate => {
+    if (rate) {
+      logger.info(`💱 Tipo de cambio vigente: ${rate.ars_per_usd} ARS/USD (${rate.rate_date})`);
+    } else {
+      logger.warn('⚠️  No hay tipo de cambio cargado: los precios no se convierten entre USD y ARS (PUT /internal/exchange-rates)');
+    }
+  }).catch((error: any) => {
+    logger.error(`No se pudo cargar el tipo de cambio de ${exchangeRatesFile}: ${error.message}`);
+  });
 
   // Iniciar cron job de sincronización automática
   const enableCron = process.env.ENABLE_AUTO_SYNC !== 'false';
@@ -314,6 +394,28 @@ app.listen(PORT, () => {
   } else {
     logger.info('Cron job de sincronización automática deshabilitado (ENABLE_AUTO_SYNC=false)');
   }
+
+  // Iniciar cron job de GC de medios huérfanos (por defecto solo reporta)
+  if (process.env.ENABLE_MEDIA_GC !== 'false') {
+    mediaGcCronJob.start();
+  } else {
+    logger.info('Cron job de GC de medios deshabilitado (ENABLE_MEDIA_GC=false)');
+  }
+
+  // Reanudar (o cerrar como fallidas) las sincronizaciones que quedaron abiertas por un reinicio
+  SyncJobs.resumeInterrupted()
+    .then(started => {
+      if (started) {
+        logger.info(`🧵 Reanudación en el job ${started.job.id} (GET /sync/jobs/${started.job.id}/events)`);
+      }
+    })
+    .catch((error: any) => {
+      if (error instanceof SyncInProgressError) {
+        logger.warn(`No se reanudó la sincronización interrumpida: ${error.message}`);
+      } else {
+        logger.error(`Error al verificar sincronizaciones interrumpidas: ${error.message}`);
+      }
+    });
 });
 
 // Manejo de shutdown graceful
@@ -0,0 +1,75 @@
+import cron from 'node-cron';
+import logger from '../services/logger';
+import { MediaGarbageCollector, MissingMediaAction } from '../services/media-gc';
+import { SyncInProgressError } from '../services/sync-lock';
+
+class MediaGcCronJob {
+  private gcJob: cron.ScheduledTask | null = null;
+
+  /**
+   * Inicia el cron job de limpieza de medios huérfanos
+   * Por defecto se ejecuta todos los días a las 4:30 y solo reporta;
+   * MEDIA_GC_DELETE_ORPHANS y MEDIA_GC_MISSING_ACTION habilitan los cambios
+   */
+  start(): void {
+    if (this.gcJob) {
+      logger.warn('⚠️  El cron job de GC de medios ya está corriendo');
+      return;
+    }
+
+    const cronExpression = process.env.MEDIA_GC_CRON_SCHEDULE || '30 4 * * *';
+    const deleteOrphans = process.env.MEDIA_GC_DELETE_ORPHANS === 'true';
+    const missing = (process.env.MEDIA_GC_MISSING_ACTION || 'report') as MissingMediaAction;
+
+    logger.info(`📅 Configurando cron job de GC de medios: ${cronExpression}`);
+
+    this.gcJob = cron.schedule(cronExpression, async () => {
+      logger.info('🧹 Iniciando GC de medios (cron job)...');
+
+      try {
+        const report = await MediaGarbageCollector.run({
+          dryRun: !deleteOrphans && missing === 'report',
+          deleteOrphans,
+          missing
+        });
+
+        logger.info(
+          `📊 GC de medios: ${report.scanned_files} archivos revisados, ` +
+          `${report.orphaned_files.length} huérfanos (${report.orphaned_bytes} bytes), ` +
+          `${report.missing_files.length} faltantes, ${report.orphaned_blobs.length} blobs sin referencias`
+        );
+      } catch (error: any) {
+        if (error instanceof SyncInProgressError) {
+          logger.warn(`⚠️  ${error.message}, omitiendo GC de medios...`);
+        } else {
+          logger.error(`❌ Error en GC de medios: ${error.message}`);
+        }
+      }
+    }, {
+      scheduled: true,
+      timezone: process.env.TZ || 'America/Argentina/Buenos_Aires'
+    });
+
+    logger.info('✅ Cron job de GC de medios iniciado correctamente');
+  }
+
+  /**
+   * Detiene el cron job
+   */
+  stop(): void {
+    if (this.gcJob) {
+      this.gcJob.stop();
+      this.gcJob = null;
+      logger.info('🛑 Cron job de GC de medios detenido');
+    }
+  }
+
+  /**
+   * Verifica si el cron job está activo
+   */
+  isActive(): boolean {
+    return this.gcJob !== null;
+  }
+}
+
+export default new MediaGcCronJob();
@@ -1,113 +1,161 @@
 import cron from 'node-cron';
-import syncService from '../services/sync-service';
+import cronParser from 'cron-parser';
+import syncService, { SkippableSyncPhase } from '../services/sync-service';
 import logger from '../services/logger';
-import axios from 'axios';
+import { SyncInProgressError } from '../services/sync-lock';
+import { SyncJobs, SyncJobSummary } from '../services/sync-jobs';
+import { loadSyncSchedules, SyncScheduleConfig, SyncScheduleStep } from '../config/sync-schedules';
 
-class SyncCronJob {
-  private syncJob: cron.ScheduledTask | null = null;
-  private isRunning: boolean = false;
-  private baseUrl: string;
+/**
+ * Fase de runSync que corresponde a cada paso opcional de un schedule
+ */
+const STEP_PHASES: Record<SyncScheduleStep, SkippableSyncPhase> = {
+  reactivation: 'fase1.3',
+  cleanup: 'cleanup',
+  images: 'fase2'
+};
 
-  constructor() {
-    const port = process.env.PORT || 3002;
-    this.baseUrl = process.env.BACKEND_URL || `http://localhost:${port}`;
-  }
+export type SyncScheduleRunStatus = 'running' | 'completed' | 'failed' | 'needs_review' | 'skipped';
+
+export interface SyncScheduleRun {
+  job_id: string | null;
+  status: SyncScheduleRunStatus;
+  message: string | null;
+  summary: SyncJobSummary | null;
+  started_at: Date;
+  finished_at: Date | null;
+}
+
+export interface SyncScheduleStatus extends SyncScheduleConfig {
+  /**
+   * Programado en este proceso (enabled, expresión válida y cron iniciado)
+   */
+  active: boolean;
+  timezone: string;
+  skip_phases: SkippableSyncPhase[];
+  next_run_at: Date | null;
+  last_run: SyncScheduleRun | null;
+  /**
+   * Motivo por el que el schedule no se pudo programar (expresión inválida, nombre duplicado)
+   */
+  error: string | null;
+}
+
+interface ScheduleEntry {
+  config: SyncScheduleConfig;
+  task: cron.ScheduledTask | null;
+  nextRunAt: Date | null;
+  lastRun: SyncScheduleRun | null;
+  error: string | null;
+}
+
+class SyncCronJob {
+  private entries: ScheduleEntry[] = [];
+  private started = false;
+  private readonly timezone = process.env.TZ || 'America/Argentina/Buenos_Aires';
 
   /**
-   * Inicia el cron job de sincronización
-   * Por defecto se ejecuta cada 1 hora
+   * Inicia un cron por cada schedule habilitado (ver config/sync-schedules)
+   * Por defecto: sync con imágenes cada 1 hora y sync completa con limpieza a las 3:30
    */
   start(): void {
-    if (this.syncJob) {
+    if (this.started) {
       logger.warn('⚠️  El cron job ya está corriendo');
       return;
     }
 
-    // Configurar cron job cada 1 hora
-    // Formato: minuto hora día mes día-semana
-    // '0 * * * *' = cada hora en el minuto 0
-    const cronExpression = process.env.SYNC_CRON_SCHEDULE || '0 * * * *';
-    
-    logger.info(`📅 Configurando cron job de sincronización: ${cronExpression}`);
-    logger.info('⏰ La sincronización se ejecutará cada 1 hora (o según SYNC_CRON_SCHEDULE)');
-
-    this.syncJob = cron.schedule(cronExpression, async () => {
-      if (this.isRunning) {
-        logger.warn('⚠️  Sincronización ya en ejecución, omitiendo...');
-        return;
-      }
+    let schedules: SyncScheduleConfig[];
+    try {
+      schedules = loadSyncSchedules();
+    } catch (error: any) {
+      logger.error(`❌ No se pudieron cargar los schedules de sincronización: ${error.message}`);
+      return;
+    }
+
+    const names = new Set<string>();
+    this.entries = schedules.map(config => {
+      const entry: ScheduleEntry = { config, task: null, nextRunAt: null, lastRun: null, error: null };
 
-      this.isRunning = true;
-      logger.info('🔄 Iniciando sincronización automática (cron job)...');
-
-      try {
-        // Llamar al endpoint de sincronización
-        const response = await axios.post(`${this.baseUrl}/sync/cron`, {}, {
-          timeout: 3600000, // 1 hora de timeout
-        });
-
-        if (response.data.success) {
-          logger.info('✅ Sincronización automática completada exitosamente');
-          logger.info(`📊 Resumen: ${JSON.stringify(response.data.data.summary)}`);
-        } else {
-          logger.error(`❌ Sincronización completada con errores: ${response.data.message}`);
-        }
-      } catch (error: any) {
-        logger.error(`❌ Error en sincronización automática: ${error.message}`);
-        
-        // Si falla la llamada HTTP, intentar ejecutar directamente
-        try {
-          logger.info('🔄 Intentando ejecutar sincronización directamente...');
-          const result = await syncService.syncAll(
-            (phase, message, progress) => {
-              logger.info(`[${phase.toUpperCase()}] ${message} (${progress.percentage}%)`);
-            },
-            true // incremental
-          );
-          
-          logger.info('✅ Sincronización directa completada');
-          logger.info(`📊 Resumen: ${result.fase1.processed} vehículos procesados`);
-        } catch (directError: any) {
-          logger.error(`❌ Error en sincronización directa: ${directError.message}`);
-        }
-      } finally {
-        this.isRunning = false;
+      if (!config.name) {
+        entry.error = 'Schedule sin nombre';
+      } else if (names.has(config.name)) {
+        entry.error = `Nombre de schedule duplicado: ${config.name}`;
+      } else if (!cron.validate(config.cron)) {
+        entry.error = `Expresión cron inválida: ${config.cron}`;
       }
-    }, {
-      scheduled: true,
-      timezone: process.env.TZ || 'America/Argentina/Buenos_Aires'
+      names.add(config.name);
+      return entry;
     });
 
+    // La exclusión entre syncs la garantiza el lock en BD (SyncLock) que toma syncAll:
+    // si dos schedules coinciden, el segundo queda como 'skipped'
+    for (const entry of this.entries) {
+      const { config } = entry;
+
+      if (entry.error) {
+        logger.error(`❌ Schedule de sincronización "${config.name}" ignorado: ${entry.error}`);
+        continue;
+      }
+      if (!config.enabled) {
+        logger.info(`⏸️  Schedule de sincronización "${config.name}" deshabilitado (${config.cron})`);
+        continue;
+      }
+
+      entry.task = cron.schedule(config.cron, () => this.run(entry), {
+        scheduled: true,
+        timezone: this.timezone
+      });
+
+      logger.info(
+        `📅 Schedule de sincronización "${config.name}": ${config.cron} ` +
+        `(${config.incremental ? 'incremental' : 'full'}, pasos: ${config.steps.join(', ') || 'solo datos'})`
+      );
+    }
+
+    this.started = true;
     logger.info('✅ Cron job iniciado correctamente');
   }
 
   /**
-   * Detiene el cron job
+   * Detiene todos los schedules
    */
   stop(): void {
-    if (this.syncJob) {
-      this.syncJob.stop();
-      this.syncJob = null;
-      logger.info('🛑 Cron job detenido');
+    if (!this.started) return;
+
+    for (const entry of this.entries) {
+      entry.task?.stop();
+      entry.task = null;
     }
+    this.started = false;
+    logger.info('🛑 Cron job detenido');
   }
 
   /**
-   * Verifica si el cron job está activo
+   * Verifica si hay al menos un schedule programado
    */
   isActive(): boolean {
-    return this.syncJob !== null;
+    return this.entries.some(entry => entry.task !== null);
+  }
+
+  /**
+   * Estado de cada schedule: configuración, próxima ejecución y resultado de la última
+   */
+  getSchedules(): SyncScheduleStatus[] {
+    return this.entries.map(entry => ({
+      ...entry.config,
+      active: entry.task !== null,
+      timezone: this.timezone,
+      skip_phases: this.getSkipPhases(entry.config),
+      next_run_at: entry.task ? this.getNextRun(entry) : null,
+      last_run: entry.lastRun,
+      error: entry.error
+    }));
   }
 
   /**
    * Ejecuta la sincronización manualmente (útil para testing)
    */
   async runManualSync(): Promise<void> {
-    if (this.isRunning) {
-      throw new Error('Sincronización ya en ejecución');
-    }
-
-    this.isRunning = true;
     try {
       logger.info('🔄 Ejecutando sincronización manual...');
 
@@ -123,11 +171,93 @@ class SyncCronJob {
     } catch (error: any) {
       logger.error(`❌ Error en sincronización manual: ${error.message}`);
       throw error;
+    }
+  }
+
+  /**
+   * Lanza la sincronización de un schedule como job y registra el resultado
+   */
+  private async run(entry: ScheduleEntry): Promise<void> {
+    const { config } = entry;
+    const run: SyncScheduleRun = {
+      job_id: null,
+      status: 'running',
+      message: null,
+      summary: null,
+      started_at: new Date(),
+      finished_at: null
+    };
+    entry.lastRun = run;
+    entry.nextRunAt = null;
+
+    logger.info(`🔄 Iniciando sincronización automática "${config.name}" (cron job)...`);
+
+    // Se lanza como job en este proceso: el progreso se consulta en GET /sync/jobs/:id
+    try {
+      const { job, completion } = await SyncJobs.start({
+        trigger: 'cron',
+        syncType: config.incremental ? 'incremental' : 'full',
+        incremental: config.incremental,
+        schedule: config.name,
+        skipPhases: this.getSkipPhases(config)
+      });
+      run.job_id = job.id;
+      logger.info(`🧵 Sincronización automática "${config.name}" en curso (job ${job.id})`);
+
+      const finished = await completion;
+      run.summary = finished.summary;
+      if (finished.status === 'completed') {
+        run.status = finished.needs_review ? 'needs_review' : 'completed';
+        run.message = finished.message;
+        logger.info(`✅ Sincronización automática "${config.name}" completada exitosamente`);
+        logger.info(`📊 Resumen: ${JSON.stringify(finished.summary)}`);
+      } else {
+        run.status = 'failed';
+        run.message = finished.error;
+        logger.error(`❌ Error en sincronización automática "${config.name}": ${finished.error}`);
+      }
+    } catch (error: any) {
+      run.message = error.message;
+      if (error instanceof SyncInProgressError) {
+        run.status = 'skipped';
+        logger.warn(`⚠️  ${error.message}, omitiendo schedule "${config.name}"...`);
+      } else {
+        run.status = 'failed';
+        logger.error(`❌ Error al iniciar sincronización automática "${config.name}": ${error.message}`);
+      }
     } finally {
-      this.isRunning = false;
+      run.finished_at = new Date();
+    }
+  }
+
+  /**
+   * Fases que el schedule no incluye
+   */
+  private getSkipPhases(config: SyncScheduleConfig): SkippableSyncPhase[] {
+    return (Object.keys(STEP_PHASES) as SyncScheduleStep[])
+      .filter(step => !config.steps.includes(step))
+      .map(step => STEP_PHASES[step]);
+  }
+
+  /**
+   * Próxima ejecución del schedule (se cachea hasta que pasa)
+   * node-cron no la expone: se calcula con cron-parser en la misma zona horaria
+   * null si cron-parser no entiende la expresión
+   */
+  private getNextRun(entry: ScheduleEntry): Date | null {
+    const now = new Date();
+    if (entry.nextRunAt && entry.nextRunAt > now) {
+      return entry.nextRunAt;
+    }
+
+    try {
+      entry.nextRunAt = cronParser.parseExpression(entry.config.cron, { currentDate: now, tz: this.timezone }).next().toDate();
+      return entry.nextRunAt;
+    } catch (error: any) {
+      logger.debug(`No se pudo calcular la próxima ejecución de "${entry.config.name}": ${error.message}`);
+      return null;
     }
   }
 }
 
 export default new SyncCronJob();
-
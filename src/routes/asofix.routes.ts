@@ -3,16 +3,23 @@ import { AsofixController } from '../controllers/asofix.controller';
 
 const router = Router();
 
+/**
+ * GET /asofix/vehicle/id/:id
+ * Busca un vehículo por id en el snapshot del catálogo de Asofix
+ * Query: refresh=true fuerza a volver a descargar el catálogo
+ */
+router.get('/vehicle/id/:id', AsofixController.getVehicleById);
+
 /**
  * GET /asofix/vehicle/:license_plate
- * Busca un vehículo por license_plate directamente en la API de Asofix
+ * Busca un vehículo por license_plate (normalizada) en el snapshot del catálogo de Asofix
  * No interactúa con la base de datos
  */
 router.get('/vehicle/:license_plate', AsofixController.getVehicleByLicensePlate);
 
 /**
  * GET /asofix/vehicle/origin/:origin
- * Busca un vehículo por origin directamente en la API de Asofix
+ * Busca un vehículo por origin en el snapshot del catálogo de Asofix
  * No interactúa con la base de datos
  */
 router.get('/vehicle/origin/:origin', AsofixController.getVehicleByOrigin);
@@ -17,5 +17,51 @@ const router = Router();
  */
 router.get('/vehicles/audit', AuditController.getVehiclesAudit);
 
+/**
+ * GET /internal/vehicles/filtered
+ * Vehículos archivados por código de motivo (vehicles.filter_reason)
+ *
+ * Query params:
+ * - reason: código a listar (no_active_stock, blocked_branch_office, min_price, blocked_status,
+ *   missing_license_plate, no_images, blocked_brand, year_out_of_range, max_kilometres, not_in_valid_set)
+ * - limit: cantidad máxima de vehículos (default 500)
+ *
+ * Ejemplos:
+ * - GET /internal/vehicles/filtered (conteo por motivo y últimos archivados)
+ * - GET /internal/vehicles/filtered?reason=min_price
+ */
+router.get('/vehicles/filtered', AuditController.getFilteredVehicles);
+
+/**
+ * GET /internal/vehicles/:id/history
+ * Historial de cambios de un vehículo registrado en cada sincronización
+ * (creado, actualizado con diff por campo, archivado con filter_reason, reactivado, imágenes agregadas/eliminadas,
+ * override manual modificado/eliminado)
+ *
+ * Query params:
+ * - limit: cantidad máxima de eventos (default 200)
+ *
+ * Ejemplos:
+ * - GET /internal/vehicles/123/history
+ * - GET /internal/vehicles/ASOFIX-ID/history?limit=50
+ */
+router.get('/vehicles/:id/history', AuditController.getVehicleHistory);
+
+/**
+ * GET /internal/asofix/schema-drift
+ * Validación de esquema de las páginas de ASOFIX: por sincronización, campos desconocidos,
+ * campos esperados que faltan y cambios de tipo (sync_logs.metadata.schema_drift),
+ * más los vehículos en cuarentena (asofix_quarantine) con el motivo
+ *
+ * Query params:
+ * - limit: cantidad de sincronizaciones (default 10)
+ * - include_released: true para incluir vehículos ya liberados de la cuarentena
+ *
+ * Ejemplos:
+ * - GET /internal/asofix/schema-drift
+ * - GET /internal/asofix/schema-drift?limit=30&include_released=true
+ */
+router.get('/asofix/schema-drift', AuditController.getSchemaDrift);
+
 export default router;
 
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { ExchangeRatesController } from '../controllers/exchange-rates.controller';
+import { AdminAuth } from '../services/admin-auth';
+
+const router = Router();
+
+/**
+ * GET /internal/exchange-rates
+ * Tipo de cambio USD/ARS vigente y últimas fechas cargadas
+ * Requiere header Authorization: Bearer <token> (ADMIN_API_TOKENS)
+ *
+ * Query params:
+ * - limit: cantidad de fechas (default 30)
+ */
+router.get('/', AdminAuth.middleware('consultar tipos de cambio'), ExchangeRatesController.getExchangeRates);
+
+/**
+ * PUT /internal/exchange-rates
+ * Carga tipos de cambio (pesos por dólar) y recalcula los precios normalizados de los vehículos
+ * Vale el de fecha más reciente <= hoy; una fecha ya cargada se reemplaza
+ * Requiere header Authorization: Bearer <token> (ADMIN_API_TOKENS)
+ *
+ * Ejemplos:
+ * - { "ars_per_usd": 1450 } (fecha de hoy)
+ * - { "rate_date": "2026-10-01", "ars_per_usd": 1420.5 }
+ * - { "rates": [{ "rate_date": "2026-10-01", "ars_per_usd": 1420.5 }, { "rate_date": "2026-10-02", "ars_per_usd": 1431 }] }
+ */
+router.put('/', AdminAuth.middleware('modificar tipos de cambio'), ExchangeRatesController.updateExchangeRates);
+
+export default router;
@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { FiltersController } from '../controllers/filters.controller';
+import { AdminAuth } from '../services/admin-auth';
+
+const router = Router();
+
+/**
+ * GET /internal/filters
+ * Reglas de filtrado vigentes y auditoría de cambios
+ * Requiere header Authorization: Bearer <token> (ADMIN_API_TOKENS)
+ *
+ * Query params:
+ * - rule: historial de una sola regla (ej: minPrice)
+ * - limit: cantidad de cambios (default 50)
+ */
+router.get('/', AdminAuth.middleware('consultar reglas de filtrado'), FiltersController.getFilters);
+
+/**
+ * PUT /internal/filters
+ * Modifica reglas de filtrado (quedan en filter_rules y se registran en filter_rule_changes)
+ * Requiere header Authorization: Bearer <token> (ADMIN_API_TOKENS)
+ *
+ * Reglas: blockedBranchOffices, minPrice, minPriceByCurrency { USD, ARS }, blockedStatuses,
+ * requireImages, blockedBrands, minYear, maxYear, maxKilometres
+ *
+ * Ejemplos:
+ * - { "rules": { "blockedBrands": ["chery"], "maxKilometres": 250000 }, "comment": "Pedido comercial" }
+ * - { "rules": { "minPriceByCurrency": { "USD": 3000, "ARS": 3000000 } } }
+ * - { "reset": ["minYear"] } (vuelve al valor de las variables de entorno)
+ */
+router.put('/', AdminAuth.middleware('modificar reglas de filtrado'), FiltersController.updateFilters);
+
+export default router;
@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { OverridesController } from '../controllers/overrides.controller';
+import { AdminAuth } from '../services/admin-auth';
+
+const router = Router();
+
+/**
+ * GET /internal/overrides
+ * Overrides manuales vigentes (include_expired=true para ver también los vencidos)
+ * Requiere header Authorization: Bearer <token> (ADMIN_API_TOKENS)
+ */
+router.get('/', AdminAuth.middleware('listar overrides'), OverridesController.listOverrides);
+
+/**
+ * GET /internal/overrides/:vehicleId
+ * Override de un vehículo (ID numérico o asofix_id)
+ */
+router.get('/:vehicleId', AdminAuth.middleware('consultar override'), OverridesController.getOverride);
+
+/**
+ * PUT /internal/overrides/:vehicleId
+ * Crea o modifica el override de un vehículo (los campos omitidos se conservan, null los borra)
+ * Requiere header Authorization: Bearer <token> (ADMIN_API_TOKENS)
+ *
+ * Campos: force_publish, force_hide, title, content, price_usd, price_ars,
+ * featured_image_id (imagen del mismo vehículo), expires_at (ISO 8601), note
+ *
+ * Ejemplos:
+ * - { "force_publish": true, "note": "Se vende aunque no tenga stock en ASOFIX" }
+ * - { "price_usd": 18500, "expires_at": "2026-12-31T23:59:59Z" }
+ * - { "title": null } (vuelve al título de la sincronización)
+ */
+router.put('/:vehicleId', AdminAuth.middleware('modificar override'), OverridesController.setOverride);
+
+/**
+ * DELETE /internal/overrides/:vehicleId
+ * Elimina el override del vehículo
+ */
+router.delete('/:vehicleId', AdminAuth.middleware('eliminar override'), OverridesController.deleteOverride);
+
+export default router;
@@ -1,26 +1,105 @@
 import { Router } from 'express';
 import { SyncController } from '../controllers/sync.controller';
+import { AdminAuth } from '../services/admin-auth';
 
 const router = Router();
 
 /**
  * POST /sync/inicial
  * Carga inicial completa de todos los autos desde ASOFIX
+ * Stream SSE del job (si se corta, continuar en /sync/jobs/:id/events)
  */
 router.post('/inicial', SyncController.syncInicial);
 
 /**
  * POST /sync/cron
- * Sincronización incremental (para uso del cron job)
+ * Sincronización incremental (para clientes de cron externos)
+ * Responde 202 con el id del job
  */
 router.post('/cron', SyncController.syncCron);
 
 /**
  * POST /sync/manual
  * Sincronización manual on-demand (misma lógica que el cron)
- * Requiere token de seguridad si está configurado
+ * Requiere token de seguridad si está configurado. Responde 202 con el id del job
  */
 router.post('/manual', SyncController.syncManual);
 
+/**
+ * POST /sync/resume/:syncLogId
+ * Reanuda una sincronización interrumpida desde su checkpoint
+ * Requiere el mismo token que /sync/manual si está configurado. Responde 202 con el id del job
+ */
+router.post('/resume/:syncLogId', SyncController.resumeSync);
+
+/**
+ * GET /sync/jobs
+ * Jobs de sincronización recientes (cron, manual, inicial y reanudaciones)
+ */
+router.get('/jobs', SyncController.listJobs);
+
+/**
+ * GET /sync/jobs/:id
+ * Estado de un job: fase, contadores y porcentaje
+ */
+router.get('/jobs/:id', SyncController.getJob);
+
+/**
+ * GET /sync/jobs/:id/events
+ * Progreso en vivo (SSE) de un job, con los eventos recientes al conectarse
+ */
+router.get('/jobs/:id/events', SyncController.getJobEvents);
+
+/**
+ * GET /sync/schedules
+ * Schedules de sincronización automática con su próxima y última ejecución
+ */
+router.get('/schedules', SyncController.getSchedules);
+
+/**
+ * GET /sync/archive-reviews
+ * Archivados masivos retenidos por el circuit breaker de la limpieza global (syncs en 'needs_review')
+ * Requiere header Authorization: Bearer <token> (ADMIN_API_TOKENS)
+ */
+router.get('/archive-reviews', AdminAuth.middleware('consultar revisiones de archivado'), SyncController.getArchiveReviews);
+
+/**
+ * POST /sync/archive-reviews/:syncLogId/approve | /discard
+ * Aprueba o descarta el archivado retenido de una sincronización (el usuario del token queda como revisor)
+ * Requiere header Authorization: Bearer <token> (ADMIN_API_TOKENS)
+ */
+router.post(
+  '/archive-reviews/:syncLogId/:decision(approve|discard)',
+  AdminAuth.middleware('resolver revisión de archivado'),
+  SyncController.resolveArchiveReview
+);
+
+/**
+ * GET /sync/images/pending
+ * Backlog de imágenes pendientes (reintentos, dead-letter y últimos errores)
+ */
+router.get('/images/pending', SyncController.getPendingImages);
+
+/**
+ * POST /sync/preview
+ * Dry-run: devuelve el plan de cambios (altas, actualizaciones, archivados, reactivaciones)
+ * sin escribir en BD. Requiere el mismo token que /sync/manual si está configurado
+ */
+router.post('/preview', SyncController.syncPreview);
+
+/**
+ * POST /sync/webhook
+ * Notificación de cambios de stock: re-sincroniza solo los vehículos indicados (id de ASOFIX o patente)
+ * Requiere firma HMAC (x-webhook-signature) con SYNC_WEBHOOK_SECRET. Responde 202; se procesa en lote
+ */
+router.post('/webhook', SyncController.receiveWebhook);
+
+/**
+ * GET /sync/webhook
+ * Cola de notificaciones y resultado de los últimos lotes
+ * Requiere el mismo token que /sync/manual si está configurado
+ */
+router.get('/webhook', SyncController.getWebhookStatus);
+
 export default router;
 
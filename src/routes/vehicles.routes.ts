@@ -36,6 +36,12 @@ router.get('/filters/options', VehiclesController.getFilterOptions);
  */
 router.get('/:id/related', VehiclesController.getRelatedVehicles);
 
+/**
+ * GET /autos/:id/price-history
+ * Obtiene el historial de precios de un vehículo
+ */
+router.get('/:id/price-history', VehiclesController.getPriceHistory);
+
 /**
  * GET /autos/:id
  * Obtiene un vehículo por ID
@@ -0,0 +1,98 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Graba el catálogo real de ASOFIX en una fixture para el servidor falso (npm run asofix:fake)
+ * Guarda los vehículos tal como los devuelve la API, en un único catalog.json
+ *
+ * Uso:
+ *   npm run asofix:record
+ *   npm run asofix:record -- --max-pages 3 --local-images
+ *   npm run asofix:record -- --output data/asofix-fixtures/recorded/catalog.json
+ *
+ * Opciones:
+ *   --output         Archivo de salida (default data/asofix-fixtures/recorded/catalog.json, ignorado por git)
+ *   --per-page       Vehículos por página al grabar (default 100)
+ *   --max-pages      Cortar después de N páginas (default: todo el catálogo)
+ *   --local-images   Reemplaza las URLs de imágenes por imágenes generadas del servidor falso
+ *                    (para no descargar del CDN de ASOFIX al reproducir)
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import logger from '../services/logger';
+import asofixApi, { AsofixVehicle } from '../services/asofix-api';
+import { AsofixFixture, FAKE_ASOFIX_URL_PLACEHOLDER } from '../services/fake-asofix';
+
+// Cargar variables de entorno
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+function getArg(args: string[], name: string): string | null {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] || null : null;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const outputFile = getArg(args, '--output') || path.join(__dirname, '../../data/asofix-fixtures/recorded/catalog.json');
+  const perPage = parseInt(getArg(args, '--per-page') || '100', 10);
+  const maxPages = parseInt(getArg(args, '--max-pages') || '0', 10);
+  const localImages = args.includes('--local-images');
+
+  logger.info(`📼 Grabando catálogo de ${process.env.ASOFIX_API_ENDPOINT || 'ASOFIX'}...`);
+
+  try {
+    const vehicles: AsofixVehicle[] = [];
+    let page = 1;
+    let hasMore = true;
+
+    // Si una página falla (después de los reintentos del cliente) no se guarda una fixture parcial
+    while (hasMore && (maxPages === 0 || page <= maxPages)) {
+      const response = await asofixApi.getVehiclesPage(page, perPage);
+      const pageVehicles = response.data || [];
+      vehicles.push(...pageVehicles);
+
+      const meta = response.meta;
+      hasMore = meta && meta.current_page && meta.total_pages
+        ? meta.current_page < meta.total_pages
+        : pageVehicles.length > 0;
+      logger.info(`   Página ${page}${meta?.total_pages ? `/${meta.total_pages}` : ''}: ${pageVehicles.length} vehículos`);
+      page++;
+    }
+
+    if (localImages) {
+      for (const vehicle of vehicles) {
+        vehicle.images = (vehicle.images || []).map(image => ({
+          ...image,
+          url: `${FAKE_ASOFIX_URL_PLACEHOLDER}/images/${crypto.createHash('sha1').update(image.url || '').digest('hex').slice(0, 16)}.jpg`
+        }));
+      }
+    }
+
+    const fixture: AsofixFixture = {
+      recorded_at: new Date().toISOString(),
+      source: process.env.ASOFIX_API_ENDPOINT || 'https://app.asofix.com/api/catalogs/web',
+      vehicles
+    };
+
+    fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+    fs.writeFileSync(outputFile, JSON.stringify(fixture, null, 2));
+
+    logger.info('');
+    logger.info(`💾 ${vehicles.length} vehículos guardados en ${outputFile}`);
+    if (hasMore) {
+      logger.info(`   (cortado en ${maxPages} páginas: el catálogo tiene más)`);
+    }
+    process.exit(0);
+  } catch (error: any) {
+    logger.error('');
+    logger.error('❌ Error al grabar el catálogo:');
+    logger.error(`   ${error.message}`);
+    logger.error('');
+    process.exit(1);
+  }
+}
+
+// Ejecutar
+main();
@@ -0,0 +1,60 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Script para generar las variantes (thumbnail, card, full en WebP y JPEG)
+ * de las imágenes descargadas antes de que existieran
+ *
+ * Uso:
+ *   npm run images:variants
+ *   npm run images:variants -- --limit 500
+ *   npm run images:variants -- --force
+ *
+ * Opciones:
+ *   --limit <n>  Procesa como máximo n imágenes
+ *   --force      Regenera también las imágenes que ya tienen variantes
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import logger from '../services/logger';
+import { ImageVariants } from '../services/image-variants';
+
+// Cargar variables de entorno
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+async function main() {
+  const args = process.argv.slice(2);
+  const force = args.includes('--force');
+  const limitIndex = args.indexOf('--limit');
+  const limit = limitIndex >= 0 ? parseInt(args[limitIndex + 1], 10) || 0 : 0;
+
+  logger.info('🖼️  Generando variantes de imágenes existentes...');
+  logger.info(`   - Raíz de imágenes: ${ImageVariants.getImagesRoot()}`);
+  logger.info(`   - Regenerar existentes: ${force ? 'Sí' : 'No'}`);
+  logger.info(`   - Límite: ${limit || 'sin límite'}`);
+  logger.info('');
+
+  try {
+    const result = await ImageVariants.backfill({ force, limit }, (message, progress) => {
+      logger.info(`[${progress.current}/${progress.total}] ${message}`);
+    });
+
+    logger.info('');
+    logger.info('📊 Resumen:');
+    logger.info(`   - Imágenes procesadas: ${result.processed}`);
+    logger.info(`   - Variantes generadas: ${result.generated}`);
+    logger.info(`   - Omitidas (archivo inexistente): ${result.skipped}`);
+    logger.info(`   - Errores: ${result.errors}`);
+
+    process.exit(result.errors > 0 ? 1 : 0);
+  } catch (error: any) {
+    logger.error('');
+    logger.error('❌ Error al generar variantes:');
+    logger.error(`   ${error.message}`);
+    logger.error('');
+    process.exit(1);
+  }
+}
+
+// Ejecutar
+main();
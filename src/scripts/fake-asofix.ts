@@ -0,0 +1,103 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Servidor falso de ASOFIX para correr la sincronización completa en local
+ * Sirve el catálogo de una fixture JSON (ver npm run asofix:record) paginado como la API real
+ *
+ * Uso:
+ *   npm run asofix:fake
+ *   npm run asofix:fake -- --fixtures data/asofix-fixtures/recorded --port 4100
+ *   npm run asofix:fake -- --scenario vehicle-reserved:after=1 --scenario page-error:page=2,times=2
+ *
+ * Y en el .env del backend:
+ *   ASOFIX_API_ENDPOINT=http://localhost:4100/api/catalogs/web
+ *
+ * Opciones:
+ *   --fixtures   Archivo o directorio con catalog.json (default data/asofix-fixtures)
+ *   --port       Puerto (default FAKE_ASOFIX_PORT o 4100)
+ *   --scenario   nombre[:clave=valor,...] (repetible). `after=N` lo aplica después de N
+ *                recorridos completos del catálogo (una sincronización = un recorrido)
+ *   --webhook-url   URL de POST /sync/webhook del backend (default FAKE_ASOFIX_WEBHOOK_URL).
+ *                Cada escenario aplicado notifica los vehículos que cambiaron, firmados con SYNC_WEBHOOK_SECRET
+ *
+ * Con el servidor corriendo:
+ *   GET  /__fake/state       Escenarios disponibles, aplicados y pendientes
+ *   POST /__fake/scenarios   { "name": "plate-reused", "params": { "id": "1003" }, "after_passes": 0 }
+ *   POST /__fake/reset       Vuelve al catálogo de la fixture
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import logger from '../services/logger';
+import { FakeAsofixServer, FakeScenarioParams, FAKE_ASOFIX_SCENARIOS } from '../services/fake-asofix';
+
+// Cargar variables de entorno
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+function getArg(args: string[], name: string): string | null {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] || null : null;
+}
+
+/**
+ * "nombre:clave=valor,clave=valor" → nombre, parámetros y pasadas de espera
+ */
+function parseScenario(value: string): { name: string; params: FakeScenarioParams; afterPasses: number } {
+  const [name, rawParams = ''] = value.split(':');
+  const params: FakeScenarioParams = {};
+  for (const pair of rawParams.split(',').filter(Boolean)) {
+    const [key, ...rest] = pair.split('=');
+    params[key.trim()] = rest.join('=').trim();
+  }
+
+  const afterPasses = parseInt(params.after || '0', 10) || 0;
+  delete params.after;
+  return { name: name.trim(), params, afterPasses };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const fixturesPath = getArg(args, '--fixtures') || path.join(__dirname, '../../data/asofix-fixtures');
+  const port = parseInt(getArg(args, '--port') || process.env.FAKE_ASOFIX_PORT || '4100', 10);
+
+  try {
+    const server = new FakeAsofixServer({
+      fixturesPath,
+      port,
+      apiKey: process.env.FAKE_ASOFIX_API_KEY,
+      publicUrl: process.env.FAKE_ASOFIX_PUBLIC_URL,
+      webhookUrl: getArg(args, '--webhook-url') || process.env.FAKE_ASOFIX_WEBHOOK_URL,
+      webhookSecret: (process.env.SYNC_WEBHOOK_SECRET || '').split(',')[0].trim() || undefined
+    });
+
+    args.forEach((arg, index) => {
+      if (arg === '--scenario' && args[index + 1]) {
+        const { name, params, afterPasses } = parseScenario(args[index + 1]);
+        server.addScenario(name, params, afterPasses);
+      }
+    });
+
+    const baseUrl = await server.start();
+    const state = server.getState();
+
+    logger.info(`🧪 ASOFIX falso escuchando en ${baseUrl}`);
+    logger.info(`   Fixture: ${state.fixtures} (${state.vehicles} vehículos)`);
+    logger.info(`   Configurar en el backend: ASOFIX_API_ENDPOINT=${baseUrl}/api/catalogs/web`);
+    logger.info(`   Escenarios: ${Object.keys(FAKE_ASOFIX_SCENARIOS).join(', ')}`);
+    if (state.webhook_url) {
+      logger.info(`   Webhook de cambios: ${state.webhook_url}`);
+    }
+
+    const shutdown = () => {
+      server.stop().then(() => process.exit(0));
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  } catch (error: any) {
+    logger.error(`❌ No se pudo iniciar el ASOFIX falso: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+// Ejecutar
+main();
@@ -0,0 +1,58 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Carga tipos de cambio USD/ARS desde un archivo local y recalcula los precios normalizados
+ *
+ * Uso:
+ *   npm run exchange-rates:load -- --file data/exchange-rates.csv
+ *   npm run exchange-rates:load                (usa EXCHANGE_RATES_FILE)
+ *
+ * Formatos:
+ *   .json  [{ "rate_date": "2026-10-01", "ars_per_usd": 1450 }] o { "rates": [...] }
+ *   .csv   fecha,tipo_de_cambio por línea (con o sin encabezado; separador , o ;)
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import logger from '../services/logger';
+import { ExchangeRates } from '../services/exchange-rates';
+
+// Cargar variables de entorno
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+function getArg(args: string[], name: string): string | null {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] || null : null;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const filePath = getArg(args, '--file') || process.env.EXCHANGE_RATES_FILE;
+
+  if (!filePath) {
+    logger.error('❌ Indicar el archivo con --file o EXCHANGE_RATES_FILE');
+    process.exit(1);
+  }
+
+  try {
+    logger.info(`💱 Cargando tipos de cambio de ${filePath}...`);
+    const result = await ExchangeRates.loadFromFile(filePath, process.env.USER || 'file');
+
+    logger.info('');
+    logger.info(`✅ ${result.saved} tipo(s) de cambio guardado(s)`);
+    logger.info(result.current
+      ? `   Vigente: ${result.current.ars_per_usd} ARS/USD (${result.current.rate_date})`
+      : '   Ninguno vigente todavía (todas las fechas son futuras)');
+    logger.info(`   Vehículos recalculados: ${result.vehicles_updated}`);
+    process.exit(0);
+  } catch (error: any) {
+    logger.error('');
+    logger.error('❌ Error al cargar los tipos de cambio:');
+    logger.error(`   ${error.message}`);
+    logger.error('');
+    process.exit(1);
+  }
+}
+
+// Ejecutar
+main();
@@ -0,0 +1,97 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Script para detectar (y opcionalmente limpiar) medios huérfanos
+ * Compara los archivos de IMAGES_PATH (autos/ y blobs/) con vehicle_images e image_blobs
+ *
+ * Uso:
+ *   npm run media:gc -- --dry-run
+ *   npm run media:gc -- --delete
+ *   npm run media:gc -- --delete --requeue --output gc.json
+ *
+ * Opciones:
+ *   --dry-run    Solo reporta, no modifica nada (default si no se pasa --delete ni --requeue)
+ *   --delete     Elimina archivos y blobs huérfanos, y las filas cuyo archivo no existe
+ *   --requeue    Vuelve a encolar en pending_images las imágenes cuyo archivo no existe
+ *   --output     Guarda el reporte completo en un archivo JSON
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import fs from 'fs';
+import logger from '../services/logger';
+import { MediaGarbageCollector } from '../services/media-gc';
+
+// Cargar variables de entorno
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+const MAX_LISTED = 50;
+
+function logList(label: string, items: string[]) {
+  logger.info(`   ${label}: ${items.length}`);
+  for (const item of items.slice(0, MAX_LISTED)) {
+    logger.info(`     - ${item}`);
+  }
+  if (items.length > MAX_LISTED) {
+    logger.info(`     ... y ${items.length - MAX_LISTED} más (usar --output para ver el reporte completo)`);
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const deleteOrphans = args.includes('--delete');
+  const requeue = args.includes('--requeue');
+  const dryRun = args.includes('--dry-run') || (!deleteOrphans && !requeue);
+  const outputIndex = args.indexOf('--output');
+  const outputFile = outputIndex >= 0 ? args[outputIndex + 1] : null;
+
+  logger.info(`🧹 Iniciando GC de medios${dryRun ? ' (dry-run, no se modificará nada)' : ''}...`);
+  logger.info(`   - Eliminar huérfanos: ${deleteOrphans ? 'Sí' : 'No'}`);
+  logger.info(`   - Imágenes faltantes: ${requeue ? 'reencolar' : deleteOrphans ? 'eliminar fila' : 'solo reportar'}`);
+  logger.info('');
+
+  try {
+    const report = await MediaGarbageCollector.run({
+      dryRun,
+      deleteOrphans,
+      missing: requeue ? 'requeue' : deleteOrphans ? 'delete' : 'report'
+    });
+
+    logger.info('📊 Reporte:');
+    logger.info(`   Raíz de imágenes: ${report.images_root}`);
+    logger.info(`   Archivos revisados: ${report.scanned_files} (${report.referenced_files} en uso)`);
+    logList(`Archivos huérfanos (${report.orphaned_bytes} bytes)`, report.orphaned_files);
+    logList('Blobs sin referencias', report.orphaned_blobs.map(id => `blob ${id}`));
+    logList(
+      'Archivos faltantes',
+      report.missing_files.map(entry => `imagen ${entry.image_id} (vehículo ${entry.vehicle_id}): ${entry.file_path}`)
+    );
+
+    if (!dryRun) {
+      logger.info('');
+      logger.info('🗑️  Cambios aplicados:');
+      logger.info(`   - Archivos eliminados: ${report.deleted_files}`);
+      logger.info(`   - Blobs eliminados: ${report.deleted_blobs}`);
+      logger.info(`   - Filas faltantes eliminadas: ${report.deleted_rows}`);
+      logger.info(`   - Reencoladas en pending_images: ${report.requeued}`);
+      logger.info(`   - Errores: ${report.errors}`);
+    }
+
+    if (outputFile) {
+      fs.writeFileSync(outputFile, JSON.stringify(report, null, 2));
+      logger.info('');
+      logger.info(`💾 Reporte completo guardado en ${outputFile}`);
+    }
+
+    process.exit(report.errors > 0 ? 1 : 0);
+  } catch (error: any) {
+    logger.error('');
+    logger.error('❌ Error en GC de medios:');
+    logger.error(`   ${error.message}`);
+    logger.error('');
+    process.exit(1);
+  }
+}
+
+// Ejecutar
+main();
@@ -14,6 +14,7 @@ import path from 'path';
 import syncService from '../services/sync-service';
 import logger from '../services/logger';
 import { VehicleFilters } from '../services/vehicle-filters';
+import { FilterRules } from '../services/filter-rules';
 
 // Cargar variables de entorno
 dotenv.config({ path: path.join(__dirname, '../../.env') });
@@ -22,13 +23,18 @@ async function main() {
   logger.info('🚀 Iniciando carga inicial completa de vehículos...');
   logger.info('');
   
-  // Mostrar configuración de filtros
+  // Mostrar configuración de filtros (reglas de filter_rules sobre los valores de entorno)
+  await FilterRules.reload();
   const filterConfig = VehicleFilters.getFilterSummary();
   logger.info('📋 Filtros obligatorios que se aplicarán:');
   logger.info(`   - Concesionarias bloqueadas: ${filterConfig.blockedBranchOffices.join(', ') || 'ninguna'}`);
   logger.info(`   - Precio mínimo: ${filterConfig.minPrice}`);
   logger.info(`   - Estados bloqueados: ${filterConfig.blockedStatuses.join(', ') || 'ninguno'}`);
   logger.info(`   - Requiere imágenes: ${filterConfig.requireImages ? 'Sí' : 'No'}`);
+  logger.info(`   - Precio mínimo por moneda: USD ${filterConfig.minPriceByCurrency.USD}, ARS ${filterConfig.minPriceByCurrency.ARS}`);
+  logger.info(`   - Marcas excluidas: ${filterConfig.blockedBrands.join(', ') || 'ninguna'}`);
+  logger.info(`   - Años: ${filterConfig.minYear ?? 'sin mínimo'} a ${filterConfig.maxYear ?? 'sin máximo'}`);
+  logger.info(`   - Kilometraje máximo: ${filterConfig.maxKilometres ?? 'sin límite'}`);
   logger.info('');
 
   try {
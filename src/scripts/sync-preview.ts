@@ -0,0 +1,112 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Script para previsualizar una sincronización sin escribir en BD (dry-run)
+ * Útil para validar un cambio de filtros (ej: BLOCKED_BRANCH_OFFICES) antes de aplicarlo
+ *
+ * Uso:
+ *   npm run sync:preview
+ *   npm run sync:preview -- --full --output plan.json
+ *   o
+ *   ts-node src/scripts/sync-preview.ts [--full] [--output <archivo.json>]
+ *
+ * Opciones:
+ *   --full      Evalúa todos los vehículos (sin needsUpdate), como la carga inicial
+ *   --output    Guarda el plan completo en un archivo JSON
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import fs from 'fs';
+import syncService from '../services/sync-service';
+import logger from '../services/logger';
+import { VehicleFilters } from '../services/vehicle-filters';
+import { FilterRules } from '../services/filter-rules';
+import { SyncPlanEntry } from '../services/sync-plan';
+
+// Cargar variables de entorno
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+const MAX_LISTED = 50;
+
+function logEntries(label: string, entries: SyncPlanEntry[]) {
+  logger.info(`   ${label}: ${entries.length}`);
+  for (const entry of entries.slice(0, MAX_LISTED)) {
+    logger.info(`     - ${entry.asofix_id} ${entry.title ? `(${entry.title})` : ''}: ${entry.reason}`);
+  }
+  if (entries.length > MAX_LISTED) {
+    logger.info(`     ... y ${entries.length - MAX_LISTED} más (usar --output para ver el plan completo)`);
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const incremental = !args.includes('--full');
+  const outputIndex = args.indexOf('--output');
+  const outputFile = outputIndex >= 0 ? args[outputIndex + 1] : null;
+
+  logger.info(`🧪 Iniciando preview de sincronización (dry-run, ${incremental ? 'incremental' : 'completa'})...`);
+  logger.info('   No se escribirá nada en la base de datos.');
+  logger.info('');
+
+  // Mostrar configuración de filtros (reglas de filter_rules sobre los valores de entorno)
+  await FilterRules.reload();
+  const filterConfig = VehicleFilters.getFilterSummary();
+  logger.info('📋 Filtros obligatorios que se evaluarán:');
+  logger.info(`   - Concesionarias bloqueadas: ${filterConfig.blockedBranchOffices.join(', ') || 'ninguna'}`);
+  logger.info(`   - Precio mínimo: ${filterConfig.minPrice}`);
+  logger.info(`   - Estados bloqueados: ${filterConfig.blockedStatuses.join(', ') || 'ninguno'}`);
+  logger.info(`   - Requiere imágenes: ${filterConfig.requireImages ? 'Sí' : 'No'}`);
+  logger.info(`   - Precio mínimo por moneda: USD ${filterConfig.minPriceByCurrency.USD}, ARS ${filterConfig.minPriceByCurrency.ARS}`);
+  logger.info(`   - Marcas excluidas: ${filterConfig.blockedBrands.join(', ') || 'ninguna'}`);
+  logger.info(`   - Años: ${filterConfig.minYear ?? 'sin mínimo'} a ${filterConfig.maxYear ?? 'sin máximo'}`);
+  logger.info(`   - Kilometraje máximo: ${filterConfig.maxKilometres ?? 'sin límite'}`);
+  logger.info('');
+
+  try {
+    const result = await syncService.syncAll(
+      (phase, message, progress) => {
+        logger.info(`[${phase.toUpperCase()}] ${message} (${progress.percentage}%)`);
+      },
+      incremental,
+      'manual',
+      { dryRun: true }
+    );
+
+    const plan = result.plan;
+    if (!plan) {
+      throw new Error('La sincronización no devolvió un plan');
+    }
+
+    logger.info('');
+    logger.info('📊 Plan de cambios:');
+    logger.info(`   Vehículos obtenidos de ASOFIX: ${plan.totals.fetched}`);
+    logger.info(`   Sin cambios: ${plan.totals.unchanged}`);
+    logger.info(`   Filtrados: ${plan.totals.filtered}`);
+    logger.info(`   Errores: ${plan.totals.errors}`);
+    logEntries('Altas', plan.create);
+    logEntries('Actualizaciones', plan.update);
+    logEntries('Archivados', plan.archive);
+    logEntries('Reactivaciones', plan.reactivate);
+
+    if (outputFile) {
+      fs.writeFileSync(outputFile, JSON.stringify(plan, null, 2));
+      logger.info('');
+      logger.info(`💾 Plan completo guardado en ${outputFile}`);
+    }
+
+    process.exit(0);
+  } catch (error: any) {
+    logger.error('');
+    logger.error('❌ Error en preview de sincronización:');
+    logger.error(`   ${error.message}`);
+    if (error.stack) {
+      logger.error(`   Stack: ${error.stack}`);
+    }
+    logger.error('');
+    process.exit(1);
+  }
+}
+
+// Ejecutar
+main();
@@ -0,0 +1,97 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Script para sincronizar el stock de una planilla local (CSV o XLSX)
+ * Para sucursales que no están en ASOFIX: los vehículos pasan por el mismo
+ * processVehicle y los mismos filtros que los de la API
+ *
+ * Uso:
+ *   npm run sync:spreadsheet -- data/stock-sucursal.xlsx
+ *   npm run sync:spreadsheet -- data/stock-sucursal.csv --name sucursal-norte --branch "Sucursal Norte"
+ *   npm run sync:spreadsheet -- data/stock-sucursal.xlsx --dry-run
+ *
+ * Opciones:
+ *   --name      Nombre de la fuente (vehicles.source y prefijo del id). Default: planilla-<archivo>
+ *   --branch    Sucursal a usar si la planilla no tiene columna de sucursal
+ *   --dry-run   Muestra el plan de cambios sin escribir en BD
+ *   --full      Procesa todos los vehículos (sin needsUpdate)
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import syncService from '../services/sync-service';
+import logger from '../services/logger';
+import { SpreadsheetInventorySource } from '../services/spreadsheet-source';
+
+// Cargar variables de entorno
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const filePath = args.find((arg, index) => !arg.startsWith('--') && !['--name', '--branch'].includes(args[index - 1]));
+
+  if (!filePath) {
+    logger.error('❌ Falta la ruta de la planilla. Uso: npm run sync:spreadsheet -- <archivo.csv|xlsx> [--name <fuente>] [--branch <sucursal>] [--dry-run]');
+    process.exit(1);
+  }
+
+  const dryRun = args.includes('--dry-run');
+  const incremental = !args.includes('--full');
+  const source = new SpreadsheetInventorySource(path.resolve(filePath), {
+    name: getOption(args, '--name'),
+    branchOfficeName: getOption(args, '--branch')
+  });
+
+  logger.info(`📄 Sincronizando planilla ${filePath} (fuente: ${source.name})${dryRun ? ' en modo dry-run' : ''}...`);
+  logger.info('');
+
+  try {
+    const result = await syncService.syncAll(
+      (phase, message, progress) => {
+        logger.info(`[${phase.toUpperCase()}] ${message} (${progress.percentage}%)`);
+      },
+      incremental,
+      'manual',
+      { dryRun, source }
+    );
+
+    logger.info('');
+    logger.info('📊 Resumen:');
+    if (result.plan) {
+      logger.info(`   Vehículos en la planilla: ${result.plan.totals.fetched}`);
+      logger.info(`   Altas: ${result.plan.create.length}`);
+      logger.info(`   Actualizaciones: ${result.plan.update.length}`);
+      logger.info(`   Archivados: ${result.plan.archive.length}`);
+      logger.info(`   Reactivaciones: ${result.plan.reactivate.length}`);
+      logger.info(`   Filtrados: ${result.plan.totals.filtered}`);
+    } else {
+      logger.info(`   Fase 1 (Datos):`);
+      logger.info(`     - Procesados: ${result.fase1.processed}`);
+      logger.info(`     - Nuevos: ${result.fase1.created}`);
+      logger.info(`     - Actualizados: ${result.fase1.updated}`);
+      logger.info(`     - Filtrados: ${result.fase1.filtered}`);
+      logger.info(`     - Archivados: ${result.fase1.archived}`);
+      logger.info(`     - Errores: ${result.fase1.errors}`);
+      logger.info(`   Fase 2 (Imágenes):`);
+      logger.info(`     - Procesadas: ${result.fase2.processed}`);
+      logger.info(`     - Nuevas: ${result.fase2.created}`);
+      logger.info(`     - Errores: ${result.fase2.errors}`);
+    }
+
+    process.exit(0);
+  } catch (error: any) {
+    logger.error('');
+    logger.error('❌ Error al sincronizar la planilla:');
+    logger.error(`   ${error.message}`);
+    logger.error('');
+    process.exit(1);
+  }
+}
+
+// Ejecutar
+main();
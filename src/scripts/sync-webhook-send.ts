@@ -0,0 +1,80 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Envía una notificación firmada a POST /sync/webhook (para probar o para disparar a mano
+ * la re-sincronización de algunos vehículos sin esperar al cron)
+ *
+ * Uso:
+ *   npm run sync:webhook -- --id 1003
+ *   npm run sync:webhook -- --id 1003 --id 1004 --plate AB123CD
+ *   npm run sync:webhook -- --url https://api.example.com/sync/webhook --id 1003
+ *
+ * Opciones:
+ *   --url     Endpoint (default http://localhost:<PORT>/sync/webhook)
+ *   --id      Id de ASOFIX (repetible)
+ *   --plate   Patente (repetible)
+ *
+ * Firma con el primer secreto de SYNC_WEBHOOK_SECRET
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+import axios from 'axios';
+import logger from '../services/logger';
+import { WebhookSignature } from '../services/webhook-signature';
+
+// Cargar variables de entorno
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+function getArg(args: string[], name: string): string | null {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] || null : null;
+}
+
+function getArgs(args: string[], name: string): string[] {
+  return args
+    .map((arg, index) => (arg === name ? args[index + 1] : undefined))
+    .filter((value): value is string => !!value);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const url = getArg(args, '--url') || `http://localhost:${process.env.PORT || 4000}/sync/webhook`;
+  const ids = getArgs(args, '--id');
+  const plates = getArgs(args, '--plate');
+  const secret = WebhookSignature.getSecrets()[0];
+
+  if (ids.length === 0 && plates.length === 0) {
+    logger.error('❌ Indicar al menos un vehículo con --id o --plate');
+    process.exit(1);
+  }
+  if (!secret) {
+    logger.error('❌ SYNC_WEBHOOK_SECRET no está configurado');
+    process.exit(1);
+  }
+
+  const body = JSON.stringify({ ids, license_plates: plates });
+
+  try {
+    logger.info(`📬 Enviando webhook a ${url}: ${body}`);
+    const response = await axios.post(url, body, {
+      headers: { 'Content-Type': 'application/json', ...WebhookSignature.sign(body, secret) },
+      timeout: 15000
+    });
+
+    logger.info(`✅ ${response.status}: ${response.data?.message || ''}`);
+    if (response.data?.data?.next_run_at) {
+      logger.info(`   Próximo lote: ${response.data.data.next_run_at} (estado en GET /sync/webhook)`);
+    }
+    process.exit(0);
+  } catch (error: any) {
+    logger.error('');
+    logger.error('❌ Error al enviar el webhook:');
+    logger.error(`   ${error.response ? `${error.response.status} ${error.response.data?.message || ''}` : error.message}`);
+    logger.error('');
+    process.exit(1);
+  }
+}
+
+// Ejecutar
+main();
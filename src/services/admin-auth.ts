@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import logger from './logger';
+
+/**
+ * Autenticación de los endpoints de administración (ej: PUT /internal/filters)
+ * ADMIN_API_TOKENS = "usuario:token,otro:token2": cada token identifica a una persona,
+ * así la auditoría registra quién hizo cada cambio. Sin tokens configurados se rechaza todo.
+ */
+export class AdminAuth {
+  private static warnedMissingTokens = false;
+
+  /**
+   * Tokens configurados (token → usuario)
+   */
+  private static loadTokens(): Map<string, string> {
+    const tokens = new Map<string, string>();
+    for (const entry of (process.env.ADMIN_API_TOKENS || '').split(',')) {
+      const separator = entry.indexOf(':');
+      if (separator <= 0) continue;
+      const user = entry.substring(0, separator).trim();
+      const token = entry.substring(separator + 1).trim();
+      if (user && token) {
+        tokens.set(token, user);
+      }
+    }
+    return tokens;
+  }
+
+  /**
+   * Valida el token del header Authorization: Bearer <token> (o x-admin-token)
+   * @returns Usuario dueño del token, o null si falta o no es válido
+   */
+  static authenticate(req: Request): string | null {
+    const tokens = this.loadTokens();
+    if (tokens.size === 0) {
+      if (!this.warnedMissingTokens) {
+        logger.warn('⚠️  ADMIN_API_TOKENS no está configurado: los endpoints de administración rechazan todas las solicitudes');
+        this.warnedMissingTokens = true;
+      }
+      return null;
+    }
+
+    const authorization = String(req.headers.authorization || '');
+    const provided = authorization.toLowerCase().startsWith('bearer ')
+      ? authorization.substring(7).trim()
+      : String(req.headers['x-admin-token'] || '').trim();
+    if (!provided) return null;
+
+    for (const [token, user] of tokens) {
+      const expected = Buffer.from(token);
+      const received = Buffer.from(provided);
+      if (expected.length === received.length && crypto.timingSafeEqual(expected, received)) {
+        return user;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Middleware para las rutas de administración: responde 401 sin un token de ADMIN_API_TOKENS
+   * y deja el usuario autenticado para la auditoría (AdminAuth.currentUser)
+   * @param action Descripción para el log de intentos rechazados (ej: 'modificar override')
+   */
+  static middleware(action: string): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const user = AdminAuth.authenticate(req);
+      if (!user) {
+        logger.warn(`Intento de ${action} sin token de administración válido`);
+        res.status(401).json({
+          success: false,
+          message: 'Token de administración requerido'
+        });
+        return;
+      }
+      res.locals.adminUser = user;
+      next();
+    };
+  }
+
+  /**
+   * Usuario que autenticó AdminAuth.middleware en este request
+   */
+  static currentUser(res: Response): string {
+    return res.locals.adminUser;
+  }
+}
@@ -0,0 +1,103 @@
+import logger from './logger';
+import { sendSyncReviewEmail } from './email.service';
+
+/**
+ * Máximo de vehículos que la limpieza global puede archivar en una sync (0 = sin límite)
+ */
+const ARCHIVE_MAX_COUNT = parseInt(process.env.SYNC_ARCHIVE_MAX_COUNT || '25', 10);
+
+/**
+ * Máximo porcentaje del stock publicado de la fuente que puede archivar la limpieza global (0 = sin límite)
+ */
+const ARCHIVE_MAX_PERCENT = parseFloat(process.env.SYNC_ARCHIVE_MAX_PERCENT || '10');
+
+export type ArchiveReviewStatus = 'pending' | 'approved' | 'discarded' | 'superseded';
+
+/**
+ * Vehículo que la limpieza global quería archivar
+ */
+export interface ArchiveCandidate {
+  vehicle_id: number;
+  asofix_id: string;
+  title: string | null;
+  reason: string;
+}
+
+/**
+ * Archivado masivo retenido por el circuit breaker, guardado en sync_logs.metadata.archive_review
+ */
+export interface ArchiveReview {
+  status: ArchiveReviewStatus;
+  source: string;
+  reason: string;
+  candidates_count: number;
+  published_count: number;
+  max_count: number;
+  max_percent: number;
+  candidates: ArchiveCandidate[];
+  /**
+   * Estado que toma la sync en sync_logs cuando se resuelve la revisión
+   */
+  status_after_review: 'completed' | 'failed';
+  created_at: string;
+  reviewed_at?: string;
+  reviewed_by?: string | null;
+  archived_count?: number;
+}
+
+/**
+ * Error al aprobar o descartar una revisión; statusCode es el HTTP que devuelve el controlador
+ */
+export class ArchiveReviewError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'ArchiveReviewError';
+  }
+}
+
+/**
+ * Circuit breaker de la limpieza global
+ * Si una caída parcial de ASOFIX (ej: falla la página 3 de la Fase 1.1) deja afuera del set de
+ * válidos a una parte del catálogo, la limpieza los archivaría a todos. Cuando los candidatos
+ * superan SYNC_ARCHIVE_MAX_COUNT o SYNC_ARCHIVE_MAX_PERCENT del stock publicado no se archiva nada:
+ * la sync queda en 'needs_review' y el set se aprueba o descarta desde /sync/archive-reviews.
+ * El webhook (POST /sync/webhook) suma contra los mismos umbrales lo que archivó en su ventana
+ * (SYNC_WEBHOOK_ARCHIVE_WINDOW_MINUTES) y, si los supera, deja su propia revisión pendiente.
+ */
+export class ArchiveGuard {
+  static getLimits(): { max_count: number; max_percent: number } {
+    return { max_count: ARCHIVE_MAX_COUNT, max_percent: ARCHIVE_MAX_PERCENT };
+  }
+
+  /**
+   * Devuelve el motivo si el archivado supera algún umbral, o null si se puede archivar
+   */
+  static check(candidatesCount: number, publishedCount: number): string | null {
+    if (candidatesCount === 0) return null;
+
+    if (ARCHIVE_MAX_COUNT > 0 && candidatesCount > ARCHIVE_MAX_COUNT) {
+      return `Se archivarían ${candidatesCount} vehículos (máximo ${ARCHIVE_MAX_COUNT})`;
+    }
+
+    const percent = publishedCount > 0 ? (candidatesCount / publishedCount) * 100 : 100;
+    if (ARCHIVE_MAX_PERCENT > 0 && percent > ARCHIVE_MAX_PERCENT) {
+      return `Se archivaría el ${percent.toFixed(1)}% del stock publicado (${candidatesCount} de ${publishedCount}, máximo ${ARCHIVE_MAX_PERCENT}%)`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Avisa que hay un archivado masivo esperando revisión (log + email si SYNC_REVIEW_EMAIL_TO está configurado)
+   * No falla: la revisión ya quedó guardada en sync_logs
+   */
+  static async notify(syncLogId: number | null, review: ArchiveReview): Promise<void> {
+    logger.warn(`🛑 [Cleanup] Archivado masivo retenido (sync_log_id: ${syncLogId ?? 'N/A'}): ${review.reason}. Aprobar o descartar en POST /sync/archive-reviews/${syncLogId ?? ':syncLogId'}/approve|discard`);
+
+    try {
+      await sendSyncReviewEmail(syncLogId, review);
+    } catch (error: any) {
+      logger.error(`No se pudo enviar la notificación de revisión de archivado: ${error.message}`);
+    }
+  }
+}
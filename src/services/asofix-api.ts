@@ -1,8 +1,15 @@
-import axios, { AxiosInstance } from 'axios';
+import axios from 'axios';
 import logger from './logger';
+import { ResilientHttpClient } from './resilient-http';
+import { AsofixSchema } from './asofix-schema';
 
+/**
+ * Vehículo tal como lo envía ASOFIX (validado en tiempo de ejecución por AsofixSchema)
+ */
 export interface AsofixVehicle {
   id: string;
+  brand_id?: number | string;
+  model_id?: number | string;
   brand_name?: string;
   model_name?: string;
   version?: string;
@@ -41,7 +48,7 @@ export interface AsofixApiResponse {
 class AsofixApi {
   private apiKey: string;
   private endpoint: string;
-  private client: AxiosInstance;
+  private client: ResilientHttpClient;
 
   constructor() {
     this.apiKey = (process.env.ASOFIX_API_KEY || '').trim();
@@ -56,10 +63,31 @@ class AsofixApi {
       logger.info(`API Key configurada: ${maskedKey} (longitud: ${this.apiKey.length})`);
     }
 
-    this.client = axios.create({
-      baseURL: this.endpoint,
-      timeout: 60000, // 60 segundos
-    });
+    // Reintentos, límite de requests por segundo y circuit breaker compartidos por todas las llamadas
+    this.client = new ResilientHttpClient(
+      axios.create({
+        baseURL: this.endpoint,
+        timeout: parseInt(process.env.ASOFIX_TIMEOUT_MS || '60000', 10)
+      }),
+      {
+        name: 'ASOFIX',
+        maxRetries: parseInt(process.env.ASOFIX_MAX_RETRIES || '3', 10),
+        retryBaseMs: parseInt(process.env.ASOFIX_RETRY_BASE_MS || '1000', 10),
+        retryMaxMs: parseInt(process.env.ASOFIX_RETRY_MAX_MS || '15000', 10),
+        retryAfterMaxMs: parseInt(process.env.ASOFIX_RETRY_AFTER_MAX_MS || '60000', 10),
+        ratePerSecond: parseFloat(process.env.ASOFIX_RATE_LIMIT_PER_SECOND || '5'),
+        burst: parseInt(process.env.ASOFIX_RATE_LIMIT_BURST || '5', 10),
+        failureThreshold: parseInt(process.env.ASOFIX_CIRCUIT_FAILURE_THRESHOLD || '5', 10),
+        resetTimeoutMs: parseInt(process.env.ASOFIX_CIRCUIT_RESET_SECONDS || '60', 10) * 1000
+      }
+    );
+  }
+
+  /**
+   * Estado del cliente HTTP (circuito, limitador de tasa y reintentos) para /health
+   */
+  getClientState() {
+    return this.client.getState();
   }
 
   /**
@@ -104,7 +132,8 @@ class AsofixApi {
         throw new Error(`Error en la API de Asofix (Código: ${httpCode}). Mensaje: ${message}`);
       }
 
-      return response.data;
+      // La forma de la página (data/meta) se valida; los vehículos se validan en la sincronización
+      return AsofixSchema.validateResponse(response.data);
     } catch (error: any) {
       if (axios.isAxiosError(error)) {
         const status = error.response?.status;
@@ -126,6 +155,8 @@ class AsofixApi {
 
   /**
    * Obtiene todos los vehículos activos de la API
+   * Si una página falla después de los reintentos se lanza el error: una lista parcial
+   * haría creer que faltan vehículos
    * @returns Array de vehículos activos
    */
   async fetchAllActiveVehicles(): Promise<AsofixVehicle[]> {
@@ -157,12 +188,9 @@ class AsofixApi {
           hasMore = pageVehicles.length > 0;
           currentPage++;
         }
-
-        // Pausa para no sobrecargar la API
-        await new Promise(resolve => setTimeout(resolve, 200));
       } catch (error: any) {
         logger.error(`Error al obtener página ${currentPage}: ${error.message}`);
-        hasMore = false;
+        throw error;
       }
     }
 
@@ -227,9 +255,6 @@ class AsofixApi {
           }
 
           pagesSearched++;
-
-          // Pausa para no sobrecargar la API
-          await new Promise(resolve => setTimeout(resolve, 200));
         } catch (error: any) {
           consecutiveErrors++;
           logger.warn(`Error al buscar en página ${currentPage} (error ${consecutiveErrors}/${maxConsecutiveErrors}): ${error.message}`);
@@ -239,10 +264,9 @@ class AsofixApi {
             logger.error(`Demasiados errores consecutivos (${consecutiveErrors}). Deteniendo búsqueda después de ${pagesSearched} páginas.`);
             hasMore = false;
           } else {
-            // Continuar con la siguiente página después de un breve delay
+            // Continuar con la siguiente página (los reintentos con backoff los hace el cliente HTTP)
             currentPage++;
             pagesSearched++;
-            await new Promise(resolve => setTimeout(resolve, 500)); // Delay más largo después de error
           }
         }
       }
@@ -313,9 +337,6 @@ class AsofixApi {
           }
 
           pagesSearched++;
-
-          // Pausa para no sobrecargar la API
-          await new Promise(resolve => setTimeout(resolve, 200));
         } catch (error: any) {
           consecutiveErrors++;
           logger.warn(`Error al buscar en página ${currentPage} (error ${consecutiveErrors}/${maxConsecutiveErrors}): ${error.message}`);
@@ -325,10 +346,9 @@ class AsofixApi {
             logger.error(`Demasiados errores consecutivos (${consecutiveErrors}). Deteniendo búsqueda después de ${pagesSearched} páginas.`);
             hasMore = false;
           } else {
-            // Continuar con la siguiente página después de un breve delay
+            // Continuar con la siguiente página (los reintentos con backoff los hace el cliente HTTP)
             currentPage++;
             pagesSearched++;
-            await new Promise(resolve => setTimeout(resolve, 500)); // Delay más largo después de error
           }
         }
       }
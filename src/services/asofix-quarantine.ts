@@ -0,0 +1,124 @@
+import pool from '../config/database';
+import logger from './logger';
+import { QuarantinedVehicle } from './asofix-schema';
+
+export interface QuarantineRecord {
+  id: number;
+  source: string;
+  asofix_id: string | null;
+  license_plate: string | null;
+  reasons: string[];
+  payload: any;
+  sync_log_id: number | null;
+  times_seen: number;
+  first_seen_at: Date;
+  last_seen_at: Date;
+  released_at: Date | null;
+}
+
+/**
+ * IDs por query al liberar vehículos de la cuarentena
+ */
+const RELEASE_CHUNK_SIZE = 1000;
+
+function parseJson(value: any): any {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Vehículos de la fuente que no pasaron la validación de esquema (tabla asofix_quarantine)
+ * La sincronización no los importa ni los archiva; cuando vuelven a llegar bien se liberan
+ */
+export class AsofixQuarantine {
+  /**
+   * Guarda (o actualiza) los vehículos en cuarentena de una sincronización
+   * No falla la sincronización si no se puede guardar
+   */
+  static async record(source: string, syncLogId: number | null, vehicles: QuarantinedVehicle[]): Promise<void> {
+    for (const vehicle of vehicles) {
+      try {
+        await pool.execute(
+          `INSERT INTO asofix_quarantine
+             (source, quarantine_key, asofix_id, license_plate, reasons, payload, sync_log_id)
+           VALUES (?, ?, ?, ?, CAST(? AS JSON), CAST(? AS JSON), ?)
+           ON DUPLICATE KEY UPDATE
+             license_plate = VALUES(license_plate),
+             reasons = VALUES(reasons),
+             payload = VALUES(payload),
+             sync_log_id = VALUES(sync_log_id),
+             times_seen = IF(released_at IS NULL, times_seen + 1, 1),
+             first_seen_at = IF(released_at IS NULL, first_seen_at, CURRENT_TIMESTAMP),
+             last_seen_at = CURRENT_TIMESTAMP,
+             released_at = NULL`,
+          [
+            source,
+            vehicle.key,
+            vehicle.asofix_id,
+            vehicle.license_plate,
+            JSON.stringify(vehicle.reasons),
+            JSON.stringify(vehicle.payload ?? null),
+            syncLogId
+          ]
+        );
+      } catch (error: any) {
+        logger.warn(`No se pudo guardar en cuarentena el vehículo ${vehicle.asofix_id || vehicle.key}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Libera de la cuarentena los vehículos que en esta sincronización llegaron válidos
+   * @returns Cantidad de vehículos liberados
+   */
+  static async release(source: string, validIds: string[]): Promise<number> {
+    let released = 0;
+
+    try {
+      for (let i = 0; i < validIds.length; i += RELEASE_CHUNK_SIZE) {
+        const chunk = validIds.slice(i, i + RELEASE_CHUNK_SIZE);
+        const [result] = await pool.execute<any>(
+          `UPDATE asofix_quarantine
+           SET released_at = CURRENT_TIMESTAMP
+           WHERE source = ?
+             AND released_at IS NULL
+             AND asofix_id IN (${chunk.map(() => '?').join(',')})`,
+          [source, ...chunk]
+        );
+        released += result.affectedRows || 0;
+      }
+    } catch (error: any) {
+      logger.warn(`No se pudieron liberar vehículos de la cuarentena: ${error.message}`);
+    }
+
+    if (released > 0) {
+      logger.info(`🔓 ${released} vehículos liberados de la cuarentena de esquema (${source})`);
+    }
+    return released;
+  }
+
+  /**
+   * Vehículos en cuarentena (más recientes primero)
+   */
+  static async list(options: { includeReleased?: boolean; limit?: number } = {}): Promise<QuarantineRecord[]> {
+    const [rows] = await pool.query<any[]>(
+      `SELECT id, source, asofix_id, license_plate, reasons, payload, sync_log_id,
+              times_seen, first_seen_at, last_seen_at, released_at
+       FROM asofix_quarantine
+       ${options.includeReleased ? '' : 'WHERE released_at IS NULL'}
+       ORDER BY last_seen_at DESC, id DESC
+       LIMIT ?`,
+      [options.limit || 100]
+    );
+
+    return rows.map((row: any) => ({
+      ...row,
+      reasons: parseJson(row.reasons) || [],
+      payload: parseJson(row.payload)
+    }));
+  }
+}
@@ -0,0 +1,337 @@
+import crypto from 'crypto';
+import { AsofixApiResponse, AsofixVehicle } from './asofix-api';
+
+export type JsonType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'null';
+
+interface FieldSchema {
+  types: JsonType[];
+  /**
+   * Sin este campo el vehículo va a cuarentena
+   */
+  required?: boolean;
+  /**
+   * Se reporta en el drift si falta, pero el vehículo se importa igual
+   */
+  expected?: boolean;
+  /**
+   * Campo number que también se acepta como string numérico (se reporta como cambio de tipo)
+   */
+  numeric?: boolean;
+  /**
+   * Campos de un object, o de cada elemento de un array de objetos
+   */
+  fields?: Record<string, FieldSchema>;
+}
+
+/**
+ * Esquema de un vehículo del catálogo de ASOFIX (lo que lee la sincronización)
+ * Un campo ausente o null se acepta salvo que sea required; un tipo distinto al declarado
+ * pone el vehículo en cuarentena para no importarlo a medias
+ */
+const VEHICLE_SCHEMA: Record<string, FieldSchema> = {
+  id: { types: ['string', 'number'], required: true },
+  brand_id: { types: ['number', 'string'] },
+  model_id: { types: ['number', 'string'] },
+  brand_name: { types: ['string'], expected: true },
+  model_name: { types: ['string'], expected: true },
+  version: { types: ['string'] },
+  description: { types: ['string'] },
+  year: { types: ['number'], numeric: true, expected: true },
+  kilometres: { types: ['number'], numeric: true },
+  license_plate: { types: ['string'], expected: true },
+  origin: { types: ['string'] },
+  car_condition: { types: ['string'] },
+  car_transmission: { types: ['string'] },
+  car_fuel_type: { types: ['string'] },
+  car_segment: { types: ['string'] },
+  price: {
+    types: ['object'],
+    expected: true,
+    fields: {
+      list_price: { types: ['number'], numeric: true },
+      currency_name: { types: ['string'] }
+    }
+  },
+  colors: { types: ['array'], fields: { name: { types: ['string'] } } },
+  stocks: {
+    types: ['array'],
+    expected: true,
+    fields: {
+      status: { types: ['string'] },
+      branch_office_name: { types: ['string'] },
+      location_name: { types: ['string'] }
+    }
+  },
+  images: { types: ['array'], fields: { url: { types: ['string'] } } }
+};
+
+/**
+ * La respuesta de una página no tiene la forma esperada (se trata como página fallida)
+ */
+export class AsofixSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AsofixSchemaError';
+  }
+}
+
+export interface QuarantinedVehicle {
+  /**
+   * asofix_id, o sha1 del payload si el vehículo llegó sin id
+   */
+  key: string;
+  asofix_id: string | null;
+  license_plate: string | null;
+  reasons: string[];
+  payload: any;
+}
+
+export interface SchemaDriftReport {
+  source: string;
+  checked_at: string;
+  vehicles_checked: number;
+  vehicles_quarantined: number;
+  /**
+   * Campos que llegan y el esquema no declara
+   */
+  unknown_fields: Array<{ path: string; count: number; types: JsonType[]; sample_id: string | null }>;
+  /**
+   * Campos esperados que no llegaron (cantidad de vehículos sin el campo)
+   */
+  missing_fields: Array<{ path: string; count: number }>;
+  /**
+   * Campos que llegaron con un tipo distinto al declarado
+   */
+  type_changes: Array<{ path: string; expected: JsonType[]; observed: JsonType[]; count: number; sample_id: string | null }>;
+  /**
+   * Primeros vehículos en cuarentena (el detalle completo queda en asofix_quarantine)
+   */
+  quarantined: Array<{ asofix_id: string | null; license_plate: string | null; reasons: string[] }>;
+}
+
+/**
+ * Vehículos en cuarentena que se listan en el reporte guardado en sync_logs.metadata
+ */
+const REPORT_QUARANTINE_LIMIT = 50;
+
+function jsonType(value: unknown): JsonType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean' ? type : 'object';
+}
+
+function preview(value: unknown): string {
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > 40 ? `${text.slice(0, 40)}...` : text;
+}
+
+/**
+ * Acumula lo que se observó en los vehículos de una sincronización para armar el reporte de drift
+ */
+export class AsofixSchemaDrift {
+  private checked = 0;
+  private readonly quarantined: QuarantinedVehicle[] = [];
+  private readonly unknown = new Map<string, { count: number; types: Set<JsonType>; sampleId: string | null }>();
+  private readonly missing = new Map<string, number>();
+  private readonly typeChanges = new Map<string, { expected: JsonType[]; observed: Set<JsonType>; count: number; sampleId: string | null }>();
+
+  constructor(readonly source: string) {}
+
+  countChecked(): void {
+    this.checked++;
+  }
+
+  addQuarantined(vehicle: QuarantinedVehicle): void {
+    this.quarantined.push(vehicle);
+  }
+
+  addUnknown(path: string, type: JsonType, sampleId: string | null): void {
+    const entry = this.unknown.get(path) || { count: 0, types: new Set<JsonType>(), sampleId };
+    entry.count++;
+    entry.types.add(type);
+    this.unknown.set(path, entry);
+  }
+
+  addMissing(path: string): void {
+    this.missing.set(path, (this.missing.get(path) || 0) + 1);
+  }
+
+  addTypeChange(path: string, expected: JsonType[], observed: JsonType, sampleId: string | null): void {
+    const entry = this.typeChanges.get(path) || { expected, observed: new Set<JsonType>(), count: 0, sampleId };
+    entry.count++;
+    entry.observed.add(observed);
+    this.typeChanges.set(path, entry);
+  }
+
+  getQuarantined(): QuarantinedVehicle[] {
+    return this.quarantined;
+  }
+
+  hasDrift(): boolean {
+    return this.unknown.size > 0 || this.missing.size > 0 || this.typeChanges.size > 0 || this.quarantined.length > 0;
+  }
+
+  toReport(): SchemaDriftReport {
+    return {
+      source: this.source,
+      checked_at: new Date().toISOString(),
+      vehicles_checked: this.checked,
+      vehicles_quarantined: this.quarantined.length,
+      unknown_fields: Array.from(this.unknown.entries())
+        .map(([path, entry]) => ({ path, count: entry.count, types: Array.from(entry.types), sample_id: entry.sampleId }))
+        .sort((a, b) => b.count - a.count),
+      missing_fields: Array.from(this.missing.entries())
+        .map(([path, count]) => ({ path, count }))
+        .sort((a, b) => b.count - a.count),
+      type_changes: Array.from(this.typeChanges.entries())
+        .map(([path, entry]) => ({
+          path,
+          expected: entry.expected,
+          observed: Array.from(entry.observed),
+          count: entry.count,
+          sample_id: entry.sampleId
+        }))
+        .sort((a, b) => b.count - a.count),
+      quarantined: this.quarantined
+        .slice(0, REPORT_QUARANTINE_LIMIT)
+        .map(vehicle => ({ asofix_id: vehicle.asofix_id, license_plate: vehicle.license_plate, reasons: vehicle.reasons }))
+    };
+  }
+}
+
+/**
+ * Validación en tiempo de ejecución de lo que envía ASOFIX
+ * AsofixVehicle es solo una interfaz: acá se verifica cada página contra VEHICLE_SCHEMA
+ */
+export class AsofixSchema {
+  /**
+   * Verifica la forma de la respuesta de una página (data y meta)
+   * @throws AsofixSchemaError si no se puede paginar con confianza
+   */
+  static validateResponse(body: unknown): AsofixApiResponse {
+    if (jsonType(body) !== 'object') {
+      throw new AsofixSchemaError(`Respuesta de ASOFIX inválida: se esperaba un objeto, llegó ${jsonType(body)}`);
+    }
+
+    const response = body as Record<string, unknown>;
+    if (response.data !== undefined && response.data !== null && !Array.isArray(response.data)) {
+      throw new AsofixSchemaError(`Respuesta de ASOFIX inválida: data es ${jsonType(response.data)}, se esperaba array`);
+    }
+
+    if (response.meta !== undefined && response.meta !== null) {
+      if (jsonType(response.meta) !== 'object') {
+        throw new AsofixSchemaError(`Respuesta de ASOFIX inválida: meta es ${jsonType(response.meta)}, se esperaba objeto`);
+      }
+      const meta = response.meta as Record<string, unknown>;
+      for (const key of ['current_page', 'total_pages', 'total_count']) {
+        if (meta[key] !== undefined && meta[key] !== null && isNaN(Number(meta[key]))) {
+          throw new AsofixSchemaError(`Respuesta de ASOFIX inválida: meta.${key} no es numérico (${preview(meta[key])})`);
+        }
+      }
+    }
+
+    return response as AsofixApiResponse;
+  }
+
+  /**
+   * Separa los vehículos de una página en válidos y en cuarentena, registrando el drift
+   */
+  static validateVehicles(vehicles: unknown[], drift: AsofixSchemaDrift): AsofixVehicle[] {
+    const valid: AsofixVehicle[] = [];
+
+    for (const raw of vehicles) {
+      drift.countChecked();
+      const reasons = this.validateVehicle(raw, drift);
+
+      if (reasons.length === 0) {
+        valid.push(raw as AsofixVehicle);
+        continue;
+      }
+
+      const vehicle = (jsonType(raw) === 'object' ? raw : {}) as Record<string, unknown>;
+      const asofixId = vehicle.id !== undefined && vehicle.id !== null && vehicle.id !== '' ? String(vehicle.id) : null;
+      drift.addQuarantined({
+        key: asofixId || `sha1:${crypto.createHash('sha1').update(JSON.stringify(raw) ?? '').digest('hex')}`,
+        asofix_id: asofixId,
+        license_plate: typeof vehicle.license_plate === 'string' ? vehicle.license_plate : null,
+        reasons,
+        payload: raw
+      });
+    }
+
+    return valid;
+  }
+
+  /**
+   * Motivos por los que el vehículo no se puede importar (vacío = válido)
+   */
+  static validateVehicle(raw: unknown, drift?: AsofixSchemaDrift): string[] {
+    if (jsonType(raw) !== 'object') {
+      return [`El vehículo no es un objeto (llegó ${jsonType(raw)})`];
+    }
+
+    const vehicle = raw as Record<string, unknown>;
+    const sampleId = vehicle.id !== undefined && vehicle.id !== null ? String(vehicle.id) : null;
+    return this.validateObject(vehicle, VEHICLE_SCHEMA, '', sampleId, drift);
+  }
+
+  private static validateObject(
+    value: Record<string, unknown>,
+    schema: Record<string, FieldSchema>,
+    prefix: string,
+    sampleId: string | null,
+    drift?: AsofixSchemaDrift
+  ): string[] {
+    const reasons: string[] = [];
+
+    for (const key of Object.keys(value)) {
+      if (!schema[key]) {
+        drift?.addUnknown(`${prefix}${key}`, jsonType(value[key]), sampleId);
+      }
+    }
+
+    for (const [key, field] of Object.entries(schema)) {
+      const path = `${prefix}${key}`;
+      const fieldValue = value[key];
+
+      if (fieldValue === undefined || fieldValue === null || fieldValue === '') {
+        if (field.required) {
+          reasons.push(`Falta el campo obligatorio ${path}`);
+        } else if (field.expected) {
+          drift?.addMissing(path);
+        }
+        continue;
+      }
+
+      const type = jsonType(fieldValue);
+      if (!field.types.includes(type)) {
+        drift?.addTypeChange(path, field.types, type, sampleId);
+
+        // Un número que llega como string se puede importar igual
+        const numericString = field.numeric && type === 'string' && String(fieldValue).trim() !== '' && !isNaN(Number(fieldValue));
+        if (!numericString) {
+          reasons.push(`${path}: se esperaba ${field.types.join(' | ')}, llegó ${type} (${preview(fieldValue)})`);
+        }
+        continue;
+      }
+
+      if (field.fields && type === 'object') {
+        reasons.push(...this.validateObject(fieldValue as Record<string, unknown>, field.fields, `${path}.`, sampleId, drift));
+      } else if (field.fields && type === 'array') {
+        (fieldValue as unknown[]).forEach((item, index) => {
+          if (jsonType(item) !== 'object') {
+            drift?.addTypeChange(`${path}[]`, ['object'], jsonType(item), sampleId);
+            reasons.push(`${path}[${index}]: se esperaba object, llegó ${jsonType(item)}`);
+            return;
+          }
+          // En el drift los elementos se agrupan como path[].campo
+          const itemReasons = this.validateObject(item as Record<string, unknown>, field.fields!, `${path}[].`, sampleId, drift);
+          reasons.push(...itemReasons.map(reason => reason.replace(`${path}[].`, `${path}[${index}].`)));
+        });
+      }
+    }
+
+    return reasons;
+  }
+}
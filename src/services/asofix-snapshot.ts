@@ -0,0 +1,168 @@
+import asofixApi, { AsofixVehicle } from './asofix-api';
+import logger from './logger';
+import { AsofixSchema, AsofixSchemaDrift } from './asofix-schema';
+
+/**
+ * Segundos que se reutiliza un snapshot en los endpoints /asofix/vehicle/* antes de refrescarlo
+ */
+const SNAPSHOT_TTL_SECONDS = parseInt(process.env.ASOFIX_SNAPSHOT_TTL_SECONDS || '900', 10);
+
+/**
+ * Vehículos por página al armar un snapshot fuera de la sincronización
+ */
+const SNAPSHOT_PAGE_SIZE = 100;
+
+/**
+ * Índice en memoria del catálogo completo de ASOFIX por id, patente normalizada y origin
+ * Reemplaza el recorrido página por página de getVehicleByLicensePlate / getVehicleByOrigin:
+ * la sincronización lo arma con las páginas que ya obtuvo en la Fase 1.1 y lo usan la
+ * reactivación (Fase 1.3), la limpieza global y los endpoints /asofix/vehicle/*.
+ */
+export class AsofixSnapshot {
+  private static current: AsofixSnapshot | null = null;
+  private static refreshing: Promise<AsofixSnapshot> | null = null;
+
+  private readonly byId = new Map<string, AsofixVehicle>();
+  private readonly byLicensePlate = new Map<string, AsofixVehicle>();
+  private readonly byOrigin = new Map<string, AsofixVehicle>();
+  private readonly quarantinedIds: Set<string>;
+  readonly builtAt = new Date();
+
+  /**
+   * @param quarantinedIds IDs que llegaron pero no pasaron la validación de esquema: no están
+   * en el índice, pero tampoco faltan del catálogo (no hay que archivarlos)
+   * @param fetchStartedAt Cuándo se pidió la primera página: un cambio posterior puede no estar
+   */
+  constructor(
+    vehicles: AsofixVehicle[],
+    quarantinedIds: Iterable<string> = [],
+    readonly fetchStartedAt: Date = new Date()
+  ) {
+    this.quarantinedIds = new Set(quarantinedIds);
+    // Ante duplicados se queda el primero, igual que la búsqueda página por página
+    for (const vehicle of vehicles) {
+      if (vehicle.id && !this.byId.has(String(vehicle.id))) {
+        this.byId.set(String(vehicle.id), vehicle);
+      }
+
+      const plate = AsofixSnapshot.normalizeLicensePlate(vehicle.license_plate);
+      if (plate && !this.byLicensePlate.has(plate)) {
+        this.byLicensePlate.set(plate, vehicle);
+      }
+
+      const origin = AsofixSnapshot.normalizeOrigin(vehicle.origin);
+      if (origin && !this.byOrigin.has(origin)) {
+        this.byOrigin.set(origin, vehicle);
+      }
+    }
+  }
+
+  /**
+   * Patente normalizada: mayúsculas y sin espacios ni guiones ("ab-123 cd" → "AB123CD")
+   */
+  static normalizeLicensePlate(licensePlate?: string | null): string {
+    return (licensePlate || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+  }
+
+  static normalizeOrigin(origin?: string | null): string {
+    return (origin || '').trim().toUpperCase();
+  }
+
+  findById(id: string): AsofixVehicle | null {
+    return this.byId.get(String(id)) || null;
+  }
+
+  findByLicensePlate(licensePlate: string): AsofixVehicle | null {
+    return this.byLicensePlate.get(AsofixSnapshot.normalizeLicensePlate(licensePlate)) || null;
+  }
+
+  findByOrigin(origin: string): AsofixVehicle | null {
+    return this.byOrigin.get(AsofixSnapshot.normalizeOrigin(origin)) || null;
+  }
+
+  isQuarantined(id: string): boolean {
+    return this.quarantinedIds.has(String(id));
+  }
+
+  get size(): number {
+    return this.byId.size;
+  }
+
+  get ageSeconds(): number {
+    return Math.floor((Date.now() - this.builtAt.getTime()) / 1000);
+  }
+
+  /**
+   * Publica un snapshot armado por la sincronización (solo si recorrió el catálogo completo)
+   */
+  static setCurrent(snapshot: AsofixSnapshot): void {
+    this.current = snapshot;
+    logger.info(`📇 Snapshot de ASOFIX actualizado: ${snapshot.size} vehículos`);
+  }
+
+  /**
+   * Devuelve el snapshot vigente, o arma uno nuevo si no hay o superó el TTL
+   * @param maxAgeSeconds Antigüedad máxima aceptada (default ASOFIX_SNAPSHOT_TTL_SECONDS)
+   */
+  static async get(maxAgeSeconds: number = SNAPSHOT_TTL_SECONDS): Promise<AsofixSnapshot> {
+    if (this.current && this.current.ageSeconds < maxAgeSeconds) {
+      return this.current;
+    }
+    return this.refresh();
+  }
+
+  /**
+   * Recorre todas las páginas de ASOFIX y reemplaza el snapshot vigente
+   * Las llamadas concurrentes comparten la misma descarga
+   */
+  static refresh(): Promise<AsofixSnapshot> {
+    if (!this.refreshing) {
+      const fetchStartedAt = new Date();
+      this.refreshing = this.fetchAll()
+        .then(({ vehicles, quarantinedIds }) => {
+          const snapshot = new AsofixSnapshot(vehicles, quarantinedIds, fetchStartedAt);
+          this.setCurrent(snapshot);
+          return snapshot;
+        })
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Obtiene todas las páginas (incluidos vehículos sin stock activo)
+   * Si una página falla se lanza el error: un snapshot parcial haría creer que faltan vehículos
+   * Los vehículos que no pasan la validación de esquema quedan afuera (igual que en la sync)
+   */
+  private static async fetchAll(): Promise<{ vehicles: AsofixVehicle[]; quarantinedIds: string[] }> {
+    const vehicles: AsofixVehicle[] = [];
+    const drift = new AsofixSchemaDrift('asofix');
+    let currentPage = 1;
+    let hasMore = true;
+
+    while (hasMore) {
+      const response = await asofixApi.getVehiclesPage(currentPage, SNAPSHOT_PAGE_SIZE);
+      const pageVehicles = response.data || [];
+      vehicles.push(...AsofixSchema.validateVehicles(pageVehicles, drift));
+
+      const meta = response.meta;
+      if (meta && meta.current_page && meta.total_pages) {
+        hasMore = meta.current_page < meta.total_pages;
+      } else {
+        hasMore = pageVehicles.length > 0;
+      }
+      currentPage++;
+    }
+
+    const quarantined = drift.getQuarantined();
+    if (quarantined.length > 0) {
+      logger.warn(`Snapshot de ASOFIX: ${quarantined.length} vehículos omitidos por no pasar la validación de esquema`);
+    }
+    return {
+      vehicles,
+      quarantinedIds: quarantined.map(vehicle => vehicle.asofix_id).filter((id): id is string => !!id)
+    };
+  }
+}
@@ -15,6 +15,25 @@ export interface AuditResult {
   generatedAt: string;
 }
 
+export interface FilteredVehicleRecord {
+  id: number;
+  asofix_id: string;
+  title: string;
+  license_plate: string | null;
+  filter_reason: string | null;
+  updated_at: Date;
+}
+
+export interface FilteredVehiclesResult {
+  /**
+   * Vehículos archivados por código de motivo (vehicles.filter_reason)
+   */
+  byReason: Record<string, number>;
+  totalArchived: number;
+  vehicles: FilteredVehicleRecord[];
+  generatedAt: string;
+}
+
 /**
  * Servicio de auditoría para extraer el catálogo completo de vehículos
  * desde la base de datos para comparación con fuentes externas.
@@ -98,6 +117,66 @@ class AuditService {
     }
   }
 
+  /**
+   * Cuenta los vehículos archivados por código de motivo y lista los de un motivo
+   * Usa la columna indexada vehicles.filter_reason (ver FILTER_REASON_CODES)
+   *
+   * @param reason Código de motivo a listar (si no se pasa, se listan todos los archivados)
+   * @param limit Máximo de vehículos a listar
+   */
+  async getFilteredVehicles(reason?: string, limit: number = 500): Promise<FilteredVehiclesResult> {
+    try {
+      const byReason = await this.countArchivedByReason();
+
+      const [rows] = await pool.query<any[]>(
+        `SELECT id, asofix_id, title, license_plate, filter_reason, updated_at
+         FROM vehicles
+         WHERE status = 'archived'
+           ${reason ? 'AND filter_reason = ?' : ''}
+         ORDER BY updated_at DESC
+         LIMIT ?`,
+        reason ? [reason, limit] : [limit]
+      );
+
+      return {
+        byReason,
+        totalArchived: Object.values(byReason).reduce((total, count) => total + count, 0),
+        vehicles: rows.map((row: any) => ({
+          id: row.id,
+          asofix_id: row.asofix_id,
+          title: row.title || '',
+          license_plate: row.license_plate || null,
+          filter_reason: row.filter_reason || null,
+          updated_at: row.updated_at
+        })),
+        generatedAt: new Date().toISOString()
+      };
+    } catch (error: any) {
+      logger.error(`Error al obtener vehículos filtrados: ${error.message}`, {
+        stack: error.stack
+      });
+      throw new Error(`Error al obtener vehículos filtrados: ${error.message}`);
+    }
+  }
+
+  /**
+   * Cantidad de vehículos archivados por código de motivo (los sin código van en 'sin_codigo')
+   */
+  async countArchivedByReason(): Promise<Record<string, number>> {
+    const [rows] = await pool.execute<any[]>(
+      `SELECT COALESCE(filter_reason, 'sin_codigo') AS filter_reason, COUNT(*) AS total
+       FROM vehicles
+       WHERE status = 'archived'
+       GROUP BY filter_reason`
+    );
+
+    const byReason: Record<string, number> = {};
+    for (const row of rows) {
+      byReason[row.filter_reason] = (byReason[row.filter_reason] || 0) + Number(row.total);
+    }
+    return byReason;
+  }
+
   /**
    * Convierte el resultado de auditoría a formato CSV
    * 
@@ -0,0 +1,72 @@
+/**
+ * Pool de descargas con concurrencia acotada y límite de descargas simultáneas por host
+ * Se usa en la Fase 2 para no saturar ni el servidor de imágenes de ASOFIX ni el nuestro
+ */
+export class DownloadPool<T> {
+  private active = 0;
+  private activeByHost = new Map<string, number>();
+
+  constructor(
+    private readonly options: {
+      concurrency: number;
+      perHost: number;
+      hostOf: (item: T) => string;
+    }
+  ) {}
+
+  /**
+   * Procesa todos los items y resuelve cuando terminaron
+   * El worker no debe lanzar: los errores de cada item los maneja el llamador
+   */
+  run(items: T[], worker: (item: T) => Promise<void>): Promise<void> {
+    const queue = [...items];
+    const concurrency = Math.max(1, this.options.concurrency);
+    const perHost = Math.max(1, this.options.perHost);
+
+    return new Promise(resolve => {
+      const schedule = () => {
+        if (queue.length === 0 && this.active === 0) {
+          resolve();
+          return;
+        }
+
+        // Tomar el primer item cuyo host tenga cupo, respetando la concurrencia global
+        let index = 0;
+        while (this.active < concurrency && index < queue.length) {
+          const host = this.options.hostOf(queue[index]);
+          if ((this.activeByHost.get(host) || 0) >= perHost) {
+            index++;
+            continue;
+          }
+
+          const [item] = queue.splice(index, 1);
+          this.active++;
+          this.activeByHost.set(host, (this.activeByHost.get(host) || 0) + 1);
+
+          worker(item)
+            .catch(() => {
+              // Los errores se registran en el worker
+            })
+            .finally(() => {
+              this.active--;
+              this.activeByHost.set(host, (this.activeByHost.get(host) || 1) - 1);
+              schedule();
+            });
+        }
+      };
+
+      schedule();
+    });
+  }
+
+  /**
+   * Obtiene el host de una URL (o 'unknown' si no es válida)
+   */
+  static hostOf(url: string): string {
+    try {
+      return new URL(url).host || 'unknown';
+    } catch (e) {
+      return 'unknown';
+    }
+  }
+}
@@ -1,7 +1,17 @@
 import { Resend } from 'resend';
 import logger from './logger';
+import type { ArchiveReview } from './archive-guard';
 
-const resend = new Resend(process.env.RESEND_API_KEY);
+// El cliente se crea al primer envío: Resend falla sin API key y este módulo también
+// lo importan la sincronización y los scripts
+let resend: Resend | null = null;
+
+function getResend(): Resend {
+  if (!resend) {
+    resend = new Resend(process.env.RESEND_API_KEY);
+  }
+  return resend;
+}
 
 
 
@@ -194,7 +204,7 @@ export async function sendLeadEmail(data: any): Promise<void> {
   const { subject, html } = formatEmailContent(data);
   const to = resolveRecipient(data.source);
 
-  const response = await resend.emails.send({
+  const response = await getResend().emails.send({
     from: process.env.EMAIL_FROM,
     to,
     subject,
@@ -221,3 +231,54 @@ export async function sendLeadEmail(data: any): Promise<void> {
 
 }
 
+/**
+ * Aviso de archivado masivo retenido por el circuit breaker de la limpieza global
+ * Se envía solo si SYNC_REVIEW_EMAIL_TO está configurado
+ */
+export async function sendSyncReviewEmail(syncLogId: number | null, review: ArchiveReview): Promise<void> {
+  const to = process.env.SYNC_REVIEW_EMAIL_TO;
+  if (!to) return;
+
+  if (!process.env.RESEND_API_KEY || !process.env.EMAIL_FROM) {
+    throw new Error('RESEND_API_KEY o EMAIL_FROM no configurados');
+  }
+
+  const rows = review.candidates.slice(0, 50).map(candidate => `
+        <tr>
+          <td>${escapeHtml(candidate.asofix_id)}</td>
+          <td>${escapeHtml(candidate.title || '')}</td>
+          <td>${escapeHtml(candidate.reason)}</td>
+        </tr>`).join('');
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8" /></head>
+<body style="font-family: Arial, sans-serif; color:#111827;">
+  <h2>Archivado masivo retenido (sync ${syncLogId ?? 'N/A'})</h2>
+  <p>${escapeHtml(review.reason)}</p>
+  <p>Fuente: <strong>${escapeHtml(review.source)}</strong> · Stock publicado: ${review.published_count} · Candidatos: ${review.candidates_count}</p>
+  <p>No se archivó ningún vehículo. Aprobar o descartar con
+    <code>POST /sync/archive-reviews/${syncLogId ?? ':syncLogId'}/approve</code> o <code>/discard</code>.</p>
+  <table border="1" cellpadding="4" cellspacing="0">
+    <tr><th>ASOFIX ID</th><th>Título</th><th>Motivo</th></tr>${rows}
+  </table>
+  ${review.candidates.length > 50 ? `<p>... y ${review.candidates.length - 50} más</p>` : ''}
+</body>
+</html>
+`;
+
+  const response = await getResend().emails.send({
+    from: process.env.EMAIL_FROM,
+    to,
+    subject: `[CAR ADVICE] Sincronización ${syncLogId ?? ''} pendiente de revisión: ${review.candidates_count} vehículos a archivar`,
+    html,
+  });
+
+  if (response.error) {
+    logger.error('Error enviando aviso de revisión de archivado con Resend', { error: response.error, to });
+    throw new Error('No se pudo enviar el email');
+  }
+
+  logger.info('Aviso de revisión de archivado enviado con Resend', { id: response.data?.id, to });
+}
@@ -0,0 +1,392 @@
+import fs from 'fs';
+import path from 'path';
+import pool from '../config/database';
+import logger from './logger';
+
+/**
+ * Segundos que se reutiliza el tipo de cambio vigente antes de volver a leer exchange_rates
+ * (los cambios hechos desde este proceso se aplican al instante; el TTL cubre otras instancias)
+ */
+const EXCHANGE_RATES_RELOAD_SECONDS = parseInt(process.env.EXCHANGE_RATES_RELOAD_SECONDS || '60', 10);
+
+export const PRICE_CURRENCIES = ['USD', 'ARS'] as const;
+
+export type PriceCurrency = typeof PRICE_CURRENCIES[number];
+
+/**
+ * Nombres de moneda (currency_name de ASOFIX, columna "moneda" de planillas) por moneda,
+ * comparados en minúsculas y sin tildes
+ */
+const CURRENCY_ALIASES: Record<PriceCurrency, string[]> = {
+  USD: ['usd', 'us$', 'u$s', 'u$d', 'u$', 'dolar', 'dolares', 'dolar estadounidense', 'dollar', 'dollars', 'us dollar'],
+  ARS: ['ars', '$', 'ar$', '$ar', 'peso', 'pesos', 'peso argentino', 'pesos argentinos']
+};
+
+/**
+ * Moneda de los precios cuyo currency_name no se reconoce (o viene vacío)
+ */
+const DEFAULT_PRICE_CURRENCY: PriceCurrency = process.env.DEFAULT_PRICE_CURRENCY === 'USD' ? 'USD' : 'ARS';
+
+export interface ExchangeRate {
+  id: number;
+  /**
+   * YYYY-MM-DD
+   */
+  rate_date: string;
+  /**
+   * Pesos por dólar
+   */
+  ars_per_usd: number;
+  source: 'admin' | 'file';
+  updated_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ExchangeRateInput {
+  rate_date: string;
+  ars_per_usd: number;
+}
+
+/**
+ * Precio de un vehículo tal como se guarda en vehicles: el de lista en su moneda
+ * y el normalizado en ambas monedas con el tipo de cambio usado
+ */
+export interface NormalizedPrice {
+  price_currency: PriceCurrency | null;
+  price_usd: number | null;
+  price_ars: number | null;
+  normalized_price_usd: number | null;
+  normalized_price_ars: number | null;
+  exchange_rate: number | null;
+  exchange_rate_date: string | null;
+}
+
+/**
+ * Tipo de cambio inválido (el controlador responde 400)
+ */
+export class ExchangeRateValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExchangeRateValidationError';
+  }
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function normalizeName(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Tipos de cambio USD/ARS (tabla exchange_rates) y normalización de precios
+ * La sincronización guarda cada precio en su moneda explícita (según currency_name) y el
+ * equivalente en la otra moneda con el tipo de cambio vigente; /autos ordena y filtra por
+ * el precio normalizado. Al cargar un tipo de cambio nuevo se recalculan todos los vehículos.
+ */
+export class ExchangeRates {
+  private static rate: ExchangeRate | null = null;
+  private static loadedAt = 0;
+  private static loading: Promise<ExchangeRate | null> | null = null;
+  private static warnedCurrencyNames = new Set<string>();
+
+  /**
+   * Moneda de un precio según su currency_name
+   * Un nombre desconocido o vacío usa DEFAULT_PRICE_CURRENCY (se avisa una vez por nombre)
+   */
+  static resolveCurrency(currencyName: string | null | undefined): PriceCurrency {
+    const name = normalizeName(currencyName || '');
+
+    for (const currency of PRICE_CURRENCIES) {
+      if (CURRENCY_ALIASES[currency].includes(name)) {
+        return currency;
+      }
+    }
+    if (name.includes('dolar') || name.includes('dollar') || name.includes('usd')) {
+      return 'USD';
+    }
+    if (name.includes('peso') || name.includes('ars')) {
+      return 'ARS';
+    }
+
+    if (!this.warnedCurrencyNames.has(name)) {
+      this.warnedCurrencyNames.add(name);
+      logger.warn(`Moneda no reconocida "${currencyName || ''}": se toma como ${DEFAULT_PRICE_CURRENCY} (DEFAULT_PRICE_CURRENCY)`);
+    }
+    return DEFAULT_PRICE_CURRENCY;
+  }
+
+  /**
+   * Precio de lista en su moneda y normalizado en ambas con el tipo de cambio indicado
+   * Sin tipo de cambio solo se completa la moneda original; un precio <= 0 queda sin precio
+   */
+  static normalize(price: number, currency: PriceCurrency, rate: ExchangeRate | null): NormalizedPrice {
+    if (!isFinite(price) || price <= 0) {
+      return {
+        price_currency: null,
+        price_usd: null,
+        price_ars: null,
+        normalized_price_usd: null,
+        normalized_price_ars: null,
+        exchange_rate: null,
+        exchange_rate_date: null
+      };
+    }
+
+    const ratio = rate ? rate.ars_per_usd : null;
+    return {
+      price_currency: currency,
+      price_usd: currency === 'USD' ? price : null,
+      price_ars: currency === 'ARS' ? price : null,
+      normalized_price_usd: currency === 'USD' ? price : (ratio ? round2(price / ratio) : null),
+      normalized_price_ars: currency === 'ARS' ? price : (ratio ? round2(price * ratio) : null),
+      exchange_rate: ratio,
+      exchange_rate_date: rate ? rate.rate_date : null
+    };
+  }
+
+  /**
+   * Expresión SQL del precio comparable en una moneda: el normalizado, o el de lista si el
+   * vehículo todavía no se normalizó. NULL si no tiene precio en esa moneda ni conversión
+   * @param alias Alias de vehicles (o de VehicleOverrides.effectiveSource()) en la consulta
+   */
+  static comparablePriceSql(currency: PriceCurrency, alias: string = 'v'): string {
+    return currency === 'USD'
+      ? `COALESCE(${alias}.normalized_price_usd, ${alias}.price_usd)`
+      : `COALESCE(${alias}.normalized_price_ars, ${alias}.price_ars)`;
+  }
+
+  /**
+   * Tipo de cambio vigente sin ir a la BD (el último cargado)
+   */
+  static current(): ExchangeRate | null {
+    return this.rate;
+  }
+
+  /**
+   * Tipo de cambio vigente (fecha más reciente <= hoy), recargando si pasó el TTL
+   */
+  static async getCurrent(): Promise<ExchangeRate | null> {
+    if (Date.now() - this.loadedAt < EXCHANGE_RATES_RELOAD_SECONDS * 1000) {
+      return this.rate;
+    }
+    return this.reload();
+  }
+
+  /**
+   * Vuelve a leer el tipo de cambio vigente
+   * No falla: si la tabla no existe o la BD no responde se mantiene el anterior
+   */
+  static async reload(): Promise<ExchangeRate | null> {
+    if (this.loading) return this.loading;
+
+    this.loading = (async () => {
+      try {
+        const [rows] = await pool.execute<any[]>(
+          `SELECT id, DATE_FORMAT(rate_date, '%Y-%m-%d') AS rate_date, ars_per_usd, source, updated_by, created_at, updated_at
+           FROM exchange_rates
+           WHERE rate_date <= CURDATE()
+           ORDER BY rate_date DESC
+           LIMIT 1`
+        );
+        this.rate = rows[0] ? this.mapRow(rows[0]) : null;
+      } catch (error: any) {
+        logger.warn(`No se pudo cargar el tipo de cambio de la BD: ${error.message}`);
+      } finally {
+        this.loadedAt = Date.now();
+        this.loading = null;
+      }
+      return this.rate;
+    })();
+
+    return this.loading;
+  }
+
+  /**
+   * Tipos de cambio cargados (más recientes primero)
+   */
+  static async list(limit: number = 30): Promise<ExchangeRate[]> {
+    const [rows] = await pool.query<any[]>(
+      `SELECT id, DATE_FORMAT(rate_date, '%Y-%m-%d') AS rate_date, ars_per_usd, source, updated_by, created_at, updated_at
+       FROM exchange_rates
+       ORDER BY rate_date DESC
+       LIMIT ?`,
+      [limit]
+    );
+    return rows.map((row: any) => this.mapRow(row));
+  }
+
+  /**
+   * Guarda (o reemplaza) tipos de cambio por fecha y recalcula los precios normalizados
+   * Con keepAdminRates no se pisan las fechas cargadas desde PUT /internal/exchange-rates
+   * (lo usa la carga del archivo al iniciar el proceso)
+   * @throws ExchangeRateValidationError si alguna fecha o valor es inválido
+   * @returns Cantidad de fechas guardadas y salteadas, tipo de cambio vigente y vehículos recalculados
+   */
+  static async set(
+    entries: unknown[],
+    source: ExchangeRate['source'],
+    updatedBy: string,
+    options: { keepAdminRates?: boolean } = {}
+  ): Promise<{ saved: number; skipped: number; current: ExchangeRate | null; vehicles_updated: number }> {
+    if (!Array.isArray(entries) || entries.length === 0) {
+      throw new ExchangeRateValidationError('No se indicó ningún tipo de cambio');
+    }
+    let rates = entries.map((entry, index) => this.validate(entry, index));
+    const total = rates.length;
+
+    const connection = await pool.getConnection();
+    try {
+      await connection.beginTransaction();
+      if (options.keepAdminRates) {
+        const [adminRows] = await connection.query<any[]>(
+          `SELECT DATE_FORMAT(rate_date, '%Y-%m-%d') AS rate_date FROM exchange_rates
+           WHERE source = 'admin' AND rate_date IN (?) FOR UPDATE`,
+          [rates.map(rate => rate.rate_date)]
+        );
+        const adminDates = new Set(adminRows.map((row: any) => row.rate_date));
+        rates = rates.filter(rate => !adminDates.has(rate.rate_date));
+      }
+      for (const rate of rates) {
+        await connection.execute(
+          `INSERT INTO exchange_rates (rate_date, ars_per_usd, source, updated_by) VALUES (?, ?, ?, ?)
+           ON DUPLICATE KEY UPDATE ars_per_usd = VALUES(ars_per_usd), source = VALUES(source), updated_by = VALUES(updated_by)`,
+          [rate.rate_date, rate.ars_per_usd, source, updatedBy]
+        );
+      }
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+
+    const skipped = total - rates.length;
+    logger.info(`💱 ${rates.length} tipo(s) de cambio guardado(s) por ${updatedBy} (${source})${skipped > 0 ? `, ${skipped} salteado(s) por estar cargados por un administrador` : ''}`);
+
+    // Forzar la recarga aunque no haya vencido el TTL
+    this.loadedAt = 0;
+    const current = await this.reload();
+    const vehiclesUpdated = await this.renormalize();
+
+    return { saved: rates.length, skipped, current, vehicles_updated: vehiclesUpdated };
+  }
+
+  /**
+   * Recalcula los precios normalizados de los vehículos que no usan el tipo de cambio vigente
+   * (misma cuenta que normalize; no toca updated_at)
+   * @returns Cantidad de vehículos actualizados
+   */
+  static async renormalize(): Promise<number> {
+    const rate = await this.getCurrent();
+    if (!rate) return 0;
+
+    const [result] = await pool.execute<any>(
+      `UPDATE vehicles SET
+         normalized_price_usd = IF(price_currency = 'USD', price_usd, ROUND(price_ars / ?, 2)),
+         normalized_price_ars = IF(price_currency = 'ARS', price_ars, ROUND(price_usd * ?, 2)),
+         exchange_rate = ?,
+         exchange_rate_date = ?,
+         updated_at = updated_at
+       WHERE price_currency IS NOT NULL
+         AND (exchange_rate IS NULL OR exchange_rate <> ? OR exchange_rate_date IS NULL OR exchange_rate_date <> ?)`,
+      [rate.ars_per_usd, rate.ars_per_usd, rate.ars_per_usd, rate.rate_date, rate.ars_per_usd, rate.rate_date]
+    );
+
+    const updated = result.affectedRows || 0;
+    if (updated > 0) {
+      logger.info(`💱 Precios normalizados de ${updated} vehículos con ${rate.ars_per_usd} ARS/USD (${rate.rate_date})`);
+    }
+    return updated;
+  }
+
+  /**
+   * Carga tipos de cambio desde un archivo local
+   * - .json: [{ "rate_date": "2026-10-01", "ars_per_usd": 1450 }] o { "rates": [...] }
+   *   (también acepta "date" y "rate")
+   * - .csv: fecha,tipo_de_cambio por línea (con o sin encabezado; separador , o ;)
+   * Con keepAdminRates las fechas cargadas por un administrador no se reemplazan
+   */
+  static async loadFromFile(filePath: string, updatedBy: string = 'file', options: { keepAdminRates?: boolean } = {}) {
+    const content = fs.readFileSync(filePath, 'utf8');
+    const entries = this.parseFile(content, path.extname(filePath).toLowerCase() === '.json' ? 'json' : 'csv');
+    return this.set(entries, 'file', updatedBy, options);
+  }
+
+  /**
+   * Tipos de cambio de un archivo (formatos de loadFromFile), ya validados
+   * @throws ExchangeRateValidationError si el archivo no tiene el formato o algún valor es inválido
+   */
+  static parseFile(content: string, format: 'json' | 'csv'): ExchangeRateInput[] {
+    const entries = format === 'json' ? this.parseJson(content) : this.parseCsv(content);
+    if (entries.length === 0) {
+      throw new ExchangeRateValidationError('No se indicó ningún tipo de cambio');
+    }
+    return entries.map((entry, index) => this.validate(entry, index));
+  }
+
+  private static parseJson(content: string): unknown[] {
+    let data: any;
+    try {
+      data = JSON.parse(content);
+    } catch (error: any) {
+      throw new ExchangeRateValidationError(`Archivo JSON inválido: ${error.message}`);
+    }
+    const list = Array.isArray(data) ? data : data?.rates;
+    if (!Array.isArray(list)) {
+      throw new ExchangeRateValidationError('El JSON debe ser una lista de tipos de cambio o { "rates": [...] }');
+    }
+    return list.map((item: any) => ({
+      rate_date: item?.rate_date ?? item?.date,
+      ars_per_usd: item?.ars_per_usd ?? item?.rate
+    }));
+  }
+
+  private static parseCsv(content: string): unknown[] {
+    const entries: unknown[] = [];
+    for (const line of content.split(/\r?\n/)) {
+      if (!line.trim()) continue;
+      const separator = line.includes(';') ? ';' : ',';
+      const [date, rate] = line.split(separator).map(cell => cell.trim().replace(/^"|"$/g, ''));
+      // Encabezado
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date || '') && entries.length === 0) continue;
+      entries.push({
+        rate_date: date,
+        // Con separador ; se admite coma decimal (1450,50)
+        ars_per_usd: Number(separator === ';' ? (rate || '').replace(',', '.') : rate)
+      });
+    }
+    return entries;
+  }
+
+  private static validate(entry: unknown, index: number): ExchangeRateInput {
+    const item = (entry || {}) as Record<string, unknown>;
+    const rateDate = typeof item.rate_date === 'string' ? item.rate_date.trim() : '';
+    const parsedDate = new Date(`${rateDate}T00:00:00Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(rateDate) || isNaN(parsedDate.getTime()) || parsedDate.toISOString().slice(0, 10) !== rateDate) {
+      throw new ExchangeRateValidationError(`Tipo de cambio #${index + 1}: rate_date debe ser una fecha YYYY-MM-DD`);
+    }
+
+    const arsPerUsd = item.ars_per_usd;
+    if (typeof arsPerUsd !== 'number' || !isFinite(arsPerUsd) || arsPerUsd <= 0) {
+      throw new ExchangeRateValidationError(`Tipo de cambio #${index + 1} (${rateDate}): ars_per_usd debe ser un número mayor a 0`);
+    }
+
+    return { rate_date: rateDate, ars_per_usd: arsPerUsd };
+  }
+
+  private static mapRow(row: any): ExchangeRate {
+    return {
+      id: row.id,
+      rate_date: row.rate_date,
+      ars_per_usd: Number(row.ars_per_usd),
+      source: row.source,
+      updated_by: row.updated_by,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+}
@@ -0,0 +1,450 @@
+import fs from 'fs';
+import path from 'path';
+import http from 'http';
+import crypto from 'crypto';
+import express, { Application, Request, Response } from 'express';
+import axios from 'axios';
+import sharp from 'sharp';
+import logger from './logger';
+import { AsofixApiResponse, AsofixVehicle } from './asofix-api';
+import { WebhookSignature } from './webhook-signature';
+
+/**
+ * Marcador de las fixtures que se reemplaza por la URL pública del servidor falso
+ * (así las imágenes de las fixtures de ejemplo se descargan del propio servidor)
+ */
+export const FAKE_ASOFIX_URL_PLACEHOLDER = '{{FAKE_ASOFIX_URL}}';
+
+/**
+ * Catálogo guardado por el grabador (npm run asofix:record) o escrito a mano
+ */
+export interface AsofixFixture {
+  recorded_at?: string;
+  source?: string;
+  vehicles: AsofixVehicle[];
+}
+
+export interface FakeAsofixOptions {
+  /**
+   * Archivo de fixture o directorio con catalog.json
+   */
+  fixturesPath: string;
+  port: number;
+  /**
+   * Si se define, el header x-api-key tiene que coincidir; si no, alcanza con que venga
+   */
+  apiKey?: string;
+  /**
+   * URL con la que el backend llega al servidor (default http://localhost:<port>)
+   */
+  publicUrl?: string;
+  /**
+   * Si se define, cada escenario aplicado notifica los vehículos que cambiaron a esta URL
+   * (POST /sync/webhook del backend), como haría ASOFIX
+   */
+  webhookUrl?: string;
+  /**
+   * Secreto para firmar las notificaciones (el mismo SYNC_WEBHOOK_SECRET del backend)
+   */
+  webhookSecret?: string;
+}
+
+export type FakeScenarioParams = Record<string, string>;
+
+/**
+ * Error que responde una página hasta agotar `remaining` (null = siempre)
+ */
+interface PageFailure {
+  page: number;
+  status: number;
+  remaining: number | null;
+  retryAfterSeconds: number | null;
+}
+
+interface FakeAsofixState {
+  vehicles: AsofixVehicle[];
+  failures: PageFailure[];
+}
+
+interface PendingScenario {
+  name: string;
+  params: FakeScenarioParams;
+  afterPasses: number;
+}
+
+interface FakeScenario {
+  description: string;
+  /**
+   * Modifica el estado y devuelve una descripción de lo que cambió
+   */
+  apply(state: FakeAsofixState, params: FakeScenarioParams, baseUrl: string): string;
+}
+
+export class FakeAsofixError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'FakeAsofixError';
+  }
+}
+
+/**
+ * Vehículo indicado por ?id= o, si no se indica, el primero con stock activo
+ */
+function pickVehicle(state: FakeAsofixState, params: FakeScenarioParams): AsofixVehicle {
+  const vehicle = params.id
+    ? state.vehicles.find(item => String(item.id) === params.id)
+    : state.vehicles.find(item => item.stocks?.some(stock => (stock.status || '').toUpperCase() === 'ACTIVO'));
+
+  if (!vehicle) {
+    throw new FakeAsofixError(params.id ? `Vehículo ${params.id} no está en el catálogo` : 'No hay vehículos con stock activo');
+  }
+  return vehicle;
+}
+
+function parseIntParam(params: FakeScenarioParams, key: string, fallback: number): number {
+  const value = parseInt(params[key] ?? '', 10);
+  return isNaN(value) ? fallback : value;
+}
+
+function imageUrls(baseUrl: string, prefix: string, count: number): Array<{ url: string }> {
+  return Array.from({ length: count }, (_, index) => ({ url: `${baseUrl}/images/${prefix}-${index + 1}.jpg` }));
+}
+
+/**
+ * Escenarios para reproducir casos de la sincronización sin depender del catálogo real
+ * Parámetros comunes: id (vehículo; default el primero con stock activo)
+ */
+export const FAKE_ASOFIX_SCENARIOS: Record<string, FakeScenario> = {
+  'vehicle-reserved': {
+    description: 'El vehículo pasa a RESERVADO (sin stock activo): la sync lo archiva',
+    apply(state, params) {
+      const vehicle = pickVehicle(state, params);
+      vehicle.stocks = (vehicle.stocks || [{}]).map(stock => ({ ...stock, status: 'RESERVADO' }));
+      return `Vehículo ${vehicle.id} (${vehicle.license_plate || 'sin patente'}) reservado`;
+    }
+  },
+  'vehicle-removed': {
+    description: 'El vehículo desaparece del catálogo: lo archiva la limpieza global',
+    apply(state, params) {
+      const vehicle = pickVehicle(state, params);
+      state.vehicles = state.vehicles.filter(item => item !== vehicle);
+      return `Vehículo ${vehicle.id} (${vehicle.license_plate || 'sin patente'}) eliminado del catálogo`;
+    }
+  },
+  'page-error': {
+    description: 'Una página responde con error (page=2, status=500, times=1; times=0 = siempre)',
+    apply(state, params) {
+      const page = parseIntParam(params, 'page', 2);
+      const status = parseIntParam(params, 'status', 500);
+      const times = parseIntParam(params, 'times', 1);
+      state.failures.push({ page, status, remaining: times > 0 ? times : null, retryAfterSeconds: null });
+      return `Página ${page} responde ${status} ${times > 0 ? `las próximas ${times} veces` : 'siempre'}`;
+    }
+  },
+  'rate-limited': {
+    description: 'Una página responde 429 con Retry-After (page=1, times=1, retry_after=1)',
+    apply(state, params) {
+      const page = parseIntParam(params, 'page', 1);
+      const times = parseIntParam(params, 'times', 1);
+      const retryAfter = parseIntParam(params, 'retry_after', 1);
+      state.failures.push({ page, status: 429, remaining: times > 0 ? times : null, retryAfterSeconds: retryAfter });
+      return `Página ${page} responde 429 (Retry-After: ${retryAfter}s) ${times > 0 ? `las próximas ${times} veces` : 'siempre'}`;
+    }
+  },
+  'images-changed': {
+    description: 'Se reemplazan las imágenes del vehículo por otras nuevas (count=3)',
+    apply(state, params, baseUrl) {
+      const vehicle = pickVehicle(state, params);
+      const version = crypto.randomBytes(3).toString('hex');
+      vehicle.images = imageUrls(baseUrl, `${vehicle.id}-${version}`, parseIntParam(params, 'count', 3));
+      return `Vehículo ${vehicle.id}: ${vehicle.images.length} imágenes nuevas`;
+    }
+  },
+  'plate-reused': {
+    description: 'El vehículo se vende y su patente aparece en otro vehículo con id nuevo (new_id opcional)',
+    apply(state, params, baseUrl) {
+      const vehicle = pickVehicle(state, params);
+      const newId = params.new_id || String(Math.max(0, ...state.vehicles.map(item => parseInt(String(item.id), 10) || 0)) + 1);
+      if (state.vehicles.some(item => String(item.id) === newId)) {
+        throw new FakeAsofixError(`El id ${newId} ya está en el catálogo`);
+      }
+
+      const replacement: AsofixVehicle = {
+        ...JSON.parse(JSON.stringify(vehicle)),
+        id: newId,
+        year: vehicle.year ? vehicle.year + 1 : vehicle.year,
+        images: imageUrls(baseUrl, `${newId}-reused`, 2)
+      };
+      state.vehicles = state.vehicles.map(item => (item === vehicle ? replacement : item));
+      return `Patente ${vehicle.license_plate || 'sin patente'} pasa del vehículo ${vehicle.id} al ${newId}`;
+    }
+  }
+};
+
+/**
+ * Servidor local que imita la API de catálogo de ASOFIX a partir de fixtures JSON
+ * Sirve páginas de AsofixApiResponse con el per_page pedido, imágenes generadas y
+ * endpoints de control (/__fake/*) para aplicar escenarios mientras corre el backend.
+ * Con ASOFIX_API_ENDPOINT=http://localhost:<port>/api/catalogs/web todo el pipeline
+ * (Fase 1, reactivación, limpieza e imágenes) corre sin tocar el catálogo real.
+ */
+export class FakeAsofixServer {
+  private state: FakeAsofixState = { vehicles: [], failures: [] };
+  private pending: PendingScenario[] = [];
+  private applied: Array<{ name: string; params: FakeScenarioParams; summary: string; applied_at: string }> = [];
+  private passes = 0;
+  private readonly stats = { catalog_requests: 0, image_requests: 0, errors_served: 0 };
+  private readonly imageCache = new Map<string, Buffer>();
+  private server: http.Server | null = null;
+
+  constructor(private readonly options: FakeAsofixOptions) {
+    this.reset();
+  }
+
+  get baseUrl(): string {
+    return (this.options.publicUrl || `http://localhost:${this.options.port}`).replace(/\/$/, '');
+  }
+
+  /**
+   * Vuelve al catálogo de las fixtures, sin escenarios aplicados ni pendientes
+   */
+  reset(): void {
+    this.state = { vehicles: this.loadFixture().vehicles, failures: [] };
+    this.pending = [];
+    this.applied = [];
+    this.passes = 0;
+  }
+
+  /**
+   * Aplica un escenario ahora o, con afterPasses > 0, cuando el catálogo se haya recorrido
+   * completo esa cantidad de veces (una pasada por sincronización)
+   * @throws FakeAsofixError si el escenario no existe o sus parámetros no aplican
+   */
+  addScenario(name: string, params: FakeScenarioParams = {}, afterPasses: number = 0): string {
+    if (!FAKE_ASOFIX_SCENARIOS[name]) {
+      throw new FakeAsofixError(`Escenario desconocido: ${name}. Disponibles: ${Object.keys(FAKE_ASOFIX_SCENARIOS).join(', ')}`);
+    }
+
+    if (afterPasses > this.passes) {
+      this.pending.push({ name, params, afterPasses });
+      const message = `Escenario ${name} programado para después de ${afterPasses} recorrido(s) del catálogo`;
+      logger.info(`[FAKE ASOFIX] ⏳ ${message}`);
+      return message;
+    }
+    return this.applyScenario(name, params);
+  }
+
+  getState() {
+    return {
+      fixtures: this.resolveFixturePath(),
+      base_url: this.baseUrl,
+      webhook_url: this.options.webhookUrl || null,
+      vehicles: this.state.vehicles.length,
+      passes: this.passes,
+      failures: this.state.failures,
+      applied: this.applied,
+      pending: this.pending,
+      stats: { ...this.stats },
+      scenarios: Object.fromEntries(Object.entries(FAKE_ASOFIX_SCENARIOS).map(([name, scenario]) => [name, scenario.description]))
+    };
+  }
+
+  createApp(): Application {
+    const app = express();
+    app.use(express.json());
+
+    app.get(['/', '/api/catalogs/web'], (req, res) => this.serveCatalog(req, res));
+    app.get('/images/:file', (req, res) => this.serveImage(req, res));
+
+    app.get('/__fake/state', (req, res) => {
+      res.json({ success: true, data: this.getState() });
+    });
+
+    // Body: { name, params?: {...}, after_passes?: number }
+    app.post('/__fake/scenarios', (req, res) => {
+      try {
+        const { name, params, after_passes } = req.body || {};
+        const message = this.addScenario(String(name || ''), params || {}, parseInt(after_passes, 10) || 0);
+        res.json({ success: true, message, data: this.getState() });
+      } catch (error: any) {
+        res.status(error instanceof FakeAsofixError ? error.statusCode : 500).json({ success: false, message: error.message });
+      }
+    });
+
+    app.post('/__fake/reset', (req, res) => {
+      try {
+        this.reset();
+        res.json({ success: true, message: 'Catálogo restaurado desde las fixtures', data: this.getState() });
+      } catch (error: any) {
+        res.status(500).json({ success: false, message: error.message });
+      }
+    });
+
+    return app;
+  }
+
+  start(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const server = this.createApp().listen(this.options.port, () => resolve(this.baseUrl));
+      server.on('error', reject);
+      this.server = server;
+    });
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => {
+      if (!this.server) return resolve();
+      this.server.close(() => resolve());
+      this.server = null;
+    });
+  }
+
+  private serveCatalog(req: Request, res: Response): void {
+    this.stats.catalog_requests++;
+
+    const apiKey = String(req.headers['x-api-key'] || '');
+    if (!apiKey || (this.options.apiKey && apiKey !== this.options.apiKey)) {
+      this.stats.errors_served++;
+      res.status(401).json({ message: 'Unauthenticated.' });
+      return;
+    }
+
+    const page = Math.max(1, parseInt(String(req.query.page || '1'), 10) || 1);
+    const perPage = Math.max(1, parseInt(String(req.query.per_page || '10'), 10) || 10);
+
+    if (page === 1) {
+      this.applyPending();
+    }
+
+    const failure = this.state.failures.find(item => item.page === page && item.remaining !== 0);
+    if (failure) {
+      if (failure.remaining !== null) failure.remaining--;
+      this.stats.errors_served++;
+      logger.warn(`[FAKE ASOFIX] Página ${page}: respondiendo ${failure.status} (escenario)`);
+      if (failure.retryAfterSeconds !== null) {
+        res.setHeader('Retry-After', String(failure.retryAfterSeconds));
+      }
+      res.status(failure.status).json({ message: `Error simulado (${failure.status})` });
+      return;
+    }
+
+    const total = this.state.vehicles.length;
+    const totalPages = Math.max(1, Math.ceil(total / perPage));
+    const start = (page - 1) * perPage;
+
+    if (page >= totalPages) {
+      this.passes++;
+    }
+
+    const body: AsofixApiResponse = {
+      data: this.state.vehicles.slice(start, start + perPage),
+      meta: { current_page: page, total_pages: totalPages, total_count: total }
+    };
+    res.json(body);
+  }
+
+  /**
+   * Imagen JPEG generada con un color derivado del nombre (misma URL = mismo contenido)
+   */
+  private async serveImage(req: Request, res: Response): Promise<void> {
+    this.stats.image_requests++;
+
+    try {
+      const name = req.params.file;
+      let image = this.imageCache.get(name);
+      if (!image) {
+        const hash = crypto.createHash('sha1').update(name).digest();
+        image = await sharp({
+          create: { width: 800, height: 600, channels: 3, background: { r: hash[0], g: hash[1], b: hash[2] } }
+        }).jpeg().toBuffer();
+        this.imageCache.set(name, image);
+      }
+
+      res.type('image/jpeg').send(image);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  }
+
+  private applyPending(): void {
+    const ready = this.pending.filter(item => item.afterPasses <= this.passes);
+    this.pending = this.pending.filter(item => item.afterPasses > this.passes);
+
+    for (const item of ready) {
+      try {
+        this.applyScenario(item.name, item.params);
+      } catch (error: any) {
+        logger.error(`[FAKE ASOFIX] No se pudo aplicar el escenario ${item.name}: ${error.message}`);
+      }
+    }
+  }
+
+  private applyScenario(name: string, params: FakeScenarioParams): string {
+    const before = this.serializeVehicles();
+    const summary = FAKE_ASOFIX_SCENARIOS[name].apply(this.state, params, this.baseUrl);
+    this.applied.push({ name, params, summary, applied_at: new Date().toISOString() });
+    logger.info(`[FAKE ASOFIX] 🎬 ${name}: ${summary}`);
+
+    if (this.options.webhookUrl) {
+      const after = this.serializeVehicles();
+      const changed = Array.from(new Set([...before.keys(), ...after.keys()]))
+        .filter(id => before.get(id) !== after.get(id));
+      if (changed.length > 0) {
+        this.notifyWebhook(changed);
+      }
+    }
+    return summary;
+  }
+
+  /**
+   * id → JSON de cada vehículo (los escenarios pueden modificar los objetos en el lugar)
+   */
+  private serializeVehicles(): Map<string, string> {
+    return new Map(this.state.vehicles.map(vehicle => [String(vehicle.id), JSON.stringify(vehicle)]));
+  }
+
+  /**
+   * Notifica al backend los vehículos que cambiaron (altas, cambios y bajas del catálogo)
+   * Si falla solo se loguea: la próxima sincronización los toma igual
+   */
+  private notifyWebhook(ids: string[]): void {
+    const body = JSON.stringify({ ids });
+    const headers = {
+      'Content-Type': 'application/json',
+      ...(this.options.webhookSecret ? WebhookSignature.sign(body, this.options.webhookSecret) : {})
+    };
+
+    axios.post(this.options.webhookUrl!, body, { headers, timeout: 10000 })
+      .then(response => {
+        logger.info(`[FAKE ASOFIX] 📬 Webhook enviado (${ids.join(', ')}): ${response.status}`);
+      })
+      .catch((error: any) => {
+        const status = error.response ? `${error.response.status} ${error.response.data?.message || ''}`.trim() : error.message;
+        logger.warn(`[FAKE ASOFIX] No se pudo enviar el webhook (${ids.join(', ')}): ${status}`);
+      });
+  }
+
+  private resolveFixturePath(): string {
+    const fixturesPath = path.resolve(this.options.fixturesPath);
+    return fs.existsSync(fixturesPath) && fs.statSync(fixturesPath).isDirectory()
+      ? path.join(fixturesPath, 'catalog.json')
+      : fixturesPath;
+  }
+
+  /**
+   * @throws Error si la fixture no existe o no tiene el formato de AsofixFixture
+   */
+  private loadFixture(): AsofixFixture {
+    const file = this.resolveFixturePath();
+    const raw = fs.readFileSync(file, 'utf8').split(FAKE_ASOFIX_URL_PLACEHOLDER).join(this.baseUrl);
+    const fixture = JSON.parse(raw);
+
+    // También se acepta un array de vehículos o una respuesta de la API tal cual
+    const vehicles = Array.isArray(fixture) ? fixture : fixture.vehicles || fixture.data;
+    if (!Array.isArray(vehicles)) {
+      throw new Error(`La fixture ${file} no tiene un array de vehículos (vehicles)`);
+    }
+
+    return { recorded_at: fixture.recorded_at, source: fixture.source, vehicles };
+  }
+}
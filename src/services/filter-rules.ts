@@ -0,0 +1,370 @@
+import pool from '../config/database';
+import { FilterConfig, loadFilterConfig } from '../config/filters';
+import logger from './logger';
+
+/**
+ * Segundos que se reutiliza la configuración cargada antes de volver a leer filter_rules
+ * (los cambios hechos desde este proceso se aplican al instante; el TTL cubre otras instancias)
+ */
+const FILTER_RULES_RELOAD_SECONDS = parseInt(process.env.FILTER_RULES_RELOAD_SECONDS || '30', 10);
+
+/**
+ * Reglas editables desde PUT /internal/filters (una fila de filter_rules por regla)
+ */
+export const FILTER_RULE_KEYS = [
+  'blockedBranchOffices',
+  'minPrice',
+  'minPriceByCurrency',
+  'blockedStatuses',
+  'requireImages',
+  'blockedBrands',
+  'minYear',
+  'maxYear',
+  'maxKilometres'
+] as const satisfies ReadonlyArray<keyof FilterConfig>;
+
+export type FilterRuleKey = typeof FILTER_RULE_KEYS[number];
+
+/**
+ * Origen del valor vigente de cada regla
+ */
+export interface FilterRuleState {
+  key: FilterRuleKey;
+  value: FilterConfig[FilterRuleKey];
+  source: 'database' | 'env';
+  default_value: FilterConfig[FilterRuleKey];
+  updated_by: string | null;
+  updated_at: Date | null;
+}
+
+export interface FilterRuleChange {
+  id: number;
+  rule_key: FilterRuleKey;
+  old_value: unknown;
+  new_value: unknown;
+  is_reset: boolean;
+  changed_by: string;
+  comment: string | null;
+  changed_at: Date;
+}
+
+export interface UpdateFilterRulesInput {
+  /**
+   * Nuevos valores (solo las reglas que cambian)
+   */
+  rules?: Partial<Record<string, unknown>>;
+  /**
+   * Reglas que vuelven al valor de las variables de entorno
+   */
+  reset?: string[];
+  comment?: string | null;
+}
+
+/**
+ * Regla inválida en PUT /internal/filters (el controlador responde 400)
+ */
+export class FilterRuleValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FilterRuleValidationError';
+  }
+}
+
+/**
+ * Asigna el valor de una regla con el tipo que le corresponde en FilterConfig
+ */
+function setRule<K extends FilterRuleKey>(config: FilterConfig, key: K, value: FilterConfig[K]): void {
+  config[key] = value;
+}
+
+/**
+ * Reglas de filtrado guardadas en BD (filter_rules) sobre los valores por defecto de entorno
+ * VehicleFilters (sync) y los WHERE de /autos y los feeds leen la configuración de acá:
+ * un PUT /internal/filters recarga la configuración en el momento y cada cambio queda
+ * registrado en filter_rule_changes con quién lo hizo y los valores anterior y nuevo.
+ */
+export class FilterRules {
+  private static config: FilterConfig = loadFilterConfig();
+  private static meta = new Map<FilterRuleKey, { updated_by: string | null; updated_at: Date | null }>();
+  private static loadedAt = 0;
+  private static loading: Promise<FilterConfig> | null = null;
+
+  /**
+   * Configuración vigente sin ir a la BD (la última cargada, o la de entorno si todavía no se cargó)
+   */
+  static current(): FilterConfig {
+    return this.config;
+  }
+
+  /**
+   * Configuración vigente, recargando filter_rules si pasó el TTL
+   */
+  static async getConfig(): Promise<FilterConfig> {
+    if (Date.now() - this.loadedAt < FILTER_RULES_RELOAD_SECONDS * 1000) {
+      return this.config;
+    }
+    return this.reload();
+  }
+
+  /**
+   * Vuelve a leer filter_rules y arma la configuración sobre los valores de entorno
+   * No falla: si la tabla no existe o la BD no responde se mantiene la configuración anterior
+   */
+  static async reload(): Promise<FilterConfig> {
+    if (this.loading) return this.loading;
+
+    this.loading = (async () => {
+      try {
+        const [rows] = await pool.execute<any[]>(
+          'SELECT rule_key, value, updated_by, updated_at FROM filter_rules'
+        );
+
+        const config = loadFilterConfig();
+        const meta = new Map<FilterRuleKey, { updated_by: string | null; updated_at: Date | null }>();
+        for (const row of rows) {
+          if (!this.isRuleKey(row.rule_key)) {
+            logger.warn(`Regla de filtrado desconocida en filter_rules: ${row.rule_key}`);
+            continue;
+          }
+          try {
+            const value = typeof row.value === 'string' ? JSON.parse(row.value) : row.value;
+            setRule(config, row.rule_key, this.validate(row.rule_key, value));
+            meta.set(row.rule_key, { updated_by: row.updated_by, updated_at: row.updated_at });
+          } catch (error: any) {
+            logger.warn(`Regla de filtrado ${row.rule_key} inválida en BD, se usa el valor de entorno: ${error.message}`);
+          }
+        }
+
+        this.config = config;
+        this.meta = meta;
+      } catch (error: any) {
+        logger.warn(`No se pudieron cargar las reglas de filtrado de la BD: ${error.message}`);
+      } finally {
+        this.loadedAt = Date.now();
+        this.loading = null;
+      }
+      return this.config;
+    })();
+
+    return this.loading;
+  }
+
+  /**
+   * Estado de cada regla: valor vigente, origen y última modificación
+   */
+  static async getRules(): Promise<FilterRuleState[]> {
+    const config = await this.getConfig();
+    const defaults = loadFilterConfig();
+
+    return FILTER_RULE_KEYS.map(key => {
+      const meta = this.meta.get(key);
+      return {
+        key,
+        value: config[key],
+        source: meta ? 'database' : 'env',
+        default_value: defaults[key],
+        updated_by: meta?.updated_by ?? null,
+        updated_at: meta?.updated_at ?? null
+      };
+    });
+  }
+
+  /**
+   * Últimos cambios registrados (opcionalmente de una sola regla)
+   */
+  static async getChanges(limit: number = 50, ruleKey?: string): Promise<FilterRuleChange[]> {
+    const params: any[] = [];
+    let where = '';
+    if (ruleKey) {
+      where = 'WHERE rule_key = ?';
+      params.push(ruleKey);
+    }
+    params.push(limit);
+
+    const [rows] = await pool.query<any[]>(
+      `SELECT id, rule_key, old_value, new_value, is_reset, changed_by, comment, changed_at
+       FROM filter_rule_changes
+       ${where}
+       ORDER BY changed_at DESC, id DESC
+       LIMIT ?`,
+      params
+    );
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      rule_key: row.rule_key,
+      old_value: typeof row.old_value === 'string' ? JSON.parse(row.old_value) : row.old_value,
+      new_value: typeof row.new_value === 'string' ? JSON.parse(row.new_value) : row.new_value,
+      is_reset: !!row.is_reset,
+      changed_by: row.changed_by,
+      comment: row.comment,
+      changed_at: row.changed_at
+    }));
+  }
+
+  /**
+   * Guarda las reglas modificadas y su auditoría en una transacción y recarga la configuración
+   * Las reglas cuyo valor no cambia no se escriben ni se auditan
+   * @throws FilterRuleValidationError si alguna regla o valor es inválido
+   * @returns Reglas que cambiaron
+   */
+  static async update(input: UpdateFilterRulesInput, changedBy: string): Promise<FilterRuleKey[]> {
+    const updates = new Map<FilterRuleKey, FilterConfig[FilterRuleKey]>();
+    for (const [key, value] of Object.entries(input.rules || {})) {
+      if (!this.isRuleKey(key)) {
+        throw new FilterRuleValidationError(`Regla desconocida: ${key}. Válidas: ${FILTER_RULE_KEYS.join(', ')}`);
+      }
+      updates.set(key, this.validate(key, value));
+    }
+
+    const resets = new Set<FilterRuleKey>();
+    for (const key of input.reset || []) {
+      if (!this.isRuleKey(key)) {
+        throw new FilterRuleValidationError(`Regla desconocida: ${key}. Válidas: ${FILTER_RULE_KEYS.join(', ')}`);
+      }
+      if (updates.has(key)) {
+        throw new FilterRuleValidationError(`La regla ${key} no puede modificarse y resetearse a la vez`);
+      }
+      resets.add(key);
+    }
+
+    if (updates.size === 0 && resets.size === 0) {
+      throw new FilterRuleValidationError('No se indicó ninguna regla a modificar (rules o reset)');
+    }
+
+    const current = await this.reload();
+    const defaults = loadFilterConfig();
+    const next: FilterConfig = { ...current };
+    for (const [key, value] of updates) setRule(next, key, value);
+    for (const key of resets) setRule(next, key, defaults[key]);
+
+    if (next.minYear !== null && next.maxYear !== null && next.minYear > next.maxYear) {
+      throw new FilterRuleValidationError(`minYear (${next.minYear}) no puede ser mayor que maxYear (${next.maxYear})`);
+    }
+
+    const comment = input.comment ? String(input.comment).substring(0, 500) : null;
+    const changed: FilterRuleKey[] = [];
+    const connection = await pool.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      for (const key of FILTER_RULE_KEYS) {
+        const isReset = resets.has(key);
+        if (!isReset && !updates.has(key)) continue;
+        // Un reset de una regla que ya usa el valor de entorno no es un cambio
+        if (isReset && !this.meta.has(key)) continue;
+        if (!isReset && this.meta.has(key) && JSON.stringify(current[key]) === JSON.stringify(next[key])) continue;
+
+        if (isReset) {
+          await connection.execute('DELETE FROM filter_rules WHERE rule_key = ?', [key]);
+        } else {
+          await connection.execute(
+            `INSERT INTO filter_rules (rule_key, value, updated_by) VALUES (?, ?, ?)
+             ON DUPLICATE KEY UPDATE value = VALUES(value), updated_by = VALUES(updated_by)`,
+            [key, JSON.stringify(next[key]), changedBy]
+          );
+        }
+
+        await connection.execute(
+          `INSERT INTO filter_rule_changes (rule_key, old_value, new_value, is_reset, changed_by, comment)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          [key, JSON.stringify(current[key]), JSON.stringify(next[key]), isReset ? 1 : 0, changedBy, comment]
+        );
+        changed.push(key);
+      }
+
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+
+    if (changed.length > 0) {
+      logger.info(`🧰 Reglas de filtrado modificadas por ${changedBy}: ${changed.join(', ')}`);
+    }
+    // Forzar la recarga aunque no haya vencido el TTL
+    this.loadedAt = 0;
+    await this.reload();
+
+    return changed;
+  }
+
+  private static isRuleKey(key: string): key is FilterRuleKey {
+    return (FILTER_RULE_KEYS as readonly string[]).includes(key);
+  }
+
+  /**
+   * Validación de cada regla: normaliza el valor (listas en minúsculas, números finitos)
+   */
+  private static readonly validators: { [K in FilterRuleKey]: (value: unknown) => FilterConfig[K] } = {
+    blockedBranchOffices: value => FilterRules.validateList('blockedBranchOffices', value),
+    minPrice: value => FilterRules.validateNumber('minPrice', value, 0),
+    minPriceByCurrency: value => FilterRules.validatePriceFloors(value),
+    blockedStatuses: value => FilterRules.validateList('blockedStatuses', value),
+    requireImages: value => {
+      if (typeof value !== 'boolean') {
+        throw new FilterRuleValidationError('requireImages debe ser true o false');
+      }
+      return value;
+    },
+    blockedBrands: value => FilterRules.validateList('blockedBrands', value),
+    minYear: value => FilterRules.validateYear('minYear', value),
+    maxYear: value => FilterRules.validateYear('maxYear', value),
+    maxKilometres: value => {
+      if (value === null) return null;
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        throw new FilterRuleValidationError('maxKilometres debe ser un entero mayor o igual a 0 o null (sin límite)');
+      }
+      return value;
+    }
+  };
+
+  /**
+   * Valida y normaliza el valor de una regla
+   */
+  private static validate<K extends FilterRuleKey>(key: K, value: unknown): FilterConfig[K] {
+    const validator: (value: unknown) => FilterConfig[K] = this.validators[key];
+    return validator(value);
+  }
+
+  private static validateList(key: FilterRuleKey, value: unknown): string[] {
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+      throw new FilterRuleValidationError(`${key} debe ser una lista de textos`);
+    }
+    return Array.from(new Set(
+      value.map((item: string) => item.trim().toLowerCase()).filter(item => item.length > 0)
+    ));
+  }
+
+  private static validatePriceFloors(value: unknown): FilterConfig['minPriceByCurrency'] {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new FilterRuleValidationError('minPriceByCurrency debe ser un objeto { USD, ARS }');
+    }
+    const floors = value as Record<string, unknown>;
+    const unknownCurrency = Object.keys(floors).find(currency => currency !== 'USD' && currency !== 'ARS');
+    if (unknownCurrency) {
+      throw new FilterRuleValidationError(`Moneda no soportada en minPriceByCurrency: ${unknownCurrency} (USD o ARS)`);
+    }
+    return {
+      USD: floors.USD === undefined ? 0 : this.validateNumber('minPriceByCurrency.USD', floors.USD, 0),
+      ARS: floors.ARS === undefined ? 0 : this.validateNumber('minPriceByCurrency.ARS', floors.ARS, 0)
+    };
+  }
+
+  private static validateYear(key: 'minYear' | 'maxYear', value: unknown): number | null {
+    if (value === null) return null;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1900 || value > 2100) {
+      throw new FilterRuleValidationError(`${key} debe ser un año entre 1900 y 2100 o null (sin límite)`);
+    }
+    return value;
+  }
+
+  private static validateNumber(name: string, value: unknown, min: number): number {
+    if (typeof value !== 'number' || !isFinite(value) || value < min) {
+      throw new FilterRuleValidationError(`${name} debe ser un número mayor o igual a ${min}`);
+    }
+    return value;
+  }
+}
@@ -1,6 +1,10 @@
 import pool from '../config/database';
 import logger from './logger';
-import { filterConfig } from '../config/filters';
+import { FilterRules } from './filter-rules';
+import { VehicleFilters } from './vehicle-filters';
+import { VehicleOverrides } from './vehicle-overrides';
+import { PriceHistory } from './price-history';
+import { ImageVariants } from './image-variants';
 
 /**
  * Servicio para generar feeds XML compatibles con Google Merchant Center - Vehicle Listings
@@ -18,8 +22,14 @@ export class GoogleFeedService {
   /**
    * Construye la URL completa de una imagen
    * Usa API_URL para todas las imágenes (endpoints de API y recursos estáticos)
+   * Prioriza la variante 'full' en JPEG (más liviana que el original y compatible con el catálogo)
    */
-  private static buildImageUrl(image: { file_path?: string | null; image_url?: string | null }): string | null {
+  private static buildImageUrl(image: { file_path?: string | null; image_url?: string | null; variants?: any }): string | null {
+    const variantUrl = ImageVariants.getUrl(image.variants, 'full', 'jpeg', this.API_URL);
+    if (variantUrl) {
+      return variantUrl;
+    }
+
     // Si hay file_path y es una ruta estática
     if (image.file_path) {
       if (image.file_path.startsWith('/IMG/static/')) {
@@ -88,36 +98,14 @@ export class GoogleFeedService {
    * Obtiene todos los vehículos publicados con sus imágenes y taxonomías
    */
   private static async getPublishedVehicles(): Promise<any[]> {
-    // Construir condiciones WHERE con los mismos filtros que los endpoints públicos
-    const whereConditions: string[] = [];
-    const whereParams: any[] = [];
-
-    // 1. Solo vehículos publicados
-    whereConditions.push(`v.status = 'published'`);
-    
-    // 2. License plate NO NULL y NO vacío
-    whereConditions.push(`v.license_plate IS NOT NULL`);
-    whereConditions.push(`v.license_plate != ?`);
-    whereParams.push('');
-    
-    // 3. Precio mayor al mínimo
-    whereConditions.push(`(
-      (v.price_usd IS NOT NULL AND v.price_usd > ?) OR
-      (v.price_ars IS NOT NULL AND v.price_ars > ?)
-    )`);
-    whereParams.push(filterConfig.minPrice, filterConfig.minPrice);
-    
-    // 4. Excluir concesionarias bloqueadas (Dakota por defecto)
-    // Se verifica en el JSON additional_data.stock_info[].branch_office_name o location_name
-    if (filterConfig.blockedBranchOffices.length > 0) {
-      const blockedConditions = filterConfig.blockedBranchOffices.map(() => {
-        return `(v.additional_data IS NULL OR v.additional_data NOT LIKE ?)`;
-      });
-      whereConditions.push(`(${blockedConditions.join(' AND ')})`);
-      for (const blocked of filterConfig.blockedBranchOffices) {
-        whereParams.push(`%${blocked.toLowerCase()}%`);
-      }
-    }
+    // Mismos filtros obligatorios que los endpoints públicos (reglas vigentes de FilterRules)
+    // Las imágenes no se exigen en el WHERE: los vehículos sin imágenes se descartan al armar cada ítem
+    const filterConfig = await FilterRules.getConfig();
+    const { conditions: whereConditions, params: whereParams } = VehicleFilters.buildSqlConditions(
+      filterConfig,
+      'v',
+      { requireImages: false }
+    );
 
     const whereClause = whereConditions.join(' AND ');
 
@@ -133,13 +121,16 @@ export class GoogleFeedService {
         v.license_plate,
         v.price_usd,
         v.price_ars,
+        v.previous_price_usd,
+        v.previous_price_ars,
+        v.price_changed_at,
         v.additional_data,
         -- Imagen destacada
         vi_featured.id as featured_image_id,
         vi_featured.file_path as featured_file_path,
         vi_featured.image_url as featured_image_url,
         vi_featured.sort_order as featured_sort_order
-      FROM vehicles v
+      FROM ${VehicleOverrides.effectiveSource()} v
       LEFT JOIN vehicle_images vi_featured ON v.featured_image_id = vi_featured.id
       WHERE ${whereClause}
       ORDER BY v.id ASC
@@ -160,6 +151,7 @@ export class GoogleFeedService {
         id,
         file_path,
         image_url,
+        variants,
         is_featured,
         sort_order
       FROM vehicle_images
@@ -201,10 +193,10 @@ export class GoogleFeedService {
       taxonomiesByVehicle[tax.vehicle_id][tax.taxonomy].push(tax.name);
     }
 
-    // Combinar datos
+    // Combinar datos (la imagen destacada efectiva, que puede venir de un override, va primero)
     return vehicles.map(vehicle => ({
       ...vehicle,
-      images: imagesByVehicle[vehicle.id] || [],
+      images: VehicleOverrides.featuredFirst(imagesByVehicle[vehicle.id] || [], vehicle.featured_image_id),
       taxonomies: taxonomiesByVehicle[vehicle.id] || {}
     }));
   }
@@ -247,6 +239,13 @@ export class GoogleFeedService {
         const price = hasUsdPrice ? parseFloat(vehicle.price_usd) : parseFloat(vehicle.price_ars);
         const currency = hasUsdPrice ? 'USD' : 'ARS';
 
+        // Si bajó de precio en la misma moneda: price = precio anterior, sale_price = precio actual
+        const priceDrop = PriceHistory.getPriceDrop(vehicle);
+        const salePrice = priceDrop.price_dropped && priceDrop.previous_price_currency === currency
+          ? price
+          : null;
+        const regularPrice = salePrice !== null ? priceDrop.previous_price! : price;
+
         // Construir URL del vehículo (usar FRONTEND_URL para páginas)
         const vehicleUrl = `${this.FRONTEND_URL}/autos/${vehicle.id}`;
 
@@ -302,7 +301,10 @@ export class GoogleFeedService {
         xmlParts.push(`      <description>${this.escapeXml(description)}</description>`);
         xmlParts.push(`      <link>${this.escapeXml(vehicleUrl)}</link>`);
         xmlParts.push(`      <g:image_link>${this.escapeXml(imageLink)}</g:image_link>`);
-        xmlParts.push(`      <g:price>${price.toFixed(2)} ${currency}</g:price>`);
+        xmlParts.push(`      <g:price>${regularPrice.toFixed(2)} ${currency}</g:price>`);
+        if (salePrice !== null) {
+          xmlParts.push(`      <g:sale_price>${salePrice.toFixed(2)} ${currency}</g:sale_price>`);
+        }
         xmlParts.push(`      <g:availability>in stock</g:availability>`);
         xmlParts.push(`      <g:condition>${condition}</g:condition>`);
         
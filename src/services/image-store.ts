@@ -0,0 +1,162 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import pool, { DbConnection } from '../config/database';
+import logger from './logger';
+import { ImageVariants, StoredImageVariants } from './image-variants';
+
+export interface ImageBlob {
+  id: number;
+  sha256: string;
+  file_path: string;
+  variants: StoredImageVariants | null;
+}
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+/**
+ * Almacenamiento de imágenes direccionado por contenido (tabla image_blobs)
+ * Cada archivo se guarda una sola vez en IMAGES_PATH/blobs/<aa>/<bb>/<sha256>.<ext>,
+ * sin importar cuántos vehículos o URLs lo usen. vehicle_images apunta al blob (blob_id)
+ * y ref_count lleva la cantidad de vehicle_images que lo referencian.
+ * Los blobs que quedan con ref_count = 0 no se borran acá: los limpia el GC de medios.
+ */
+export class ImageStore {
+  /**
+   * Busca un blob ya descargado desde la misma URL (evita volver a descargar)
+   */
+  static async findByUrl(imageUrl: string): Promise<ImageBlob | null> {
+    const [rows] = await pool.execute<any[]>(
+      `SELECT ib.id, ib.sha256, ib.file_path, ib.variants
+       FROM image_blobs ib
+       WHERE ib.source_url = ?
+          OR ib.id = (SELECT vi.blob_id FROM vehicle_images vi WHERE vi.image_url = ? AND vi.blob_id IS NOT NULL LIMIT 1)
+       LIMIT 1`,
+      [imageUrl, imageUrl]
+    );
+
+    const blob = rows[0] ? this.toBlob(rows[0]) : null;
+    // Si el archivo ya no está en disco, se vuelve a descargar
+    return blob && fs.existsSync(blob.file_path) ? blob : null;
+  }
+
+  /**
+   * Guarda el contenido de una imagen (si no existe ya un blob con el mismo SHA-256)
+   * y genera sus variantes
+   */
+  static async store(data: Buffer, sourceUrl: string, contentType?: string | null): Promise<ImageBlob> {
+    const sha256 = crypto.createHash('sha256').update(data).digest('hex');
+
+    const [existing] = await pool.execute<any[]>(
+      'SELECT id, sha256, file_path, variants FROM image_blobs WHERE sha256 = ?',
+      [sha256]
+    );
+    if (existing.length > 0 && fs.existsSync(existing[0].file_path)) {
+      return this.toBlob(existing[0]);
+    }
+
+    const extension = this.getExtension(sourceUrl, contentType);
+    const blobDir = path.join(ImageVariants.getImagesRoot(), 'blobs', sha256.substring(0, 2), sha256.substring(2, 4));
+    if (!fs.existsSync(blobDir)) {
+      fs.mkdirSync(blobDir, { recursive: true });
+    }
+    const filePath = path.join(blobDir, `${sha256}.${extension}`);
+
+    // Escritura atómica: otro worker puede estar guardando el mismo contenido
+    const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    fs.writeFileSync(tmpPath, data);
+    fs.renameSync(tmpPath, filePath);
+
+    // Variantes redimensionadas (thumbnail, card, full) en WebP y JPEG
+    // Si fallan se guarda igual el original: el backfill las puede generar después
+    let variants: StoredImageVariants | null = null;
+    try {
+      variants = await ImageVariants.generate(filePath);
+    } catch (variantError: any) {
+      logger.warn(`No se pudieron generar variantes de ${filePath}: ${variantError.message}`);
+    }
+
+    const [result] = await pool.execute<any>(
+      `INSERT INTO image_blobs (sha256, file_path, source_url, mime_type, bytes, variants)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE
+         id = LAST_INSERT_ID(id),
+         file_path = VALUES(file_path),
+         variants = COALESCE(VALUES(variants), variants)`,
+      [
+        sha256,
+        filePath,
+        sourceUrl.substring(0, 1000),
+        contentType || null,
+        data.length,
+        variants ? JSON.stringify(variants) : null
+      ]
+    );
+
+    return { id: (result as any).insertId, sha256, file_path: filePath, variants };
+  }
+
+  /**
+   * Suma una referencia al blob (una fila de vehicle_images que lo usa)
+   */
+  static async addReference(blobId: number): Promise<void> {
+    await pool.execute(
+      'UPDATE image_blobs SET ref_count = ref_count + 1 WHERE id = ?',
+      [blobId]
+    );
+  }
+
+  /**
+   * Resta las referencias de las filas de vehicle_images que se van a eliminar
+   * Debe llamarse antes del DELETE, con los blob_id de esas filas
+   * @param db Conexión de la transacción del vehículo (default: pool)
+   */
+  static async releaseReferences(blobIds: Array<number | null>, db: DbConnection = pool): Promise<void> {
+    const counts = new Map<number, number>();
+    for (const blobId of blobIds) {
+      if (blobId) counts.set(blobId, (counts.get(blobId) || 0) + 1);
+    }
+
+    for (const [blobId, count] of counts) {
+      try {
+        await db.execute(
+          'UPDATE image_blobs SET ref_count = GREATEST(ref_count - ?, 0) WHERE id = ?',
+          [count, blobId]
+        );
+      } catch (error: any) {
+        logger.error(`Error al liberar referencias del blob ${blobId}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Extensión del archivo según Content-Type, o la de la URL si no se reconoce
+   */
+  private static getExtension(sourceUrl: string, contentType?: string | null): string {
+    const mime = (contentType || '').split(';')[0].trim().toLowerCase();
+    if (CONTENT_TYPE_EXTENSIONS[mime]) {
+      return CONTENT_TYPE_EXTENSIONS[mime];
+    }
+
+    const urlExtension = path.extname(sourceUrl.split('?')[0]).replace('.', '').toLowerCase();
+    return /^(jpe?g|png|webp|gif)$/.test(urlExtension) ? urlExtension.replace('jpeg', 'jpg') : 'jpg';
+  }
+
+  private static toBlob(row: any): ImageBlob {
+    let variants = row.variants;
+    if (typeof variants === 'string') {
+      try {
+        variants = JSON.parse(variants);
+      } catch (e) {
+        variants = null;
+      }
+    }
+    return { id: row.id, sha256: row.sha256, file_path: row.file_path, variants: variants || null };
+  }
+}
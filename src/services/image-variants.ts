@@ -0,0 +1,213 @@
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import pool from '../config/database';
+import logger from './logger';
+
+export type ImageVariantName = 'thumbnail' | 'card' | 'full';
+export type ImageVariantFormat = 'webp' | 'jpeg';
+
+/**
+ * Anchos máximos de cada variante (no se agranda una imagen más chica)
+ */
+export const IMAGE_VARIANT_WIDTHS: Record<ImageVariantName, number> = {
+  thumbnail: 320,
+  card: 640,
+  full: 1600
+};
+
+const FORMAT_EXTENSIONS: Record<ImageVariantFormat, string> = {
+  webp: 'webp',
+  jpeg: 'jpg'
+};
+
+/**
+ * Variantes guardadas en vehicle_images.variants
+ * Las rutas son relativas a la raíz de imágenes (IMAGES_PATH)
+ */
+export type StoredImageVariants = Partial<Record<ImageVariantName, {
+  width: number;
+  height: number;
+  webp: string;
+  jpeg: string;
+}>>;
+
+/**
+ * Variantes expuestas en la API, con URLs y srcset listos para <img srcset>
+ */
+export interface PublicImageVariants {
+  thumbnail?: { width: number; height: number; webp: string; jpeg: string };
+  card?: { width: number; height: number; webp: string; jpeg: string };
+  full?: { width: number; height: number; webp: string; jpeg: string };
+  srcset: { webp: string; jpeg: string };
+}
+
+/**
+ * Servicio para generar y exponer variantes redimensionadas (thumbnail, card, full) en WebP y JPEG
+ * Se generan al descargar cada imagen (Fase 2) y con el comando de backfill para las existentes
+ */
+export class ImageVariants {
+  /**
+   * Raíz donde se guardan las imágenes descargadas (misma que usa SyncService.downloadImage)
+   */
+  static getImagesRoot(): string {
+    return process.env.IMAGES_PATH || process.env.UPLOAD_PATH || './uploads';
+  }
+
+  /**
+   * Genera las variantes de una imagen original y devuelve sus rutas relativas
+   * Se guardan en <carpeta del original>/variants/<nombre>-<variante>.<ext>
+   */
+  static async generate(originalPath: string): Promise<StoredImageVariants> {
+    const root = path.resolve(this.getImagesRoot());
+    const variantsDir = path.join(path.dirname(originalPath), 'variants');
+    if (!fs.existsSync(variantsDir)) {
+      fs.mkdirSync(variantsDir, { recursive: true });
+    }
+
+    const baseName = path.basename(originalPath, path.extname(originalPath));
+    const variants: StoredImageVariants = {};
+
+    for (const [variant, width] of Object.entries(IMAGE_VARIANT_WIDTHS) as Array<[ImageVariantName, number]>) {
+      const paths = {} as Record<ImageVariantFormat, string>;
+      let info: sharp.OutputInfo | null = null;
+
+      for (const format of Object.keys(FORMAT_EXTENSIONS) as ImageVariantFormat[]) {
+        const outputPath = path.join(variantsDir, `${baseName}-${variant}.${FORMAT_EXTENSIONS[format]}`);
+        const pipeline = sharp(originalPath)
+          .rotate()
+          .resize({ width, withoutEnlargement: true });
+
+        info = format === 'webp'
+          ? await pipeline.webp({ quality: 80 }).toFile(outputPath)
+          : await pipeline.jpeg({ quality: 82, mozjpeg: true }).toFile(outputPath);
+
+        paths[format] = path.relative(root, path.resolve(outputPath)).split(path.sep).join('/');
+      }
+
+      variants[variant] = {
+        width: info?.width || width,
+        height: info?.height || 0,
+        webp: paths.webp,
+        jpeg: paths.jpeg
+      };
+    }
+
+    return variants;
+  }
+
+  /**
+   * Convierte las variantes guardadas en URLs públicas (/media/images/...) con srcset
+   * @param baseUrl Prefijo absoluto (ej: API_BASE_URL en los feeds); vacío para rutas relativas
+   */
+  static toPublic(raw: any, baseUrl: string = ''): PublicImageVariants | null {
+    const stored = this.parse(raw);
+    if (!stored) return null;
+
+    const toUrl = (relativePath: string) =>
+      `${baseUrl}/media/images/${relativePath.split('/').map(encodeURIComponent).join('/')}`;
+
+    const result: PublicImageVariants = { srcset: { webp: '', jpeg: '' } };
+    const srcset: Record<ImageVariantFormat, string[]> = { webp: [], jpeg: [] };
+
+    for (const variant of Object.keys(IMAGE_VARIANT_WIDTHS) as ImageVariantName[]) {
+      const data = stored[variant];
+      if (!data) continue;
+
+      result[variant] = {
+        width: data.width,
+        height: data.height,
+        webp: toUrl(data.webp),
+        jpeg: toUrl(data.jpeg)
+      };
+      srcset.webp.push(`${result[variant]!.webp} ${data.width}w`);
+      srcset.jpeg.push(`${result[variant]!.jpeg} ${data.width}w`);
+    }
+
+    result.srcset = { webp: srcset.webp.join(', '), jpeg: srcset.jpeg.join(', ') };
+    return result;
+  }
+
+  /**
+   * URL pública de una variante puntual (ej: 'full' en JPEG para los feeds)
+   */
+  static getUrl(raw: any, variant: ImageVariantName, format: ImageVariantFormat, baseUrl: string = ''): string | null {
+    const variants = this.toPublic(raw, baseUrl);
+    return variants?.[variant]?.[format] || null;
+  }
+
+  /**
+   * Parsea vehicle_images.variants (mysql2 puede devolver el JSON ya parseado o como string)
+   */
+  private static parse(raw: any): StoredImageVariants | null {
+    if (!raw) return null;
+    if (typeof raw === 'object') return raw;
+    try {
+      return JSON.parse(raw);
+    } catch (e) {
+      return null;
+    }
+  }
+
+  /**
+   * Genera las variantes de las imágenes ya descargadas que no las tienen
+   * @param options.force Regenerar también las que ya tienen variantes
+   * @param options.limit Cantidad máxima de imágenes a procesar (0 = todas)
+   */
+  static async backfill(
+    options: { force?: boolean; limit?: number } = {},
+    onProgress?: (message: string, progress: { current: number; total: number }) => void
+  ): Promise<{ processed: number; generated: number; skipped: number; errors: number }> {
+    const [rows] = await pool.query<any[]>(
+      `SELECT id, vehicle_id, file_path, blob_id
+       FROM vehicle_images
+       WHERE file_path IS NOT NULL
+         ${options.force ? '' : 'AND variants IS NULL'}
+       ORDER BY id
+       ${options.limit ? 'LIMIT ?' : ''}`,
+      options.limit ? [options.limit] : []
+    );
+
+    let generated = 0;
+    let skipped = 0;
+    let errors = 0;
+
+    for (let i = 0; i < rows.length; i++) {
+      const image = rows[i];
+      const progress = { current: i + 1, total: rows.length };
+
+      if (!fs.existsSync(image.file_path)) {
+        skipped++;
+        onProgress?.(`⏭️  Imagen ${image.id} omitida: no existe ${image.file_path}`, progress);
+        continue;
+      }
+
+      try {
+        const variants = await this.generate(image.file_path);
+        await pool.execute(
+          'UPDATE vehicle_images SET variants = ? WHERE id = ?',
+          [JSON.stringify(variants), image.id]
+        );
+        // Las demás filas que comparten el blob usan los mismos archivos
+        if (image.blob_id) {
+          await pool.execute(
+            'UPDATE image_blobs SET variants = ? WHERE id = ?',
+            [JSON.stringify(variants), image.blob_id]
+          );
+          await pool.execute(
+            'UPDATE vehicle_images SET variants = ? WHERE blob_id = ? AND id <> ?',
+            [JSON.stringify(variants), image.blob_id, image.id]
+          );
+        }
+        generated++;
+        onProgress?.(`✅ Variantes generadas para imagen ${image.id} (vehículo ${image.vehicle_id})`, progress);
+      } catch (error: any) {
+        errors++;
+        logger.error(`Error al generar variantes de imagen ${image.id}: ${error.message}`);
+        onProgress?.(`❌ Error en imagen ${image.id}: ${error.message}`, progress);
+      }
+    }
+
+    return { processed: rows.length, generated, skipped, errors };
+  }
+}
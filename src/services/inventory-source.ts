@@ -0,0 +1,76 @@
+import asofixApi, { AsofixVehicle } from './asofix-api';
+import logger from './logger';
+import { AsofixSnapshot } from './asofix-snapshot';
+
+/**
+ * Vehículo tal como lo consume el pipeline de sincronización (processVehicle + VehicleFilters)
+ * Es el formato de ASOFIX: las demás fuentes mapean sus datos a esta forma
+ */
+export type InventoryVehicle = AsofixVehicle;
+
+export interface InventoryPage {
+  vehicles: InventoryVehicle[];
+  hasMore: boolean;
+  totalCount?: number;
+}
+
+/**
+ * Fuente de inventario de la que SyncService obtiene los vehículos
+ * `name` se guarda en vehicles.source: la limpieza global y la reactivación solo
+ * consideran los vehículos de la fuente que se está sincronizando
+ */
+export interface InventorySource {
+  readonly name: string;
+
+  /**
+   * Página de vehículos (desde 1), sin filtrar: processVehicle archiva los que no pasan filtros
+   */
+  getPage(page: number): Promise<InventoryPage>;
+
+  /**
+   * Busca un vehículo por su id en la fuente (el asofix_id guardado en vehicles)
+   */
+  getVehicle(id: string): Promise<InventoryVehicle | null>;
+
+  /**
+   * Busca un vehículo por patente
+   */
+  findByLicensePlate(licensePlate: string): Promise<InventoryVehicle | null>;
+}
+
+/**
+ * Fuente por defecto: la API de ASOFIX
+ * Las búsquedas usan el snapshot en memoria; si no se puede armar se recorre la API página por página
+ */
+export class AsofixInventorySource implements InventorySource {
+  readonly name = 'asofix';
+
+  async getPage(page: number): Promise<InventoryPage> {
+    const response = await asofixApi.getVehiclesPage(page);
+    const vehicles = response.data || [];
+    const meta = response.meta;
+
+    return {
+      vehicles,
+      hasMore: meta ? (meta.current_page || 0) < (meta.total_pages || 0) : vehicles.length > 0,
+      totalCount: meta?.total_count
+    };
+  }
+
+  async getVehicle(id: string): Promise<InventoryVehicle | null> {
+    const snapshot = await AsofixSnapshot.get();
+    return snapshot.findById(id);
+  }
+
+  async findByLicensePlate(licensePlate: string): Promise<InventoryVehicle | null> {
+    try {
+      const snapshot = await AsofixSnapshot.get();
+      return snapshot.findByLicensePlate(licensePlate);
+    } catch (error: any) {
+      logger.warn(`No se pudo armar el snapshot de ASOFIX, buscando página por página: ${error.message}`);
+      return asofixApi.getVehicleByLicensePlate(licensePlate);
+    }
+  }
+}
+
+export const asofixInventorySource = new AsofixInventorySource();
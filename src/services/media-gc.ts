@@ -0,0 +1,280 @@
+import fs from 'fs';
+import path from 'path';
+import pool from '../config/database';
+import logger from './logger';
+import { ImageVariants } from './image-variants';
+import { ImageStore } from './image-store';
+import { SyncLock, SyncInProgressError } from './sync-lock';
+
+/**
+ * Minutos de gracia: no se tocan archivos ni blobs más nuevos que esto
+ * (la Fase 2 escribe el archivo antes de insertar la fila en vehicle_images)
+ */
+const MEDIA_GC_GRACE_MINUTES = parseInt(process.env.MEDIA_GC_GRACE_MINUTES || '60', 10);
+
+/**
+ * Carpetas bajo IMAGES_PATH que administra la sincronización
+ */
+const MANAGED_DIRS = ['autos', 'blobs'];
+
+/**
+ * Qué hacer con las filas de vehicle_images cuyo archivo no existe
+ * - report: solo informarlas
+ * - delete: eliminar la fila
+ * - requeue: eliminar la fila y volver a encolar la URL en pending_images
+ */
+export type MissingMediaAction = 'report' | 'delete' | 'requeue';
+
+export interface MediaGcOptions {
+  dryRun?: boolean;
+  deleteOrphans?: boolean;
+  missing?: MissingMediaAction;
+}
+
+export interface MissingMediaEntry {
+  image_id: number;
+  vehicle_id: number;
+  image_url: string;
+  file_path: string;
+}
+
+export interface MediaGcReport {
+  dry_run: boolean;
+  images_root: string;
+  scanned_files: number;
+  referenced_files: number;
+  orphaned_files: string[];
+  orphaned_bytes: number;
+  orphaned_blobs: number[];
+  missing_files: MissingMediaEntry[];
+  deleted_files: number;
+  deleted_blobs: number;
+  deleted_rows: number;
+  requeued: number;
+  errors: number;
+}
+
+/**
+ * Recolector de medios huérfanos
+ * Compara el árbol de IMAGES_PATH (autos/ y blobs/) con vehicle_images e image_blobs:
+ * - archivos huérfanos: en disco pero sin fila que los use (imágenes eliminadas por
+ *   processVehicle, vehículos borrados en cascada, blobs sin referencias)
+ * - archivos faltantes: filas de vehicle_images cuyo file_path no existe
+ * En dry-run solo arma el reporte.
+ */
+export class MediaGarbageCollector {
+  static async run(options: MediaGcOptions = {}): Promise<MediaGcReport> {
+    const dryRun = options.dryRun ?? false;
+    const missingAction: MissingMediaAction = options.missing || 'report';
+    const root = path.resolve(ImageVariants.getImagesRoot());
+    const graceLimit = Date.now() - MEDIA_GC_GRACE_MINUTES * 60 * 1000;
+
+    // Una sincronización en curso puede estar creando archivos y filas
+    const running = await SyncLock.getRunning();
+    if (running && !dryRun) {
+      throw new SyncInProgressError(running);
+    }
+
+    const report: MediaGcReport = {
+      dry_run: dryRun,
+      images_root: root,
+      scanned_files: 0,
+      referenced_files: 0,
+      orphaned_files: [],
+      orphaned_bytes: 0,
+      orphaned_blobs: [],
+      missing_files: [],
+      deleted_files: 0,
+      deleted_blobs: 0,
+      deleted_rows: 0,
+      requeued: 0,
+      errors: 0
+    };
+
+    const referenced = new Set<string>();
+    const addReferenced = (filePath: string | null, variants: any) => {
+      if (filePath) referenced.add(path.resolve(filePath));
+      const stored = typeof variants === 'string' ? this.parseJson(variants) : variants;
+      for (const variant of Object.values(stored || {}) as any[]) {
+        if (variant?.webp) referenced.add(path.resolve(root, variant.webp));
+        if (variant?.jpeg) referenced.add(path.resolve(root, variant.jpeg));
+      }
+    };
+
+    // 1. Filas de vehicle_images: referencias y archivos faltantes
+    const [images] = await pool.execute<any[]>(
+      `SELECT id, vehicle_id, image_url, file_path, variants, blob_id
+       FROM vehicle_images
+       WHERE file_path IS NOT NULL`
+    );
+
+    const missing: any[] = [];
+    for (const image of images) {
+      addReferenced(image.file_path, image.variants);
+      if (!fs.existsSync(image.file_path)) {
+        missing.push(image);
+        report.missing_files.push({
+          image_id: image.id,
+          vehicle_id: image.vehicle_id,
+          image_url: image.image_url,
+          file_path: image.file_path
+        });
+      }
+    }
+
+    // 2. Blobs: los que no usa ninguna fila (y pasaron el período de gracia) son huérfanos
+    const [blobs] = await pool.execute<any[]>(
+      `SELECT ib.id, ib.file_path, ib.variants, ib.created_at,
+              (SELECT COUNT(*) FROM vehicle_images vi WHERE vi.blob_id = ib.id) AS refs
+       FROM image_blobs ib`
+    );
+
+    for (const blob of blobs) {
+      const refs = Number(blob.refs);
+      if (refs === 0 && new Date(blob.created_at).getTime() < graceLimit) {
+        report.orphaned_blobs.push(blob.id);
+      } else {
+        addReferenced(blob.file_path, blob.variants);
+      }
+    }
+
+    // 3. Recorrer el árbol de medios
+    for (const dir of MANAGED_DIRS) {
+      this.walk(path.join(root, dir), (filePath, stats) => {
+        report.scanned_files++;
+        if (referenced.has(filePath)) {
+          report.referenced_files++;
+          return;
+        }
+        if (stats.mtimeMs >= graceLimit) {
+          return;
+        }
+        report.orphaned_files.push(filePath);
+        report.orphaned_bytes += stats.size;
+      });
+    }
+
+    if (dryRun) {
+      return report;
+    }
+
+    // 4. Corregir ref_count (las filas borradas en cascada no lo descuentan)
+    try {
+      await pool.execute(
+        `UPDATE image_blobs ib
+         SET ref_count = (SELECT COUNT(*) FROM vehicle_images vi WHERE vi.blob_id = ib.id)`
+      );
+    } catch (error: any) {
+      report.errors++;
+      logger.error(`Error al recalcular ref_count de image_blobs: ${error.message}`);
+    }
+
+    // 5. Eliminar archivos y blobs huérfanos
+    if (options.deleteOrphans) {
+      for (const filePath of report.orphaned_files) {
+        try {
+          fs.unlinkSync(filePath);
+          report.deleted_files++;
+          this.removeEmptyDirs(path.dirname(filePath), root);
+        } catch (error: any) {
+          report.errors++;
+          logger.error(`Error al eliminar archivo huérfano ${filePath}: ${error.message}`);
+        }
+      }
+
+      for (const blobId of report.orphaned_blobs) {
+        try {
+          await pool.execute(
+            `DELETE FROM image_blobs
+             WHERE id = ? AND NOT EXISTS (SELECT 1 FROM vehicle_images vi WHERE vi.blob_id = image_blobs.id)`,
+            [blobId]
+          );
+          report.deleted_blobs++;
+        } catch (error: any) {
+          report.errors++;
+          logger.error(`Error al eliminar blob huérfano ${blobId}: ${error.message}`);
+        }
+      }
+    }
+
+    // 6. Filas que apuntan a archivos inexistentes
+    if (missingAction !== 'report') {
+      for (const image of missing) {
+        try {
+          await ImageStore.releaseReferences([image.blob_id]);
+          await pool.execute('DELETE FROM vehicle_images WHERE id = ?', [image.id]);
+          report.deleted_rows++;
+
+          if (missingAction === 'requeue') {
+            const [pending] = await pool.execute<any[]>(
+              'SELECT id FROM pending_images WHERE vehicle_id = ? AND image_url = ?',
+              [image.vehicle_id, image.image_url]
+            );
+
+            if (pending.length > 0) {
+              // Reiniciar reintentos (puede estar como 'dead')
+              await pool.execute(
+                `UPDATE pending_images
+                 SET status = 'pending', attempts = 0, last_error = NULL, next_retry_at = NULL
+                 WHERE id = ?`,
+                [pending[0].id]
+              );
+            } else {
+              await pool.execute(
+                'INSERT INTO pending_images (vehicle_id, image_url) VALUES (?, ?)',
+                [image.vehicle_id, image.image_url]
+              );
+            }
+            report.requeued++;
+          }
+        } catch (error: any) {
+          report.errors++;
+          logger.error(`Error al procesar imagen faltante ${image.id}: ${error.message}`);
+        }
+      }
+    }
+
+    logger.info(
+      `🧹 GC de medios: ${report.deleted_files} archivos y ${report.deleted_blobs} blobs eliminados, ` +
+      `${report.deleted_rows} filas faltantes eliminadas (${report.requeued} reencoladas), ${report.errors} errores`
+    );
+
+    return report;
+  }
+
+  /**
+   * Recorre recursivamente un directorio (ignora los que no existen)
+   */
+  private static walk(dir: string, onFile: (filePath: string, stats: fs.Stats) => void): void {
+    if (!fs.existsSync(dir)) return;
+
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        this.walk(fullPath, onFile);
+      } else if (entry.isFile()) {
+        onFile(fullPath, fs.statSync(fullPath));
+      }
+    }
+  }
+
+  /**
+   * Elimina directorios vacíos hacia arriba sin salir de las carpetas administradas
+   */
+  private static removeEmptyDirs(dir: string, root: string): void {
+    let current = dir;
+    while (current.startsWith(root) && !MANAGED_DIRS.some(managed => path.join(root, managed) === current)) {
+      if (current === root || fs.readdirSync(current).length > 0) return;
+      fs.rmdirSync(current);
+      current = path.dirname(current);
+    }
+  }
+
+  private static parseJson(raw: string): any {
+    try {
+      return JSON.parse(raw);
+    } catch (e) {
+      return null;
+    }
+  }
+}
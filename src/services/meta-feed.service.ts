@@ -1,6 +1,10 @@
 import pool from '../config/database';
 import logger from './logger';
-import { filterConfig } from '../config/filters';
+import { FilterRules } from './filter-rules';
+import { VehicleFilters } from './vehicle-filters';
+import { VehicleOverrides } from './vehicle-overrides';
+import { PriceHistory } from './price-history';
+import { ImageVariants } from './image-variants';
 import {
   normalizeBodyStyle,
   normalizeStateOfVehicle,
@@ -27,8 +31,14 @@ export class MetaFeedService {
   /**
    * Construye la URL completa de una imagen
    * Usa API_URL para todas las imágenes (endpoints de API y recursos estáticos)
+   * Prioriza la variante 'full' en JPEG (más liviana que el original y compatible con el catálogo)
    */
-  private static buildImageUrl(image: { file_path?: string | null; image_url?: string | null }): string | null {
+  private static buildImageUrl(image: { file_path?: string | null; image_url?: string | null; variants?: any }): string | null {
+    const variantUrl = ImageVariants.getUrl(image.variants, 'full', 'jpeg', this.API_URL);
+    if (variantUrl) {
+      return variantUrl;
+    }
+
     // Si hay file_path y es una ruta estática
     if (image.file_path) {
       if (image.file_path.startsWith('/IMG/static/')) {
@@ -94,36 +104,14 @@ export class MetaFeedService {
    * Reutiliza la misma lógica de filtrado que Google Feed para mantener consistencia
    */
   private static async getPublishedVehicles(): Promise<any[]> {
-    // Construir condiciones WHERE con los mismos filtros que los endpoints públicos
-    const whereConditions: string[] = [];
-    const whereParams: any[] = [];
-
-    // 1. Solo vehículos publicados
-    whereConditions.push(`v.status = 'published'`);
-    
-    // 2. License plate NO NULL y NO vacío
-    whereConditions.push(`v.license_plate IS NOT NULL`);
-    whereConditions.push(`v.license_plate != ?`);
-    whereParams.push('');
-    
-    // 3. Precio mayor al mínimo
-    whereConditions.push(`(
-      (v.price_usd IS NOT NULL AND v.price_usd > ?) OR
-      (v.price_ars IS NOT NULL AND v.price_ars > ?)
-    )`);
-    whereParams.push(filterConfig.minPrice, filterConfig.minPrice);
-    
-    // 4. Excluir concesionarias bloqueadas (Dakota por defecto)
-    // Se verifica en el JSON additional_data.stock_info[].branch_office_name o location_name
-    if (filterConfig.blockedBranchOffices.length > 0) {
-      const blockedConditions = filterConfig.blockedBranchOffices.map(() => {
-        return `(v.additional_data IS NULL OR v.additional_data NOT LIKE ?)`;
-      });
-      whereConditions.push(`(${blockedConditions.join(' AND ')})`);
-      for (const blocked of filterConfig.blockedBranchOffices) {
-        whereParams.push(`%${blocked.toLowerCase()}%`);
-      }
-    }
+    // Mismos filtros obligatorios que los endpoints públicos (reglas vigentes de FilterRules)
+    // Las imágenes no se exigen en el WHERE: los vehículos sin imágenes se descartan al armar cada ítem
+    const filterConfig = await FilterRules.getConfig();
+    const { conditions: whereConditions, params: whereParams } = VehicleFilters.buildSqlConditions(
+      filterConfig,
+      'v',
+      { requireImages: false }
+    );
 
     const whereClause = whereConditions.join(' AND ');
 
@@ -139,13 +127,16 @@ export class MetaFeedService {
         v.license_plate,
         v.price_usd,
         v.price_ars,
+        v.previous_price_usd,
+        v.previous_price_ars,
+        v.price_changed_at,
         v.additional_data,
         -- Imagen destacada
         vi_featured.id as featured_image_id,
         vi_featured.file_path as featured_file_path,
         vi_featured.image_url as featured_image_url,
         vi_featured.sort_order as featured_sort_order
-      FROM vehicles v
+      FROM ${VehicleOverrides.effectiveSource()} v
       LEFT JOIN vehicle_images vi_featured ON v.featured_image_id = vi_featured.id
       WHERE ${whereClause}
       ORDER BY v.id ASC
@@ -166,6 +157,7 @@ export class MetaFeedService {
         id,
         file_path,
         image_url,
+        variants,
         is_featured,
         sort_order
       FROM vehicle_images
@@ -207,10 +199,10 @@ export class MetaFeedService {
       taxonomiesByVehicle[tax.vehicle_id][tax.taxonomy].push(tax.name);
     }
 
-    // Combinar datos
+    // Combinar datos (la imagen destacada efectiva, que puede venir de un override, va primero)
     return vehicles.map(vehicle => ({
       ...vehicle,
-      images: imagesByVehicle[vehicle.id] || [],
+      images: VehicleOverrides.featuredFirst(imagesByVehicle[vehicle.id] || [], vehicle.featured_image_id),
       taxonomies: taxonomiesByVehicle[vehicle.id] || {}
     }));
   }
@@ -233,6 +225,7 @@ export class MetaFeedService {
       'availability',          // Requerido
       'state_of_vehicle',      // Requerido (renombrado de 'condition')
       'price',                 // Requerido
+      'sale_price',            // Opcional (precio rebajado si bajó de precio)
       'link',                  // Requerido
       'image',                 // Requerido (renombrado de 'image_link')
       'make',                  // Requerido (brand)
@@ -269,8 +262,13 @@ export class MetaFeedService {
         // Usar USD si existe, sino ARS
         const price = hasUsdPrice ? parseFloat(vehicle.price_usd) : parseFloat(vehicle.price_ars);
         const currency = hasUsdPrice ? 'USD' : 'ARS';
+        // Si bajó de precio en la misma moneda: price = precio anterior, sale_price = precio actual
+        const priceDrop = PriceHistory.getPriceDrop(vehicle);
+        const hasSalePrice = priceDrop.price_dropped && priceDrop.previous_price_currency === currency;
+        const regularPrice = hasSalePrice ? priceDrop.previous_price! : price;
         // Formato Meta: "15000 USD" (número + espacio + código ISO, sin símbolos)
-        const priceFormatted = `${Math.round(price)} ${currency}`;
+        const priceFormatted = `${Math.round(regularPrice)} ${currency}`;
+        const salePriceFormatted = hasSalePrice ? `${Math.round(price)} ${currency}` : '';
 
         // Construir URL del vehículo (usar FRONTEND_URL para páginas)
         const vehicleUrl = `${this.FRONTEND_URL}/autos/${vehicle.id}`;
@@ -366,6 +364,7 @@ export class MetaFeedService {
           availability,                          // availability (normalizado)
           stateOfVehicle,                        // state_of_vehicle (renombrado y normalizado)
           priceFormatted,                        // price
+          salePriceFormatted,                    // sale_price (vacío si no bajó de precio)
           vehicleUrl,                            // link
           imageLink,                             // image (renombrado de 'image_link')
           brand,                                 // make (brand)
@@ -0,0 +1,178 @@
+import pool, { DbConnection } from '../config/database';
+import logger from './logger';
+
+export interface PriceSnapshot {
+  price_usd: number | null;
+  price_ars: number | null;
+}
+
+export interface PriceHistoryRecord {
+  id: number;
+  vehicle_id: number;
+  price_usd: number | null;
+  price_ars: number | null;
+  list_price: number | null;
+  currency_name: string | null;
+  sync_log_id: number | null;
+  recorded_at: Date;
+}
+
+/**
+ * Días durante los cuales un vehículo se muestra como "bajó de precio" tras una rebaja
+ */
+const PRICE_DROP_WINDOW_DAYS = parseInt(process.env.PRICE_DROP_WINDOW_DAYS || '30', 10);
+
+/**
+ * Servicio para el historial de precios de vehículos (tabla vehicle_price_history)
+ * y la detección de bajas de precio que se exponen en /autos y en los feeds
+ */
+export class PriceHistory {
+  /**
+   * Convierte un DECIMAL de MySQL (string) a number
+   */
+  private static toNumber(value: any): number | null {
+    if (value === null || value === undefined || value === '') return null;
+    const num = Number(value);
+    return isNaN(num) ? null : num;
+  }
+
+  /**
+   * Indica si el precio cambió entre dos snapshots
+   */
+  static hasChanged(before: PriceSnapshot, after: PriceSnapshot): boolean {
+    return this.toNumber(before.price_usd) !== this.toNumber(after.price_usd) ||
+      this.toNumber(before.price_ars) !== this.toNumber(after.price_ars);
+  }
+
+  /**
+   * Registra un precio en el historial
+   * Nunca lanza error: el historial no debe interrumpir la sincronización
+   */
+  static async record(
+    vehicleId: number,
+    price: PriceSnapshot,
+    source: { list_price?: number | null; currency_name?: string | null; sync_log_id?: number | null } = {},
+    db: DbConnection = pool
+  ): Promise<void> {
+    try {
+      await db.execute(
+        `INSERT INTO vehicle_price_history (vehicle_id, price_usd, price_ars, list_price, currency_name, sync_log_id)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          vehicleId,
+          price.price_usd,
+          price.price_ars,
+          source.list_price ?? null,
+          source.currency_name || null,
+          source.sync_log_id || null
+        ]
+      );
+    } catch (error: any) {
+      // No fallar si la tabla no existe o hay error
+      logger.debug(`No se pudo registrar historial de precio del vehículo ${vehicleId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Indica si el vehículo ya tiene precios registrados
+   * Ante error devuelve true para no duplicar registros
+   */
+  static async hasHistory(vehicleId: number, db: DbConnection = pool): Promise<boolean> {
+    try {
+      const [rows] = await db.execute<any[]>(
+        'SELECT 1 FROM vehicle_price_history WHERE vehicle_id = ? LIMIT 1',
+        [vehicleId]
+      );
+      return rows.length > 0;
+    } catch (error: any) {
+      logger.debug(`No se pudo consultar historial de precio del vehículo ${vehicleId}: ${error.message}`);
+      return true;
+    }
+  }
+
+  /**
+   * Obtiene el historial de precios de un vehículo (más reciente primero)
+   */
+  static async getHistory(vehicleId: number, limit: number = 100): Promise<PriceHistoryRecord[]> {
+    const [rows] = await pool.query<any[]>(
+      `SELECT id, vehicle_id, price_usd, price_ars, list_price, currency_name, sync_log_id, recorded_at
+       FROM vehicle_price_history
+       WHERE vehicle_id = ?
+       ORDER BY recorded_at DESC, id DESC
+       LIMIT ?`,
+      [vehicleId, limit]
+    );
+
+    return rows.map((row: any) => ({
+      ...row,
+      price_usd: this.toNumber(row.price_usd),
+      price_ars: this.toNumber(row.price_ars),
+      list_price: this.toNumber(row.list_price)
+    }));
+  }
+
+  /**
+   * Calcula la información de baja de precio de un vehículo a partir de
+   * price_usd/price_ars, previous_price_usd/previous_price_ars y price_changed_at
+   * Solo se considera baja si ambos precios están en la misma moneda y dentro de la ventana configurada
+   */
+  static getPriceDrop(vehicle: any): {
+    price_dropped: boolean;
+    previous_price: number | null;
+    previous_price_currency: 'USD' | 'ARS' | null;
+    price_changed_at: Date | null;
+  } {
+    const noDrop = {
+      price_dropped: false,
+      previous_price: null,
+      previous_price_currency: null,
+      price_changed_at: vehicle.price_changed_at || null
+    };
+
+    if (!vehicle.price_changed_at) {
+      return noDrop;
+    }
+
+    const changedAt = new Date(vehicle.price_changed_at).getTime();
+    const windowStart = Date.now() - PRICE_DROP_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+    if (isNaN(changedAt) || changedAt < windowStart) {
+      return noDrop;
+    }
+
+    const currentUsd = this.toNumber(vehicle.price_usd);
+    const previousUsd = this.toNumber(vehicle.previous_price_usd);
+    if (currentUsd && previousUsd && currentUsd < previousUsd) {
+      return {
+        price_dropped: true,
+        previous_price: previousUsd,
+        previous_price_currency: 'USD',
+        price_changed_at: vehicle.price_changed_at
+      };
+    }
+
+    const currentArs = this.toNumber(vehicle.price_ars);
+    const previousArs = this.toNumber(vehicle.previous_price_ars);
+    if (currentArs && previousArs && currentArs < previousArs) {
+      return {
+        price_dropped: true,
+        previous_price: previousArs,
+        previous_price_currency: 'ARS',
+        price_changed_at: vehicle.price_changed_at
+      };
+    }
+
+    return noDrop;
+  }
+
+  /**
+   * Agrega price_dropped / previous_price al payload de un vehículo
+   * y remueve las columnas internas usadas para calcularlo
+   */
+  static decorate<T extends Record<string, any>>(vehicle: T): T & ReturnType<typeof PriceHistory.getPriceDrop> {
+    const drop = this.getPriceDrop(vehicle);
+    const decorated: any = { ...vehicle, ...drop };
+    delete decorated.previous_price_usd;
+    delete decorated.previous_price_ars;
+    return decorated;
+  }
+}
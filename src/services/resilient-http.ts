@@ -0,0 +1,344 @@
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import logger from './logger';
+
+export interface ResilientHttpOptions {
+  /**
+   * Nombre del servicio externo (logs y /health)
+   */
+  name: string;
+  /**
+   * Reintentos ante 5xx, 429, 408 y errores de red/timeout (0 = sin reintentos)
+   */
+  maxRetries: number;
+  /**
+   * Base y tope del backoff exponencial con jitter entre reintentos
+   */
+  retryBaseMs: number;
+  retryMaxMs: number;
+  /**
+   * Espera máxima que se acepta de un Retry-After (429/503)
+   */
+  retryAfterMaxMs: number;
+  /**
+   * Token bucket: requests por segundo y ráfaga máxima (0 = sin límite)
+   */
+  ratePerSecond: number;
+  burst: number;
+  /**
+   * Requests fallidos seguidos (ya sin reintentos) que abren el circuito
+   */
+  failureThreshold: number;
+  /**
+   * Tiempo con el circuito abierto antes de dejar pasar un request de prueba
+   */
+  resetTimeoutMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * El circuito está abierto: no se llama al servicio hasta que pase el tiempo de espera
+ */
+export class CircuitOpenError extends Error {
+  constructor(public readonly service: string, public readonly retryAt: Date | null) {
+    super(
+      `Circuito abierto para ${service}: demasiados errores seguidos` +
+      (retryAt ? `, se reintenta después de ${retryAt.toISOString()}` : ', hay un request de prueba en curso')
+    );
+    this.name = 'CircuitOpenError';
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Limitador de tasa: se recargan ratePerSecond tokens por segundo hasta `capacity`
+ * Los pedidos esperan su token en orden de llegada; un 429 pausa el bucket para todos
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly ratePerSecond: number, private readonly capacity: number) {
+    this.tokens = capacity;
+  }
+
+  take(): Promise<void> {
+    const turn = this.queue.then(() => this.waitForToken());
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  /**
+   * Nadie toma tokens hasta que pase `ms` (ej: Retry-After de un 429)
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  getState() {
+    this.refill(Date.now());
+    return {
+      rate_per_second: this.ratePerSecond,
+      capacity: this.capacity,
+      available_tokens: this.ratePerSecond > 0 ? Math.floor(this.tokens) : null,
+      paused_until: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : null
+    };
+  }
+
+  private async waitForToken(): Promise<void> {
+    while (true) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+      if (this.ratePerSecond <= 0) return;
+
+      this.refill(now);
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000));
+    }
+  }
+
+  private refill(now: number): void {
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Circuit breaker por servicio
+ * closed: pasan todos; open: se rechaza sin llamar; half_open: pasa un único request de prueba
+ * que cierra el circuito si sale bien o lo vuelve a abrir si falla
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: Date | null = null;
+  private trialInFlight = false;
+  private lastFailure: { message: string; at: Date } | null = null;
+
+  constructor(
+    private readonly name: string,
+    private readonly failureThreshold: number,
+    private readonly resetTimeoutMs: number
+  ) {}
+
+  /**
+   * @returns true si es el request de prueba del half-open
+   * @throws CircuitOpenError si el circuito no deja pasar el request
+   */
+  beforeRequest(): boolean {
+    if (this.state === 'open') {
+      const retryAt = new Date(this.openedAt!.getTime() + this.resetTimeoutMs);
+      if (Date.now() < retryAt.getTime()) {
+        throw new CircuitOpenError(this.name, retryAt);
+      }
+      this.state = 'half_open';
+      logger.info(`🔌 Circuito de ${this.name} en half-open: se prueba un request`);
+    }
+
+    if (this.state === 'half_open') {
+      if (this.trialInFlight) {
+        throw new CircuitOpenError(this.name, null);
+      }
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  onSuccess(): void {
+    if (this.state !== 'closed') {
+      logger.info(`✅ Circuito de ${this.name} cerrado: el servicio volvió a responder`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  onFailure(error: Error): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+    this.lastFailure = { message: error.message, at: new Date() };
+
+    if (this.state === 'half_open' || (this.failureThreshold > 0 && this.consecutiveFailures >= this.failureThreshold)) {
+      if (this.state !== 'open') {
+        logger.error(`🚫 Circuito de ${this.name} abierto tras ${this.consecutiveFailures} errores seguidos: ${error.message}`);
+      }
+      this.state = 'open';
+      this.openedAt = new Date();
+    }
+  }
+
+  isOpen(): boolean {
+    return this.state === 'open';
+  }
+
+  getState() {
+    return {
+      state: this.state,
+      consecutive_failures: this.consecutiveFailures,
+      failure_threshold: this.failureThreshold,
+      opened_at: this.openedAt ? this.openedAt.toISOString() : null,
+      retry_at: this.state === 'open' && this.openedAt
+        ? new Date(this.openedAt.getTime() + this.resetTimeoutMs).toISOString()
+        : null,
+      last_failure: this.lastFailure
+        ? { message: this.lastFailure.message, at: this.lastFailure.at.toISOString() }
+        : null
+    };
+  }
+}
+
+export type ResilientHttpState = ReturnType<ResilientHttpClient['getState']>;
+
+/**
+ * Cliente HTTP compartido para servicios externos (ASOFIX)
+ * Cada intento espera su token del limitador, pasa por el circuit breaker y se reintenta
+ * con backoff exponencial y jitter ante 5xx, timeouts y errores de red; en 429/503 se respeta
+ * Retry-After. Los 4xx restantes se propagan sin reintentar.
+ */
+export class ResilientHttpClient {
+  private readonly bucket: TokenBucket;
+  private readonly breaker: CircuitBreaker;
+  private readonly stats = {
+    requests: 0,
+    retries: 0,
+    failures: 0,
+    rate_limited: 0
+  };
+
+  constructor(private readonly http: AxiosInstance, private readonly options: ResilientHttpOptions) {
+    this.bucket = new TokenBucket(options.ratePerSecond, Math.max(1, options.burst));
+    this.breaker = new CircuitBreaker(options.name, options.failureThreshold, options.resetTimeoutMs);
+  }
+
+  get<T = any>(url: string, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'get', url });
+  }
+
+  /**
+   * @throws CircuitOpenError si el circuito está abierto
+   * @throws El error de axios del último intento si se agotaron los reintentos
+   */
+  async request<T = any>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    for (let attempt = 0; ; attempt++) {
+      await this.bucket.take();
+      // Cada intento pasa por el circuito: si otro request lo abrió mientras se esperaba, no se reintenta
+      const isTrial = this.breaker.beforeRequest();
+      this.stats.requests++;
+
+      try {
+        const response = await this.http.request<T>(config);
+        this.breaker.onSuccess();
+        return response;
+      } catch (error: any) {
+        if (!this.isRetryable(error)) {
+          // Un 4xx es una respuesta válida del servicio: no cuenta para el circuito
+          if (axios.isAxiosError(error) && error.response) {
+            this.breaker.onSuccess();
+          } else {
+            this.stats.failures++;
+            this.breaker.onFailure(error);
+          }
+          throw error;
+        }
+
+        // El request de prueba del half-open no se reintenta: si falla, el circuito vuelve a abrirse
+        if (attempt >= this.options.maxRetries || isTrial) {
+          this.stats.failures++;
+          this.breaker.onFailure(error);
+          throw error;
+        }
+
+        const retryAfter = this.getRetryAfterMs(error);
+        const delay = retryAfter ?? this.getBackoffMs(attempt);
+        if (error.response?.status === 429) {
+          this.stats.rate_limited++;
+          this.bucket.pause(delay);
+        }
+
+        this.stats.retries++;
+        logger.warn(
+          `[${this.options.name}] ${this.describe(error)} - reintento ${attempt + 1}/${this.options.maxRetries} en ${delay}ms`
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Estado del circuito, del limitador y contadores desde que arrancó el proceso (para /health)
+   */
+  getState() {
+    return {
+      name: this.options.name,
+      circuit: this.breaker.getState(),
+      rate_limit: this.bucket.getState(),
+      retry: {
+        max_retries: this.options.maxRetries,
+        base_ms: this.options.retryBaseMs,
+        max_ms: this.options.retryMaxMs
+      },
+      stats: { ...this.stats }
+    };
+  }
+
+  isCircuitOpen(): boolean {
+    return this.breaker.isOpen();
+  }
+
+  private isRetryable(error: any): boolean {
+    if (!axios.isAxiosError(error) || axios.isCancel(error)) return false;
+
+    // Sin respuesta: timeout o error de red
+    if (!error.response) return true;
+
+    const status = error.response.status;
+    return status >= 500 || status === 429 || status === 408;
+  }
+
+  /**
+   * Backoff exponencial con "full jitter": aleatorio entre 0 y min(max, base * 2^intento)
+   */
+  private getBackoffMs(attempt: number): number {
+    const ceiling = Math.min(this.options.retryMaxMs, this.options.retryBaseMs * Math.pow(2, attempt));
+    return Math.round(Math.random() * ceiling);
+  }
+
+  /**
+   * Retry-After en segundos o fecha HTTP, acotado a retryAfterMaxMs (null si no vino)
+   */
+  private getRetryAfterMs(error: any): number | null {
+    const status = error.response?.status;
+    if (status !== 429 && status !== 503) return null;
+
+    const header = error.response?.headers?.['retry-after'];
+    if (!header) return null;
+
+    const seconds = Number(header);
+    const ms = !isNaN(seconds) ? seconds * 1000 : new Date(String(header)).getTime() - Date.now();
+    if (isNaN(ms)) return null;
+
+    return Math.min(Math.max(0, Math.round(ms)), this.options.retryAfterMaxMs);
+  }
+
+  private describe(error: any): string {
+    if (error.response) {
+      return `HTTP ${error.response.status}`;
+    }
+    return error.code ? `${error.code}: ${error.message}` : error.message;
+  }
+}
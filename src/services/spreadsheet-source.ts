@@ -0,0 +1,165 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { InventorySource, InventoryPage, InventoryVehicle } from './inventory-source';
+import { NormalizedVehicle, normalizeLicensePlate, readStockFile } from './stock-file-parser';
+
+/**
+ * Vehículos por página al recorrer la planilla (igual que una página de ASOFIX)
+ */
+const SPREADSHEET_PAGE_SIZE = 100;
+
+export interface SpreadsheetSourceOptions {
+  /**
+   * Nombre de la fuente (vehicles.source y prefijo del asofix_id). Default: nombre del archivo
+   */
+  name?: string;
+  /**
+   * Sucursal a usar cuando la planilla no tiene columna de sucursal/concesionaria
+   */
+  branchOfficeName?: string;
+}
+
+/**
+ * Encabezado normalizado para compararlo con los alias de cada columna: minúsculas, sin acentos
+ * y con "_" como separador ("Precio Lista" → "precio_lista", "Código" → "codigo", "Año" → "ano")
+ */
+function normalizeHeader(header: string): string {
+  return header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Fuente de inventario desde una planilla local (CSV o XLSX) para sucursales que no están en ASOFIX
+ * Reutiliza el parseo de data/compare-stock.ts (stock-file-parser) y mapea cada fila al formato
+ * de ASOFIX para que pase por el mismo processVehicle y los mismos filtros.
+ *
+ * Columnas reconocidas (además de marca, modelo, patente, año y versión/título), por nombre
+ * exacto sin importar mayúsculas ni acentos: id/código, precio, moneda, kilómetros, color,
+ * condición, transmisión, combustible, segmento, estado (default ACTIVO), sucursal/concesionaria,
+ * descripción e imágenes (URLs separadas por espacio, coma, punto y coma o |).
+ */
+export class SpreadsheetInventorySource implements InventorySource {
+  readonly name: string;
+  private vehicles: InventoryVehicle[] | null = null;
+  private loadedMtime = 0;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly options: SpreadsheetSourceOptions = {}
+  ) {
+    this.name = options.name || `planilla-${path.basename(filePath, path.extname(filePath)).toLowerCase()}`;
+  }
+
+  async getPage(page: number): Promise<InventoryPage> {
+    const vehicles = this.load();
+    const start = (page - 1) * SPREADSHEET_PAGE_SIZE;
+
+    return {
+      vehicles: vehicles.slice(start, start + SPREADSHEET_PAGE_SIZE),
+      hasMore: start + SPREADSHEET_PAGE_SIZE < vehicles.length,
+      totalCount: vehicles.length
+    };
+  }
+
+  async getVehicle(id: string): Promise<InventoryVehicle | null> {
+    return this.load().find(vehicle => vehicle.id === id) || null;
+  }
+
+  async findByLicensePlate(licensePlate: string): Promise<InventoryVehicle | null> {
+    const normalized = normalizeLicensePlate(licensePlate);
+    if (!normalized) return null;
+    return this.load().find(vehicle => normalizeLicensePlate(vehicle.license_plate) === normalized) || null;
+  }
+
+  /**
+   * Lee la planilla (se vuelve a leer si el archivo cambió)
+   */
+  private load(): InventoryVehicle[] {
+    if (!fs.existsSync(this.filePath)) {
+      throw new Error(`No existe la planilla de stock: ${this.filePath}`);
+    }
+
+    const mtime = fs.statSync(this.filePath).mtimeMs;
+    if (!this.vehicles || mtime !== this.loadedMtime) {
+      this.vehicles = readStockFile(this.filePath).map(row => this.toVehicle(row));
+      this.loadedMtime = mtime;
+    }
+    return this.vehicles;
+  }
+
+  /**
+   * Mapea una fila normalizada al formato de ASOFIX
+   */
+  private toVehicle(normalized: NormalizedVehicle): InventoryVehicle {
+    const headers = new Map<string, string>();
+    for (const key of Object.keys(normalized.row)) {
+      const header = normalizeHeader(key);
+      if (!headers.has(header)) headers.set(header, key);
+    }
+
+    // Solo encabezados exactos: "precio" no toma "precio_anterior" ni "color" toma "color_interior"
+    const column = (...aliases: string[]): string => {
+      for (const alias of aliases) {
+        const header = headers.get(alias);
+        if (header && normalized.row[header]) {
+          return normalized.row[header];
+        }
+      }
+      return '';
+    };
+
+    // Números con separador de miles "." o "," ("12.500.000", "1,234.56", "15000,5")
+    const number = (value: string): number | undefined => {
+      const cleaned = value.replace(/[^\d,.-]/g, '');
+      const lastSeparator = Math.max(cleaned.lastIndexOf(','), cleaned.lastIndexOf('.'));
+      const hasDecimals = lastSeparator >= 0 && cleaned.length - lastSeparator - 1 !== 3;
+      const parsed = parseFloat(hasDecimals
+        ? `${cleaned.substring(0, lastSeparator).replace(/[,.]/g, '')}.${cleaned.substring(lastSeparator + 1)}`
+        : cleaned.replace(/[,.]/g, ''));
+      return isNaN(parsed) ? undefined : parsed;
+    };
+
+    // Id estable: columna id/código, si no la patente, si no un hash de marca+modelo+año+versión
+    const explicitId = column('id', 'codigo');
+    const localId = explicitId
+      || normalized.licensePlate
+      || crypto.createHash('sha1').update(normalized.comparisonKey).digest('hex').substring(0, 12);
+
+    const condition = column('condicion', 'condition').toLowerCase();
+    const imageUrls = column('imagenes', 'fotos', 'images')
+      .split(/[\s,;|]+/)
+      .filter(url => /^https?:\/\//i.test(url));
+    const color = column('color');
+
+    return {
+      id: `${this.name}:${localId}`,
+      brand_name: column('marca', 'brand') || normalized.brand,
+      model_name: column('modelo', 'model') || normalized.model,
+      version: normalized.title ? String(normalized.title) : undefined,
+      description: column('descripcion', 'description') || undefined,
+      year: normalized.year,
+      kilometres: number(column('kilometros', 'kilometraje', 'kilometres', 'km')),
+      license_plate: normalized.licensePlate,
+      car_condition: condition.includes('nuevo') || condition.includes('0km') || condition === 'new' ? 'new' : 'used',
+      car_transmission: column('transmision', 'caja', 'transmission') || undefined,
+      car_fuel_type: column('combustible', 'fuel') || undefined,
+      car_segment: column('segmento', 'carroceria', 'segment') || undefined,
+      price: {
+        list_price: number(column('precio', 'precio_venta', 'precio_lista', 'price')),
+        currency_name: column('moneda', 'currency') || undefined
+      },
+      colors: color ? [{ name: color }] : [],
+      stocks: [{
+        status: (column('estado', 'status') || 'ACTIVO').toUpperCase(),
+        branch_office_name: column('sucursal', 'concesionaria', 'branch') || this.options.branchOfficeName,
+        location_name: column('ubicacion', 'location') || undefined
+      }],
+      images: imageUrls.map(url => ({ url }))
+    };
+  }
+}
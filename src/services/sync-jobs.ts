@@ -0,0 +1,314 @@
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import syncService, { SkippableSyncPhase, SyncAllOptions, SyncAllResult, SyncProgressCallback, SyncType } from './sync-service';
+import logger from './logger';
+import { SyncLock } from './sync-lock';
+
+/**
+ * Cantidad de jobs terminados que se conservan en memoria para GET /sync/jobs
+ */
+const SYNC_JOBS_HISTORY = parseInt(process.env.SYNC_JOBS_HISTORY || '50', 10);
+
+/**
+ * Eventos recientes que se guardan por job para reenviarlos a los clientes que se conectan tarde
+ */
+const SYNC_JOB_EVENTS_BUFFER = parseInt(process.env.SYNC_JOB_EVENTS_BUFFER || '200', 10);
+
+export type SyncJobStatus = 'running' | 'completed' | 'failed';
+
+/**
+ * Origen del job: endpoint o cron que lo lanzó
+ */
+export type SyncJobTrigger = 'cron' | 'manual' | 'initial' | 'resume';
+
+export interface SyncJobSummary {
+  vehicles: { processed: number; created: number; updated: number; filtered: number; archived: number; errors: number };
+  images: { processed: number; created: number; errors: number };
+}
+
+export interface SyncJob {
+  id: string;
+  trigger: SyncJobTrigger;
+  sync_type: SyncType;
+  incremental: boolean;
+  /**
+   * Schedule de cron que lanzó el job (null si no vino de un schedule)
+   */
+  schedule: string | null;
+  skip_phases: SkippableSyncPhase[];
+  status: SyncJobStatus;
+  sync_log_id: number | null;
+  phase: 'fase1' | 'fase2' | null;
+  message: string | null;
+  progress: { current: number; total: number; percentage: number };
+  summary: SyncJobSummary | null;
+  /**
+   * El circuit breaker retuvo el archivado de la limpieza global (ver /sync/archive-reviews)
+   */
+  needs_review: boolean;
+  error: string | null;
+  started_at: Date;
+  updated_at: Date;
+  finished_at: Date | null;
+  duration_seconds: number | null;
+}
+
+/**
+ * Evento de un job tal como se envía por SSE (mismo formato que el stream de /sync/inicial)
+ * `id` es correlativo dentro del job: los clientes lo reenvían en Last-Event-ID al reconectar
+ */
+export interface SyncJobEvent {
+  id: number;
+  job_id: string;
+  type: 'start' | 'progress' | 'complete' | 'error';
+  message: string;
+  phase?: 'fase1' | 'fase2';
+  progress?: { current: number; total: number; percentage: number };
+  counters?: Pick<SyncAllResult, 'fase1' | 'fase2'>;
+  result?: Pick<SyncAllResult, 'fase1' | 'fase2'>;
+  sync_log_id?: number | null;
+  timestamp: string;
+}
+
+export type SyncJobEventListener = (event: SyncJobEvent) => void;
+
+export interface StartSyncJobOptions {
+  trigger: SyncJobTrigger;
+  syncType: SyncType;
+  incremental: boolean;
+  resumeFrom?: number;
+  schedule?: string;
+  skipPhases?: SkippableSyncPhase[];
+}
+
+export interface StartedSyncJob {
+  job: SyncJob;
+  /**
+   * Se resuelve con el job terminado (completed o failed); nunca se rechaza
+   */
+  completion: Promise<SyncJob>;
+}
+
+/**
+ * Jobs de sincronización en segundo plano
+ * Los endpoints de /sync responden 202 con el id del job y la sincronización sigue en este proceso;
+ * el estado (fase, contadores, porcentaje) se arma con los mismos eventos de onProgress.
+ * Los jobs viven en memoria: el registro durable sigue siendo sync_logs (sync_log_id).
+ * Cada job guarda sus últimos eventos y los publica a los suscriptores (GET /sync/jobs/:id/events):
+ * varios clientes pueden engancharse a cualquier sync en curso y recibir lo que ya pasó.
+ */
+export class SyncJobs {
+  private static jobs = new Map<string, SyncJob>();
+  private static events = new Map<string, SyncJobEvent[]>();
+  private static emitter = new EventEmitter().setMaxListeners(0);
+
+  /**
+   * Toma el lock e inicia la sincronización sin esperar a que termine
+   * @throws SyncInProgressError si ya hay una sincronización en curso (antes de crear el job)
+   */
+  static async start(options: StartSyncJobOptions): Promise<StartedSyncJob> {
+    const lock = await SyncLock.acquire(options.syncType);
+    const now = new Date();
+
+    const job: SyncJob = {
+      id: crypto.randomUUID(),
+      trigger: options.trigger,
+      sync_type: options.syncType,
+      incremental: options.incremental,
+      schedule: options.schedule || null,
+      skip_phases: options.skipPhases || [],
+      status: 'running',
+      sync_log_id: options.resumeFrom || null,
+      phase: null,
+      message: null,
+      progress: { current: 0, total: 0, percentage: 0 },
+      summary: null,
+      needs_review: false,
+      error: null,
+      started_at: now,
+      updated_at: now,
+      finished_at: null,
+      duration_seconds: null
+    };
+    this.jobs.set(job.id, job);
+    this.events.set(job.id, []);
+    this.prune();
+
+    logger.info(`🧵 Job de sincronización ${job.id} iniciado (${options.schedule ? `${options.trigger}:${options.schedule}` : options.trigger}, ${options.syncType})`);
+
+    this.emit(job, {
+      type: 'start',
+      message: options.resumeFrom
+        ? `🔁 Reanudando sincronización ${options.resumeFrom}...`
+        : `🚀 Iniciando sincronización ${options.syncType}...`
+    });
+
+    const onProgress: SyncProgressCallback = (phase, message, progress, details) => {
+      job.phase = phase;
+      job.message = message;
+      job.progress = { current: progress.current, total: progress.total, percentage: progress.percentage };
+      if (details) {
+        job.sync_log_id = details.sync_log_id ?? job.sync_log_id;
+        job.summary = this.summarize(details.counters);
+      }
+      job.updated_at = new Date();
+
+      if (process.env.NODE_ENV === 'development') {
+        logger.info(`[${options.trigger.toUpperCase()}][${phase.toUpperCase()}] ${message} (${progress.percentage}%)`);
+      }
+
+      this.emit(job, {
+        type: 'progress',
+        phase,
+        message,
+        progress: job.progress,
+        counters: details?.counters,
+        sync_log_id: job.sync_log_id
+      });
+    };
+
+    const syncOptions: SyncAllOptions = { lock, resumeFrom: options.resumeFrom, skipPhases: options.skipPhases };
+    const completion = syncService.syncAll(onProgress, options.incremental, options.syncType, syncOptions)
+      .then(result => {
+        job.status = 'completed';
+        job.summary = this.summarize(result);
+        job.needs_review = !!result.archive_review;
+        logger.info(`✅ Job de sincronización ${job.id} completado - Procesados: ${result.fase1.processed}, Creados: ${result.fase1.created}, Actualizados: ${result.fase1.updated}, Filtrados: ${result.fase1.filtered}, Archivados: ${result.fase1.archived}, Errores: ${result.fase1.errors}`);
+        return { fase1: result.fase1, fase2: result.fase2 };
+      })
+      .catch((error: any) => {
+        job.status = 'failed';
+        job.error = error.message;
+        logger.error(`❌ Job de sincronización ${job.id} falló: ${error.message}`);
+        return null;
+      })
+      .then(result => {
+        job.finished_at = new Date();
+        job.updated_at = job.finished_at;
+        job.duration_seconds = Math.round((job.finished_at.getTime() - job.started_at.getTime()) / 1000);
+
+        this.emit(job, result
+          ? {
+              type: 'complete',
+              message: job.needs_review
+                ? '⚠️  Sincronización completada: archivado masivo retenido, requiere revisión'
+                : '✅ Sincronización completada',
+              result,
+              sync_log_id: job.sync_log_id
+            }
+          : { type: 'error', message: `❌ Error fatal: ${job.error}`, sync_log_id: job.sync_log_id });
+        return job;
+      });
+
+    return { job, completion };
+  }
+
+  /**
+   * Al iniciar el proceso: reanuda como job (trigger 'resume') la sincronización que quedó interrumpida,
+   * así aparece en GET /sync/jobs y se puede seguir en /sync/jobs/:id/events
+   * @returns null si no hay ninguna para reanudar
+   */
+  static async resumeInterrupted(): Promise<StartedSyncJob | null> {
+    const candidate = await syncService.findInterruptedSyncToResume();
+    if (!candidate) {
+      return null;
+    }
+
+    logger.info(`🔁 Reanudando sincronización interrumpida ${candidate.id} (fase: ${candidate.checkpoint?.phase})`);
+    return this.start({
+      trigger: 'resume',
+      syncType: candidate.sync_type,
+      incremental: candidate.checkpoint?.incremental ?? true,
+      resumeFrom: candidate.id
+    });
+  }
+
+  static get(id: string): SyncJob | null {
+    return this.jobs.get(id) || null;
+  }
+
+  /**
+   * Jobs más recientes primero
+   */
+  static list(limit: number = SYNC_JOBS_HISTORY): SyncJob[] {
+    return Array.from(this.jobs.values())
+      .sort((a, b) => b.started_at.getTime() - a.started_at.getTime())
+      .slice(0, limit);
+  }
+
+  /**
+   * Eventos guardados del job (los últimos SYNC_JOB_EVENTS_BUFFER), opcionalmente después de un id
+   */
+  static getEvents(id: string, afterEventId: number = 0): SyncJobEvent[] {
+    return (this.events.get(id) || []).filter(event => event.id > afterEventId);
+  }
+
+  /**
+   * Suscribe un listener a los eventos en vivo de un job
+   * @returns Función para desuscribirse
+   */
+  static subscribe(id: string, listener: SyncJobEventListener): () => void {
+    this.emitter.on(id, listener);
+    return () => {
+      this.emitter.off(id, listener);
+    };
+  }
+
+  static summarize(result: Pick<SyncAllResult, 'fase1' | 'fase2'>): SyncJobSummary {
+    return {
+      vehicles: {
+        processed: result.fase1.processed,
+        created: result.fase1.created,
+        updated: result.fase1.updated,
+        filtered: result.fase1.filtered,
+        archived: result.fase1.archived || 0,
+        errors: result.fase1.errors
+      },
+      images: {
+        processed: result.fase2.processed,
+        created: result.fase2.created,
+        errors: result.fase2.errors
+      }
+    };
+  }
+
+  /**
+   * Guarda el evento en el buffer del job y lo publica a los suscriptores
+   */
+  private static emit(job: SyncJob, data: Omit<SyncJobEvent, 'id' | 'job_id' | 'timestamp'>): void {
+    const buffer = this.events.get(job.id) || [];
+    const event: SyncJobEvent = {
+      id: (buffer[buffer.length - 1]?.id || 0) + 1,
+      job_id: job.id,
+      ...data,
+      timestamp: new Date().toISOString()
+    };
+
+    buffer.push(event);
+    if (buffer.length > SYNC_JOB_EVENTS_BUFFER) {
+      buffer.splice(0, buffer.length - SYNC_JOB_EVENTS_BUFFER);
+    }
+    this.events.set(job.id, buffer);
+
+    try {
+      this.emitter.emit(job.id, event);
+    } catch (error: any) {
+      logger.warn(`Error en suscriptor del job ${job.id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Descarta los jobs terminados más viejos (los que siguen corriendo no se descartan)
+   */
+  private static prune(): void {
+    const finished = Array.from(this.jobs.values())
+      .filter(job => job.status !== 'running')
+      .sort((a, b) => a.started_at.getTime() - b.started_at.getTime());
+
+    while (this.jobs.size > SYNC_JOBS_HISTORY && finished.length > 0) {
+      const job = finished.shift()!;
+      this.jobs.delete(job.id);
+      this.events.delete(job.id);
+    }
+  }
+}
@@ -0,0 +1,172 @@
+import os from 'os';
+import crypto from 'crypto';
+import pool from '../config/database';
+import logger from './logger';
+
+/**
+ * Nombre del lock compartido por todos los puntos de entrada de syncAll
+ */
+const LOCK_NAME = 'sync';
+
+/**
+ * Segundos sin heartbeat tras los cuales el lock se considera abandonado (proceso caído)
+ */
+const LOCK_TTL_SECONDS = parseInt(process.env.SYNC_LOCK_TTL_SECONDS || '120', 10);
+
+/**
+ * Cada cuánto se renueva el lock mientras la sincronización sigue corriendo
+ */
+const HEARTBEAT_INTERVAL_MS = Math.max(5, Math.floor(LOCK_TTL_SECONDS / 3)) * 1000;
+
+export interface RunningSyncInfo {
+  sync_log_id: number | null;
+  sync_type: string;
+  started_at: Date;
+  heartbeat_at: Date;
+  expires_at: Date;
+  host: string | null;
+  pid: number | null;
+}
+
+export interface SyncLockHandle {
+  ownerId: string;
+  syncType: string;
+  startedAt: Date;
+}
+
+/**
+ * Error lanzado cuando ya hay una sincronización en curso (en este u otro proceso)
+ * Los controladores lo traducen a HTTP 409
+ */
+export class SyncInProgressError extends Error {
+  constructor(public readonly running: RunningSyncInfo | null) {
+    super(
+      running
+        ? `Ya hay una sincronización en curso (sync_log_id: ${running.sync_log_id ?? 'N/A'}, iniciada: ${new Date(running.started_at).toISOString()})`
+        : 'Ya hay una sincronización en curso'
+    );
+    this.name = 'SyncInProgressError';
+  }
+}
+
+/**
+ * Lock de sincronización respaldado en la tabla sync_locks
+ * Reemplaza al flag en memoria del cron: protege también /sync/inicial, /sync/manual,
+ * /sync/cron y los scripts, aunque corran en procesos distintos.
+ * El dueño renueva expires_at con un heartbeat; si el proceso muere, el lock expira solo.
+ */
+export class SyncLock {
+  private static heartbeats = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * Intenta tomar el lock
+   * @throws SyncInProgressError si otra sincronización lo tiene tomado
+   */
+  static async acquire(syncType: string): Promise<SyncLockHandle> {
+    const ownerId = crypto.randomUUID();
+
+    // Liberar locks abandonados (sin heartbeat dentro del TTL)
+    await pool.execute(
+      'DELETE FROM sync_locks WHERE name = ? AND expires_at < NOW()',
+      [LOCK_NAME]
+    );
+
+    try {
+      await pool.execute(
+        `INSERT INTO sync_locks (name, owner_id, sync_type, host, pid, acquired_at, heartbeat_at, expires_at)
+         VALUES (?, ?, ?, ?, ?, NOW(), NOW(), DATE_ADD(NOW(), INTERVAL ? SECOND))`,
+        [LOCK_NAME, ownerId, syncType, os.hostname(), process.pid, LOCK_TTL_SECONDS]
+      );
+    } catch (error: any) {
+      if (error.code === 'ER_DUP_ENTRY') {
+        throw new SyncInProgressError(await this.getRunning());
+      }
+      throw error;
+    }
+
+    const heartbeat = setInterval(() => {
+      pool.execute(
+        `UPDATE sync_locks
+         SET heartbeat_at = NOW(), expires_at = DATE_ADD(NOW(), INTERVAL ? SECOND)
+         WHERE name = ? AND owner_id = ?`,
+        [LOCK_TTL_SECONDS, LOCK_NAME, ownerId]
+      ).catch((error: any) => {
+        logger.warn(`No se pudo renovar el lock de sincronización: ${error.message}`);
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+    heartbeat.unref();
+    this.heartbeats.set(ownerId, heartbeat);
+
+    logger.info(`🔒 Lock de sincronización tomado (${syncType}, pid ${process.pid})`);
+    return { ownerId, syncType, startedAt: new Date() };
+  }
+
+  /**
+   * Asocia el sync_log_id al lock para poder informarlo a otros llamadores
+   */
+  static async attachSyncLog(handle: SyncLockHandle, syncLogId: number | null): Promise<void> {
+    if (!syncLogId) return;
+
+    try {
+      await pool.execute(
+        'UPDATE sync_locks SET sync_log_id = ? WHERE name = ? AND owner_id = ?',
+        [syncLogId, LOCK_NAME, handle.ownerId]
+      );
+    } catch (error: any) {
+      logger.debug(`No se pudo asociar sync_log_id al lock: ${error.message}`);
+    }
+  }
+
+  /**
+   * Libera el lock (solo si sigue perteneciendo a este dueño)
+   */
+  static async release(handle: SyncLockHandle): Promise<void> {
+    const heartbeat = this.heartbeats.get(handle.ownerId);
+    if (heartbeat) {
+      clearInterval(heartbeat);
+      this.heartbeats.delete(handle.ownerId);
+    }
+
+    try {
+      await pool.execute(
+        'DELETE FROM sync_locks WHERE name = ? AND owner_id = ?',
+        [LOCK_NAME, handle.ownerId]
+      );
+      logger.info(`🔓 Lock de sincronización liberado (${handle.syncType})`);
+    } catch (error: any) {
+      // Si no se puede borrar, el lock expira solo al cortarse el heartbeat
+      logger.error(`Error al liberar lock de sincronización: ${error.message}`);
+    }
+  }
+
+  /**
+   * Obtiene la sincronización que tiene el lock, si no expiró
+   */
+  static async getRunning(): Promise<RunningSyncInfo | null> {
+    try {
+      const [rows] = await pool.execute<any[]>(
+        `SELECT sync_log_id, sync_type, acquired_at, heartbeat_at, expires_at, host, pid
+         FROM sync_locks
+         WHERE name = ? AND expires_at >= NOW()`,
+        [LOCK_NAME]
+      );
+
+      if (rows.length === 0) {
+        return null;
+      }
+
+      return {
+        sync_log_id: rows[0].sync_log_id || null,
+        sync_type: rows[0].sync_type,
+        started_at: rows[0].acquired_at,
+        heartbeat_at: rows[0].heartbeat_at,
+        expires_at: rows[0].expires_at,
+        host: rows[0].host || null,
+        pid: rows[0].pid || null
+      };
+    } catch (error: any) {
+      logger.debug(`No se pudo consultar el lock de sincronización: ${error.message}`);
+      return null;
+    }
+  }
+}
@@ -1,5 +1,52 @@
 import pool from '../config/database';
 import logger from './logger';
+import { ArchiveReview } from './archive-guard';
+import { SchemaDriftReport } from './asofix-schema';
+
+/**
+ * Fases de syncAll en orden de ejecución (usadas para reanudar desde un checkpoint)
+ */
+export const SYNC_PHASES = ['fase1.1', 'fase1.2', 'fase1.3', 'cleanup', 'fase2'] as const;
+
+export type SyncPhase = typeof SYNC_PHASES[number];
+
+/**
+ * Checkpoint de una sincronización, guardado en sync_logs.metadata.checkpoint
+ */
+export interface SyncCheckpoint {
+  phase: SyncPhase;
+  incremental: boolean;
+  source?: string;
+  last_page: number;
+  last_batch: number;
+  processed_ids: string[];
+  valid_ids: string[];
+  counters: {
+    processed: number;
+    created: number;
+    updated: number;
+    errors: number;
+    filtered: number;
+    archived: number;
+  };
+  resumed_count?: number;
+  /**
+   * Fases omitidas por el schedule que lanzó la sync (se respetan al reanudar)
+   */
+  skip_phases?: SyncPhase[];
+  updated_at?: string;
+}
+
+export interface SyncLogRecord {
+  id: number;
+  sync_type: 'full' | 'incremental' | 'manual';
+  status: 'running' | 'completed' | 'failed' | 'needs_review';
+  started_at: Date;
+  completed_at: Date | null;
+  error_message: string | null;
+  checkpoint: SyncCheckpoint | null;
+  archive_review: ArchiveReview | null;
+}
 
 /**
  * Servicio para persistir métricas de sincronización en la tabla sync_logs
@@ -102,6 +149,95 @@ export class SyncLogger {
     }
   }
 
+  /**
+   * Registra el final de una sincronización cuyo archivado masivo quedó retenido por el circuit breaker
+   * Queda en 'needs_review' hasta que se apruebe o descarte (POST /sync/archive-reviews/:id/...)
+   */
+  static async logSyncNeedsReview(
+    syncLogId: number | null,
+    review: ArchiveReview,
+    stats: {
+      vehicles_processed: number;
+      vehicles_created: number;
+      vehicles_updated: number;
+      images_processed: number;
+      images_created: number;
+      errors_count: number;
+    }
+  ): Promise<void> {
+    if (!syncLogId) return;
+
+    try {
+      await pool.execute(
+        `UPDATE sync_logs
+         SET status = 'needs_review',
+             vehicles_processed = ?,
+             vehicles_created = ?,
+             vehicles_updated = ?,
+             images_processed = ?,
+             images_created = ?,
+             errors_count = ?,
+             error_message = ?,
+             completed_at = NOW(),
+             metadata = JSON_SET(COALESCE(metadata, JSON_OBJECT()), '$.archive_review', CAST(? AS JSON))
+         WHERE id = ?`,
+        [
+          stats.vehicles_processed,
+          stats.vehicles_created,
+          stats.vehicles_updated,
+          stats.images_processed,
+          stats.images_created,
+          stats.errors_count,
+          `Archivado masivo retenido: ${review.reason}`.substring(0, 1000),
+          JSON.stringify(review),
+          syncLogId
+        ]
+      );
+    } catch (error: any) {
+      // No fallar si hay error
+      logger.debug(`No se pudo registrar revisión pendiente de sync en BD: ${error.message}`);
+    }
+  }
+
+  /**
+   * Guarda la revisión y deja la sync en el estado que le corresponde: 'needs_review' mientras
+   * esté pendiente, o 'completed'/'failed' una vez resuelta. Si la sync sigue corriendo (el
+   * breaker se acaba de activar) queda en 'running' y logSyncNeedsReview la cierra al terminar
+   */
+  static async saveArchiveReview(syncLogId: number, review: ArchiveReview): Promise<void> {
+    const syncStatus = review.status === 'pending' ? 'needs_review' : review.status_after_review;
+
+    await pool.execute(
+      `UPDATE sync_logs
+       SET error_message = IF(? = 'needs_review' OR status = 'running', error_message, NULL),
+           status = IF(? = 'needs_review' AND status = 'running', status, ?),
+           metadata = JSON_SET(COALESCE(metadata, JSON_OBJECT()), '$.archive_review', CAST(? AS JSON))
+       WHERE id = ?`,
+      [syncStatus, syncStatus, syncStatus, JSON.stringify(review), syncLogId]
+    );
+  }
+
+  /**
+   * Sincronizaciones con archivado masivo pendiente de revisión (más reciente primero)
+   */
+  static async getPendingArchiveReviews(source?: string): Promise<SyncLogRecord[]> {
+    try {
+      const [rows] = await pool.execute<any[]>(
+        `SELECT id, sync_type, status, started_at, completed_at, error_message, metadata
+         FROM sync_logs
+         WHERE status = 'needs_review'
+           AND JSON_UNQUOTE(JSON_EXTRACT(metadata, '$.archive_review.status')) = 'pending'
+         ORDER BY started_at DESC`
+      );
+      return rows
+        .map((row: any) => this.toRecord(row))
+        .filter(record => !source || record.archive_review?.source === source);
+    } catch (error: any) {
+      logger.debug(`No se pudieron consultar revisiones de archivado pendientes: ${error.message}`);
+      return [];
+    }
+  }
+
   /**
    * Obtiene la última sincronización exitosa
    */
@@ -134,5 +270,177 @@ export class SyncLogger {
       return null;
     }
   }
-}
 
+  /**
+   * Guarda el checkpoint de una sincronización en curso
+   */
+  static async saveCheckpoint(syncLogId: number | null, checkpoint: SyncCheckpoint): Promise<void> {
+    if (!syncLogId) return;
+
+    try {
+      await pool.execute(
+        `UPDATE sync_logs
+         SET metadata = JSON_SET(COALESCE(metadata, JSON_OBJECT()), '$.checkpoint', CAST(? AS JSON))
+         WHERE id = ?`,
+        [JSON.stringify({ ...checkpoint, updated_at: new Date().toISOString() }), syncLogId]
+      );
+    } catch (error: any) {
+      // No fallar si hay error: en el peor caso la sync se reanuda desde un checkpoint anterior
+      logger.debug(`No se pudo guardar checkpoint de sync ${syncLogId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Guarda el reporte de drift del esquema de la fuente en sync_logs.metadata.schema_drift
+   */
+  static async saveSchemaDrift(syncLogId: number | null, report: SchemaDriftReport): Promise<void> {
+    if (!syncLogId) return;
+
+    try {
+      await pool.execute(
+        `UPDATE sync_logs
+         SET metadata = JSON_SET(COALESCE(metadata, JSON_OBJECT()), '$.schema_drift', CAST(? AS JSON))
+         WHERE id = ?`,
+        [JSON.stringify(report), syncLogId]
+      );
+    } catch (error: any) {
+      // No fallar si hay error
+      logger.debug(`No se pudo guardar el drift de esquema de sync ${syncLogId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Reportes de drift de las últimas sincronizaciones (más reciente primero)
+   */
+  static async getSchemaDriftReports(limit: number): Promise<Array<{
+    sync_log_id: number;
+    sync_type: SyncLogRecord['sync_type'];
+    status: SyncLogRecord['status'];
+    started_at: Date;
+    report: SchemaDriftReport;
+  }>> {
+    const [rows] = await pool.query<any[]>(
+      `SELECT id, sync_type, status, started_at, JSON_EXTRACT(metadata, '$.schema_drift') AS schema_drift
+       FROM sync_logs
+       WHERE JSON_EXTRACT(metadata, '$.schema_drift') IS NOT NULL
+       ORDER BY started_at DESC, id DESC
+       LIMIT ?`,
+      [limit]
+    );
+
+    return rows.map((row: any) => ({
+      sync_log_id: row.id,
+      sync_type: row.sync_type,
+      status: row.status,
+      started_at: row.started_at,
+      report: typeof row.schema_drift === 'string' ? JSON.parse(row.schema_drift) : row.schema_drift
+    }));
+  }
+
+  /**
+   * Obtiene un registro de sync_logs con su checkpoint
+   */
+  static async getSyncLog(syncLogId: number): Promise<SyncLogRecord | null> {
+    const [rows] = await pool.execute<any[]>(
+      `SELECT id, sync_type, status, started_at, completed_at, error_message, metadata
+       FROM sync_logs
+       WHERE id = ?`,
+      [syncLogId]
+    );
+
+    return rows.length > 0 ? this.toRecord(rows[0]) : null;
+  }
+
+  /**
+   * Obtiene las sincronizaciones que quedaron en estado 'running' (más reciente primero)
+   */
+  static async getRunningSyncs(): Promise<SyncLogRecord[]> {
+    try {
+      const [rows] = await pool.execute<any[]>(
+        `SELECT id, sync_type, status, started_at, completed_at, error_message, metadata
+         FROM sync_logs
+         WHERE status = 'running'
+         ORDER BY started_at DESC`
+      );
+      return rows.map((row: any) => this.toRecord(row));
+    } catch (error: any) {
+      logger.debug(`No se pudo consultar syncs en curso: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Vuelve a poner en 'running' una sincronización que se va a reanudar
+   */
+  static async markResumed(syncLogId: number): Promise<void> {
+    try {
+      await pool.execute(
+        `UPDATE sync_logs
+         SET status = 'running',
+             completed_at = NULL,
+             error_message = NULL,
+             metadata = JSON_SET(
+               COALESCE(metadata, JSON_OBJECT()),
+               '$.checkpoint.resumed_count',
+               COALESCE(JSON_EXTRACT(metadata, '$.checkpoint.resumed_count'), 0) + 1
+             )
+         WHERE id = ?`,
+        [syncLogId]
+      );
+    } catch (error: any) {
+      logger.debug(`No se pudo marcar sync ${syncLogId} como reanudada: ${error.message}`);
+    }
+  }
+
+  /**
+   * Marca como 'failed' las sincronizaciones 'running' que ya no tienen proceso (quedaron abiertas por un reinicio)
+   * El checkpoint se conserva para poder reanudarlas con POST /sync/resume/:syncLogId
+   * @param exceptId Sincronización viva que no debe marcarse
+   */
+  static async failStaleSyncs(exceptId: number | null, errorMessage: string): Promise<number> {
+    try {
+      const [result] = await pool.execute<any>(
+        `UPDATE sync_logs
+         SET status = 'failed',
+             error_message = ?,
+             completed_at = NOW()
+         WHERE status = 'running'
+           AND id != ?`,
+        [errorMessage.substring(0, 1000), exceptId || 0]
+      );
+      const affected = (result as any).affectedRows || 0;
+      if (affected > 0) {
+        logger.warn(`${affected} sincronizaciones abiertas marcadas como fallidas: ${errorMessage}`);
+      }
+      return affected;
+    } catch (error: any) {
+      logger.debug(`No se pudieron cerrar syncs abiertas: ${error.message}`);
+      return 0;
+    }
+  }
+
+  /**
+   * Convierte una fila de sync_logs extrayendo el checkpoint de metadata
+   */
+  private static toRecord(row: any): SyncLogRecord {
+    let metadata: any = row.metadata;
+    if (typeof metadata === 'string') {
+      try {
+        metadata = JSON.parse(metadata);
+      } catch (e) {
+        metadata = null;
+      }
+    }
+
+    return {
+      id: row.id,
+      sync_type: row.sync_type,
+      status: row.status,
+      started_at: row.started_at,
+      completed_at: row.completed_at,
+      error_message: row.error_message,
+      checkpoint: metadata?.checkpoint || null,
+      archive_review: metadata?.archive_review || null
+    };
+  }
+}
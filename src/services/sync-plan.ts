@@ -0,0 +1,107 @@
+import { FieldChanges } from './vehicle-events';
+import { ArchiveReview } from './archive-guard';
+
+export type SyncPlanAction = 'create' | 'update' | 'archive' | 'reactivate';
+
+/**
+ * Cambio que aplicaría una sincronización real sobre un vehículo
+ */
+export interface SyncPlanEntry {
+  action: SyncPlanAction;
+  asofix_id: string;
+  vehicle_id: number | null;
+  title: string | null;
+  reason: string;
+  filter_reason?: string | null;
+  changes?: FieldChanges | Record<string, any>;
+}
+
+export interface SyncPlanReport {
+  dry_run: true;
+  incremental: boolean;
+  generated_at: string;
+  totals: {
+    fetched: number;
+    create: number;
+    update: number;
+    archive: number;
+    reactivate: number;
+    unchanged: number;
+    filtered: number;
+    errors: number;
+  };
+  create: SyncPlanEntry[];
+  update: SyncPlanEntry[];
+  archive: SyncPlanEntry[];
+  reactivate: SyncPlanEntry[];
+  /**
+   * Archivado de la limpieza global que el circuit breaker retendría (sus vehículos no están en `archive`)
+   */
+  archive_review?: ArchiveReview;
+}
+
+/**
+ * Acumula las acciones de una sincronización en modo dry-run (syncAll con dryRun: true)
+ * Un vehículo aparece una sola vez por acción: la primera fase que lo detecta define el motivo
+ */
+export class SyncPlan {
+  private entries: Record<SyncPlanAction, Map<string, SyncPlanEntry>> = {
+    create: new Map(),
+    update: new Map(),
+    archive: new Map(),
+    reactivate: new Map()
+  };
+
+  fetched = 0;
+  unchanged = 0;
+  filtered = 0;
+  errors = 0;
+  archiveReview: ArchiveReview | null = null;
+
+  constructor(private readonly incremental: boolean) {}
+
+  /**
+   * Registra una acción planificada
+   */
+  add(entry: SyncPlanEntry): void {
+    const bucket = this.entries[entry.action];
+    if (!bucket.has(entry.asofix_id)) {
+      bucket.set(entry.asofix_id, entry);
+    }
+  }
+
+  /**
+   * Indica si ya hay una acción planificada para el vehículo
+   */
+  has(action: SyncPlanAction, asofixId: string): boolean {
+    return this.entries[action].has(asofixId);
+  }
+
+  /**
+   * Arma el reporte final del plan
+   */
+  toReport(): SyncPlanReport {
+    const list = (action: SyncPlanAction) => Array.from(this.entries[action].values());
+
+    return {
+      dry_run: true,
+      incremental: this.incremental,
+      generated_at: new Date().toISOString(),
+      totals: {
+        fetched: this.fetched,
+        create: this.entries.create.size,
+        update: this.entries.update.size,
+        archive: this.entries.archive.size,
+        reactivate: this.entries.reactivate.size,
+        unchanged: this.unchanged,
+        filtered: this.filtered,
+        errors: this.errors
+      },
+      create: list('create'),
+      update: list('update'),
+      archive: list('archive'),
+      reactivate: list('reactivate'),
+      ...(this.archiveReview ? { archive_review: this.archiveReview } : {})
+    };
+  }
+}
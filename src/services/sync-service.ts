@@ -1,9 +1,24 @@
-import pool from '../config/database';
+import pool, { DbConnection } from '../config/database';
+import { PoolConnection } from 'mysql2/promise';
 import logger from './logger';
-import asofixApi, { AsofixVehicle } from './asofix-api';
-import { VehicleFilters } from './vehicle-filters';
-import fs from 'fs';
-import path from 'path';
+import { AsofixVehicle } from './asofix-api';
+import { VehicleFilters, FilterReasonCode } from './vehicle-filters';
+import { VehicleEvents } from './vehicle-events';
+import { PriceHistory } from './price-history';
+import { ExchangeRates, ExchangeRate, NormalizedPrice } from './exchange-rates';
+import { SyncPlan, SyncPlanReport } from './sync-plan';
+import { SyncLock, SyncLockHandle, SyncInProgressError } from './sync-lock';
+import { SyncLogger, SyncLogRecord, SyncCheckpoint, SyncPhase, SYNC_PHASES } from './sync-logger';
+import { DownloadPool } from './download-pool';
+import { ImageStore } from './image-store';
+import { TaxonomyTermCache } from './taxonomy-term-cache';
+import { FilterRules } from './filter-rules';
+import { VehicleOverrides } from './vehicle-overrides';
+import { ArchiveGuard, ArchiveCandidate, ArchiveReview, ArchiveReviewError } from './archive-guard';
+import { AsofixSnapshot } from './asofix-snapshot';
+import { InventorySource, asofixInventorySource } from './inventory-source';
+import { AsofixSchema, AsofixSchemaDrift } from './asofix-schema';
+import { AsofixQuarantine } from './asofix-quarantine';
 import axios from 'axios';
 import crypto from 'crypto';
 
@@ -26,13 +41,151 @@ export interface VehicleData {
   status: string;
 }
 
+/**
+ * Contexto de ejecución de processVehicle dentro de una sincronización
+ */
+export interface ProcessVehicleContext {
+  syncLogId?: number | null;
+  /**
+   * Modo dry-run: si está presente no se escribe nada en BD y las acciones se registran en el plan
+   */
+  plan?: SyncPlan;
+  /**
+   * Fuente de inventario del vehículo (se guarda en vehicles.source al crearlo). Default: 'asofix'
+   */
+  source?: string;
+  /**
+   * Conexión de la transacción en curso (processVehicle); si no se pasa se usa el pool
+   */
+  db?: DbConnection;
+}
+
+/**
+ * Etapa de processVehicle en la que ocurrió un error (para el resultado estructurado)
+ */
+export type ProcessVehicleStage =
+  | 'connection'
+  | 'filters'
+  | 'lookup'
+  | 'upsert'
+  | 'images'
+  | 'taxonomies'
+  | 'metadata'
+  | 'history'
+  | 'commit';
+
+export interface ProcessVehicleError {
+  asofix_id: string;
+  stage: ProcessVehicleStage;
+  code: string | null;
+  message: string;
+  rolled_back: boolean;
+  /**
+   * Error transitorio (deadlock, lock wait timeout, conexión): se puede reintentar
+   */
+  retryable: boolean;
+}
+
+export interface ProcessVehicleResult {
+  success: boolean;
+  message: string;
+  vehicleId?: number;
+  wasNew?: boolean;
+  wasUpdated?: boolean;
+  filtered?: boolean;
+  error?: ProcessVehicleError;
+}
+
+/**
+ * Estado de la sincronización que acompaña cada evento de progreso (lo usan los jobs de /sync/jobs)
+ */
+export interface SyncProgressDetails {
+  sync_log_id: number | null;
+  counters: Pick<SyncAllResult, 'fase1' | 'fase2'>;
+}
+
+export type SyncProgressCallback = (
+  phase: 'fase1' | 'fase2',
+  message: string,
+  progress: { current: number; total: number; percentage: number },
+  details?: SyncProgressDetails
+) => void;
+
+export type SyncType = 'full' | 'incremental' | 'manual';
+
+/**
+ * Fases que un schedule puede omitir (la Fase 1.1 y 1.2 de datos siempre corren)
+ */
+export type SkippableSyncPhase = Extract<SyncPhase, 'fase1.3' | 'cleanup' | 'fase2'>;
+
+export interface SyncAllOptions {
+  /**
+   * No escribe nada en BD y devuelve el plan de cambios
+   */
+  dryRun?: boolean;
+  /**
+   * Lock ya tomado por el llamador (ej: /sync/inicial lo toma antes de abrir el stream SSE)
+   * Si no se pasa, syncAll lo toma y lo libera al terminar
+   */
+  lock?: SyncLockHandle;
+  /**
+   * Reanuda la sincronización de este sync_logs.id desde su checkpoint
+   */
+  resumeFrom?: number;
+  /**
+   * Fuente de inventario a sincronizar (default: API de ASOFIX)
+   */
+  source?: InventorySource;
+  /**
+   * Fases a omitir: reactivación (fase1.3), limpieza global (cleanup) y/o imágenes (fase2)
+   */
+  skipPhases?: SkippableSyncPhase[];
+}
+
+export interface SyncAllResult {
+  fase1: { processed: number; created: number; updated: number; errors: number; filtered: number; archived: number };
+  fase2: { processed: number; created: number; errors: number };
+  plan?: SyncPlanReport;
+  /**
+   * Archivado masivo retenido por el circuit breaker (la sync queda en 'needs_review')
+   */
+  archive_review?: ArchiveReview;
+}
+
+export interface PendingImage {
+  id: number;
+  vehicle_id: number;
+  image_url: string;
+  attempts: number;
+}
+
+/**
+ * Configuración de la descarga de imágenes (Fase 2)
+ */
+const IMAGE_DOWNLOAD_CONCURRENCY = parseInt(process.env.IMAGE_DOWNLOAD_CONCURRENCY || '8', 10);
+const IMAGE_DOWNLOAD_PER_HOST = parseInt(process.env.IMAGE_DOWNLOAD_PER_HOST || '4', 10);
+const IMAGE_DOWNLOAD_TIMEOUT_MS = parseInt(process.env.IMAGE_DOWNLOAD_TIMEOUT_MS || '60000', 10);
+const IMAGE_MAX_ATTEMPTS = parseInt(process.env.IMAGE_MAX_ATTEMPTS || '5', 10);
+const IMAGE_RETRY_BASE_SECONDS = parseInt(process.env.IMAGE_RETRY_BASE_SECONDS || '60', 10);
+const IMAGE_RETRY_MAX_SECONDS = 6 * 60 * 60;
+
+/**
+ * Campos de vehicles que se comparan para el historial de cambios
+ */
+const TRACKED_VEHICLE_FIELDS = ['title', 'content', 'year', 'kilometres', 'license_plate', 'price_usd', 'price_ars'];
+
+/**
+ * Códigos de MySQL que indican un error transitorio al escribir un vehículo
+ */
+const RETRYABLE_DB_ERRORS = ['ER_LOCK_DEADLOCK', 'ER_LOCK_WAIT_TIMEOUT', 'PROTOCOL_CONNECTION_LOST', 'ECONNRESET', 'ETIMEDOUT'];
+
 class SyncService {
   /**
    * Encuentra un vehículo por su ID de Asofix
    */
-  async findVehicleByAsofixId(asofixId: string): Promise<number | null> {
+  async findVehicleByAsofixId(asofixId: string, db: DbConnection = pool): Promise<number | null> {
     try {
-      const [rows] = await pool.execute<any[]>(
+      const [rows] = await db.execute<any[]>(
         'SELECT id FROM vehicles WHERE asofix_id = ?',
         [asofixId]
       );
@@ -44,38 +197,25 @@ class SyncService {
   }
 
   /**
-   * Obtiene o crea un término de taxonomía
+   * Obtiene o crea un término de taxonomía (vía TaxonomyTermCache)
    */
   async getOrCreateTerm(taxonomy: string, termName: string): Promise<number | null> {
     if (!termName || !termName.trim()) return null;
 
     try {
-      const [existing] = await pool.execute<any[]>(
-        'SELECT id FROM taxonomy_terms WHERE taxonomy = ? AND name = ?',
-        [taxonomy, termName.trim()]
-      );
-
-      if (existing.length > 0) {
-        return existing[0].id;
-      }
-
-      const [result] = await pool.execute<any>(
-        'INSERT INTO taxonomy_terms (taxonomy, name) VALUES (?, ?)',
-        [taxonomy, termName.trim()]
-      );
-
-      return (result as any).insertId;
+      const termIds = await TaxonomyTermCache.resolve([[taxonomy, termName]]);
+      return termIds.get(taxonomy) || null;
     } catch (error: any) {
       logger.error(`Error al crear/buscar término "${termName}" en "${taxonomy}": ${error.message}`);
-      return null;
+      throw error;
     }
   }
 
   /**
-   * Asigna taxonomías a un vehículo
+   * Mapea los campos de Asofix a los términos de cada taxonomía
    */
-  async assignTaxonomies(vehicleId: number, vehicle: AsofixVehicle): Promise<void> {
-    const taxonomyMap: Record<string, string | null> = {
+  private buildTaxonomyMap(vehicle: AsofixVehicle): Record<string, string | null> {
+    return {
       brand: vehicle.brand_name || null,
       model: vehicle.model_name || null,
       condition: vehicle.car_condition === 'new' ? '0KM' : 'Usado',
@@ -84,61 +224,143 @@ class SyncService {
       color: vehicle.colors?.[0]?.name || null,
       segment: vehicle.car_segment || null,
     };
+  }
 
-    for (const [taxonomy, termName] of Object.entries(taxonomyMap)) {
-      if (termName) {
-        const termId = await this.getOrCreateTerm(taxonomy, termName);
-        if (termId) {
-          try {
-            await pool.execute(
-              'DELETE FROM vehicle_taxonomies WHERE vehicle_id = ? AND taxonomy = ?',
-              [vehicleId, taxonomy]
-            );
-            await pool.execute(
-              'INSERT INTO vehicle_taxonomies (vehicle_id, taxonomy, term_id) VALUES (?, ?, ?)',
-              [vehicleId, taxonomy, termId]
-            );
-          } catch (error: any) {
-            logger.error(`Error al asignar taxonomía ${taxonomy}: ${error.message}`);
+  /**
+   * Asigna taxonomías a un vehículo
+   * Resuelve todos los términos de una vez y escribe solo la diferencia con lo asignado
+   * (un DELETE y un INSERT multi-fila como máximo; nada si no cambió ninguna taxonomía).
+   * Las taxonomías sin valor en Asofix conservan su asignación actual.
+   * Lanza el error para que processVehicle revierta la transacción (no dejar un vehículo sin marca)
+   */
+  async assignTaxonomies(vehicleId: number, vehicle: AsofixVehicle, db: DbConnection = pool): Promise<void> {
+    const entries = Object.entries(this.buildTaxonomyMap(vehicle))
+      .filter((entry): entry is [string, string] => !!entry[1] && !!entry[1].trim());
+    if (entries.length === 0) return;
+
+    try {
+      const termIds = await TaxonomyTermCache.resolve(entries);
+
+      const [currentRows] = await db.execute<any[]>(
+        'SELECT taxonomy, term_id FROM vehicle_taxonomies WHERE vehicle_id = ?',
+        [vehicleId]
+      );
+
+      const toDelete: Array<[string, number]> = [];
+      const toInsert: Array<[string, number]> = [];
+
+      for (const [taxonomy, termId] of termIds) {
+        const assigned = currentRows.filter(row => row.taxonomy === taxonomy);
+        for (const row of assigned) {
+          if (row.term_id !== termId) {
+            toDelete.push([taxonomy, row.term_id]);
           }
         }
+        if (!assigned.some(row => row.term_id === termId)) {
+          toInsert.push([taxonomy, termId]);
+        }
+      }
+
+      if (toDelete.length > 0) {
+        await db.execute(
+          `DELETE FROM vehicle_taxonomies
+           WHERE vehicle_id = ? AND (taxonomy, term_id) IN (${toDelete.map(() => '(?, ?)').join(', ')})`,
+          [vehicleId, ...toDelete.flat()]
+        );
+      }
+
+      if (toInsert.length > 0) {
+        await db.execute(
+          `INSERT INTO vehicle_taxonomies (vehicle_id, taxonomy, term_id) VALUES ${toInsert.map(() => '(?, ?, ?)').join(', ')}`,
+          toInsert.flatMap(([taxonomy, termId]) => [vehicleId, taxonomy, termId])
+        );
+      }
+    } catch (error: any) {
+      // Un término cacheado que ya no existe (borrado a mano) rompe la FK: recargar en el próximo uso
+      if (error.code === 'ER_NO_REFERENCED_ROW_2') {
+        TaxonomyTermCache.clear();
       }
+      logger.error(`Error al asignar taxonomías del vehículo ${vehicleId}: ${error.message}`);
+      throw error;
     }
   }
 
   /**
-   * Establece los metadatos de un vehículo
+   * Arma el título del vehículo a partir de marca, modelo y versión
+   */
+  private buildTitle(vehicle: AsofixVehicle): string {
+    const brand = vehicle.brand_name || '';
+    const model = vehicle.model_name || '';
+    const version = vehicle.version || '';
+    return `${brand} ${model} ${version}`.trim() || `Vehículo Asofix ID: ${vehicle.id}`;
+  }
+
+  /**
+   * Normaliza kilometraje y precio tal como se guardan en vehicles
+   * La moneda sale de currency_name (ExchangeRates.resolveCurrency) y el precio se convierte
+   * a la otra moneda con el tipo de cambio indicado (sin tipo de cambio queda solo el original)
    */
-  async setVehicleMetadata(vehicleId: number, vehicle: AsofixVehicle): Promise<void> {
+  private buildMetadata(vehicle: AsofixVehicle, rate: ExchangeRate | null = ExchangeRates.current()): {
+    kilometres: number;
+    price: number;
+    currency: string;
+    priceUsd: number | null;
+    priceArs: number | null;
+    normalized: NormalizedPrice;
+  } {
     const kilometres = parseInt(String(vehicle.kilometres || 0));
     const finalKilometres = kilometres < 100 ? 0 : kilometres;
 
     const price = parseFloat(String(vehicle.price?.list_price || 0));
     const currency = vehicle.price?.currency_name || '';
+    const normalized = ExchangeRates.normalize(price, ExchangeRates.resolveCurrency(currency), rate);
 
-    let priceUsd: number | null = null;
-    let priceArs: number | null = null;
+    return {
+      kilometres: finalKilometres,
+      price,
+      currency,
+      priceUsd: normalized.price_usd,
+      priceArs: normalized.price_ars,
+      normalized
+    };
+  }
 
-    if (currency.toLowerCase().includes('dolar') || currency.toLowerCase().includes('usd')) {
-      if (price >= 1000) {
-        priceUsd = price;
-      }
-    } else {
-      if (price > 901000) {
-        priceArs = price;
-      } else if (price >= 1000 && price <= 900000) {
-        priceUsd = price;
-      }
-    }
+  /**
+   * Establece los metadatos de un vehículo
+   * Lanza el error para que processVehicle revierta la transacción (no dejar un vehículo sin precio)
+   */
+  async setVehicleMetadata(vehicleId: number, vehicle: AsofixVehicle, context: ProcessVehicleContext = {}): Promise<void> {
+    const rate = await ExchangeRates.getCurrent();
+    const { kilometres: finalKilometres, price, currency, priceUsd, priceArs, normalized } = this.buildMetadata(vehicle, rate);
+    const db = context.db || pool;
 
     try {
-      await pool.execute(
+      // Precio actual para detectar cambios y alimentar el historial de precios
+      const [currentRows] = await db.execute<any[]>(
+        'SELECT price_usd, price_ars FROM vehicles WHERE id = ?',
+        [vehicleId]
+      );
+
+      const previousPrice = {
+        price_usd: currentRows[0]?.price_usd ?? null,
+        price_ars: currentRows[0]?.price_ars ?? null
+      };
+      const newPrice = { price_usd: priceUsd, price_ars: priceArs };
+      const hadPrice = previousPrice.price_usd !== null || previousPrice.price_ars !== null;
+      const priceChanged = hadPrice && PriceHistory.hasChanged(previousPrice, newPrice);
+
+      await db.execute(
         `UPDATE vehicles SET 
           kilometres = ?,
           year = ?,
           license_plate = ?,
           price_usd = ?,
           price_ars = ?,
+          price_currency = ?,
+          normalized_price_usd = ?,
+          normalized_price_ars = ?,
+          exchange_rate = ?,
+          exchange_rate_date = ?,
           updated_at = NOW()
         WHERE id = ?`,
         [
@@ -147,34 +369,61 @@ class SyncService {
           vehicle.license_plate || null,
           priceUsd,
           priceArs,
+          normalized.price_currency,
+          normalized.normalized_price_usd,
+          normalized.normalized_price_ars,
+          normalized.exchange_rate,
+          normalized.exchange_rate_date,
           vehicleId
         ]
       );
+
+      if (priceChanged) {
+        // Guardar el precio anterior para mostrar "bajó de precio" y armar sale_price en los feeds
+        await db.execute(
+          `UPDATE vehicles SET 
+            previous_price_usd = ?,
+            previous_price_ars = ?,
+            price_changed_at = NOW()
+          WHERE id = ?`,
+          [previousPrice.price_usd, previousPrice.price_ars, vehicleId]
+        );
+      }
+
+      if (priceChanged || !(await PriceHistory.hasHistory(vehicleId, db))) {
+        await PriceHistory.record(vehicleId, newPrice, {
+          list_price: price || null,
+          currency_name: currency || null,
+          sync_log_id: context.syncLogId
+        }, db);
+      }
     } catch (error: any) {
       logger.error(`Error al actualizar metadatos del vehículo: ${error.message}`);
+      throw error;
     }
   }
 
   /**
    * Guarda las URLs de imágenes pendientes
    */
-  async savePendingImages(vehicleId: number, imageUrls: string[]): Promise<void> {
+  async savePendingImages(vehicleId: number, imageUrls: string[], db: DbConnection = pool): Promise<void> {
     if (imageUrls.length === 0) return;
 
     try {
-      await pool.execute(
+      await db.execute(
         'DELETE FROM pending_images WHERE vehicle_id = ?',
         [vehicleId]
       );
 
       for (const url of imageUrls) {
-        await pool.execute(
+        await db.execute(
           'INSERT INTO pending_images (vehicle_id, image_url) VALUES (?, ?)',
           [vehicleId, url]
         );
       }
     } catch (error: any) {
       logger.error(`Error al guardar imágenes pendientes: ${error.message}`);
+      throw error;
     }
   }
 
@@ -215,9 +464,9 @@ class SyncService {
   /**
    * Verifica si un vehículo necesita actualización comparando versiones
    */
-  async needsUpdate(asofixId: string, newHash: string): Promise<boolean> {
+  async needsUpdate(asofixId: string, newHash: string, db: DbConnection = pool): Promise<boolean> {
     try {
-      const [rows] = await pool.execute<any[]>(
+      const [rows] = await db.execute<any[]>(
         'SELECT version_hash FROM vehicles WHERE asofix_id = ?',
         [asofixId]
       );
@@ -234,68 +483,263 @@ class SyncService {
     }
   }
 
+  /**
+   * Parsea additional_data (mysql2 puede devolver el JSON ya parseado o como string)
+   */
+  private parseAdditionalData(raw: any): any {
+    if (!raw) return {};
+    if (typeof raw === 'object') return { ...raw };
+    try {
+      return JSON.parse(raw);
+    } catch (e) {
+      // Si hay error parseando, usar objeto vacío
+      return {};
+    }
+  }
+
+  /**
+   * Obtiene los campos relevantes de un vehículo (incluidas taxonomías) para calcular el diff del historial
+   */
+  private async getVehicleSnapshot(vehicleId: number, db: DbConnection = pool): Promise<Record<string, any>> {
+    const [rows] = await db.execute<any[]>(
+      `SELECT ${TRACKED_VEHICLE_FIELDS.join(', ')} FROM vehicles WHERE id = ?`,
+      [vehicleId]
+    );
+    const [taxonomies] = await db.execute<any[]>(
+      `SELECT vt.taxonomy, tt.name
+       FROM vehicle_taxonomies vt
+       JOIN taxonomy_terms tt ON vt.term_id = tt.id
+       WHERE vt.vehicle_id = ?`,
+      [vehicleId]
+    );
+
+    const snapshot: Record<string, any> = { ...(rows[0] || {}) };
+    for (const tax of taxonomies) {
+      snapshot[`taxonomy.${tax.taxonomy}`] = tax.name;
+    }
+    return snapshot;
+  }
+
+  /**
+   * Archiva un vehículo guardando el código de motivo (vehicles.filter_reason y additional_data)
+   * y registrando el evento en el historial
+   * @param onlyIfPublished Si es true, solo archiva vehículos actualmente publicados
+   * @returns true si el vehículo pasó de otro estado a archivado
+   */
+  private async archiveVehicle(
+    vehicleId: number,
+    asofixId: string,
+    filterReason: FilterReasonCode,
+    reason: string,
+    context: ProcessVehicleContext = {},
+    options: { onlyIfPublished?: boolean; extraData?: Record<string, any> } = {}
+  ): Promise<boolean> {
+    const db = context.db || pool;
+    const [rows] = await db.execute<any[]>(
+      'SELECT title, status, additional_data FROM vehicles WHERE id = ?',
+      [vehicleId]
+    );
+    const previousStatus = rows[0]?.status;
+
+    if (options.onlyIfPublished && previousStatus !== 'published') {
+      return false;
+    }
+
+    // Los vehículos con override force_publish vigente no se archivan (el resto de los datos sí se sincroniza)
+    if (await VehicleOverrides.isForcePublished(vehicleId, db)) {
+      logger.info(`Vehículo ${asofixId} no se archiva (${filterReason}): tiene override force_publish`);
+      return false;
+    }
+
+    if (context.plan) {
+      if (previousStatus === 'archived') {
+        return false;
+      }
+      context.plan.add({
+        action: 'archive',
+        asofix_id: asofixId,
+        vehicle_id: vehicleId,
+        title: rows[0]?.title || null,
+        reason,
+        filter_reason: filterReason
+      });
+      return true;
+    }
+
+    const additionalData = this.parseAdditionalData(rows[0]?.additional_data);
+    additionalData.filter_reason = filterReason;
+    Object.assign(additionalData, options.extraData || {});
+
+    await db.execute(
+      'UPDATE vehicles SET status = ?, filter_reason = ?, additional_data = ?, updated_at = NOW() WHERE id = ?',
+      ['archived', filterReason, JSON.stringify(additionalData), vehicleId]
+    );
+
+    if (previousStatus === 'archived') {
+      return false;
+    }
+
+    await VehicleEvents.record({
+      vehicleId,
+      asofixId,
+      syncLogId: context.syncLogId,
+      eventType: 'archived',
+      changes: { status: { from: previousStatus || null, to: 'archived' } },
+      filterReason,
+      message: reason
+    }, db);
+    return true;
+  }
+
+  /**
+   * Archiva un vehículo publicado que ya no está en el catálogo de la fuente (not_in_valid_set)
+   * Lo usa el webhook de sincronización para un vehículo puntual; la limpieza global de syncAll
+   * archiva en bloque detrás del circuit breaker (ArchiveGuard)
+   * @returns false si no estaba publicado o tiene override force_publish
+   */
+  async archiveMissingVehicle(vehicleId: number, asofixId: string, reason: string): Promise<boolean> {
+    return this.archiveVehicle(vehicleId, asofixId, 'not_in_valid_set', reason, {}, {
+      onlyIfPublished: true,
+      extraData: {
+        cleanup_verification: reason,
+        archived_at: new Date().toISOString()
+      }
+    });
+  }
+
+  /**
+   * Vuelve a publicar un vehículo archivado, limpiando los motivos de archivado
+   */
+  private async reactivateVehicle(
+    vehicleId: number,
+    asofixId: string,
+    rawAdditionalData: any,
+    reason: string,
+    context: ProcessVehicleContext = {}
+  ): Promise<void> {
+    const additionalData = this.parseAdditionalData(rawAdditionalData);
+    const previousFilterReason = additionalData.filter_reason || null;
+    const db = context.db || pool;
+
+    if (context.plan) {
+      const [rows] = await db.execute<any[]>('SELECT title FROM vehicles WHERE id = ?', [vehicleId]);
+      context.plan.add({
+        action: 'reactivate',
+        asofix_id: asofixId,
+        vehicle_id: vehicleId,
+        title: rows[0]?.title || null,
+        reason,
+        filter_reason: previousFilterReason
+      });
+      return;
+    }
+
+    delete additionalData.filter_reason;
+    delete additionalData.cleanup_verification;
+    delete additionalData.archived_at;
+
+    await db.execute(
+      'UPDATE vehicles SET status = ?, filter_reason = NULL, additional_data = ?, updated_at = NOW() WHERE id = ?',
+      ['published', JSON.stringify(additionalData), vehicleId]
+    );
+
+    await VehicleEvents.record({
+      vehicleId,
+      asofixId,
+      syncLogId: context.syncLogId,
+      eventType: 'reactivated',
+      changes: { status: { from: 'archived', to: 'published' } },
+      filterReason: previousFilterReason,
+      message: reason
+    }, db);
+  }
+
   /**
    * Procesa un vehículo (Fase 1: sin imágenes) con lógica incremental
    * IMPORTANTE: Aplica los filtros obligatorios antes de procesar
+   * Todas las escrituras del vehículo (vehicles, taxonomías, precios, imágenes pendientes, historial)
+   * se hacen en una única transacción sobre una conexión dedicada: si algo falla se revierte
+   * y se devuelve un error estructurado (etapa, código, si se puede reintentar)
    */
-  async processVehicle(vehicle: AsofixVehicle, incremental: boolean = false): Promise<{ 
-    success: boolean; 
-    message: string; 
-    vehicleId?: number; 
-    wasNew?: boolean; 
-    wasUpdated?: boolean;
-    filtered?: boolean;
-  }> {
+  async processVehicle(vehicle: AsofixVehicle, incremental: boolean = false, context: ProcessVehicleContext = {}): Promise<ProcessVehicleResult> {
     const asofixId = vehicle.id;
     if (!asofixId) {
       return { success: false, message: 'Falta Asofix ID' };
     }
 
+    const progress: { stage: ProcessVehicleStage } = { stage: 'connection' };
+
+    // Modo dry-run: solo lecturas, no hace falta transacción
+    if (context.plan) {
+      progress.stage = 'filters';
+      return this.writeVehicle(vehicle, incremental, context, progress);
+    }
+
+    let connection: PoolConnection | null = null;
+    try {
+      connection = await pool.getConnection();
+      await connection.beginTransaction();
+
+      progress.stage = 'filters';
+      const result = await this.writeVehicle(vehicle, incremental, { ...context, db: connection }, progress);
+
+      progress.stage = 'commit';
+      await connection.commit();
+      return result;
+    } catch (error: any) {
+      let rolledBack = false;
+      if (connection) {
+        try {
+          await connection.rollback();
+          rolledBack = true;
+        } catch (rollbackError: any) {
+          logger.error(`Error al revertir la transacción del vehículo ${asofixId}: ${rollbackError.message}`);
+        }
+      }
+
+      const code = error.code || null;
+      logger.error(`Error al procesar vehículo ${asofixId} (etapa: ${progress.stage}${code ? `, código: ${code}` : ''}): ${error.message}${rolledBack ? ' - cambios revertidos' : ''}`);
+
+      return {
+        success: false,
+        message: `Error: ${error.message}`,
+        error: {
+          asofix_id: asofixId,
+          stage: progress.stage,
+          code,
+          message: error.message,
+          rolled_back: rolledBack,
+          retryable: RETRYABLE_DB_ERRORS.includes(code)
+        }
+      };
+    } finally {
+      connection?.release();
+    }
+  }
+
+  /**
+   * Cuerpo de processVehicle: filtros, archivado/reactivación y alta o actualización
+   * Escribe con context.db (la conexión de la transacción) y deja registrada la etapa en progress
+   */
+  private async writeVehicle(
+    vehicle: AsofixVehicle,
+    incremental: boolean,
+    context: ProcessVehicleContext,
+    progress: { stage: ProcessVehicleStage }
+  ): Promise<ProcessVehicleResult> {
+    const asofixId = vehicle.id;
+    const db = context.db || pool;
+
     // APLICAR FILTROS OBLIGATORIOS
-    const { omit, reason } = VehicleFilters.shouldOmitVehicle(vehicle);
-    const existingId = await this.findVehicleByAsofixId(asofixId);
+    const { omit, code, reason } = VehicleFilters.shouldOmitVehicle(vehicle);
+    const existingId = await this.findVehicleByAsofixId(asofixId, db);
     
     if (omit) {
       // Vehículo debe ser filtrado: archivar si existe
+      // Los errores de escritura se propagan: processVehicle revierte y devuelve el error estructurado
       if (existingId) {
-        try {
-          // Obtener additional_data actual para preservar y agregar filter_reason
-          const [existingRows] = await pool.execute<any[]>(
-            'SELECT additional_data FROM vehicles WHERE id = ?',
-            [existingId]
-          );
-          
-          let additionalData: any = {};
-          try {
-            additionalData = existingRows[0]?.additional_data ? JSON.parse(existingRows[0].additional_data) : {};
-          } catch (e) {
-            // Si hay error parseando, usar objeto vacío
-          }
-          
-          // Determinar filter_reason basado en la razón
-          let filterReason = 'unknown';
-          if (reason?.toLowerCase().includes('dakota') || reason?.toLowerCase().includes('location_name')) {
-            filterReason = 'dakota_location';
-          } else if (reason?.toLowerCase().includes('precio')) {
-            filterReason = 'min_price';
-          } else if (reason?.toLowerCase().includes('estado')) {
-            filterReason = 'blocked_status';
-          } else if (reason?.toLowerCase().includes('imagen')) {
-            filterReason = 'no_images';
-          } else if (reason?.toLowerCase().includes('stock')) {
-            filterReason = 'no_active_stock';
-          }
-          
-          additionalData.filter_reason = filterReason;
-          
-          await pool.execute(
-            'UPDATE vehicles SET status = ?, additional_data = ?, updated_at = NOW() WHERE id = ?',
-            ['archived', JSON.stringify(additionalData), existingId]
-          );
-          logger.warn(`Vehículo ${asofixId} archivado por filtro: ${reason}`);
-        } catch (error: any) {
-          logger.error(`Error al archivar vehículo ${asofixId}: ${error.message}`);
-        }
+        await this.archiveVehicle(existingId, asofixId, code!, reason || '', context);
+        logger.warn(`Vehículo ${asofixId} archivado por filtro: ${reason}`);
       }
       return { success: true, message: `FILTRADO: ${reason}`, filtered: true };
     } else {
@@ -310,135 +754,72 @@ class SyncService {
         // No tiene stock activo - no reactivar aunque pase otros filtros
         // Esto evita reactivar vehículos reservados/eliminados
         if (existingId) {
-          const [statusRows] = await pool.execute<any[]>(
-            'SELECT status FROM vehicles WHERE id = ?',
-            [existingId]
+          // Si está publicado pero no tiene stock activo, archivarlo
+          const archived = await this.archiveVehicle(
+            existingId,
+            asofixId,
+            'no_active_stock',
+            'No tiene stock activo',
+            context,
+            { onlyIfPublished: true }
           );
-          if (statusRows[0]?.status === 'published') {
-            // Si está publicado pero no tiene stock activo, archivarlo
-            try {
-              const [existingRows] = await pool.execute<any[]>(
-                'SELECT additional_data FROM vehicles WHERE id = ?',
-                [existingId]
-              );
-              
-              let additionalData: any = {};
-              try {
-                additionalData = existingRows[0]?.additional_data ? JSON.parse(existingRows[0].additional_data) : {};
-              } catch (e) {
-                additionalData = {};
-              }
-              
-              additionalData.filter_reason = 'no_active_stock';
-              
-              await pool.execute(
-                'UPDATE vehicles SET status = ?, additional_data = ?, updated_at = NOW() WHERE id = ?',
-                ['archived', JSON.stringify(additionalData), existingId]
-              );
-              logger.warn(`Vehículo ${asofixId} archivado: no tiene stock activo`);
-            } catch (error: any) {
-              logger.error(`Error al archivar vehículo ${asofixId}: ${error.message}`);
-            }
+          if (archived) {
+            logger.warn(`Vehículo ${asofixId} archivado: no tiene stock activo`);
           }
         }
         return { success: true, message: `FILTRADO: No tiene stock activo`, filtered: true };
       }
       
       if (existingId) {
-        try {
-          // Verificar si está archivado
-          const [statusRows] = await pool.execute<any[]>(
-            'SELECT status, additional_data FROM vehicles WHERE id = ?',
-            [existingId]
+        // Verificar si está archivado
+        const [statusRows] = await db.execute<any[]>(
+          'SELECT status, additional_data FROM vehicles WHERE id = ?',
+          [existingId]
+        );
+        
+        if (statusRows[0]?.status === 'archived') {
+          await this.reactivateVehicle(
+            existingId,
+            asofixId,
+            statusRows[0]?.additional_data,
+            'Ya no cumple filtros de exclusión y tiene stock activo',
+            context
           );
-          
-          if (statusRows[0]?.status === 'archived') {
-            // Remover filter_reason del additional_data si existe
-            let additionalData: any = {};
-            try {
-              additionalData = statusRows[0]?.additional_data ? JSON.parse(statusRows[0].additional_data) : {};
-            } catch (e) {
-              // Si hay error parseando, usar objeto vacío
-            }
-            
-            if (additionalData.filter_reason) {
-              delete additionalData.filter_reason;
-            }
-            if (additionalData.cleanup_verification) {
-              delete additionalData.cleanup_verification;
-            }
-            if (additionalData.archived_at) {
-              delete additionalData.archived_at;
-            }
-            
-            await pool.execute(
-              'UPDATE vehicles SET status = ?, additional_data = ?, updated_at = NOW() WHERE id = ?',
-              ['published', JSON.stringify(additionalData), existingId]
-            );
-            logger.info(`Vehículo ${asofixId} reactivado (ya no cumple filtros de exclusión y tiene stock activo)`);
-          }
-        } catch (error: any) {
-          logger.error(`Error al reactivar vehículo ${asofixId}: ${error.message}`);
+          logger.info(`Vehículo ${asofixId} reactivado (ya no cumple filtros de exclusión y tiene stock activo)`);
         }
       }
     }
 
     // Generar hash de versión para detectar cambios
+    progress.stage = 'lookup';
     const versionHash = this.generateVersionHash(vehicle);
     
     // En modo incremental, verificar si necesita actualización
     if (incremental) {
-      const needsUpdate = await this.needsUpdate(asofixId, versionHash);
+      const needsUpdate = await this.needsUpdate(asofixId, versionHash, db);
       if (!needsUpdate) {
         // CRÍTICO: SIEMPRE verificar el estado actual del vehículo, incluso si el hash no cambió
         // Un vehículo puede cambiar de estado (activo -> reservado/eliminado) sin cambiar el hash
         // Verificar que el vehículo siga siendo válido según los filtros ACTUALES
-        const { omit: stillOmit, reason: stillReason } = VehicleFilters.shouldOmitVehicle(vehicle);
+        const { omit: stillOmit, code: stillCode, reason: stillReason } = VehicleFilters.shouldOmitVehicle(vehicle);
         
         if (stillOmit) {
           // El vehículo ahora debe ser filtrado (cambió su estado o no pasa filtros)
-          const existingId = await this.findVehicleByAsofixId(asofixId);
+          const existingId = await this.findVehicleByAsofixId(asofixId, db);
           if (existingId) {
-            try {
-              const [existingRows] = await pool.execute<any[]>(
-                'SELECT additional_data, status FROM vehicles WHERE id = ?',
-                [existingId]
-              );
-              
-              let additionalData: any = {};
-              try {
-                additionalData = existingRows[0]?.additional_data ? JSON.parse(existingRows[0].additional_data) : {};
-              } catch (e) {
-                additionalData = {};
-              }
-              
-              let filterReason = 'unknown';
-              if (stillReason?.toLowerCase().includes('dakota') || stillReason?.toLowerCase().includes('location_name')) {
-                filterReason = 'dakota_location';
-              } else if (stillReason?.toLowerCase().includes('precio')) {
-                filterReason = 'min_price';
-              } else if (stillReason?.toLowerCase().includes('estado')) {
-                filterReason = 'blocked_status';
-              } else if (stillReason?.toLowerCase().includes('imagen')) {
-                filterReason = 'no_images';
-              } else if (stillReason?.toLowerCase().includes('stock')) {
-                filterReason = 'no_active_stock';
-              }
-              
-              additionalData.filter_reason = filterReason;
-              
-              // Solo archivar si actualmente está publicado
-              if (existingRows[0]?.status === 'published') {
-                await pool.execute(
-                  'UPDATE vehicles SET status = ?, additional_data = ?, updated_at = NOW() WHERE id = ?',
-                  ['archived', JSON.stringify(additionalData), existingId]
-                );
-                logger.warn(`Vehículo ${asofixId} archivado (cambió estado/filtros): ${stillReason}`);
-              } else {
-                logger.info(`Vehículo ${asofixId} ya está archivado, no necesita cambio`);
-              }
-            } catch (error: any) {
-              logger.error(`Error al archivar vehículo ${asofixId}: ${error.message}`);
+            // Solo archivar si actualmente está publicado
+            const archived = await this.archiveVehicle(
+              existingId,
+              asofixId,
+              stillCode!,
+              stillReason || '',
+              context,
+              { onlyIfPublished: true }
+            );
+            if (archived) {
+              logger.warn(`Vehículo ${asofixId} archivado (cambió estado/filtros): ${stillReason}`);
+            } else {
+              logger.info(`Vehículo ${asofixId} ya está archivado, no necesita cambio`);
             }
           }
           return { 
@@ -449,10 +830,12 @@ class SyncService {
         }
         
         // El vehículo sigue siendo válido - actualizar last_synced_at
-        await pool.execute(
-          'UPDATE vehicles SET last_synced_at = NOW() WHERE asofix_id = ?',
-          [asofixId]
-        );
+        if (!context.plan) {
+          await db.execute(
+            'UPDATE vehicles SET last_synced_at = NOW() WHERE asofix_id = ?',
+            [asofixId]
+          );
+        }
         return { 
           success: true, 
           message: `Sin cambios para ${asofixId}`,
@@ -462,17 +845,19 @@ class SyncService {
       }
     }
 
+    // Modo dry-run: calcular el cambio sin escribir
+    if (context.plan) {
+      return this.planVehicleUpsert(vehicle, existingId, context.plan);
+    }
+
     // Preparar datos
-    const brand = vehicle.brand_name || '';
-    const model = vehicle.model_name || '';
-    const version = vehicle.version || '';
-    const title = `${brand} ${model} ${version}`.trim() || `Vehículo Asofix ID: ${asofixId}`;
+    const title = this.buildTitle(vehicle);
     const content = vehicle.description || '';
 
     const additionalData = {
       version: vehicle.version || null,
-      brand_id: (vehicle as any).brand_id || null,
-      model_id: (vehicle as any).model_id || null,
+      brand_id: vehicle.brand_id || null,
+      model_id: vehicle.model_id || null,
       stock_info: vehicle.stocks?.map(s => ({
         status: s.status,
         branch_office_name: s.branch_office_name,
@@ -482,114 +867,249 @@ class SyncService {
       original_price: vehicle.price || null
     };
 
-    try {
-      const existingId = await this.findVehicleByAsofixId(asofixId);
-      const wasNew = !existingId;
-      const wasUpdated = !!existingId;
+    // Las escrituras van en la transacción de processVehicle: cualquier error se propaga y se revierte todo
+    const wasNew = !existingId;
+    const wasUpdated = !!existingId;
 
-      let vehicleId: number;
+    let vehicleId: number;
+    // Snapshot previo para el diff del historial (solo vehículos existentes)
+    let snapshotBefore: Record<string, any> | null = null;
 
-      if (existingId) {
-        // Actualizar vehículo existente
-        await pool.execute(
-          `UPDATE vehicles SET 
-            title = ?,
-            content = ?,
-            status = 'published',
-            version_hash = ?,
-            last_synced_at = NOW(),
-            asofix_updated_at = NOW(),
-            additional_data = ?,
-            updated_at = NOW()
-          WHERE id = ?`,
-          [title, content, versionHash, JSON.stringify(additionalData), existingId]
-        );
-        vehicleId = existingId;
+    progress.stage = 'upsert';
+    if (existingId) {
+      snapshotBefore = await this.getVehicleSnapshot(existingId, db);
 
-        // LÓGICA IDEMPOTENTE: Comparar URLs antes de eliminar imágenes
-        const newImageUrls = (vehicle.images || []).map(img => img.url || '').filter(url => url);
-        
-        // Obtener URLs de imágenes existentes
-        const [existingImages] = await pool.execute<any[]>(
-          'SELECT image_url FROM vehicle_images WHERE vehicle_id = ?',
-          [vehicleId]
+      // Actualizar vehículo existente
+      await db.execute(
+        `UPDATE vehicles SET 
+          title = ?,
+          content = ?,
+          status = 'published',
+          version_hash = ?,
+          last_synced_at = NOW(),
+          asofix_updated_at = NOW(),
+          additional_data = ?,
+          updated_at = NOW()
+        WHERE id = ?`,
+        [title, content, versionHash, JSON.stringify(additionalData), existingId]
+      );
+      vehicleId = existingId;
+
+      // LÓGICA IDEMPOTENTE: Comparar URLs antes de eliminar imágenes
+      progress.stage = 'images';
+      const newImageUrls = (vehicle.images || []).map(img => img.url || '').filter(url => url);
+      
+      // Obtener URLs de imágenes existentes
+      const [existingImages] = await db.execute<any[]>(
+        'SELECT image_url FROM vehicle_images WHERE vehicle_id = ?',
+        [vehicleId]
+      );
+      const existingUrls = existingImages.map((img: any) => img.image_url).filter((url: string) => url);
+      
+      // Convertir a Sets para comparación eficiente
+      const newUrlsSet = new Set(newImageUrls);
+      const existingUrlsSet = new Set(existingUrls);
+      
+      // Encontrar URLs que deben eliminarse (existen en BD pero no en nueva data)
+      const urlsToDelete = existingUrls.filter(url => !newUrlsSet.has(url));
+      
+      // Encontrar URLs que deben agregarse (existen en nueva data pero no en BD)
+      const urlsToAdd = newImageUrls.filter(url => !existingUrlsSet.has(url));
+      
+      // Eliminar solo las imágenes que ya no están en la nueva lista
+      if (urlsToDelete.length > 0) {
+        // MySQL requiere placeholders individuales para IN clause
+        const placeholders = urlsToDelete.map(() => '?').join(',');
+        const [deletedImages] = await db.execute<any[]>(
+          `SELECT blob_id FROM vehicle_images WHERE vehicle_id = ? AND image_url IN (${placeholders})`,
+          [vehicleId, ...urlsToDelete]
         );
-        const existingUrls = existingImages.map((img: any) => img.image_url).filter((url: string) => url);
-        
-        // Convertir a Sets para comparación eficiente
-        const newUrlsSet = new Set(newImageUrls);
-        const existingUrlsSet = new Set(existingUrls);
-        
-        // Encontrar URLs que deben eliminarse (existen en BD pero no en nueva data)
-        const urlsToDelete = existingUrls.filter(url => !newUrlsSet.has(url));
-        
-        // Encontrar URLs que deben agregarse (existen en nueva data pero no en BD)
-        const urlsToAdd = newImageUrls.filter(url => !existingUrlsSet.has(url));
-        
-        // Eliminar solo las imágenes que ya no están en la nueva lista
-        if (urlsToDelete.length > 0) {
-          // MySQL requiere placeholders individuales para IN clause
-          const placeholders = urlsToDelete.map(() => '?').join(',');
-          await pool.execute(
-            `DELETE FROM vehicle_images WHERE vehicle_id = ? AND image_url IN (${placeholders})`,
-            [vehicleId, ...urlsToDelete]
-          );
-          logger.info(`Eliminadas ${urlsToDelete.length} imágenes obsoletas para vehículo ${vehicleId}`);
-        }
-        
-        // Solo guardar URLs nuevas en pending_images (las existentes no se vuelven a descargar)
-        if (urlsToAdd.length > 0) {
-          await this.savePendingImages(vehicleId, urlsToAdd);
-          logger.info(`Agregadas ${urlsToAdd.length} nuevas URLs a pending_images para vehículo ${vehicleId}`);
-        } else {
-          // Si no hay URLs nuevas, limpiar pending_images para este vehículo
-          await pool.execute('DELETE FROM pending_images WHERE vehicle_id = ?', [vehicleId]);
-        }
-      } else {
-        // Crear nuevo vehículo
-        const [result] = await pool.execute<any>(
-          `INSERT INTO vehicles (
-            asofix_id, title, content, status, version_hash, last_synced_at, asofix_updated_at, additional_data, created_at, updated_at
-          ) VALUES (?, ?, ?, 'published', ?, NOW(), NOW(), ?, NOW(), NOW())`,
-          [asofixId, title, content, versionHash, JSON.stringify(additionalData)]
+        await ImageStore.releaseReferences(deletedImages.map((img: any) => img.blob_id), db);
+        await db.execute(
+          `DELETE FROM vehicle_images WHERE vehicle_id = ? AND image_url IN (${placeholders})`,
+          [vehicleId, ...urlsToDelete]
         );
-        vehicleId = (result as any).insertId;
+        logger.info(`Eliminadas ${urlsToDelete.length} imágenes obsoletas para vehículo ${vehicleId}`);
+        await VehicleEvents.record({
+          vehicleId,
+          asofixId,
+          syncLogId: context.syncLogId,
+          eventType: 'images_removed',
+          changes: { count: urlsToDelete.length, urls: urlsToDelete }
+        }, db);
+      }
+      
+      // Solo guardar URLs nuevas en pending_images (las existentes no se vuelven a descargar)
+      if (urlsToAdd.length > 0) {
+        await this.savePendingImages(vehicleId, urlsToAdd, db);
+        logger.info(`Agregadas ${urlsToAdd.length} nuevas URLs a pending_images para vehículo ${vehicleId}`);
+        await VehicleEvents.record({
+          vehicleId,
+          asofixId,
+          syncLogId: context.syncLogId,
+          eventType: 'images_added',
+          changes: { count: urlsToAdd.length, urls: urlsToAdd }
+        }, db);
+      } else {
+        // Si no hay URLs nuevas, limpiar pending_images para este vehículo
+        await db.execute('DELETE FROM pending_images WHERE vehicle_id = ?', [vehicleId]);
       }
+    } else {
+      // Crear nuevo vehículo
+      const [result] = await db.execute<any>(
+        `INSERT INTO vehicles (
+          asofix_id, source, title, content, status, version_hash, last_synced_at, asofix_updated_at, additional_data, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, 'published', ?, NOW(), NOW(), ?, NOW(), NOW())`,
+        [asofixId, context.source || asofixInventorySource.name, title, content, versionHash, JSON.stringify(additionalData)]
+      );
+      vehicleId = (result as any).insertId;
+    }
 
-      // Asignar taxonomías
-      await this.assignTaxonomies(vehicleId, vehicle);
+    // Asignar taxonomías
+    progress.stage = 'taxonomies';
+    await this.assignTaxonomies(vehicleId, vehicle, db);
 
-      // Establecer metadatos
-      await this.setVehicleMetadata(vehicleId, vehicle);
+    // Establecer metadatos
+    progress.stage = 'metadata';
+    await this.setVehicleMetadata(vehicleId, vehicle, context);
 
-      // Guardar URLs de imágenes pendientes (solo si es vehículo nuevo)
-      if (wasNew) {
+    // Guardar URLs de imágenes pendientes (solo si es vehículo nuevo)
+    if (wasNew) {
+      progress.stage = 'images';
       const imageUrls = (vehicle.images || []).map(img => img.url || '').filter(url => url);
-      await this.savePendingImages(vehicleId, imageUrls);
+      await this.savePendingImages(vehicleId, imageUrls, db);
+    }
+
+    // Registrar en el historial: alta completa o diff a nivel de campo
+    progress.stage = 'history';
+    const snapshotAfter = await this.getVehicleSnapshot(vehicleId, db);
+    if (snapshotBefore) {
+      const changes = VehicleEvents.diff(snapshotBefore, snapshotAfter);
+      if (Object.keys(changes).length > 0) {
+        await VehicleEvents.record({
+          vehicleId,
+          asofixId,
+          syncLogId: context.syncLogId,
+          eventType: 'updated',
+          changes
+        }, db);
+      }
+    } else {
+      await VehicleEvents.record({
+        vehicleId,
+        asofixId,
+        syncLogId: context.syncLogId,
+        eventType: 'created',
+        changes: {
+          ...snapshotAfter,
+          images_count: (vehicle.images || []).filter(img => img.url).length
+        }
+      }, db);
+    }
+
+    return {
+      success: true,
+      message: wasNew 
+        ? `NUEVO: ${asofixId} creado (Vehicle ID: ${vehicleId})`
+        : `ACTUALIZADO: ${asofixId} (Vehicle ID: ${vehicleId})`,
+      vehicleId,
+      wasNew,
+      wasUpdated
+    };
+  }
+
+  /**
+   * Dry-run de la escritura de processVehicle: registra en el plan el alta o el diff
+   * a nivel de campo (incluidas taxonomías e imágenes) que aplicaría una sincronización real
+   */
+  private async planVehicleUpsert(
+    vehicle: AsofixVehicle,
+    existingId: number | null,
+    plan: SyncPlan
+  ): Promise<{ success: boolean; message: string; vehicleId?: number; wasNew?: boolean; wasUpdated?: boolean }> {
+    const asofixId = vehicle.id;
+    const title = this.buildTitle(vehicle);
+    const metadata = this.buildMetadata(vehicle);
+    const imageUrls = (vehicle.images || []).map(img => img.url || '').filter(url => url);
+
+    const projected: Record<string, any> = {
+      title,
+      content: vehicle.description || '',
+      year: vehicle.year || null,
+      kilometres: metadata.kilometres,
+      license_plate: vehicle.license_plate || null,
+      price_usd: metadata.priceUsd,
+      price_ars: metadata.priceArs
+    };
+    for (const [taxonomy, termName] of Object.entries(this.buildTaxonomyMap(vehicle))) {
+      projected[`taxonomy.${taxonomy}`] = termName ? termName.trim() : null;
+    }
+
+    try {
+      if (!existingId) {
+        plan.add({
+          action: 'create',
+          asofix_id: asofixId,
+          vehicle_id: null,
+          title,
+          reason: 'No existe en BD',
+          changes: { ...projected, images_count: imageUrls.length }
+        });
+        return { success: true, message: `[DRY-RUN] NUEVO: ${asofixId} se crearía`, wasNew: true, wasUpdated: false };
+      }
+
+      const snapshotBefore = await this.getVehicleSnapshot(existingId);
+      const changes: Record<string, any> = VehicleEvents.diff(snapshotBefore, projected);
+
+      const [existingImages] = await pool.execute<any[]>(
+        'SELECT image_url FROM vehicle_images WHERE vehicle_id = ?',
+        [existingId]
+      );
+      const existingUrls = new Set(existingImages.map((img: any) => img.image_url).filter((url: string) => url));
+      const newUrls = new Set(imageUrls);
+      const imagesAdded = imageUrls.filter(url => !existingUrls.has(url)).length;
+      const imagesRemoved = Array.from(existingUrls).filter(url => !newUrls.has(url)).length;
+      if (imagesAdded > 0 || imagesRemoved > 0) {
+        changes.images = { added: imagesAdded, removed: imagesRemoved };
+      }
+
+      if (Object.keys(changes).length === 0) {
+        return { success: true, message: `Sin cambios para ${asofixId} (dry-run)`, vehicleId: existingId, wasNew: false, wasUpdated: false };
       }
 
+      plan.add({
+        action: 'update',
+        asofix_id: asofixId,
+        vehicle_id: existingId,
+        title,
+        reason: `Campos modificados: ${Object.keys(changes).join(', ')}`,
+        changes
+      });
       return {
         success: true,
-        message: wasNew 
-          ? `NUEVO: ${asofixId} creado (Vehicle ID: ${vehicleId})`
-          : `ACTUALIZADO: ${asofixId} (Vehicle ID: ${vehicleId})`,
-        vehicleId,
-        wasNew,
-        wasUpdated
+        message: `[DRY-RUN] ACTUALIZADO: ${asofixId} se actualizaría (Vehicle ID: ${existingId})`,
+        vehicleId: existingId,
+        wasNew: false,
+        wasUpdated: true
       };
     } catch (error: any) {
-      logger.error(`Error al procesar vehículo ${asofixId}: ${error.message}`);
+      logger.error(`Error al planificar vehículo ${asofixId}: ${error.message}`);
       return { success: false, message: `Error: ${error.message}` };
     }
   }
 
   /**
-   * Obtiene vehículos con imágenes pendientes
+   * Obtiene las imágenes pendientes listas para descargar
+   * Excluye las que esperan un reintento (next_retry_at futuro) y las enviadas a dead-letter
    */
-  async getPendingImages(): Promise<Array<{ vehicle_id: number; image_url: string }>> {
+  async getPendingImages(): Promise<PendingImage[]> {
     try {
       const [rows] = await pool.execute<any[]>(
-        'SELECT vehicle_id, image_url FROM pending_images ORDER BY id'
+        `SELECT id, vehicle_id, image_url, attempts
+         FROM pending_images
+         WHERE status = 'pending'
+           AND (next_retry_at IS NULL OR next_retry_at <= NOW())
+         ORDER BY id`
       );
       return rows;
     } catch (error: any) {
@@ -598,6 +1118,106 @@ class SyncService {
     }
   }
 
+  /**
+   * Registra un intento fallido de descarga con backoff exponencial
+   * Tras IMAGE_MAX_ATTEMPTS intentos la imagen pasa a estado 'dead' y no se reintenta más
+   */
+  async recordImageFailure(pendingImage: PendingImage, errorMessage: string): Promise<void> {
+    const attempts = (pendingImage.attempts || 0) + 1;
+    const isDead = attempts >= IMAGE_MAX_ATTEMPTS;
+    const backoffSeconds = Math.min(IMAGE_RETRY_BASE_SECONDS * Math.pow(2, attempts - 1), IMAGE_RETRY_MAX_SECONDS);
+
+    try {
+      await pool.execute(
+        `UPDATE pending_images
+         SET attempts = ?,
+             last_error = ?,
+             last_attempt_at = NOW(),
+             next_retry_at = ${isDead ? 'NULL' : 'DATE_ADD(NOW(), INTERVAL ? SECOND)'},
+             status = ?
+         WHERE id = ?`,
+        isDead
+          ? [attempts, errorMessage.substring(0, 1000), 'dead', pendingImage.id]
+          : [attempts, errorMessage.substring(0, 1000), backoffSeconds, 'pending', pendingImage.id]
+      );
+
+      if (isDead) {
+        logger.warn(`Imagen ${pendingImage.image_url} del vehículo ${pendingImage.vehicle_id} enviada a dead-letter tras ${attempts} intentos: ${errorMessage}`);
+      }
+    } catch (error: any) {
+      logger.error(`Error al registrar fallo de imagen ${pendingImage.id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Resumen del backlog de pending_images para GET /sync/images/pending
+   */
+  async getPendingImagesReport(limit: number = 50): Promise<{
+    totals: { pending: number; ready: number; waiting_retry: number; dead: number; vehicles: number };
+    oldest_created_at: Date | null;
+    next_retry_at: Date | null;
+    by_host: Array<{ host: string; pending: number; dead: number }>;
+    recent_failures: Array<{
+      id: number;
+      vehicle_id: number;
+      image_url: string;
+      status: string;
+      attempts: number;
+      last_error: string | null;
+      last_attempt_at: Date | null;
+      next_retry_at: Date | null;
+    }>;
+  }> {
+    const [totals] = await pool.execute<any[]>(
+      `SELECT
+         SUM(status = 'pending') AS pending,
+         SUM(status = 'pending' AND (next_retry_at IS NULL OR next_retry_at <= NOW())) AS ready,
+         SUM(status = 'pending' AND next_retry_at > NOW()) AS waiting_retry,
+         SUM(status = 'dead') AS dead,
+         COUNT(DISTINCT vehicle_id) AS vehicles,
+         MIN(created_at) AS oldest_created_at,
+         MIN(CASE WHEN status = 'pending' THEN next_retry_at END) AS next_retry_at
+       FROM pending_images`
+    );
+
+    const [byHost] = await pool.execute<any[]>(
+      `SELECT SUBSTRING_INDEX(SUBSTRING_INDEX(image_url, '/', 3), '/', -1) AS host,
+              SUM(status = 'pending') AS pending,
+              SUM(status = 'dead') AS dead
+       FROM pending_images
+       GROUP BY host
+       ORDER BY pending DESC`
+    );
+
+    const [failures] = await pool.query<any[]>(
+      `SELECT id, vehicle_id, image_url, status, attempts, last_error, last_attempt_at, next_retry_at
+       FROM pending_images
+       WHERE attempts > 0
+       ORDER BY last_attempt_at DESC
+       LIMIT ?`,
+      [limit]
+    );
+
+    const row = totals[0] || {};
+    return {
+      totals: {
+        pending: Number(row.pending || 0),
+        ready: Number(row.ready || 0),
+        waiting_retry: Number(row.waiting_retry || 0),
+        dead: Number(row.dead || 0),
+        vehicles: Number(row.vehicles || 0)
+      },
+      oldest_created_at: row.oldest_created_at || null,
+      next_retry_at: row.next_retry_at || null,
+      by_host: byHost.map((host: any) => ({
+        host: host.host,
+        pending: Number(host.pending || 0),
+        dead: Number(host.dead || 0)
+      })),
+      recent_failures: failures
+    };
+  }
+
   /**
    * Descarga y guarda una imagen
    * Proceso idempotente: verifica si la imagen ya existe antes de insertar
@@ -627,47 +1247,41 @@ class SyncService {
         };
       }
 
-      const highResUrl = imageUrl.replace('/th-', '/');
+      // Almacenamiento por contenido (SHA-256): si la URL ya se descargó antes
+      // (otro vehículo u otra sync) se reutiliza el blob sin volver a descargar
+      let blob = await ImageStore.findByUrl(imageUrl);
+      const reused = !!blob;
+
+      if (!blob) {
+        const highResUrl = imageUrl.replace('/th-', '/');
+        const response = await axios.get(highResUrl, {
+          responseType: 'arraybuffer',
+          timeout: IMAGE_DOWNLOAD_TIMEOUT_MS,
+          headers: {
+            'User-Agent': 'Mozilla/5.0'
+          }
+        });
 
-      // Usar IMAGES_PATH si está configurado, sino UPLOAD_PATH, sino default
-      const imagesPath = process.env.IMAGES_PATH || process.env.UPLOAD_PATH || './uploads';
-      const vehicleDir = path.join(imagesPath, 'autos', String(vehicleId));
-      if (!fs.existsSync(vehicleDir)) {
-        fs.mkdirSync(vehicleDir, { recursive: true });
+        blob = await ImageStore.store(Buffer.from(response.data), imageUrl, String(response.headers['content-type'] || ''));
       }
 
-      const response = await axios.get(highResUrl, {
-        responseType: 'arraybuffer',
-        timeout: 300000,
-        headers: {
-          'User-Agent': 'Mozilla/5.0'
-        }
-      });
-
-      const urlParts = highResUrl.split('/');
-      const filename = urlParts[urlParts.length - 1] || `image-${Date.now()}.jpg`;
-      const filePath = path.join(vehicleDir, filename);
-
-      fs.writeFileSync(filePath, response.data);
-
+      // file_path y variants se copian del blob para que las lecturas no necesiten join
       const [result] = await pool.execute<any>(
-        'INSERT INTO vehicle_images (vehicle_id, image_url, file_path) VALUES (?, ?, ?)',
-        [vehicleId, imageUrl, filePath]
+        'INSERT INTO vehicle_images (vehicle_id, image_url, file_path, variants, blob_id) VALUES (?, ?, ?, ?, ?)',
+        [vehicleId, imageUrl, blob.file_path, blob.variants ? JSON.stringify(blob.variants) : null, blob.id]
       );
+      await ImageStore.addReference(blob.id);
 
       const imageId = (result as any).insertId;
 
       // Si es la primera imagen, establecer como destacada
-      const [existingImages] = await pool.execute<any[]>(
-        'SELECT COUNT(*) as count FROM vehicle_images WHERE vehicle_id = ?',
-        [vehicleId]
+      // (condición en el UPDATE porque varias imágenes del mismo vehículo se descargan en paralelo)
+      await pool.execute(
+        `UPDATE vehicles SET featured_image_id = ?
+         WHERE id = ?
+           AND (featured_image_id IS NULL OR featured_image_id NOT IN (SELECT id FROM vehicle_images WHERE vehicle_id = ?))`,
+        [imageId, vehicleId, vehicleId]
       );
-      if (existingImages[0].count === 1) {
-        await pool.execute(
-          'UPDATE vehicles SET featured_image_id = ? WHERE id = ?',
-          [imageId, vehicleId]
-        );
-      }
 
       // Eliminar de pendientes
       await pool.execute(
@@ -677,7 +1291,9 @@ class SyncService {
 
       return {
         success: true,
-        message: `Imagen descargada para vehículo ${vehicleId}`,
+        message: reused
+          ? `Imagen reutilizada (blob ${blob.id}) para vehículo ${vehicleId}`
+          : `Imagen descargada para vehículo ${vehicleId}`,
         imageId
       };
     } catch (error: any) {
@@ -691,10 +1307,10 @@ class SyncService {
    * IMPORTANTE: NO filtra por stock ACTIVO aquí - deja que processVehicle maneje todos los vehículos
    * para que pueda archivar correctamente los que ya no están activos/reservados/eliminados
    */
-  async syncPage(page: number): Promise<{ vehicles: AsofixVehicle[]; hasMore: boolean }> {
+  async syncPage(page: number, source: InventorySource = asofixInventorySource): Promise<{ vehicles: AsofixVehicle[]; hasMore: boolean }> {
     try {
-      const response = await asofixApi.getVehiclesPage(page);
-      const allVehicles = response.data || [];
+      const response = await source.getPage(page);
+      const allVehicles = response.vehicles;
 
       // NO filtrar por stock ACTIVO aquí - processVehicle manejará todos los vehículos
       // Esto permite archivar vehículos que pasaron de activos a reservados/eliminados
@@ -703,10 +1319,7 @@ class SyncService {
       // pero processVehicle necesita recibir TODOS los vehículos para poder archivarlos correctamente
       
       // Retornar TODOS los vehículos - processVehicle aplicará los filtros y archivará los omitidos
-      const meta = response.meta;
-      const hasMore = meta ? (meta.current_page || 0) < (meta.total_pages || 0) : allVehicles.length > 0;
-
-      return { vehicles: allVehicles, hasMore };
+      return { vehicles: allVehicles, hasMore: response.hasMore };
     } catch (error: any) {
       logger.error(`Error al sincronizar página ${page}: ${error.message}`);
       throw error;
@@ -714,11 +1327,15 @@ class SyncService {
   }
 
   /**
-   * Descarga todas las imágenes pendientes
+   * Descarga todas las imágenes pendientes con un pool de workers
+   * (IMAGE_DOWNLOAD_CONCURRENCY en total, IMAGE_DOWNLOAD_PER_HOST por host)
+   * Los fallos se registran en pending_images con backoff exponencial y dead-letter
+   * @param options.vehicleIds Solo las imágenes de estos vehículos (ej: webhook de sincronización)
    */
   async downloadAllImages(
     onProgress?: (message: string, progress: { current: number; total: number; percentage: number }) => void,
-    delay: number = 0
+    delay: number = 0,
+    options: { vehicleIds?: number[] } = {}
   ): Promise<{ processed: number; created: number; errors: number }> {
     let processed = 0;
     let created = 0;
@@ -727,139 +1344,406 @@ class SyncService {
     onProgress?.('🖼️  Iniciando descarga de imágenes...', { current: 0, total: 0, percentage: 0 });
 
     try {
-      const pendingImages = await this.getPendingImages();
+      // Evitar descargar dos veces la misma URL de un vehículo en paralelo (duplicaría vehicle_images)
+      const seen = new Set<string>();
+      const onlyVehicles = options.vehicleIds ? new Set(options.vehicleIds) : null;
+      const pendingImages = (await this.getPendingImages()).filter(image => {
+        if (onlyVehicles && !onlyVehicles.has(image.vehicle_id)) return false;
+        const key = `${image.vehicle_id}|${image.image_url}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
 
       if (pendingImages.length === 0) {
         onProgress?.('✅ No se encontraron imágenes pendientes.', { current: 0, total: 0, percentage: 100 });
         return { processed: 0, created: 0, errors: 0 };
       }
 
-      onProgress?.(`📦 Se encontraron ${pendingImages.length} imágenes para descargar.`, { 
+      onProgress?.(`📦 Se encontraron ${pendingImages.length} imágenes para descargar (concurrencia: ${IMAGE_DOWNLOAD_CONCURRENCY}, por host: ${IMAGE_DOWNLOAD_PER_HOST}).`, { 
         current: 0, 
         total: pendingImages.length, 
         percentage: 0 
       });
 
-      for (let i = 0; i < pendingImages.length; i++) {
-        const imageJob = pendingImages[i];
-        const { vehicle_id, image_url } = imageJob;
+      const total = pendingImages.length;
+      let completed = 0;
+      const downloadPool = new DownloadPool<PendingImage>({
+        concurrency: IMAGE_DOWNLOAD_CONCURRENCY,
+        perHost: IMAGE_DOWNLOAD_PER_HOST,
+        hostOf: image => DownloadPool.hostOf(image.image_url)
+      });
+
+      await downloadPool.run(pendingImages, async image => {
+        const { vehicle_id, image_url } = image;
+        let result: { success: boolean; message: string; imageId?: number };
+
+        try {
+          result = await this.downloadImage(image_url, vehicle_id);
+        } catch (error: any) {
+          result = { success: false, message: `Error: ${error.message}` };
+        }
+
+        completed++;
+        const progress = { current: completed, total, percentage: Math.round((completed / total) * 100) };
+
+        if (result.success) {
+          processed++;
+          if (result.imageId) {
+            created++;
+          }
+          onProgress?.(`✅ Imagen ${completed}/${total} descargada para vehículo ${vehicle_id}`, progress);
+        } else {
+          errors++;
+          await this.recordImageFailure(image, result.message);
+          onProgress?.(`❌ Error al descargar imagen ${completed}/${total} (intento ${image.attempts + 1}/${IMAGE_MAX_ATTEMPTS}): ${result.message}`, progress);
+        }
+
+        if (delay > 0) {
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+      });
+
+      onProgress?.(`🎉 Descarga completada. ${processed} imágenes descargadas (${created} nuevas), ${errors} errores.`, { 
+        current: total, 
+        total, 
+        percentage: 100 
+      });
+    } catch (error: any) {
+      onProgress?.(`❌ Error fatal: ${error.message}`, { 
+        current: processed, 
+        total: processed, 
+        percentage: 0 
+      });
+      errors++;
+    }
+
+    return { processed, created, errors };
+  }
+
+  /**
+   * Ejecuta la sincronización completa (Fase 1 + Fase 2)
+   * Toma el lock de sincronización (sync_locks) para que no corran dos syncs a la vez,
+   * aunque vengan de procesos distintos (API, cron, scripts)
+   * Con options.dryRun no se escribe nada ni se toma el lock: se devuelve el plan de cambios
+   * (altas, actualizaciones, archivados y reactivaciones con sus motivos) y se omite la Fase 2
+   * @throws SyncInProgressError si ya hay una sincronización en curso
+   */
+  async syncAll(
+    onProgress?: SyncProgressCallback,
+    incremental: boolean = false,
+    syncType: SyncType = 'incremental',
+    options: SyncAllOptions = {}
+  ): Promise<SyncAllResult> {
+    const source = options.source || asofixInventorySource;
+    if (options.dryRun) {
+      return this.runSync(onProgress, incremental, syncType, null, { plan: new SyncPlan(incremental), source, skipPhases: options.skipPhases });
+    }
+
+    const lock = options.lock || await SyncLock.acquire(syncType);
+    try {
+      return await this.runSync(onProgress, incremental, syncType, lock, { resumeFrom: options.resumeFrom, source, skipPhases: options.skipPhases });
+    } finally {
+      await SyncLock.release(lock);
+    }
+  }
+
+  /**
+   * Al iniciar el proceso: elige la última sincronización que quedó en 'running' con checkpoint
+   * para reanudarla (la lanza SyncJobs.resumeInterrupted) y marca como 'failed' el resto de las abiertas
+   * Devuelve null si otra sincronización viva tiene el lock, si no hay candidata o si SYNC_AUTO_RESUME=false
+   */
+  async findInterruptedSyncToResume(): Promise<SyncLogRecord | null> {
+    const running = await SyncLock.getRunning();
+    if (running) {
+      logger.info(`Hay una sincronización en curso (sync_log_id: ${running.sync_log_id ?? 'N/A'}), no se reanudan syncs interrumpidas`);
+      return null;
+    }
+
+    const interrupted = await SyncLogger.getRunningSyncs();
+    if (interrupted.length === 0) {
+      return null;
+    }
+
+    const maxAgeHours = parseInt(process.env.SYNC_RESUME_MAX_AGE_HOURS || '6', 10);
+    const autoResume = process.env.SYNC_AUTO_RESUME !== 'false';
+    // Solo se reanudan syncs de ASOFIX: las de otras fuentes (planillas) se lanzan a mano
+    const candidate = interrupted.find(sync => {
+      if (!sync.checkpoint?.updated_at) return false;
+      if ((sync.checkpoint.source || asofixInventorySource.name) !== asofixInventorySource.name) return false;
+      const age = Date.now() - new Date(sync.checkpoint.updated_at).getTime();
+      return age <= maxAgeHours * 60 * 60 * 1000;
+    });
+
+    if (!autoResume || !candidate) {
+      await SyncLogger.failStaleSyncs(null, 'Sincronización interrumpida por reinicio del proceso');
+      return null;
+    }
+
+    // Cerrar las demás; la candidata sigue en 'running' hasta que syncAll la retome
+    for (const sync of interrupted) {
+      if (sync.id !== candidate.id) {
+        await SyncLogger.logSyncFailed(sync.id, 'Sincronización interrumpida por reinicio del proceso');
+      }
+    }
+
+    return candidate;
+  }
+
+  /**
+   * Aprueba o descarta el archivado masivo retenido por el circuit breaker en una sincronización
+   * Al aprobar se archivan los candidatos que siguen publicados; al descartar no se toca ningún vehículo.
+   * Toma el lock de sincronización para no archivar mientras corre otra sync
+   * @throws ArchiveReviewError si la sync no existe o no tiene una revisión pendiente
+   * @throws SyncInProgressError si hay una sincronización en curso
+   */
+  async resolveArchiveReview(
+    syncLogId: number,
+    decision: 'approve' | 'discard',
+    reviewedBy: string | null = null
+  ): Promise<ArchiveReview> {
+    const syncLog = await SyncLogger.getSyncLog(syncLogId);
+    if (!syncLog) {
+      throw new ArchiveReviewError(`Sincronización ${syncLogId} no encontrada`, 404);
+    }
 
-        onProgress?.(`⬇️  Descargando imagen ${i + 1}/${pendingImages.length} para vehículo ${vehicle_id}...`, { 
-          current: i, 
-          total: pendingImages.length, 
-          percentage: Math.round((i / pendingImages.length) * 100) 
-        });
+    const review = syncLog.archive_review;
+    if (!review || review.status !== 'pending') {
+      throw new ArchiveReviewError(
+        review
+          ? `La revisión de la sincronización ${syncLogId} ya fue resuelta (${review.status})`
+          : `La sincronización ${syncLogId} no tiene archivados pendientes de revisión`,
+        409
+      );
+    }
 
-        try {
-          const result = await this.downloadImage(image_url, vehicle_id);
+    const lock = await SyncLock.acquire('manual');
+    try {
+      let archivedCount = 0;
 
-          if (result.success) {
-            onProgress?.(`✅ Imagen ${i + 1} descargada para vehículo ${vehicle_id}`, { 
-              current: i + 1, 
-              total: pendingImages.length, 
-              percentage: Math.round(((i + 1) / pendingImages.length) * 100) 
-            });
-            processed++;
-            if (result.imageId) {
-              created++;
+      if (decision === 'approve') {
+        for (const candidate of review.candidates) {
+          try {
+            const archived = await this.archiveVehicle(
+              candidate.vehicle_id,
+              candidate.asofix_id,
+              'not_in_valid_set',
+              `Limpieza global (aprobada): ${candidate.reason}`,
+              { syncLogId },
+              {
+                onlyIfPublished: true,
+                extraData: {
+                  cleanup_verification: candidate.reason,
+                  archived_at: new Date().toISOString(),
+                  archive_review_sync_log_id: syncLogId
+                }
+              }
+            );
+            if (archived) {
+              archivedCount++;
             }
-          } else {
-            onProgress?.(`❌ Error al descargar imagen ${i + 1}: ${result.message}`, { 
-              current: i + 1, 
-              total: pendingImages.length, 
-              percentage: Math.round(((i + 1) / pendingImages.length) * 100) 
-            });
-            errors++;
+          } catch (error: any) {
+            logger.error(`[Cleanup] Error al archivar vehículo ${candidate.asofix_id} (revisión ${syncLogId}): ${error.message}`);
           }
-        } catch (error: any) {
-          onProgress?.(`❌ Error al descargar imagen ${i + 1}: ${error.message}`, { 
-            current: i + 1, 
-            total: pendingImages.length, 
-            percentage: Math.round(((i + 1) / pendingImages.length) * 100) 
-          });
-          errors++;
-        }
-
-        if (i < pendingImages.length - 1 && delay > 0) {
-          await new Promise(resolve => setTimeout(resolve, delay));
-        } else {
-          await new Promise(resolve => setTimeout(resolve, 10));
         }
       }
 
-      onProgress?.(`🎉 Descarga completada. ${processed} imágenes descargadas (${created} nuevas), ${errors} errores.`, { 
-        current: pendingImages.length, 
-        total: pendingImages.length, 
-        percentage: 100 
-      });
-    } catch (error: any) {
-      onProgress?.(`❌ Error fatal: ${error.message}`, { 
-        current: processed, 
-        total: processed, 
-        percentage: 0 
-      });
-      errors++;
+      const resolved: ArchiveReview = {
+        ...review,
+        status: decision === 'approve' ? 'approved' : 'discarded',
+        reviewed_at: new Date().toISOString(),
+        reviewed_by: reviewedBy,
+        archived_count: archivedCount
+      };
+      await SyncLogger.saveArchiveReview(syncLogId, resolved);
+
+      logger.info(`[Cleanup] Revisión de archivado de la sync ${syncLogId} ${decision === 'approve' ? `aprobada: ${archivedCount} vehículos archivados` : 'descartada'}`);
+      return resolved;
+    } finally {
+      await SyncLock.release(lock);
     }
+  }
 
-    return { processed, created, errors };
+  /**
+   * Marca como reemplazadas las revisiones pendientes de la fuente: una limpieza más nueva
+   * vuelve a calcular el set a archivar, así que aprobar uno viejo archivaría con datos vencidos
+   */
+  private async supersedeArchiveReviews(sourceName: string, exceptSyncLogId: number | null): Promise<void> {
+    const pending = await SyncLogger.getPendingArchiveReviews(sourceName);
+
+    for (const syncLog of pending) {
+      if (syncLog.id === exceptSyncLogId || !syncLog.archive_review) continue;
+
+      try {
+        await SyncLogger.saveArchiveReview(syncLog.id, {
+          ...syncLog.archive_review,
+          status: 'superseded',
+          reviewed_at: new Date().toISOString(),
+          reviewed_by: null
+        });
+        logger.info(`[Cleanup] Revisión de archivado de la sync ${syncLog.id} reemplazada por la limpieza actual`);
+      } catch (error: any) {
+        logger.warn(`No se pudo reemplazar la revisión de archivado de la sync ${syncLog.id}: ${error.message}`);
+      }
+    }
   }
 
   /**
-   * Ejecuta la sincronización completa (Fase 1 + Fase 2)
+   * Cuerpo de syncAll (el lock ya está tomado, o es un dry-run con plan)
    */
-  async syncAll(
-    onProgress?: (phase: 'fase1' | 'fase2', message: string, progress: { current: number; total: number; percentage: number }) => void,
-    incremental: boolean = false,
-    syncType: 'full' | 'incremental' | 'manual' = 'incremental'
-  ): Promise<{ 
-    fase1: { processed: number; created: number; updated: number; errors: number; filtered: number; archived: number }; 
-    fase2: { processed: number; created: number; errors: number } 
-  }> {
+  private async runSync(
+    onProgress: SyncProgressCallback | undefined,
+    incremental: boolean,
+    syncType: SyncType,
+    lock: SyncLockHandle | null,
+    extra: { plan?: SyncPlan; resumeFrom?: number; source?: InventorySource; skipPhases?: SkippableSyncPhase[] } = {}
+  ): Promise<SyncAllResult> {
+    const plan = extra.plan;
+    const source = extra.source || asofixInventorySource;
+
     // Registrar inicio en sync_logs (opcional, no falla si no existe)
+    // Al reanudar se reutiliza el registro original y se parte de su checkpoint
     let syncLogId: number | null = null;
-    try {
-      const { SyncLogger } = await import('./sync-logger');
+    let checkpoint: SyncCheckpoint | null = null;
+    // Archivado masivo retenido por el circuit breaker de la limpieza global
+    // (al reanudar después de la limpieza se recupera el que quedó guardado en sync_logs)
+    let archiveReview: ArchiveReview | null = null;
+    if (extra.resumeFrom) {
+      const syncLog = await SyncLogger.getSyncLog(extra.resumeFrom);
+      if (!syncLog) {
+        throw new Error(`No existe la sincronización ${extra.resumeFrom}`);
+      }
+      syncLogId = syncLog.id;
+      checkpoint = syncLog.checkpoint;
+      if (checkpoint?.phase === 'fase2' && syncLog.archive_review?.status === 'pending') {
+        archiveReview = syncLog.archive_review;
+      }
+      const checkpointSource = checkpoint?.source || asofixInventorySource.name;
+      if (checkpointSource !== source.name) {
+        throw new Error(`La sincronización ${syncLogId} es de la fuente '${checkpointSource}', no de '${source.name}'`);
+      }
+      await SyncLogger.markResumed(syncLogId);
+      logger.info(`🔁 Reanudando sincronización ${syncLogId} desde ${checkpoint?.phase || 'el inicio'}`);
+    } else if (!plan) {
       syncLogId = await SyncLogger.logSyncStart(syncType);
-    } catch (error) {
-      // No fallar si sync-logger no está disponible
     }
+    if (lock) {
+      await SyncLock.attachSyncLog(lock, syncLogId);
+      // Con el lock tomado ninguna otra sync puede estar corriendo: los 'running' restantes quedaron abiertos
+      await SyncLogger.failStaleSyncs(syncLogId, 'Sincronización interrumpida (el proceso terminó sin cerrarla)');
+    }
+    if (!plan) {
+      // Recargar los términos en cada sync: la Fase 1.2 resuelve las taxonomías desde memoria
+      try {
+        await TaxonomyTermCache.warm();
+      } catch (error: any) {
+        logger.warn(`No se pudo precargar la cache de taxonomías (se cargará al primer uso): ${error.message}`);
+      }
+    }
+    // Reglas de filtrado vigentes (filter_rules): shouldOmitVehicle las usa durante toda la sync
+    await FilterRules.reload();
     const limit = parseInt(process.env.SYNC_LIMIT || '0');
     const delay = parseInt(process.env.SYNC_IMAGE_DELAY || '0');
     
-    let fase1Processed = 0;
-    let fase1Created = 0;
-    let fase1Updated = 0;
-    let fase1Errors = 0;
-    let fase1Filtered = 0;
-    let fase1Archived = 0; // Vehículos archivados en fase de limpieza global
+    let fase1Processed = checkpoint?.counters.processed || 0;
+    let fase1Created = checkpoint?.counters.created || 0;
+    let fase1Updated = checkpoint?.counters.updated || 0;
+    let fase1Errors = checkpoint?.counters.errors || 0;
+    let fase1Filtered = checkpoint?.counters.filtered || 0;
+    let fase1Archived = checkpoint?.counters.archived || 0; // Vehículos archivados en fase de limpieza global
     let fase2Processed = 0;
     let fase2Created = 0;
     let fase2Errors = 0;
 
+    // Cada evento de progreso lleva los contadores actuales y el sync_log_id
+    const reportProgress = onProgress;
+    onProgress = reportProgress && ((phase, message, progress) => reportProgress(phase, message, progress, {
+      sync_log_id: syncLogId,
+      counters: {
+        fase1: {
+          processed: fase1Processed,
+          created: fase1Created,
+          updated: fase1Updated,
+          errors: fase1Errors,
+          filtered: fase1Filtered,
+          archived: fase1Archived
+        },
+        fase2: { processed: fase2Processed, created: fase2Created, errors: fase2Errors }
+      }
+    }));
+
     // Set para trackear vehículos válidos durante la sincronización
     // Equivalente a $all_api_ids en cleanup_phase_cron() del PHP
-    const validVehicleIds = new Set<string>();
+    const validVehicleIds = new Set<string>(checkpoint?.valid_ids || []);
+
+    // Vehículos ya procesados con éxito en la Fase 1.2 (se saltean al reanudar)
+    const processedVehicleIds = new Set<string>(checkpoint?.processed_ids || []);
+    let lastPage = checkpoint?.last_page || 0;
+    let lastBatch = checkpoint?.last_batch || 0;
+
+    // Una fase se ejecuta si no hay checkpoint o si el checkpoint no la dejó atrás
+    const shouldRun = (phase: SyncPhase): boolean =>
+      !checkpoint || SYNC_PHASES.indexOf(phase) >= SYNC_PHASES.indexOf(checkpoint.phase);
+
+    // Fases que el schedule no incluye (al reanudar se toman del checkpoint)
+    const skipPhases: SyncPhase[] = extra.skipPhases || checkpoint?.skip_phases || [];
+    const isSkipped = (phase: SyncPhase): boolean => skipPhases.includes(phase);
+
+    const saveCheckpoint = async (phase: SyncPhase): Promise<void> => {
+      if (!syncLogId || plan) return;
+      await SyncLogger.saveCheckpoint(syncLogId, {
+        phase,
+        incremental,
+        source: source.name,
+        last_page: lastPage,
+        last_batch: lastBatch,
+        processed_ids: Array.from(processedVehicleIds),
+        valid_ids: Array.from(validVehicleIds),
+        counters: {
+          processed: fase1Processed,
+          created: fase1Created,
+          updated: fase1Updated,
+          errors: fase1Errors,
+          filtered: fase1Filtered,
+          archived: fase1Archived
+        },
+        resumed_count: (checkpoint?.resumed_count || 0) + (extra.resumeFrom ? 1 : 0),
+        skip_phases: skipPhases
+      });
+    };
 
     // ========== FASE 1: Sincronización de Datos ==========
-    onProgress?.('fase1', '🚀 Iniciando Fase 1: Sincronización de datos...', { current: 0, total: 0, percentage: 0 });
+    onProgress?.('fase1', plan
+      ? '🧪 Iniciando Fase 1 en modo dry-run: no se escribirá nada en BD...'
+      : '🚀 Iniciando Fase 1: Sincronización de datos...', { current: 0, total: 0, percentage: 0 });
 
     // ========== FASE 1.1: Obtener TODOS los vehículos de la API (sin procesar en BD) ==========
     onProgress?.('fase1', '📡 Fase 1.1: Obteniendo todos los vehículos de la API...', { current: 0, total: 0, percentage: 5 });
     
     const allVehiclesFromAPI: AsofixVehicle[] = [];
+    const fetchStartedAt = new Date();
     let currentPage = 1;
-    let hasMore = true;
+    // Si la sync se reanuda después de la Fase 1.2 no hace falta volver a consultar la API
+    let hasMore = shouldRun('fase1.2');
+    const fetchAllPages = hasMore;
+    let fetchFailed = false;
     let totalVehicles = 0;
 
-    try {
-      const firstPage = await asofixApi.getVehiclesPage(1);
-      const meta = firstPage.meta;
-      if (meta && meta.total_count) {
-        totalVehicles = meta.total_count;
-        onProgress?.('fase1', `📊 Total aproximado de vehículos en ASOFIX: ${totalVehicles}`, { current: 0, total: totalVehicles, percentage: 5 });
+    // Cada página se valida contra el esquema: los vehículos mal formados van a cuarentena
+    const schemaDrift = new AsofixSchemaDrift(source.name);
+
+    if (hasMore) {
+      await saveCheckpoint('fase1.1');
+
+      try {
+        const firstPage = await source.getPage(1);
+        if (firstPage.totalCount) {
+          totalVehicles = firstPage.totalCount;
+          onProgress?.('fase1', `📊 Total aproximado de vehículos en ASOFIX: ${totalVehicles}`, { current: 0, total: totalVehicles, percentage: 5 });
+        }
+      } catch (error) {
+        logger.warn('No se pudo obtener el total de vehículos');
       }
-    } catch (error) {
-      logger.warn('No se pudo obtener el total de vehículos');
     }
 
     // Obtener todos los vehículos de la API primero (sin procesar en BD)
@@ -871,11 +1755,11 @@ class SyncService {
           percentage: totalVehicles > 0 ? Math.round((allVehiclesFromAPI.length / totalVehicles) * 40) + 5 : 10 
         });
 
-        const result = await this.syncPage(currentPage);
-        const vehicles = result.vehicles;
+        const result = await this.syncPage(currentPage, source);
+        const vehicles = AsofixSchema.validateVehicles(result.vehicles, schemaDrift);
         hasMore = result.hasMore;
 
-        if (vehicles.length === 0) {
+        if (result.vehicles.length === 0) {
           onProgress?.('fase1', '✅ No hay más vehículos en la API.', { 
             current: allVehiclesFromAPI.length, 
             total: allVehiclesFromAPI.length, 
@@ -885,6 +1769,7 @@ class SyncService {
         }
 
         allVehiclesFromAPI.push(...vehicles);
+        lastPage = currentPage;
 
         onProgress?.('fase1', `📦 Página ${currentPage} recibida. Total acumulado: ${allVehiclesFromAPI.length} vehículos.`, { 
           current: allVehiclesFromAPI.length, 
@@ -892,9 +1777,8 @@ class SyncService {
           percentage: totalVehicles > 0 ? Math.round((allVehiclesFromAPI.length / totalVehicles) * 40) + 5 : 20 
         });
 
-
+        // El ritmo de requests lo controla el limitador del cliente de ASOFIX
         currentPage++;
-        await new Promise(resolve => setTimeout(resolve, 200));
       } catch (error: any) {
         onProgress?.('fase1', `❌ Error al obtener página ${currentPage} de la API: ${error.message}`, { 
           current: allVehiclesFromAPI.length, 
@@ -902,11 +1786,64 @@ class SyncService {
           percentage: 45 
         });
         fase1Errors++;
+        fetchFailed = true;
         hasMore = false;
         logger.error(`Error al obtener página ${currentPage} de la API: ${error.message}`);
       }
     }
 
+    if (fetchAllPages) {
+      const quarantined = schemaDrift.getQuarantined();
+
+      // Siguen en la fuente aunque no se importen: la limpieza global no los archiva
+      for (const vehicle of quarantined) {
+        if (vehicle.asofix_id) {
+          validVehicleIds.add(vehicle.asofix_id);
+        }
+      }
+
+      if (quarantined.length > 0) {
+        logger.warn(`[Schema] ${quarantined.length} vehículos en cuarentena: ${quarantined.slice(0, 10).map(vehicle => `${vehicle.asofix_id || vehicle.key} (${vehicle.reasons[0]})`).join(', ')}`);
+        onProgress?.('fase1', `⚠️  ${quarantined.length} vehículos no pasaron la validación de esquema y quedaron en cuarentena.`, { 
+          current: allVehiclesFromAPI.length, 
+          total: allVehiclesFromAPI.length, 
+          percentage: 45 
+        });
+      }
+
+      if (!plan) {
+        await AsofixQuarantine.record(source.name, syncLogId, quarantined);
+        if (!fetchFailed) {
+          await AsofixQuarantine.release(source.name, allVehiclesFromAPI.map(vehicle => String(vehicle.id)));
+        }
+        await SyncLogger.saveSchemaDrift(syncLogId, schemaDrift.toReport());
+      }
+    }
+
+    // Índice por id/patente/origin con las páginas ya obtenidas: la Fase 1.3 y la limpieza
+    // global lo consultan en lugar de recorrer la API por cada vehículo.
+    // Solo sirve si se recorrió el catálogo completo; si no, se arma uno nuevo al necesitarlo.
+    let snapshot: AsofixSnapshot | null = null;
+    if (fetchAllPages && !fetchFailed && !hasMore && allVehiclesFromAPI.length > 0) {
+      snapshot = new AsofixSnapshot(
+        allVehiclesFromAPI,
+        schemaDrift.getQuarantined().map(vehicle => vehicle.asofix_id).filter((id): id is string => !!id),
+        fetchStartedAt
+      );
+      if (source === asofixInventorySource) {
+        AsofixSnapshot.setCurrent(snapshot);
+      }
+    }
+
+    // Busca un vehículo en la fuente por id o, si no aparece, por patente
+    // Sin snapshot completo se delega en la fuente (para ASOFIX, su snapshot con TTL)
+    const findAsofixVehicle = async (asofixId: string, licensePlate: string): Promise<AsofixVehicle | null> => {
+      if (snapshot) {
+        return snapshot.findById(asofixId) || snapshot.findByLicensePlate(licensePlate);
+      }
+      return (await source.getVehicle(asofixId).catch(() => null)) || source.findByLicensePlate(licensePlate);
+    };
+
     onProgress?.('fase1', `✅ Fase 1.1 completada: ${allVehiclesFromAPI.length} vehículos obtenidos de la API.`, { 
       current: allVehiclesFromAPI.length, 
       total: allVehiclesFromAPI.length, 
@@ -923,6 +1860,14 @@ class SyncService {
     const batchSize = parseInt(process.env.SYNC_BATCH_SIZE || '50', 10); // Tamaño de lote configurable, default 50
     const maxRetries = 3; // Reintentos para errores transitorios
 
+    if (processedVehicleIds.size > 0 && allVehiclesFromAPI.length > 0) {
+      onProgress?.('fase1', `🔁 Reanudando Fase 1.2: ${processedVehicleIds.size} vehículos ya procesados se omiten.`, { 
+        current: 0, 
+        total: allVehiclesFromAPI.length, 
+        percentage: 45 
+      });
+    }
+
     for (let i = 0; i < allVehiclesFromAPI.length; i += batchSize) {
       const batch = allVehiclesFromAPI.slice(i, Math.min(i + batchSize, allVehiclesFromAPI.length));
       const batchNumber = Math.floor(i / batchSize) + 1;
@@ -948,7 +1893,10 @@ class SyncService {
           }
 
           const asofixId = vehicle.id || 'ID_DESCONOCIDO';
-        let result: { success: boolean; message: string; vehicleId?: number; wasNew?: boolean; wasUpdated?: boolean; filtered?: boolean } | null = null;
+        if (processedVehicleIds.has(asofixId)) {
+          continue;
+        }
+        let result: ProcessVehicleResult | null = null;
         let retryCount = 0;
         let success = false;
 
@@ -961,8 +1909,15 @@ class SyncService {
               percentage: 45 + Math.round(((vehicleIndexInArray - 1) / allVehiclesFromAPI.length) * 50) 
             });
 
-            result = await this.processVehicle(vehicle, incremental);
+            result = await this.processVehicle(vehicle, incremental, { syncLogId, plan, source: source.name });
+            // Deadlock / lock wait timeout: la transacción ya se revirtió, se reintenta el vehículo completo
+            if (!result.success && result.error?.retryable) {
+              throw new Error(`${result.message} (etapa: ${result.error.stage}, código: ${result.error.code})`);
+            }
             success = true;
+            if (result.success && asofixId !== 'ID_DESCONOCIDO') {
+              processedVehicleIds.add(asofixId);
+            }
 
             // Agregar al Set de vehículos válidos SOLO después de confirmar procesamiento exitoso
             // Esto evita que vehículos válidos se archiven incorrectamente en la limpieza global
@@ -990,6 +1945,9 @@ class SyncService {
                   total: allVehiclesFromAPI.length, 
                   percentage: 45 + Math.round((fase1Processed / allVehiclesFromAPI.length) * 50) 
               });
+              if (plan) {
+                plan.unchanged++;
+              }
             } else {
               onProgress?.('fase1', `✅ ${result.message}`, { 
                 current: fase1Processed + 1, 
@@ -1035,11 +1993,16 @@ class SyncService {
           }
         }
 
-        await new Promise(resolve => setTimeout(resolve, 100)); // Delay reducido entre vehículos
+        if (!plan) {
+          await new Promise(resolve => setTimeout(resolve, 100)); // Delay reducido entre vehículos
+        }
       }
 
-      // Pausa entre lotes para evitar saturar la BD
-      if (i + batchSize < allVehiclesFromAPI.length) {
+      lastBatch = batchNumber;
+      await saveCheckpoint('fase1.2');
+
+      // Pausa entre lotes para evitar saturar la BD (en dry-run solo hay lecturas)
+      if (!plan && i + batchSize < allVehiclesFromAPI.length) {
         await new Promise(resolve => setTimeout(resolve, 500));
       }
     }
@@ -1057,114 +2020,112 @@ class SyncService {
       percentage: 92 
     });
 
-    try {
-      // Buscar SOLO vehículos archivados por limpieza global (not_in_valid_set o no_encontrado_en_api)
-      // NO reactivar vehículos archivados por otras razones (filtros de negocio, etc.)
-      // Esto evita reactivar vehículos que fueron archivados correctamente por no pasar filtros
-      const [archivedVehicles] = await pool.execute<any[]>(
-        `SELECT id, asofix_id, title, license_plate, additional_data, updated_at
-         FROM vehicles 
-         WHERE status = 'archived'
-           AND license_plate IS NOT NULL
-           AND license_plate != ''
-           AND (
-             JSON_EXTRACT(additional_data, '$.filter_reason') = 'not_in_valid_set'
-             OR JSON_EXTRACT(additional_data, '$.filter_reason') = 'no_encontrado_en_api'
-             OR JSON_EXTRACT(additional_data, '$.cleanup_verification') IS NOT NULL
-           )
-         ORDER BY updated_at DESC
-         LIMIT 200`,
-        []
-      );
-
-      if (archivedVehicles.length > 0) {
-        logger.info(`[Reactivación] Encontrados ${archivedVehicles.length} vehículos archivados para verificar.`);
-        let reactivatedCount = 0;
-
-        for (const archivedVehicle of archivedVehicles) {
-          try {
-            const licensePlate = archivedVehicle.license_plate;
-            if (!licensePlate || licensePlate.trim().length === 0) {
-              continue;
-            }
-
-            logger.info(`[Reactivación] Verificando vehículo archivado ${archivedVehicle.asofix_id} (${archivedVehicle.title}) con patente ${licensePlate}...`);
+    if (isSkipped('fase1.3')) {
+      onProgress?.('fase1', `⏭️  Fase 1.3 omitida (no incluida en esta sincronización).`, { 
+        current: fase1Processed, 
+        total: fase1Processed, 
+        percentage: 94 
+      });
+    } else if (shouldRun('fase1.3')) {
+      await saveCheckpoint('fase1.3');
 
-            // Buscar el vehículo en la API
-            const apiVehicle = await asofixApi.getVehicleByLicensePlate(licensePlate);
+      try {
+        // Buscar SOLO vehículos archivados por limpieza global (not_in_valid_set o no_encontrado_en_api)
+        // NO reactivar vehículos archivados por otras razones (filtros de negocio, etc.)
+        // Esto evita reactivar vehículos que fueron archivados correctamente por no pasar filtros
+        const [archivedVehicles] = await pool.execute<any[]>(
+          `SELECT id, asofix_id, title, license_plate, additional_data, updated_at
+           FROM vehicles 
+           WHERE status = 'archived'
+             AND source = ?
+             AND license_plate IS NOT NULL
+             AND license_plate != ''
+             AND (
+               filter_reason IN ('not_in_valid_set', 'no_encontrado_en_api')
+               OR JSON_EXTRACT(additional_data, '$.cleanup_verification') IS NOT NULL
+             )
+           ORDER BY updated_at DESC
+           LIMIT 200`,
+          [source.name]
+        );
 
-            if (apiVehicle && apiVehicle.id === archivedVehicle.asofix_id) {
-              // Vehículo encontrado en la API, verificar si pasa los filtros
-              const { omit, reason } = VehicleFilters.shouldOmitVehicle(apiVehicle);
+        if (archivedVehicles.length > 0) {
+          logger.info(`[Reactivación] Encontrados ${archivedVehicles.length} vehículos archivados para verificar.`);
+          let reactivatedCount = 0;
 
-              if (!omit) {
-                // El vehículo existe en la API y pasa los filtros - REACTIVAR
-                let additionalData: any = {};
-                try {
-                  additionalData = archivedVehicle.additional_data ? JSON.parse(archivedVehicle.additional_data) : {};
-                } catch (e) {
-                  additionalData = {};
-                }
+          for (const archivedVehicle of archivedVehicles) {
+            try {
+              const licensePlate = archivedVehicle.license_plate;
+              if (!licensePlate || licensePlate.trim().length === 0) {
+                continue;
+              }
 
-                // Remover filter_reason y cleanup_verification
-                if (additionalData.filter_reason) {
-                  delete additionalData.filter_reason;
-                }
-                if (additionalData.cleanup_verification) {
-                  delete additionalData.cleanup_verification;
+              logger.info(`[Reactivación] Verificando vehículo archivado ${archivedVehicle.asofix_id} (${archivedVehicle.title}) con patente ${licensePlate}...`);
+
+              // Buscar el vehículo en el snapshot de la API
+              const apiVehicle = await findAsofixVehicle(archivedVehicle.asofix_id, licensePlate);
+
+              if (apiVehicle && apiVehicle.id === archivedVehicle.asofix_id) {
+                // Vehículo encontrado en la API, verificar si pasa los filtros
+                const { omit, reason } = VehicleFilters.shouldOmitVehicle(apiVehicle);
+
+                if (!omit) {
+                  // El vehículo existe en la API y pasa los filtros - REACTIVAR
+                  await this.reactivateVehicle(
+                    archivedVehicle.id,
+                    archivedVehicle.asofix_id,
+                    archivedVehicle.additional_data,
+                    'Encontrado en API y válido (Fase 1.3)',
+                    { syncLogId, plan }
+                  );
+
+                  // Agregarlo al Set de válidos para evitar que se archive nuevamente
+                  validVehicleIds.add(archivedVehicle.asofix_id);
+                  reactivatedCount++;
+                  logger.info(`[Reactivación] ✅ Vehículo ${archivedVehicle.asofix_id} (${archivedVehicle.title}) REACTIVADO - encontrado en API y válido`);
+                } else {
+                  logger.info(`[Reactivación] Vehículo ${archivedVehicle.asofix_id} encontrado en API pero filtrado: ${reason} - NO se reactiva`);
                 }
-                if (additionalData.archived_at) {
-                  delete additionalData.archived_at;
-                }
-
-                await pool.execute(
-                  'UPDATE vehicles SET status = ?, additional_data = ?, updated_at = NOW() WHERE id = ?',
-                  ['published', JSON.stringify(additionalData), archivedVehicle.id]
-                );
-
-                // Agregarlo al Set de válidos para evitar que se archive nuevamente
-                validVehicleIds.add(archivedVehicle.asofix_id);
-                reactivatedCount++;
-                logger.info(`[Reactivación] ✅ Vehículo ${archivedVehicle.asofix_id} (${archivedVehicle.title}) REACTIVADO - encontrado en API y válido`);
               } else {
-                logger.info(`[Reactivación] Vehículo ${archivedVehicle.asofix_id} encontrado en API pero filtrado: ${reason} - NO se reactiva`);
+                logger.info(`[Reactivación] Vehículo ${archivedVehicle.asofix_id} NO encontrado en API - permanece archivado`);
               }
-            } else {
-              logger.info(`[Reactivación] Vehículo ${archivedVehicle.asofix_id} NO encontrado en API - permanece archivado`);
+        } catch (error: any) {
+              logger.error(`[Reactivación] Error al verificar vehículo ${archivedVehicle.asofix_id}: ${error.message}`);
             }
-
-            // Pausa para no sobrecargar la API
-            await new Promise(resolve => setTimeout(resolve, 300));
-      } catch (error: any) {
-            logger.error(`[Reactivación] Error al verificar vehículo ${archivedVehicle.asofix_id}: ${error.message}`);
           }
-        }
 
-        if (reactivatedCount > 0) {
-          logger.info(`[Reactivación] ${reactivatedCount} vehículos reactivados exitosamente.`);
-          onProgress?.('fase1', `✅ Fase 1.3 completada: ${reactivatedCount} vehículos reactivados.`, { 
-          current: fase1Processed, 
-            total: fase1Processed, 
-            percentage: 94 
-          });
+          if (reactivatedCount > 0) {
+            logger.info(`[Reactivación] ${reactivatedCount} vehículos reactivados exitosamente.`);
+            onProgress?.('fase1', `✅ Fase 1.3 completada: ${reactivatedCount} vehículos reactivados.`, { 
+            current: fase1Processed, 
+              total: fase1Processed, 
+              percentage: 94 
+            });
+          } else {
+            onProgress?.('fase1', `✅ Fase 1.3 completada: no se encontraron vehículos para reactivar.`, { 
+              current: fase1Processed, 
+              total: fase1Processed, 
+              percentage: 94 
+            });
+          }
         } else {
-          onProgress?.('fase1', `✅ Fase 1.3 completada: no se encontraron vehículos para reactivar.`, { 
+          logger.info(`[Reactivación] No se encontraron vehículos archivados para verificar.`);
+          onProgress?.('fase1', `✅ Fase 1.3 completada: no hay vehículos archivados para verificar.`, { 
             current: fase1Processed, 
             total: fase1Processed, 
             percentage: 94 
           });
         }
-      } else {
-        logger.info(`[Reactivación] No se encontraron vehículos archivados para verificar.`);
-        onProgress?.('fase1', `✅ Fase 1.3 completada: no hay vehículos archivados para verificar.`, { 
+      } catch (error: any) {
+        logger.error(`[Reactivación] Error en fase de reactivación: ${error.message}`);
+        onProgress?.('fase1', `❌ Error en fase de reactivación: ${error.message}`, { 
           current: fase1Processed, 
           total: fase1Processed, 
           percentage: 94 
         });
       }
-    } catch (error: any) {
-      logger.error(`[Reactivación] Error en fase de reactivación: ${error.message}`);
-      onProgress?.('fase1', `❌ Error en fase de reactivación: ${error.message}`, { 
+    } else {
+      onProgress?.('fase1', `⏭️  Fase 1.3 ya completada (reanudación).`, { 
         current: fase1Processed, 
         total: fase1Processed, 
         percentage: 94 
@@ -1184,185 +2145,266 @@ class SyncService {
       percentage: 96 
     });
 
-    logger.info(`[Cleanup] Vehículos válidos detectados en esta sincronización: ${validVehicleIds.size}`);
+    if (isSkipped('cleanup')) {
+      onProgress?.('fase1', `⏭️  Limpieza global omitida (no incluida en esta sincronización).`, { 
+        current: fase1Processed, 
+        total: fase1Processed, 
+        percentage: 98 
+      });
+    } else if (fetchFailed && shouldRun('cleanup')) {
+      // Con páginas faltantes, los vehículos de esas páginas parecerían dados de baja
+      logger.warn('[Cleanup] Omitida: la Fase 1.1 no obtuvo el catálogo completo de la fuente');
+      onProgress?.('fase1', `⚠️  Limpieza global omitida: no se obtuvo el catálogo completo (error en la página ${currentPage}).`, { 
+        current: fase1Processed, 
+        total: fase1Processed, 
+        percentage: 98 
+      });
+    } else if (shouldRun('cleanup')) {
+      await saveCheckpoint('cleanup');
 
-    try {
-      if (validVehicleIds.size > 0) {
-        // Construir lista de IDs válidos para la query SQL
-        const validIdsArray = Array.from(validVehicleIds);
-        const placeholders = validIdsArray.map(() => '?').join(',');
-
-        // Buscar vehículos publicados que NO están en el Set de válidos
-        // NO excluir por fecha - los vehículos pueden cambiar de estado constantemente
-        // Equivalente a la query que busca posts publicados en cleanup_phase_cron() del PHP
-        const [publishedVehicles] = await pool.execute<any[]>(
-          `SELECT id, asofix_id, title, updated_at, additional_data
-           FROM vehicles 
-           WHERE status = 'published'
-             AND asofix_id NOT IN (${placeholders})
-           LIMIT 10000`,
-          validIdsArray
-        );
+      logger.info(`[Cleanup] Vehículos válidos detectados en esta sincronización: ${validVehicleIds.size}`);
 
-        if (publishedVehicles.length > 0) {
-          logger.info(`[Cleanup] Encontrados ${publishedVehicles.length} vehículos publicados que no están en el set de válidos. Verificando antes de archivar...`);
-          logger.info(`[Cleanup] IDs de vehículos a verificar: ${publishedVehicles.map(v => v.asofix_id).join(', ')}`);
+      try {
+        if (validVehicleIds.size > 0) {
+          // Esta limpieza reemplaza a los archivados retenidos de syncs anteriores de la misma fuente
+          if (!plan) {
+            await this.supersedeArchiveReviews(source.name, syncLogId);
+          }
 
-          for (const vehicle of publishedVehicles) {
-            try {
-              logger.info(`[Cleanup] Verificando vehículo ${vehicle.asofix_id} (${vehicle.title})...`);
-              
-              // Obtener datos completos del vehículo de la BD para verificar license_plate
-              const [vehicleRows] = await pool.execute<any[]>(
-                'SELECT license_plate, additional_data FROM vehicles WHERE id = ?',
-                [vehicle.id]
-              );
-
-              const licensePlate = vehicleRows[0]?.license_plate;
-              let shouldArchive = true;
-              let verificationReason = 'no_encontrado_en_api';
+          // Construir lista de IDs válidos para la query SQL
+          const validIdsArray = Array.from(validVehicleIds);
+          const placeholders = validIdsArray.map(() => '?').join(',');
+
+          // Buscar vehículos publicados que NO están en el Set de válidos
+          // NO excluir por fecha - los vehículos pueden cambiar de estado constantemente
+          // Equivalente a la query que busca posts publicados en cleanup_phase_cron() del PHP
+          const [publishedVehicles] = await pool.execute<any[]>(
+            `SELECT id, asofix_id, title, updated_at, additional_data
+             FROM vehicles 
+             WHERE status = 'published'
+               AND source = ?
+               AND asofix_id NOT IN (${placeholders})
+             LIMIT 10000`,
+            [source.name, ...validIdsArray]
+          );
+
+          if (publishedVehicles.length > 0) {
+            logger.info(`[Cleanup] Encontrados ${publishedVehicles.length} vehículos publicados que no están en el set de válidos. Verificando antes de archivar...`);
+            logger.info(`[Cleanup] IDs de vehículos a verificar: ${publishedVehicles.map(v => v.asofix_id).join(', ')}`);
+
+            // Primero se verifican todos: el circuit breaker decide sobre el total antes de archivar
+            const archiveCandidates: ArchiveCandidate[] = [];
+
+            for (const vehicle of publishedVehicles) {
+              // En dry-run los archivados de la Fase 1.2 siguen publicados en BD: no volver a verificarlos
+              if (plan?.has('archive', vehicle.asofix_id)) {
+                continue;
+              }
+
+              try {
+                logger.info(`[Cleanup] Verificando vehículo ${vehicle.asofix_id} (${vehicle.title})...`);
               
-              logger.info(`[Cleanup] Vehículo ${vehicle.asofix_id} tiene license_plate: ${licensePlate || 'NULL'}`);
+                // Obtener datos completos del vehículo de la BD para verificar license_plate
+                const [vehicleRows] = await pool.execute<any[]>(
+                  'SELECT license_plate, additional_data FROM vehicles WHERE id = ?',
+                  [vehicle.id]
+                );
+
+                const licensePlate = vehicleRows[0]?.license_plate;
+                let shouldArchive = true;
+                let verificationReason = 'no_encontrado_en_api';
               
-              // Verificar si tiene flag de mantener publicado
-              let additionalData: any = {};
-              try {
-                additionalData = vehicleRows[0]?.additional_data ? JSON.parse(vehicleRows[0].additional_data) : {};
-              } catch (e) {
-                // Si hay error parseando, usar objeto vacío
-              }
+                logger.info(`[Cleanup] Vehículo ${vehicle.asofix_id} tiene license_plate: ${licensePlate || 'NULL'}`);
               
-              // Si tiene flag keep_published, NO archivar (solo para casos especiales)
-              if (additionalData.keep_published === true) {
-                shouldArchive = false;
-                verificationReason = 'keep_published_flag';
-                validVehicleIds.add(vehicle.asofix_id);
-                logger.info(`[Cleanup] Vehículo ${vehicle.asofix_id} tiene flag keep_published - NO se archiva`);
-                continue; // Saltar al siguiente vehículo
-              }
+                // Si tiene override force_publish vigente, NO archivar (ni contarlo para el circuit breaker)
+                if (await VehicleOverrides.isForcePublished(vehicle.id)) {
+                  validVehicleIds.add(vehicle.asofix_id);
+                  logger.info(`[Cleanup] Vehículo ${vehicle.asofix_id} tiene override force_publish - NO se archiva`);
+                  continue; // Saltar al siguiente vehículo
+                }
               
-              // NO proteger vehículos por fecha - pueden cambiar de estado constantemente
-              // Verificar directamente en la API si el vehículo debe estar publicado
-
-              // ANTES de archivar, verificar si el vehículo existe en la API y pasa los filtros
-              if (licensePlate && licensePlate.trim().length > 0) {
-                try {
-                  logger.info(`[Cleanup] Buscando vehículo ${vehicle.asofix_id} en API por license_plate: ${licensePlate}...`);
-                  const apiVehicle = await asofixApi.getVehicleByLicensePlate(licensePlate);
+                // NO proteger vehículos por fecha - pueden cambiar de estado constantemente
+                // Verificar directamente en la API si el vehículo debe estar publicado
+
+                // ANTES de archivar, verificar si el vehículo existe en la API y pasa los filtros
+                if (licensePlate && licensePlate.trim().length > 0) {
+                  try {
+                    logger.info(`[Cleanup] Buscando vehículo ${vehicle.asofix_id} en API por license_plate: ${licensePlate}...`);
+                    const apiVehicle = await findAsofixVehicle(vehicle.asofix_id, licensePlate);
                   
-                  if (apiVehicle) {
-                    // Verificar que el ID coincida exactamente
-                    if (apiVehicle.id === vehicle.asofix_id) {
-                      // Vehículo encontrado en la API con ID coincidente
-                      // CRÍTICO: Verificar el estado ACTUAL del vehículo, no solo si pasa filtros
-                      // Verificar si tiene stock ACTIVO (no reservado/eliminado)
-                      const activeStock = apiVehicle.stocks?.find(
-                        stock => stock.status && stock.status.toUpperCase() === 'ACTIVO'
-                      );
+                    if (apiVehicle) {
+                      // Verificar que el ID coincida exactamente
+                      if (apiVehicle.id === vehicle.asofix_id) {
+                        // Vehículo encontrado en la API con ID coincidente
+                        // CRÍTICO: Verificar el estado ACTUAL del vehículo, no solo si pasa filtros
+                        // Verificar si tiene stock ACTIVO (no reservado/eliminado)
+                        const activeStock = apiVehicle.stocks?.find(
+                          stock => stock.status && stock.status.toUpperCase() === 'ACTIVO'
+                        );
                       
-                      if (!activeStock) {
-                        // El vehículo está en la API pero NO tiene stock activo (reservado/eliminado) - archivar
-                        shouldArchive = true;
-                        verificationReason = 'no_tiene_stock_activo_en_api';
-                        logger.warn(`[Cleanup] Vehículo ${vehicle.asofix_id} (${vehicle.title}) encontrado en API pero sin stock activo - archivando`);
-                      } else {
-                        // Tiene stock activo, verificar si pasa los filtros
-                        const { omit, reason } = VehicleFilters.shouldOmitVehicle(apiVehicle);
-                        
-                        if (!omit) {
-                          // El vehículo existe en la API, tiene stock activo y pasa los filtros - NO archivar
-                          shouldArchive = false;
-                          verificationReason = 'valido_en_api_con_stock_activo';
-                          // Agregarlo al Set de válidos para evitar futuros archivados
-                          validVehicleIds.add(vehicle.asofix_id);
-                          logger.info(`[Cleanup] Vehículo ${vehicle.asofix_id} (${vehicle.title}) encontrado en API con stock activo y válido - NO se archiva`);
-                        } else {
-                          // El vehículo existe en la API pero NO pasa los filtros - archivar
+                        if (!activeStock) {
+                          // El vehículo está en la API pero NO tiene stock activo (reservado/eliminado) - archivar
                           shouldArchive = true;
-                          verificationReason = `filtrado_en_api: ${reason}`;
-                          logger.warn(`[Cleanup] Vehículo ${vehicle.asofix_id} (${vehicle.title}) encontrado en API pero filtrado: ${reason} - archivando`);
+                          verificationReason = 'no_tiene_stock_activo_en_api';
+                          logger.warn(`[Cleanup] Vehículo ${vehicle.asofix_id} (${vehicle.title}) encontrado en API pero sin stock activo - archivando`);
+                        } else {
+                          // Tiene stock activo, verificar si pasa los filtros
+                          const { omit, reason } = VehicleFilters.shouldOmitVehicle(apiVehicle);
+                        
+                          if (!omit) {
+                            // El vehículo existe en la API, tiene stock activo y pasa los filtros - NO archivar
+                            shouldArchive = false;
+                            verificationReason = 'valido_en_api_con_stock_activo';
+                            // Agregarlo al Set de válidos para evitar futuros archivados
+                            validVehicleIds.add(vehicle.asofix_id);
+                            logger.info(`[Cleanup] Vehículo ${vehicle.asofix_id} (${vehicle.title}) encontrado en API con stock activo y válido - NO se archiva`);
+                          } else {
+                            // El vehículo existe en la API pero NO pasa los filtros - archivar
+                            shouldArchive = true;
+                            verificationReason = `filtrado_en_api: ${reason}`;
+                            logger.warn(`[Cleanup] Vehículo ${vehicle.asofix_id} (${vehicle.title}) encontrado en API pero filtrado: ${reason} - archivando`);
+                          }
                         }
+                      } else {
+                        // Vehículo encontrado pero con ID diferente - no es el mismo vehículo
+                        shouldArchive = true;
+                        verificationReason = `id_no_coincide: encontrado ${apiVehicle.id}, esperado ${vehicle.asofix_id}`;
+                        logger.warn(`[Cleanup] Vehículo con patente ${licensePlate} encontrado pero con ID diferente (${apiVehicle.id} vs ${vehicle.asofix_id}) - archivando`);
                       }
                     } else {
-                      // Vehículo encontrado pero con ID diferente - no es el mismo vehículo
+                      // Vehículo no encontrado en la API - archivar
                       shouldArchive = true;
-                      verificationReason = `id_no_coincide: encontrado ${apiVehicle.id}, esperado ${vehicle.asofix_id}`;
-                      logger.warn(`[Cleanup] Vehículo con patente ${licensePlate} encontrado pero con ID diferente (${apiVehicle.id} vs ${vehicle.asofix_id}) - archivando`);
+                      verificationReason = 'no_encontrado_en_api';
+                      logger.warn(`[Cleanup] Vehículo ${vehicle.asofix_id} (${vehicle.title}) no encontrado en API - archivando`);
                     }
-                  } else {
-                    // Vehículo no encontrado en la API - archivar
-                    shouldArchive = true;
-                    verificationReason = 'no_encontrado_en_api';
-                    logger.warn(`[Cleanup] Vehículo ${vehicle.asofix_id} (${vehicle.title}) no encontrado en API - archivando`);
+                  } catch (apiError: any) {
+                    // Error al consultar la API - NO agregar al Set, pero tampoco archivar inmediatamente
+                    // En caso de error, ser conservador: NO archivar si no podemos verificar
+                    // Pero tampoco agregar al Set sin verificación
+                    shouldArchive = false; // Cambio: no archivar si hay error en verificación
+                    verificationReason = `error_consulta_api: ${apiError.message}`;
+                    logger.error(`[Cleanup] Error al verificar vehículo ${vehicle.asofix_id} en API: ${apiError.message} - NO se archiva por seguridad (error en verificación)`);
+                    // NO agregar al Set si hay error - la próxima sync lo verificará nuevamente
                   }
-                } catch (apiError: any) {
-                  // Error al consultar la API - NO agregar al Set, pero tampoco archivar inmediatamente
-                  // En caso de error, ser conservador: NO archivar si no podemos verificar
-                  // Pero tampoco agregar al Set sin verificación
-                  shouldArchive = false; // Cambio: no archivar si hay error en verificación
-                  verificationReason = `error_consulta_api: ${apiError.message}`;
-                  logger.error(`[Cleanup] Error al verificar vehículo ${vehicle.asofix_id} en API: ${apiError.message} - NO se archiva por seguridad (error en verificación)`);
-                  // NO agregar al Set si hay error - la próxima sync lo verificará nuevamente
+                } else {
+                  // Sin license_plate - no se puede verificar en API
+                  // NO archivar sin verificación - podría ser un vehículo válido sin patente
+                  shouldArchive = false;
+                  verificationReason = 'sin_license_plate';
+                  logger.warn(`[Cleanup] Vehículo ${vehicle.asofix_id} (${vehicle.title}) sin license_plate - no se puede verificar en API - NO se archiva por seguridad`);
+                  // NO agregar al Set sin verificación
                 }
-              } else {
-                // Sin license_plate - no se puede verificar en API
-                // NO archivar sin verificación - podría ser un vehículo válido sin patente
-                shouldArchive = false;
-                verificationReason = 'sin_license_plate';
-                logger.warn(`[Cleanup] Vehículo ${vehicle.asofix_id} (${vehicle.title}) sin license_plate - no se puede verificar en API - NO se archiva por seguridad`);
-                // NO agregar al Set sin verificación
+
+                if (shouldArchive) {
+                  archiveCandidates.push({
+                    vehicle_id: vehicle.id,
+                    asofix_id: vehicle.asofix_id,
+                    title: vehicle.title || null,
+                    reason: verificationReason
+                  });
+                }
+              } catch (error: any) {
+                logger.error(`[Cleanup] Error al procesar vehículo ${vehicle.asofix_id}: ${error.message}`);
               }
+            }
 
-              if (shouldArchive) {
-                // Obtener additional_data actual para preservar y agregar motivo de archivado
-                let additionalData: any = {};
+            const [publishedCountRows] = await pool.execute<any[]>(
+              `SELECT COUNT(*) AS total FROM vehicles WHERE status = 'published' AND source = ?`,
+              [source.name]
+            );
+            const publishedCount = Number(publishedCountRows[0]?.total || 0);
+            const tripReason = ArchiveGuard.check(archiveCandidates.length, publishedCount);
+
+            if (tripReason) {
+              archiveReview = {
+                status: 'pending',
+                source: source.name,
+                reason: tripReason,
+                candidates_count: archiveCandidates.length,
+                published_count: publishedCount,
+                ...ArchiveGuard.getLimits(),
+                candidates: archiveCandidates,
+                status_after_review: 'completed',
+                created_at: new Date().toISOString()
+              };
+
+              if (plan) {
+                plan.archiveReview = archiveReview;
+              } else if (syncLogId) {
+                // Se guarda antes del checkpoint de Fase 2: si el proceso se corta, la reanudación la recupera
                 try {
-                  additionalData = vehicleRows[0]?.additional_data ? JSON.parse(vehicleRows[0].additional_data) : {};
-              } catch (e) {
-                // Si hay error parseando, usar objeto vacío
+                  await SyncLogger.saveArchiveReview(syncLogId, archiveReview);
+                } catch (error: any) {
+                  logger.error(`[Cleanup] No se pudo guardar la revisión de archivado de la sync ${syncLogId}: ${error.message}`);
+                }
+                await ArchiveGuard.notify(syncLogId, archiveReview);
               }
+              logger.warn(`[Cleanup] Circuit breaker activado: ${tripReason}. No se archiva ningún vehículo hasta revisar.`);
+              onProgress?.('fase1', `🛑 Limpieza global retenida: ${tripReason}. Requiere revisión.`, { 
+                current: fase1Processed, 
+                total: fase1Processed, 
+                percentage: 98 
+              });
+            } else {
+              for (const candidate of archiveCandidates) {
+                try {
+                  // Preservar additional_data y agregar motivo de archivado
+                  // (false si tiene override force_publish: no cuenta como archivado)
+                  const archived = await this.archiveVehicle(
+                    candidate.vehicle_id,
+                    candidate.asofix_id,
+                    'not_in_valid_set',
+                    `Limpieza global: ${candidate.reason}`,
+                    { syncLogId, plan },
+                    {
+                      extraData: {
+                        cleanup_verification: candidate.reason,
+                        archived_at: new Date().toISOString()
+                      }
+                    }
+                  );
 
-              additionalData.filter_reason = 'not_in_valid_set';
-                additionalData.cleanup_verification = verificationReason;
-              additionalData.archived_at = new Date().toISOString();
-
-              await pool.execute(
-                'UPDATE vehicles SET status = ?, additional_data = ?, updated_at = NOW() WHERE id = ?',
-                ['archived', JSON.stringify(additionalData), vehicle.id]
-              );
-
-              fase1Archived++;
-                logger.warn(`[Cleanup] Vehículo ${vehicle.asofix_id} (${vehicle.title}) archivado: ${verificationReason}`);
+                  if (archived) {
+                    fase1Archived++;
+                    logger.warn(`[Cleanup] Vehículo ${candidate.asofix_id} (${candidate.title}) archivado: ${candidate.reason}`);
+                  }
+                } catch (error: any) {
+                  logger.error(`[Cleanup] Error al archivar vehículo ${candidate.asofix_id}: ${error.message}`);
+                }
               }
-            } catch (error: any) {
-              logger.error(`[Cleanup] Error al procesar vehículo ${vehicle.asofix_id}: ${error.message}`);
+
+              onProgress?.('fase1', `🧹 Limpieza global completada: ${fase1Archived} vehículos archivados.`, { 
+                current: fase1Processed, 
+                total: fase1Processed, 
+                percentage: 98 
+              });
             }
+          } else {
+            logger.info(`[Cleanup] No se encontraron vehículos publicados para archivar.`);
+            onProgress?.('fase1', `✅ Limpieza global: no se encontraron vehículos para archivar.`, { 
+              current: fase1Processed, 
+              total: fase1Processed, 
+              percentage: 98 
+            });
           }
-
-          onProgress?.('fase1', `🧹 Limpieza global completada: ${fase1Archived} vehículos archivados.`, { 
-            current: fase1Processed, 
-            total: fase1Processed, 
-            percentage: 98 
-          });
         } else {
-          logger.info(`[Cleanup] No se encontraron vehículos publicados para archivar.`);
-          onProgress?.('fase1', `✅ Limpieza global: no se encontraron vehículos para archivar.`, { 
+          logger.warn(`[Cleanup] No se encontraron vehículos válidos en la sincronización. Saltando limpieza para evitar archivar todos los vehículos.`);
+          onProgress?.('fase1', `⚠️  Limpieza global omitida: no se encontraron vehículos válidos.`, { 
             current: fase1Processed, 
             total: fase1Processed, 
             percentage: 98 
           });
         }
-      } else {
-        logger.warn(`[Cleanup] No se encontraron vehículos válidos en la sincronización. Saltando limpieza para evitar archivar todos los vehículos.`);
-        onProgress?.('fase1', `⚠️  Limpieza global omitida: no se encontraron vehículos válidos.`, { 
+      } catch (error: any) {
+        logger.error(`[Cleanup] Error en fase de limpieza global: ${error.message}`);
+        onProgress?.('fase1', `❌ Error en limpieza global: ${error.message}`, { 
           current: fase1Processed, 
           total: fase1Processed, 
           percentage: 98 
         });
       }
-    } catch (error: any) {
-      logger.error(`[Cleanup] Error en fase de limpieza global: ${error.message}`);
-      onProgress?.('fase1', `❌ Error en limpieza global: ${error.message}`, { 
+    } else {
+      onProgress?.('fase1', `⏭️  Limpieza global ya completada (reanudación).`, { 
         current: fase1Processed, 
         total: fase1Processed, 
         percentage: 98 
@@ -1375,51 +2417,98 @@ class SyncService {
       percentage: 100 
     });
 
-    // ========== FASE 2: Descarga de Imágenes ==========
-    onProgress?.('fase2', '🖼️  Iniciando Fase 2: Descarga de imágenes...', { current: 0, total: 0, percentage: 0 });
+    // ========== Dry-run: devolver el plan sin descargar imágenes ni registrar en sync_logs ==========
+    if (plan) {
+      plan.fetched = allVehiclesFromAPI.length;
+      plan.filtered = fase1Filtered;
+      plan.errors = fase1Errors;
+      const report = plan.toReport();
+
+      onProgress?.('fase2', '⏭️  Fase 2 omitida (dry-run).', { current: 0, total: 0, percentage: 100 });
+      logger.info(`[Dry-run] Plan: ${report.totals.create} altas, ${report.totals.update} actualizaciones, ${report.totals.archive} archivados, ${report.totals.reactivate} reactivaciones`);
+
+      return {
+        fase1: {
+          processed: fase1Processed,
+          created: fase1Created,
+          updated: fase1Updated,
+          errors: fase1Errors,
+          filtered: fase1Filtered,
+          archived: fase1Archived
+        },
+        fase2: { processed: 0, created: 0, errors: 0 },
+        plan: report
+      };
+    }
 
+    // Vehículos sin cambios (no pasan por setVehicleMetadata) con un tipo de cambio viejo
+    // o sin convertir, ej. si entró en vigencia un tipo de cambio cargado con fecha futura
     try {
-      const pendingImages = await this.getPendingImages();
+      await ExchangeRates.renormalize();
+    } catch (error: any) {
+      logger.warn(`No se pudieron recalcular los precios normalizados: ${error.message}`);
+    }
 
-      if (pendingImages.length === 0) {
-        onProgress?.('fase2', '✅ No se encontraron imágenes pendientes.', { current: 0, total: 0, percentage: 100 });
-      } else {
-        onProgress?.('fase2', `📦 Se encontraron ${pendingImages.length} imágenes para descargar.`, { 
-          current: 0, 
-          total: pendingImages.length, 
-          percentage: 0 
-        });
+    // ========== FASE 2: Descarga de Imágenes ==========
+    if (isSkipped('fase2')) {
+      onProgress?.('fase2', '⏭️  Fase 2 omitida (no incluida en esta sincronización).', { current: 0, total: 0, percentage: 100 });
+    } else {
+      // pending_images actúa como checkpoint: las imágenes descargadas ya no están en la tabla
+      await saveCheckpoint('fase2');
+      onProgress?.('fase2', '🖼️  Iniciando Fase 2: Descarga de imágenes...', { current: 0, total: 0, percentage: 0 });
 
-        const imageResult = await this.downloadAllImages(
-          (message, progress) => {
-            onProgress?.('fase2', message, progress);
-          },
-          delay
-        );
+      try {
+        const pendingImages = await this.getPendingImages();
+
+        if (pendingImages.length === 0) {
+          onProgress?.('fase2', '✅ No se encontraron imágenes pendientes.', { current: 0, total: 0, percentage: 100 });
+        } else {
+          onProgress?.('fase2', `📦 Se encontraron ${pendingImages.length} imágenes para descargar.`, { 
+            current: 0, 
+            total: pendingImages.length, 
+            percentage: 0 
+          });
+
+          const imageResult = await this.downloadAllImages(
+            (message, progress) => {
+              onProgress?.('fase2', message, progress);
+            },
+            delay
+          );
         
-        fase2Processed = imageResult.processed;
-        fase2Created = imageResult.created;
-        fase2Errors = imageResult.errors;
-
-        onProgress?.('fase2', `🎉 Fase 2 completada. ${fase2Processed} imágenes descargadas (${fase2Created} nuevas), ${fase2Errors} errores.`, { 
-          current: pendingImages.length, 
-          total: pendingImages.length, 
-          percentage: 100 
+          fase2Processed = imageResult.processed;
+          fase2Created = imageResult.created;
+          fase2Errors = imageResult.errors;
+
+          onProgress?.('fase2', `🎉 Fase 2 completada. ${fase2Processed} imágenes descargadas (${fase2Created} nuevas), ${fase2Errors} errores.`, { 
+            current: pendingImages.length, 
+            total: pendingImages.length, 
+            percentage: 100 
+          });
+        }
+      } catch (error: any) {
+        onProgress?.('fase2', `❌ Error fatal en Fase 2: ${error.message}`, { 
+          current: fase2Processed, 
+          total: fase2Processed, 
+          percentage: 0 
         });
+        fase2Errors++;
       }
-    } catch (error: any) {
-      onProgress?.('fase2', `❌ Error fatal en Fase 2: ${error.message}`, { 
-        current: fase2Processed, 
-        total: fase2Processed, 
-        percentage: 0 
-      });
-      fase2Errors++;
     }
 
     // Registrar finalización en sync_logs
     try {
-      const { SyncLogger } = await import('./sync-logger');
-      if (fase1Errors === 0 && fase2Errors === 0) {
+      if (archiveReview) {
+        archiveReview.status_after_review = fase1Errors === 0 && fase2Errors === 0 ? 'completed' : 'failed';
+        await SyncLogger.logSyncNeedsReview(syncLogId, archiveReview, {
+          vehicles_processed: fase1Processed,
+          vehicles_created: fase1Created,
+          vehicles_updated: fase1Updated,
+          images_processed: fase2Processed,
+          images_created: fase2Created,
+          errors_count: fase1Errors + fase2Errors
+        });
+      } else if (fase1Errors === 0 && fase2Errors === 0) {
         await SyncLogger.logSyncComplete(syncLogId, {
           vehicles_processed: fase1Processed,
           vehicles_created: fase1Created,
@@ -1451,7 +2540,8 @@ class SyncService {
         filtered: fase1Filtered,
         archived: fase1Archived
       },
-      fase2: { processed: fase2Processed, created: fase2Created, errors: fase2Errors }
+      fase2: { processed: fase2Processed, created: fase2Created, errors: fase2Errors },
+      ...(archiveReview ? { archive_review: archiveReview } : {})
     };
   }
 }
@@ -0,0 +1,644 @@
+import pool from '../config/database';
+import logger from './logger';
+import syncService from './sync-service';
+import { AsofixVehicle } from './asofix-api';
+import { AsofixSnapshot } from './asofix-snapshot';
+import { SyncLock, SyncInProgressError } from './sync-lock';
+import { SyncLogger } from './sync-logger';
+import { ArchiveGuard, ArchiveReview } from './archive-guard';
+import { asofixInventorySource } from './inventory-source';
+
+/**
+ * Espera desde la última notificación antes de procesar (agrupa ráfagas en un solo recorrido)
+ */
+const WEBHOOK_DEBOUNCE_MS = parseInt(process.env.SYNC_WEBHOOK_DEBOUNCE_MS || '5000', 10);
+
+/**
+ * Espera máxima desde la primera notificación pendiente, aunque sigan llegando otras
+ */
+const WEBHOOK_MAX_WAIT_MS = parseInt(process.env.SYNC_WEBHOOK_MAX_WAIT_MS || '30000', 10);
+
+/**
+ * Vehículos distintos que puede haber en cola; por encima se responde 429
+ */
+const WEBHOOK_QUEUE_LIMIT = parseInt(process.env.SYNC_WEBHOOK_QUEUE_LIMIT || '200', 10);
+
+/**
+ * Vehículos que acepta una sola notificación
+ */
+const WEBHOOK_MAX_TARGETS = parseInt(process.env.SYNC_WEBHOOK_MAX_TARGETS || '50', 10);
+
+/**
+ * Reintento de un lote que no se pudo procesar (sync en curso o ASOFIX no respondió)
+ */
+const WEBHOOK_RETRY_MS = parseInt(process.env.SYNC_WEBHOOK_RETRY_SECONDS || '60', 10) * 1000;
+
+/**
+ * Veces que se reintenta un vehículo antes de descartarlo de la cola
+ */
+const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.SYNC_WEBHOOK_MAX_ATTEMPTS || '5', 10);
+
+/**
+ * Antigüedad máxima del snapshot de ASOFIX que reutilizan los lotes: como mucho un recorrido
+ * completo del catálogo por período, aunque las notificaciones lleguen cada pocos segundos
+ */
+const WEBHOOK_SNAPSHOT_MAX_AGE_SECONDS = parseInt(process.env.SYNC_WEBHOOK_SNAPSHOT_MAX_AGE_SECONDS || '60', 10);
+
+/**
+ * Ventana en la que los archivados del webhook se suman contra el circuit breaker (ArchiveGuard)
+ */
+const WEBHOOK_ARCHIVE_WINDOW_MS = parseInt(process.env.SYNC_WEBHOOK_ARCHIVE_WINDOW_MINUTES || '60', 10) * 60 * 1000;
+
+/**
+ * Lotes procesados que se conservan en memoria para GET /sync/webhook
+ */
+const WEBHOOK_HISTORY = 20;
+
+export type SyncWebhookTargetType = 'id' | 'license_plate';
+
+export interface SyncWebhookTarget {
+  type: SyncWebhookTargetType;
+  value: string;
+}
+
+export type SyncWebhookOutcome =
+  | 'created'
+  | 'updated'
+  | 'unchanged'
+  | 'filtered'
+  | 'archived'
+  | 'needs_review'
+  | 'quarantined'
+  | 'not_found'
+  | 'error';
+
+export interface SyncWebhookTargetResult extends SyncWebhookTarget {
+  outcome: SyncWebhookOutcome;
+  asofix_id: string | null;
+  vehicle_id: number | null;
+  message: string;
+}
+
+export interface SyncWebhookBatch {
+  id: number;
+  started_at: Date;
+  finished_at: Date | null;
+  targets: number;
+  /**
+   * Vehículos notificados después de empezar a leer el snapshot: vuelven a la cola hasta el próximo
+   */
+  deferred: number;
+  results: SyncWebhookTargetResult[];
+  images: { processed: number; created: number; errors: number } | null;
+  /**
+   * Motivo por el que el lote volvió a la cola (sync en curso, ASOFIX no respondió)
+   */
+  error: string | null;
+}
+
+interface QueuedTarget extends SyncWebhookTarget {
+  first_received_at: Date;
+  last_received_at: Date;
+  notifications: number;
+  attempts: number;
+}
+
+interface ExistingVehicle {
+  id: number;
+  asofix_id: string;
+  title: string | null;
+  status: string;
+}
+
+/**
+ * Vehículo publicado que ya no está en el catálogo, con las notificaciones que lo apuntan
+ */
+interface MissingVehicle extends ExistingVehicle {
+  targets: SyncWebhookTarget[];
+}
+
+/**
+ * Notificación inválida (400) o cola llena (429)
+ */
+export class SyncWebhookError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'SyncWebhookError';
+  }
+}
+
+/**
+ * Error que devuelve el lote a la cola para reintentarlo más tarde
+ */
+class RetryableBatchError extends Error {}
+
+function targetKey(target: SyncWebhookTarget): string {
+  return `${target.type}:${target.value}`;
+}
+
+function toText(value: unknown): string | null {
+  if (typeof value === 'number' && isFinite(value)) return String(value);
+  if (typeof value === 'string' && value.trim().length > 0) return value.trim();
+  return null;
+}
+
+/**
+ * Notificaciones de cambios de stock (POST /sync/webhook)
+ * En lugar de esperar al recorrido horario, ASOFIX o cualquier sistema interno avisa qué
+ * vehículos cambiaron (id de ASOFIX o patente). Las notificaciones se agrupan (debounce) en
+ * una cola chica y deduplicada. La API no permite pedir un vehículo suelto, así que los lotes
+ * buscan los vehículos en el snapshot del catálogo (AsofixSnapshot), que se vuelve a leer como
+ * mucho cada SYNC_WEBHOOK_SNAPSHOT_MAX_AGE_SECONDS. Solo se procesan los vehículos notificados
+ * antes de empezar a leer el snapshot (sus datos ya reflejan el cambio, y si faltan es porque salieron
+ * del catálogo); los demás esperan al próximo. Cada vehículo pasa por processVehicle con el lock
+ * de sincronización tomado, y los que ya no están en el catálogo se archivan detrás del mismo
+ * circuit breaker que la limpieza global (ArchiveGuard).
+ */
+export class SyncWebhook {
+  private static pending = new Map<string, QueuedTarget>();
+  private static timer: NodeJS.Timeout | null = null;
+  private static nextRunAt: Date | null = null;
+  /**
+   * Antes de este momento (ms) no se arma un lote: el snapshot vigente no cubre lo que está en cola
+   */
+  private static notBefore = 0;
+  private static processing: SyncWebhookBatch | null = null;
+  private static batches: SyncWebhookBatch[] = [];
+  private static batchSeq = 0;
+  private static received = 0;
+  /**
+   * Momentos (ms) de los archivados hechos por el webhook dentro de la ventana
+   */
+  private static recentArchives: number[] = [];
+
+  /**
+   * Vehículos de una notificación. Acepta:
+   * - { "id": 1003 } o { "license_plate": "AB123CD" } (también "plate")
+   * - { "ids": [...], "license_plates": [...] } (también "plates")
+   * - { "vehicles": [{ "id": ... }, { "license_plate": ... }] } o directamente esa lista
+   * @throws SyncWebhookError si no trae ningún vehículo o trae demasiados
+   */
+  static parseTargets(body: unknown): SyncWebhookTarget[] {
+    const targets: SyncWebhookTarget[] = [];
+    const add = (type: SyncWebhookTargetType, value: unknown) => {
+      const text = toText(value);
+      if (!text) return;
+      const normalized = type === 'license_plate' ? AsofixSnapshot.normalizeLicensePlate(text) : text;
+      if (normalized && !targets.some(target => target.type === type && target.value === normalized)) {
+        targets.push({ type, value: normalized });
+      }
+    };
+    const addItem = (item: any) => {
+      if (!item || typeof item !== 'object') return;
+      add('id', item.id);
+      add('license_plate', item.license_plate ?? item.plate);
+    };
+
+    if (Array.isArray(body)) {
+      body.forEach(addItem);
+    } else if (body && typeof body === 'object') {
+      const payload = body as Record<string, any>;
+      addItem(payload);
+      for (const id of Array.isArray(payload.ids) ? payload.ids : []) add('id', id);
+      for (const plate of Array.isArray(payload.license_plates) ? payload.license_plates : []) add('license_plate', plate);
+      for (const plate of Array.isArray(payload.plates) ? payload.plates : []) add('license_plate', plate);
+      if (Array.isArray(payload.vehicles)) payload.vehicles.forEach(addItem);
+    }
+
+    if (targets.length === 0) {
+      throw new SyncWebhookError('La notificación no indica ningún vehículo (id, license_plate, ids, license_plates o vehicles)');
+    }
+    if (targets.length > WEBHOOK_MAX_TARGETS) {
+      throw new SyncWebhookError(`La notificación trae ${targets.length} vehículos (máximo ${WEBHOOK_MAX_TARGETS}); para más usar /sync/manual`);
+    }
+    return targets;
+  }
+
+  /**
+   * Agrega los vehículos a la cola (los que ya estaban no se duplican) y programa el lote
+   * @throws SyncWebhookError 429 si la cola está llena
+   */
+  static enqueue(targets: SyncWebhookTarget[]): { accepted: number; queued: number; next_run_at: Date | null } {
+    const newTargets = targets.filter(target => !this.pending.has(targetKey(target)));
+    if (this.pending.size + newTargets.length > WEBHOOK_QUEUE_LIMIT) {
+      throw new SyncWebhookError(`Cola de notificaciones llena (${this.pending.size}/${WEBHOOK_QUEUE_LIMIT}); reintentar más tarde`, 429);
+    }
+
+    const now = new Date();
+    for (const target of targets) {
+      const queued = this.pending.get(targetKey(target));
+      if (queued) {
+        queued.notifications++;
+        queued.last_received_at = now;
+      } else {
+        this.pending.set(targetKey(target), {
+          ...target,
+          first_received_at: now,
+          last_received_at: now,
+          notifications: 1,
+          attempts: 0
+        });
+      }
+    }
+    this.received++;
+
+    this.schedule(WEBHOOK_DEBOUNCE_MS);
+    return { accepted: targets.length, queued: this.pending.size, next_run_at: this.nextRunAt };
+  }
+
+  /**
+   * Estado de la cola y últimos lotes procesados
+   */
+  static getStatus() {
+    return {
+      notifications_received: this.received,
+      queued: Array.from(this.pending.values()),
+      next_run_at: this.nextRunAt,
+      processing: this.processing,
+      recent_batches: this.batches,
+      config: {
+        debounce_ms: WEBHOOK_DEBOUNCE_MS,
+        max_wait_ms: WEBHOOK_MAX_WAIT_MS,
+        queue_limit: WEBHOOK_QUEUE_LIMIT,
+        max_targets: WEBHOOK_MAX_TARGETS,
+        retry_ms: WEBHOOK_RETRY_MS,
+        max_attempts: WEBHOOK_MAX_ATTEMPTS,
+        archive_window_minutes: WEBHOOK_ARCHIVE_WINDOW_MS / 60000,
+        snapshot_max_age_seconds: WEBHOOK_SNAPSHOT_MAX_AGE_SECONDS
+      }
+    };
+  }
+
+  /**
+   * Programa el próximo lote: debounce desde la última notificación, sin pasar la espera máxima
+   * desde la más vieja en cola (salvo que haya que esperar un snapshot nuevo).
+   * Si hay un lote corriendo, se programa al terminar
+   */
+  private static schedule(delayMs: number): void {
+    if (this.processing || this.pending.size === 0) return;
+
+    const now = Date.now();
+    const oldest = Math.min(...Array.from(this.pending.values()).map(target => target.first_received_at.getTime()));
+    const delay = Math.max(0, Math.min(delayMs, oldest + WEBHOOK_MAX_WAIT_MS - now), this.notBefore - now);
+
+    if (this.timer) clearTimeout(this.timer);
+    this.nextRunAt = new Date(Date.now() + delay);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.nextRunAt = null;
+      this.flush().catch((error: any) => {
+        logger.error(`[Webhook] Error inesperado al procesar la cola: ${error.message}`);
+      });
+    }, delay);
+    this.timer.unref();
+  }
+
+  /**
+   * Procesa todo lo que hay en cola como un lote
+   */
+  private static async flush(): Promise<void> {
+    if (this.processing || this.pending.size === 0) return;
+
+    const queued = Array.from(this.pending.values());
+    this.pending.clear();
+
+    const batch: SyncWebhookBatch = {
+      id: ++this.batchSeq,
+      started_at: new Date(),
+      finished_at: null,
+      targets: queued.length,
+      deferred: 0,
+      results: [],
+      images: null,
+      error: null
+    };
+    this.processing = batch;
+    let retryDelay = WEBHOOK_DEBOUNCE_MS;
+
+    try {
+      await this.processBatch(batch, queued);
+    } catch (error: any) {
+      batch.error = error.message;
+      if (error instanceof RetryableBatchError) {
+        this.requeue(queued);
+        retryDelay = WEBHOOK_RETRY_MS;
+        logger.warn(`[Webhook] Lote ${batch.id} pospuesto ${Math.round(WEBHOOK_RETRY_MS / 1000)}s: ${error.message}`);
+      } else {
+        logger.error(`[Webhook] Error en el lote ${batch.id}: ${error.message}`);
+      }
+    } finally {
+      batch.finished_at = new Date();
+      this.batches = [batch, ...this.batches].slice(0, WEBHOOK_HISTORY);
+      this.processing = null;
+      this.schedule(retryDelay);
+    }
+  }
+
+  /**
+   * Devuelve a la cola los vehículos de un lote que no se pudo procesar
+   * (sumando las notificaciones que llegaron mientras tanto); descarta los que agotaron los intentos
+   */
+  private static requeue(queued: QueuedTarget[]): void {
+    for (const target of queued) {
+      const attempts = target.attempts + 1;
+      if (attempts >= WEBHOOK_MAX_ATTEMPTS) {
+        logger.error(`[Webhook] Se descarta ${target.type} ${target.value} después de ${attempts} intentos (lo toma la próxima sincronización)`);
+        continue;
+      }
+      this.restore(target, attempts);
+    }
+  }
+
+  /**
+   * Devuelve a la cola, sin contar un intento, los vehículos que el snapshot vigente no cubre;
+   * el próximo lote corre cuando el snapshot vence
+   */
+  private static defer(queued: QueuedTarget[], snapshot: AsofixSnapshot): void {
+    for (const target of queued) {
+      this.restore(target, target.attempts);
+    }
+    this.notBefore = snapshot.builtAt.getTime() + WEBHOOK_SNAPSHOT_MAX_AGE_SECONDS * 1000;
+  }
+
+  /**
+   * Vuelve a poner un vehículo en la cola sumando las notificaciones que llegaron mientras tanto
+   */
+  private static restore(target: QueuedTarget, attempts: number): void {
+    const current = this.pending.get(targetKey(target));
+    this.pending.set(targetKey(target), {
+      ...target,
+      attempts,
+      last_received_at: current?.last_received_at ?? target.last_received_at,
+      notifications: target.notifications + (current?.notifications || 0)
+    });
+  }
+
+  private static async processBatch(batch: SyncWebhookBatch, queued: QueuedTarget[]): Promise<void> {
+    logger.info(`[Webhook] 📬 Lote ${batch.id}: ${queued.map(target => `${target.type} ${target.value}`).join(', ')}`);
+
+    // Catálogo (fuera del lock: no escribe en BD): el snapshot vigente si no venció, o uno nuevo
+    let snapshot: AsofixSnapshot;
+    try {
+      snapshot = await AsofixSnapshot.get(WEBHOOK_SNAPSHOT_MAX_AGE_SECONDS);
+    } catch (error: any) {
+      throw new RetryableBatchError(`No se pudo leer el catálogo de ASOFIX: ${error.message}`);
+    }
+    if (snapshot.size === 0) {
+      // Un catálogo vacío haría archivar todos los vehículos notificados
+      throw new RetryableBatchError('ASOFIX devolvió el catálogo vacío');
+    }
+
+    // Un snapshot que se empezó a leer antes de la notificación puede no tener el cambio: con él se
+    // actualizaría con datos viejos o se archivaría un alta reciente. Esos vehículos esperan a que venza
+    const fetchStartedAt = snapshot.fetchStartedAt.getTime();
+    const covered = queued.filter(target => target.last_received_at.getTime() <= fetchStartedAt);
+    const waiting = queued.filter(target => target.last_received_at.getTime() > fetchStartedAt);
+    if (waiting.length > 0) {
+      this.defer(waiting, snapshot);
+      batch.deferred = waiting.length;
+      logger.info(`[Webhook] Lote ${batch.id}: ${waiting.length} vehículos esperan el próximo snapshot (${new Date(this.notBefore).toISOString()})`);
+    }
+    if (covered.length === 0) return;
+
+    let lock;
+    try {
+      lock = await SyncLock.acquire('webhook');
+    } catch (error: any) {
+      if (error instanceof SyncInProgressError) {
+        throw new RetryableBatchError(error.message);
+      }
+      throw error;
+    }
+
+    const vehicleIdsWithImages: number[] = [];
+    try {
+      // Un mismo vehículo notificado por id y por patente se procesa (o archiva) una sola vez
+      const processed = new Map<string, SyncWebhookTargetResult>();
+      const missing = new Map<number, MissingVehicle>();
+
+      for (const target of covered) {
+        const vehicle = target.type === 'id'
+          ? snapshot.findById(target.value)
+          : snapshot.findByLicensePlate(target.value);
+
+        if (!vehicle) {
+          const checked = await this.checkMissing(target, snapshot);
+          if ('outcome' in checked) {
+            batch.results.push(checked);
+          } else {
+            const entry = missing.get(checked.id) || { ...checked, targets: [] };
+            entry.targets.push({ type: target.type, value: target.value });
+            missing.set(checked.id, entry);
+          }
+          continue;
+        }
+
+        const previous = processed.get(String(vehicle.id));
+        const result = previous
+          ? { ...previous, type: target.type, value: target.value }
+          : await this.processFound(target, vehicle);
+
+        if (!previous) {
+          processed.set(String(vehicle.id), result);
+          if ((result.outcome === 'created' || result.outcome === 'updated') && result.vehicle_id) {
+            vehicleIdsWithImages.push(result.vehicle_id);
+          }
+        }
+        batch.results.push(result);
+      }
+
+      if (missing.size > 0) {
+        batch.results.push(...await this.archiveMissing(Array.from(missing.values())));
+      }
+    } finally {
+      await SyncLock.release(lock);
+    }
+
+    // Imágenes nuevas de los vehículos del lote (el resto del backlog queda para la Fase 2)
+    if (vehicleIdsWithImages.length > 0) {
+      batch.images = await syncService.downloadAllImages(undefined, 0, { vehicleIds: vehicleIdsWithImages });
+    }
+
+    const counts = batch.results.reduce((acc: Record<string, number>, result) => {
+      acc[result.outcome] = (acc[result.outcome] || 0) + 1;
+      return acc;
+    }, {});
+    logger.info(`[Webhook] ✅ Lote ${batch.id} procesado: ${Object.entries(counts).map(([outcome, count]) => `${count} ${outcome}`).join(', ')}`);
+  }
+
+  private static async processFound(target: SyncWebhookTarget, vehicle: AsofixVehicle): Promise<SyncWebhookTargetResult> {
+    const base = { ...target, asofix_id: String(vehicle.id) };
+    const result = await syncService.processVehicle(vehicle, true, { source: asofixInventorySource.name });
+
+    if (!result.success) {
+      return { ...base, outcome: 'error', vehicle_id: result.vehicleId ?? null, message: result.message };
+    }
+
+    let outcome: SyncWebhookOutcome = 'unchanged';
+    if (result.filtered) outcome = 'filtered';
+    else if (result.wasNew) outcome = 'created';
+    else if (result.wasUpdated) outcome = 'updated';
+
+    const vehicleId = result.vehicleId ?? await syncService.findVehicleByAsofixId(String(vehicle.id));
+    return { ...base, outcome, vehicle_id: vehicleId, message: result.message };
+  }
+
+  /**
+   * Vehículo notificado que no está en el catálogo: devuelve el vehículo publicado a archivar,
+   * o el resultado si no hay nada que archivar (cuarentena de esquema, no existe o ya no está publicado)
+   */
+  private static async checkMissing(
+    target: SyncWebhookTarget,
+    snapshot: AsofixSnapshot
+  ): Promise<SyncWebhookTargetResult | ExistingVehicle> {
+    const existing = await this.findExisting(target);
+
+    if (snapshot.isQuarantined(existing?.asofix_id || (target.type === 'id' ? target.value : ''))) {
+      return {
+        ...target,
+        outcome: 'quarantined',
+        asofix_id: existing?.asofix_id || target.value,
+        vehicle_id: existing?.id ?? null,
+        message: 'Llegó de ASOFIX pero no pasó la validación de esquema (ver /internal/asofix/schema-drift)'
+      };
+    }
+
+    if (!existing) {
+      return { ...target, outcome: 'not_found', asofix_id: null, vehicle_id: null, message: 'No está en el catálogo ni en la base' };
+    }
+
+    if (existing.status !== 'published') {
+      return {
+        ...target,
+        outcome: 'unchanged',
+        asofix_id: existing.asofix_id,
+        vehicle_id: existing.id,
+        message: 'No está en el catálogo; ya no estaba publicado'
+      };
+    }
+
+    return existing;
+  }
+
+  /**
+   * Archiva los vehículos del lote que ya no están en el catálogo. Los archivados del webhook de
+   * la última SYNC_WEBHOOK_ARCHIVE_WINDOW_MINUTES se suman contra los umbrales de ArchiveGuard:
+   * muchas notificaciones seguidas no pueden archivar más que una limpieza global. Si se superan
+   * no se archiva ninguno y quedan en una revisión pendiente (/sync/archive-reviews)
+   */
+  private static async archiveMissing(vehicles: MissingVehicle[]): Promise<SyncWebhookTargetResult[]> {
+    const windowStart = Date.now() - WEBHOOK_ARCHIVE_WINDOW_MS;
+    this.recentArchives = this.recentArchives.filter(archivedAt => archivedAt > windowStart);
+
+    const [rows] = await pool.execute<any[]>(
+      `SELECT COUNT(*) AS total FROM vehicles WHERE status = 'published' AND source = ?`,
+      [asofixInventorySource.name]
+    );
+    // El porcentaje se mide sobre el stock que había antes de los archivados de la ventana
+    const publishedCount = Number(rows[0]?.total || 0) + this.recentArchives.length;
+    const tripReason = ArchiveGuard.check(this.recentArchives.length + vehicles.length, publishedCount);
+
+    if (tripReason) {
+      const syncLogId = await this.holdForReview(vehicles, tripReason, publishedCount);
+      return vehicles.flatMap(vehicle => vehicle.targets.map((target): SyncWebhookTargetResult => ({
+        ...target,
+        outcome: 'needs_review',
+        asofix_id: vehicle.asofix_id,
+        vehicle_id: vehicle.id,
+        message: `Archivado retenido: ${tripReason}. Aprobar o descartar en POST /sync/archive-reviews/${syncLogId ?? ':syncLogId'}/approve|discard`
+      })));
+    }
+
+    const results: SyncWebhookTargetResult[] = [];
+    for (const vehicle of vehicles) {
+      let outcome: SyncWebhookOutcome;
+      let message: string;
+      try {
+        const archived = await syncService.archiveMissingVehicle(vehicle.id, vehicle.asofix_id, this.archiveReason(vehicle));
+        if (archived) {
+          this.recentArchives.push(Date.now());
+        }
+        outcome = archived ? 'archived' : 'unchanged';
+        message = archived
+          ? 'Archivado: ya no está en el catálogo'
+          : 'No está en el catálogo; ya estaba archivado o tiene override force_publish';
+      } catch (error: any) {
+        logger.error(`[Webhook] Error al archivar vehículo ${vehicle.asofix_id}: ${error.message}`);
+        outcome = 'error';
+        message = error.message;
+      }
+      results.push(...vehicle.targets.map(target => ({
+        ...target,
+        outcome,
+        asofix_id: vehicle.asofix_id,
+        vehicle_id: vehicle.id,
+        message
+      })));
+    }
+    return results;
+  }
+
+  /**
+   * Guarda los vehículos retenidos como una revisión pendiente en sync_logs, igual que la limpieza
+   * global, y avisa (log + email)
+   */
+  private static async holdForReview(
+    vehicles: MissingVehicle[],
+    reason: string,
+    publishedCount: number
+  ): Promise<number | null> {
+    const review: ArchiveReview = {
+      status: 'pending',
+      source: asofixInventorySource.name,
+      reason,
+      candidates_count: vehicles.length,
+      published_count: publishedCount,
+      ...ArchiveGuard.getLimits(),
+      candidates: vehicles.map(vehicle => ({
+        vehicle_id: vehicle.id,
+        asofix_id: vehicle.asofix_id,
+        title: vehicle.title,
+        reason: this.archiveReason(vehicle)
+      })),
+      status_after_review: 'completed',
+      created_at: new Date().toISOString()
+    };
+
+    const syncLogId = await SyncLogger.logSyncStart('manual');
+    await SyncLogger.logSyncNeedsReview(syncLogId, review, {
+      vehicles_processed: vehicles.length,
+      vehicles_created: 0,
+      vehicles_updated: 0,
+      images_processed: 0,
+      images_created: 0,
+      errors_count: 0
+    });
+    logger.warn(`[Webhook] Circuit breaker activado: ${reason}. No se archiva ninguno de los ${vehicles.length} vehículos hasta revisar.`);
+    await ArchiveGuard.notify(syncLogId, review);
+    return syncLogId;
+  }
+
+  private static archiveReason(vehicle: MissingVehicle): string {
+    return `No está en el catálogo de ASOFIX (webhook: ${vehicle.targets.map(target => `${target.type} ${target.value}`).join(', ')})`;
+  }
+
+  private static async findExisting(target: SyncWebhookTarget): Promise<ExistingVehicle | null> {
+    if (target.type === 'id') {
+      const [rows] = await pool.execute<any[]>(
+        'SELECT id, asofix_id, title, status FROM vehicles WHERE asofix_id = ? AND source = ? LIMIT 1',
+        [target.value, asofixInventorySource.name]
+      );
+      return rows[0] || null;
+    }
+
+    // Patente normalizada igual que AsofixSnapshot (solo letras y números); primero el publicado
+    const [rows] = await pool.execute<any[]>(
+      `SELECT id, asofix_id, title, status FROM vehicles
+       WHERE REGEXP_REPLACE(UPPER(license_plate), '[^A-Z0-9]', '') = ? AND source = ?
+       ORDER BY status = 'published' DESC, updated_at DESC
+       LIMIT 1`,
+      [target.value, asofixInventorySource.name]
+    );
+    return rows[0] || null;
+  }
+}
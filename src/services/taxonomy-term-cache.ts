@@ -0,0 +1,106 @@
+import pool from '../config/database';
+import logger from './logger';
+
+/**
+ * Cache en memoria de taxonomy_terms (taxonomía + nombre → id)
+ * Se precarga al iniciar cada sincronización para que la Fase 1.2 no haga un SELECT
+ * por taxonomía y vehículo; los términos nuevos se insertan en bloque con
+ * INSERT ... ON DUPLICATE KEY UPDATE sobre la clave única (taxonomy, name).
+ */
+export class TaxonomyTermCache {
+  private static terms = new Map<string, number>();
+  private static warmed = false;
+
+  /**
+   * Clave de cache: la collation utf8mb4_unicode_ci no distingue mayúsculas ni acentos
+   */
+  private static key(taxonomy: string, name: string): string {
+    const normalizedName = name
+      .trim()
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[̀-ͯ]/g, '');
+    return `${taxonomy}\u0000${normalizedName}`;
+  }
+
+  /**
+   * Carga todos los términos existentes (reemplaza el contenido de la cache)
+   */
+  static async warm(): Promise<number> {
+    const [rows] = await pool.execute<any[]>('SELECT id, taxonomy, name FROM taxonomy_terms');
+
+    this.terms.clear();
+    for (const row of rows) {
+      this.terms.set(this.key(row.taxonomy, row.name), row.id);
+    }
+    this.warmed = true;
+
+    logger.info(`🏷️  Cache de taxonomías cargada: ${rows.length} términos`);
+    return rows.length;
+  }
+
+  /**
+   * Vacía la cache (ej: si un término cacheado ya no existe en BD)
+   */
+  static clear(): void {
+    this.terms.clear();
+    this.warmed = false;
+  }
+
+  /**
+   * Obtiene el id de cada término, creando en bloque los que no existen
+   * Los términos nuevos se insertan con el pool (fuera de la transacción del vehículo):
+   * son datos compartidos y la cache no debe quedar con ids de una transacción revertida
+   * @returns Mapa taxonomía → term_id
+   */
+  static async resolve(entries: Array<[taxonomy: string, name: string]>): Promise<Map<string, number>> {
+    if (!this.warmed) {
+      await this.warm();
+    }
+
+    const result = new Map<string, number>();
+    const missing: Array<[string, string]> = [];
+
+    for (const [taxonomy, rawName] of entries) {
+      const name = rawName.trim();
+      if (!name) continue;
+
+      const termId = this.terms.get(this.key(taxonomy, name));
+      if (termId) {
+        result.set(taxonomy, termId);
+      } else {
+        missing.push([taxonomy, name]);
+      }
+    }
+
+    if (missing.length > 0) {
+      const placeholders = missing.map(() => '(?, ?)').join(', ');
+      const params = missing.flatMap(([taxonomy, name]) => [taxonomy, name]);
+
+      await pool.execute(
+        `INSERT INTO taxonomy_terms (taxonomy, name) VALUES ${placeholders}
+         ON DUPLICATE KEY UPDATE name = name`,
+        params
+      );
+
+      const [rows] = await pool.execute<any[]>(
+        `SELECT id, taxonomy, name FROM taxonomy_terms
+         WHERE (taxonomy, name) IN (${placeholders})`,
+        params
+      );
+      for (const row of rows) {
+        this.terms.set(this.key(row.taxonomy, row.name), row.id);
+      }
+
+      for (const [taxonomy, name] of missing) {
+        const termId = this.terms.get(this.key(taxonomy, name));
+        if (!termId) {
+          throw new Error(`No se pudo crear el término "${name}" en "${taxonomy}"`);
+        }
+        result.set(taxonomy, termId);
+      }
+    }
+
+    return result;
+  }
+}
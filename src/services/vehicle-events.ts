@@ -0,0 +1,124 @@
+import pool, { DbConnection } from '../config/database';
+import logger from './logger';
+
+export type VehicleEventType =
+  | 'created'
+  | 'updated'
+  | 'archived'
+  | 'reactivated'
+  | 'images_added'
+  | 'images_removed'
+  | 'override_set'
+  | 'override_removed';
+
+/**
+ * Diff a nivel de campo: { campo: { from, to } }
+ */
+export type FieldChanges = Record<string, { from: any; to: any }>;
+
+export interface VehicleEventInput {
+  vehicleId: number;
+  asofixId?: string | null;
+  syncLogId?: number | null;
+  eventType: VehicleEventType;
+  changes?: Record<string, any> | null;
+  filterReason?: string | null;
+  message?: string | null;
+}
+
+export interface VehicleEventRecord {
+  id: number;
+  vehicle_id: number;
+  asofix_id: string | null;
+  sync_log_id: number | null;
+  event_type: VehicleEventType;
+  changes: Record<string, any> | null;
+  filter_reason: string | null;
+  message: string | null;
+  created_at: Date;
+}
+
+/**
+ * Servicio para persistir el historial de cambios de cada vehículo en la tabla vehicle_events
+ * Se alimenta desde SyncService en cada sincronización
+ */
+export class VehicleEvents {
+  /**
+   * Registra un evento en el historial del vehículo
+   * Nunca lanza error: el historial no debe interrumpir la sincronización
+   * @param db Conexión de la transacción del vehículo (default: pool)
+   */
+  static async record(event: VehicleEventInput, db: DbConnection = pool): Promise<void> {
+    try {
+      await db.execute(
+        `INSERT INTO vehicle_events (vehicle_id, asofix_id, sync_log_id, event_type, changes, filter_reason, message)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          event.vehicleId,
+          event.asofixId || null,
+          event.syncLogId || null,
+          event.eventType,
+          event.changes ? JSON.stringify(event.changes) : null,
+          event.filterReason || null,
+          event.message ? event.message.substring(0, 1000) : null
+        ]
+      );
+    } catch (error: any) {
+      // No fallar si la tabla no existe o hay error
+      logger.debug(`No se pudo registrar evento ${event.eventType} del vehículo ${event.vehicleId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Calcula el diff a nivel de campo entre dos snapshots de un vehículo
+   * Los DECIMAL de MySQL llegan como string, por eso se normaliza antes de comparar
+   */
+  static diff(before: Record<string, any>, after: Record<string, any>): FieldChanges {
+    const normalize = (value: any): string | number | null => {
+      if (value === null || value === undefined || value === '') return null;
+      if (typeof value === 'number') return value;
+      const num = Number(value);
+      if (typeof value === 'string' && value.trim() !== '' && !isNaN(num) && isFinite(num)) {
+        return num;
+      }
+      return String(value);
+    };
+
+    const changes: FieldChanges = {};
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    for (const field of fields) {
+      const from = normalize(before[field]);
+      const to = normalize(after[field]);
+      if (from !== to) {
+        changes[field] = { from, to };
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Obtiene el historial de un vehículo, del evento más reciente al más antiguo
+   */
+  static async getHistory(vehicleId: number, limit: number = 200): Promise<VehicleEventRecord[]> {
+    const [rows] = await pool.query<any[]>(
+      `SELECT id, vehicle_id, asofix_id, sync_log_id, event_type, changes, filter_reason, message, created_at
+       FROM vehicle_events
+       WHERE vehicle_id = ?
+       ORDER BY created_at DESC, id DESC
+       LIMIT ?`,
+      [vehicleId, limit]
+    );
+
+    return rows.map((row: any) => {
+      let changes: Record<string, any> | null = null;
+      try {
+        changes = typeof row.changes === 'string' ? JSON.parse(row.changes) : row.changes;
+      } catch (e) {
+        changes = null;
+      }
+      return { ...row, changes };
+    });
+  }
+}
@@ -1,10 +1,50 @@
 import { AsofixVehicle } from './asofix-api';
-import { filterConfig } from '../config/filters';
+import { FilterConfig } from '../config/filters';
+import { FilterRules } from './filter-rules';
+import { ExchangeRates } from './exchange-rates';
 import logger from './logger';
 
+/**
+ * Códigos de motivo de archivado guardados en vehicles.filter_reason
+ * Los devuelve shouldOmitVehicle, salvo not_in_valid_set (limpieza global de la sincronización)
+ */
+export const FILTER_REASON_CODES = [
+  'no_active_stock',
+  'blocked_branch_office',
+  'min_price',
+  'blocked_status',
+  'missing_license_plate',
+  'no_images',
+  'blocked_brand',
+  'year_out_of_range',
+  'max_kilometres',
+  'not_in_valid_set'
+] as const;
+
+export type FilterReasonCode = typeof FILTER_REASON_CODES[number];
+
+/**
+ * Resultado de shouldOmitVehicle: código estable, mensaje legible y los valores que no pasaron el filtro
+ */
+export interface FilterResult {
+  omit: boolean;
+  code?: FilterReasonCode;
+  reason?: string;
+  values?: Record<string, string | number | null>;
+}
+
+/**
+ * Condiciones SQL de los filtros obligatorios, listas para sumar al WHERE de una consulta
+ */
+export interface FilterSqlConditions {
+  conditions: string[];
+  params: any[];
+}
+
 /**
  * Servicio para aplicar filtros obligatorios a vehículos
  * Estos filtros se aplican tanto durante la sincronización como en los endpoints públicos
+ * La configuración vigente sale de FilterRules (reglas en BD sobre los valores de entorno)
  */
 export class VehicleFilters {
   /**
@@ -15,18 +55,25 @@ export class VehicleFilters {
    * 2. Precio mayor al mínimo configurado (por defecto: > 1)
    * 3. Estado distinto de los estados bloqueados (por defecto: != reservado)
    * 4. Debe tener al menos una imagen (si REQUIRE_IMAGES = true)
+   * 5. Marca no excluida, año dentro del rango y kilometraje bajo el máximo (si están configurados)
    * 
    * @param vehicle Vehículo de ASOFIX a verificar
-   * @returns Objeto con indicador de omisión y razón
+   * @param filterConfig Configuración a aplicar (por defecto la vigente en FilterRules)
+   * @returns Indicador de omisión con código de motivo, mensaje y valores que no pasaron el filtro
    */
-  static shouldOmitVehicle(vehicle: AsofixVehicle): { omit: boolean; reason?: string } {
+  static shouldOmitVehicle(vehicle: AsofixVehicle, filterConfig: FilterConfig = FilterRules.current()): FilterResult {
     // Verificar stock activo
     const activeStock = vehicle.stocks?.find(
       stock => stock.status && stock.status.toUpperCase() === 'ACTIVO'
     );
 
     if (!activeStock) {
-      return { omit: true, reason: 'No tiene stock activo' };
+      return {
+        omit: true,
+        code: 'no_active_stock',
+        reason: 'No tiene stock activo',
+        values: { statuses: (vehicle.stocks || []).map(stock => stock.status || '').join(', ') || null }
+      };
     }
 
     // FILTRO 1: Verificar concesionaria bloqueada usando location_name (Dakota por defecto)
@@ -40,24 +87,32 @@ export class VehicleFilters {
       if (locationName.includes(blockedLower)) {
         return { 
           omit: true, 
-          reason: `Concesionaria bloqueada: ${activeStock.location_name || 'N/A'} (filtro: ${blockedOffice}, campo: location_name)` 
+          code: 'blocked_branch_office',
+          reason: `Concesionaria bloqueada: ${activeStock.location_name || 'N/A'} (filtro: ${blockedOffice}, campo: location_name)`,
+          values: { location_name: activeStock.location_name || null, filter: blockedOffice }
         };
       }
       // Fallback a branch_office_name si location_name no está disponible
       if (branchName.includes(blockedLower)) {
         return { 
           omit: true, 
-          reason: `Concesionaria bloqueada: ${activeStock.branch_office_name || 'N/A'} (filtro: ${blockedOffice}, campo: branch_office_name)` 
+          code: 'blocked_branch_office',
+          reason: `Concesionaria bloqueada: ${activeStock.branch_office_name || 'N/A'} (filtro: ${blockedOffice}, campo: branch_office_name)`,
+          values: { branch_office_name: activeStock.branch_office_name || null, filter: blockedOffice }
         };
       }
     }
 
-    // FILTRO 2: Verificar precio mínimo
+    // FILTRO 2: Verificar precio mínimo (el mayor entre MIN_PRICE y el mínimo de la moneda)
     const price = parseFloat(String(vehicle.price?.list_price || 0));
-    if (price <= filterConfig.minPrice) {
+    const currency = this.getPriceCurrency(vehicle);
+    const minPrice = this.getMinPrice(filterConfig, currency);
+    if (price <= minPrice) {
       return { 
         omit: true, 
-        reason: `Precio (${price}) menor o igual al mínimo permitido (${filterConfig.minPrice})` 
+        code: 'min_price',
+        reason: `Precio (${price} ${currency}) menor o igual al mínimo permitido (${minPrice})`,
+        values: { price, currency, min_price: minPrice }
       };
     }
 
@@ -67,7 +122,9 @@ export class VehicleFilters {
       if (stockStatus === blockedStatus.toLowerCase()) {
         return { 
           omit: true, 
-          reason: `Estado bloqueado: ${activeStock.status} (filtro: ${blockedStatus})` 
+          code: 'blocked_status',
+          reason: `Estado bloqueado: ${activeStock.status} (filtro: ${blockedStatus})`,
+          values: { status: activeStock.status || null, filter: blockedStatus }
         };
       }
     }
@@ -77,7 +134,9 @@ export class VehicleFilters {
     if (!licensePlate || licensePlate.trim().length === 0) {
       return {
         omit: true,
-        reason: 'License plate es NULL o vacío'
+        code: 'missing_license_plate',
+        reason: 'License plate es NULL o vacío',
+        values: { license_plate: licensePlate ?? null }
       };
     }
 
@@ -88,14 +147,149 @@ export class VehicleFilters {
       if (!hasImages) {
         return { 
           omit: true, 
-          reason: 'No tiene imágenes asociadas (REQUIRE_IMAGES=true)' 
+          code: 'no_images',
+          reason: 'No tiene imágenes asociadas (REQUIRE_IMAGES=true)',
+          values: { images_count: (vehicle.images || []).length }
         };
       }
     }
 
+    // FILTRO 6: Verificar marca excluida
+    const brandName = (vehicle.brand_name || '').trim().toLowerCase();
+    if (brandName && filterConfig.blockedBrands.includes(brandName)) {
+      return {
+        omit: true,
+        code: 'blocked_brand',
+        reason: `Marca excluida: ${vehicle.brand_name}`,
+        values: { brand_name: vehicle.brand_name || null }
+      };
+    }
+
+    // FILTRO 7: Verificar rango de años (sin año no se puede evaluar, no se omite)
+    const year = vehicle.year ? Number(vehicle.year) : null;
+    if (year) {
+      if ((filterConfig.minYear !== null && year < filterConfig.minYear) ||
+          (filterConfig.maxYear !== null && year > filterConfig.maxYear)) {
+        return {
+          omit: true,
+          code: 'year_out_of_range',
+          reason: `Año (${year}) fuera del rango permitido (${filterConfig.minYear ?? '-'} a ${filterConfig.maxYear ?? '-'})`,
+          values: { year, min_year: filterConfig.minYear, max_year: filterConfig.maxYear }
+        };
+      }
+    }
+
+    // FILTRO 8: Verificar kilometraje máximo
+    const kilometres = parseInt(String(vehicle.kilometres || 0), 10) || 0;
+    if (filterConfig.maxKilometres !== null && kilometres > filterConfig.maxKilometres) {
+      return {
+        omit: true,
+        code: 'max_kilometres',
+        reason: `Kilometraje (${kilometres}) mayor al máximo permitido (${filterConfig.maxKilometres})`,
+        values: { kilometres, max_kilometres: filterConfig.maxKilometres }
+      };
+    }
+
     return { omit: false };
   }
 
+  /**
+   * Condiciones WHERE de los filtros obligatorios sobre la tabla vehicles
+   * Es el equivalente en SQL de shouldOmitVehicle para /autos y los feeds
+   * (la marca se busca en las taxonomías y las concesionarias en additional_data)
+   * Se aplica sobre VehicleOverrides.effectiveSource(): los vehículos con force_publish vigente
+   * solo necesitan estar publicados, el resto de los filtros no se les aplica
+   * @param filterConfig Configuración vigente (FilterRules.getConfig())
+   * @param alias Alias de la tabla vehicles en la consulta
+   * @param options.requireImages false para no exigir imágenes aunque la regla esté activa (feeds)
+   */
+  static buildSqlConditions(
+    filterConfig: FilterConfig,
+    alias: string = 'v',
+    options: { requireImages?: boolean } = {}
+  ): FilterSqlConditions {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    // 2. License plate NO NULL y NO vacío (OBLIGATORIO)
+    conditions.push(`${alias}.license_plate IS NOT NULL`);
+    conditions.push(`${alias}.license_plate != ?`);
+    params.push('');
+
+    // 3. Precio mayor al mínimo de su moneda
+    conditions.push(`(
+      (${alias}.price_usd IS NOT NULL AND ${alias}.price_usd > ?) OR
+      (${alias}.price_ars IS NOT NULL AND ${alias}.price_ars > ?)
+    )`);
+    params.push(this.getMinPrice(filterConfig, 'USD'), this.getMinPrice(filterConfig, 'ARS'));
+
+    // 4. Debe tener al menos una imagen
+    if (filterConfig.requireImages && options.requireImages !== false) {
+      conditions.push(`${alias}.featured_image_id IS NOT NULL`);
+      conditions.push(`EXISTS (SELECT 1 FROM vehicle_images vi_req WHERE vi_req.vehicle_id = ${alias}.id)`);
+    }
+
+    // 5. Excluir concesionarias bloqueadas (Dakota por defecto)
+    // Se verifica en el JSON additional_data.stock_info[].branch_office_name o location_name
+    if (filterConfig.blockedBranchOffices.length > 0) {
+      const blockedConditions = filterConfig.blockedBranchOffices.map(() => {
+        return `(${alias}.additional_data IS NULL OR ${alias}.additional_data NOT LIKE ?)`;
+      });
+      conditions.push(`(${blockedConditions.join(' AND ')})`);
+      for (const blocked of filterConfig.blockedBranchOffices) {
+        params.push(`%${blocked.toLowerCase()}%`);
+      }
+    }
+
+    // 6. Excluir marcas
+    if (filterConfig.blockedBrands.length > 0) {
+      conditions.push(`NOT EXISTS (
+        SELECT 1 FROM vehicle_taxonomies vt_brand
+        JOIN taxonomy_terms tt_brand ON vt_brand.term_id = tt_brand.id
+        WHERE vt_brand.vehicle_id = ${alias}.id AND tt_brand.taxonomy = 'brand'
+          AND tt_brand.name IN (${filterConfig.blockedBrands.map(() => '?').join(', ')})
+      )`);
+      params.push(...filterConfig.blockedBrands);
+    }
+
+    // 7. Rango de años y kilometraje máximo (los vehículos sin año no se excluyen)
+    if (filterConfig.minYear !== null) {
+      conditions.push(`(${alias}.year IS NULL OR ${alias}.year >= ?)`);
+      params.push(filterConfig.minYear);
+    }
+    if (filterConfig.maxYear !== null) {
+      conditions.push(`(${alias}.year IS NULL OR ${alias}.year <= ?)`);
+      params.push(filterConfig.maxYear);
+    }
+    if (filterConfig.maxKilometres !== null) {
+      conditions.push(`(${alias}.kilometres IS NULL OR ${alias}.kilometres <= ?)`);
+      params.push(filterConfig.maxKilometres);
+    }
+
+    // 1. Solo vehículos publicados; force_publish saltea los demás filtros
+    return {
+      conditions: [
+        `${alias}.status = ?`,
+        `(${alias}.override_force_publish = 1 OR (${conditions.join(' AND ')}))`
+      ],
+      params: ['published', ...params]
+    };
+  }
+
+  /**
+   * Precio mínimo para una moneda: el mayor entre minPrice y el mínimo propio de la moneda
+   */
+  static getMinPrice(filterConfig: FilterConfig, currency: 'USD' | 'ARS'): number {
+    return Math.max(filterConfig.minPrice, filterConfig.minPriceByCurrency[currency] || 0);
+  }
+
+  /**
+   * Moneda del precio con la misma regla que usa la sincronización para price_usd / price_ars
+   */
+  private static getPriceCurrency(vehicle: AsofixVehicle): 'USD' | 'ARS' {
+    return ExchangeRates.resolveCurrency(vehicle.price?.currency_name);
+  }
+
   /**
    * Aplica los filtros obligatorios a una lista de vehículos
    * @param vehicles Lista de vehículos a filtrar
@@ -105,43 +299,38 @@ export class VehicleFilters {
     filtered: AsofixVehicle[];
     omitted: number;
     reasons: Record<string, number>;
+    codes: Partial<Record<FilterReasonCode, number>>;
   } {
     const filtered: AsofixVehicle[] = [];
     let omitted = 0;
     const reasons: Record<string, number> = {};
+    const codes: Partial<Record<FilterReasonCode, number>> = {};
 
     for (const vehicle of vehicles) {
-      const { omit, reason } = this.shouldOmitVehicle(vehicle);
+      const { omit, code, reason } = this.shouldOmitVehicle(vehicle);
       
       if (omit) {
         omitted++;
         if (reason) {
           reasons[reason] = (reasons[reason] || 0) + 1;
         }
+        if (code) {
+          codes[code] = (codes[code] || 0) + 1;
+        }
         logger.debug(`Vehículo omitido (ID: ${vehicle.id}): ${reason}`);
       } else {
         filtered.push(vehicle);
       }
     }
 
-    return { filtered, omitted, reasons };
+    return { filtered, omitted, reasons, codes };
   }
 
   /**
    * Obtiene un resumen de los filtros aplicados
    */
-  static getFilterSummary(): {
-    blockedBranchOffices: string[];
-    minPrice: number;
-    blockedStatuses: string[];
-    requireImages: boolean;
-  } {
-    return {
-      blockedBranchOffices: filterConfig.blockedBranchOffices,
-      minPrice: filterConfig.minPrice,
-      blockedStatuses: filterConfig.blockedStatuses,
-      requireImages: filterConfig.requireImages
-    };
+  static getFilterSummary(): FilterConfig {
+    return { ...FilterRules.current() };
   }
 }
 
@@ -0,0 +1,401 @@
+import pool, { DbConnection } from '../config/database';
+import logger from './logger';
+import { VehicleEvents } from './vehicle-events';
+
+/**
+ * Campos editables desde PUT /internal/overrides/:vehicleId
+ */
+export const OVERRIDE_FIELDS = [
+  'force_publish',
+  'force_hide',
+  'title',
+  'content',
+  'price_usd',
+  'price_ars',
+  'featured_image_id',
+  'expires_at',
+  'note'
+] as const;
+
+export type OverrideField = typeof OVERRIDE_FIELDS[number];
+
+export interface VehicleOverride {
+  vehicle_id: number;
+  force_publish: boolean;
+  force_hide: boolean;
+  title: string | null;
+  content: string | null;
+  price_usd: number | null;
+  price_ars: number | null;
+  featured_image_id: number | null;
+  expires_at: Date | null;
+  note: string | null;
+  created_by: string | null;
+  updated_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+  /**
+   * false si ya venció (expires_at en el pasado): se conserva pero no se aplica
+   */
+  active: boolean;
+}
+
+/**
+ * Vehículo al que apunta un override (por ID numérico o asofix_id)
+ */
+export interface OverrideTarget {
+  id: number;
+  asofix_id: string;
+  title: string;
+  status: string;
+}
+
+/**
+ * Override inválido o vehículo inexistente; statusCode es el HTTP que devuelve el controlador
+ */
+export class VehicleOverrideError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'VehicleOverrideError';
+  }
+}
+
+/**
+ * Condición de vigencia del override (alias vo)
+ */
+const ACTIVE_OVERRIDE = '(vo.expires_at IS NULL OR vo.expires_at > NOW())';
+
+/**
+ * Tabla derivada con los valores efectivos de cada vehículo (override vigente sobre vehicles)
+ * - force_hide gana sobre force_publish; force_publish deja el vehículo 'published' y
+ *   override_force_publish = 1 hace que buildSqlConditions no le aplique los filtros obligatorios
+ * - El precio se reemplaza como par (price_usd, price_ars) y sin precio anterior (no se muestra como rebaja)
+ *   y se normaliza a la otra moneda con el tipo de cambio que usa el vehículo (exchange_rate)
+ * Al agregar columnas a vehicles hay que sumarlas acá para que lleguen a /autos y a los feeds
+ */
+const EFFECTIVE_VEHICLES_SQL = `(
+  SELECT
+    vb.id,
+    vb.asofix_id,
+    vb.source,
+    COALESCE(vo.title, vb.title) AS title,
+    COALESCE(vo.content, vb.content) AS content,
+    CASE
+      WHEN vo.force_hide = 1 THEN 'archived'
+      WHEN vo.force_publish = 1 THEN 'published'
+      ELSE vb.status
+    END AS status,
+    vb.filter_reason,
+    vb.year,
+    vb.kilometres,
+    vb.license_plate,
+    CASE WHEN vo.price_usd IS NOT NULL OR vo.price_ars IS NOT NULL THEN vo.price_usd ELSE vb.price_usd END AS price_usd,
+    CASE WHEN vo.price_usd IS NOT NULL OR vo.price_ars IS NOT NULL THEN vo.price_ars ELSE vb.price_ars END AS price_ars,
+    CASE WHEN vo.price_usd IS NOT NULL OR vo.price_ars IS NOT NULL THEN IF(vo.price_usd IS NOT NULL, 'USD', 'ARS') ELSE vb.price_currency END AS price_currency,
+    CASE WHEN vo.price_usd IS NOT NULL OR vo.price_ars IS NOT NULL THEN COALESCE(vo.price_usd, ROUND(vo.price_ars / NULLIF(vb.exchange_rate, 0), 2)) ELSE vb.normalized_price_usd END AS normalized_price_usd,
+    CASE WHEN vo.price_usd IS NOT NULL OR vo.price_ars IS NOT NULL THEN COALESCE(vo.price_ars, ROUND(vo.price_usd * vb.exchange_rate, 2)) ELSE vb.normalized_price_ars END AS normalized_price_ars,
+    vb.exchange_rate,
+    vb.exchange_rate_date,
+    CASE WHEN vo.price_usd IS NOT NULL OR vo.price_ars IS NOT NULL THEN NULL ELSE vb.previous_price_usd END AS previous_price_usd,
+    CASE WHEN vo.price_usd IS NOT NULL OR vo.price_ars IS NOT NULL THEN NULL ELSE vb.previous_price_ars END AS previous_price_ars,
+    CASE WHEN vo.price_usd IS NOT NULL OR vo.price_ars IS NOT NULL THEN NULL ELSE vb.price_changed_at END AS price_changed_at,
+    COALESCE(vo.featured_image_id, vb.featured_image_id) AS featured_image_id,
+    vb.created_at,
+    vb.updated_at,
+    vb.last_synced_at,
+    vb.asofix_updated_at,
+    vb.version_hash,
+    vb.additional_data,
+    COALESCE(vo.force_publish, 0) AS override_force_publish,
+    (vo.vehicle_id IS NOT NULL) AS has_override
+  FROM vehicles vb
+  LEFT JOIN vehicle_overrides vo ON vo.vehicle_id = vb.id AND ${ACTIVE_OVERRIDE}
+)`;
+
+/**
+ * Overrides manuales por vehículo (tabla vehicle_overrides)
+ * La sincronización nunca los pisa: escribe los valores de la fuente en vehicles y los endpoints
+ * públicos y los feeds leen EFFECTIVE_VEHICLES_SQL. Además la sync no archiva vehículos con
+ * force_publish vigente (reemplaza al flag additional_data.keep_published).
+ * Cada cambio queda en el historial del vehículo (vehicle_events override_set / override_removed).
+ */
+export class VehicleOverrides {
+  /**
+   * Fuente de vehículos con los overrides vigentes aplicados, para usar como `FROM ${...} v`
+   */
+  static effectiveSource(): string {
+    return EFFECTIVE_VEHICLES_SQL;
+  }
+
+  /**
+   * Busca el vehículo por ID numérico o asofix_id (sin filtros: incluye archivados)
+   */
+  static async resolveVehicle(id: string): Promise<OverrideTarget | null> {
+    const numericId = Number(id);
+    const isNumericId = !isNaN(numericId) && isFinite(numericId);
+
+    const [rows] = await pool.execute<any[]>(
+      `SELECT id, asofix_id, title, status FROM vehicles WHERE id = ? OR asofix_id = ? LIMIT 1`,
+      [isNumericId ? numericId : null, String(id)]
+    );
+    return rows[0] || null;
+  }
+
+  static async get(vehicleId: number, db: DbConnection = pool): Promise<VehicleOverride | null> {
+    const [rows] = await db.execute<any[]>(
+      `SELECT vo.*, ${ACTIVE_OVERRIDE} AS active FROM vehicle_overrides vo WHERE vo.vehicle_id = ?`,
+      [vehicleId]
+    );
+    return rows[0] ? this.mapRow(rows[0]) : null;
+  }
+
+  /**
+   * Overrides cargados, más recientes primero (por defecto solo los vigentes)
+   */
+  static async list(options: { includeExpired?: boolean; limit?: number } = {}): Promise<Array<VehicleOverride & { asofix_id: string; vehicle_title: string; vehicle_status: string }>> {
+    const [rows] = await pool.query<any[]>(
+      `SELECT vo.*, ${ACTIVE_OVERRIDE} AS active,
+        v.asofix_id, v.title AS vehicle_title, v.status AS vehicle_status
+       FROM vehicle_overrides vo
+       JOIN vehicles v ON v.id = vo.vehicle_id
+       ${options.includeExpired ? '' : `WHERE ${ACTIVE_OVERRIDE}`}
+       ORDER BY vo.updated_at DESC
+       LIMIT ?`,
+      [options.limit || 500]
+    );
+
+    return rows.map((row: any) => ({
+      ...this.mapRow(row),
+      asofix_id: row.asofix_id,
+      vehicle_title: row.vehicle_title,
+      vehicle_status: row.vehicle_status
+    }));
+  }
+
+  /**
+   * Crea o modifica el override de un vehículo; los campos que no vienen se conservan y null los borra
+   * @throws VehicleOverrideError si algún campo es inválido
+   */
+  static async set(vehicle: OverrideTarget, input: Record<string, unknown>, changedBy: string): Promise<VehicleOverride> {
+    const updates = this.validate(input);
+    if (Object.keys(updates).length === 0) {
+      throw new VehicleOverrideError(`No se indicó ningún campo a modificar. Válidos: ${OVERRIDE_FIELDS.join(', ')}`);
+    }
+
+    if (updates.featured_image_id) {
+      const [images] = await pool.execute<any[]>(
+        'SELECT id FROM vehicle_images WHERE id = ? AND vehicle_id = ?',
+        [updates.featured_image_id, vehicle.id]
+      );
+      if (images.length === 0) {
+        throw new VehicleOverrideError(`La imagen ${updates.featured_image_id} no pertenece al vehículo ${vehicle.id}`);
+      }
+    }
+
+    const before = await this.get(vehicle.id);
+    const next: Record<string, any> = {};
+    for (const field of OVERRIDE_FIELDS) {
+      next[field] = field in updates ? updates[field] : (before ? (before as any)[field] : null);
+    }
+    next.force_publish = !!next.force_publish;
+    next.force_hide = !!next.force_hide;
+
+    if (next.force_publish && next.force_hide) {
+      throw new VehicleOverrideError('force_publish y force_hide no pueden estar activos a la vez');
+    }
+
+    await pool.execute(
+      `INSERT INTO vehicle_overrides (
+        vehicle_id, force_publish, force_hide, title, content, price_usd, price_ars,
+        featured_image_id, expires_at, note, created_by, updated_by
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON DUPLICATE KEY UPDATE
+        force_publish = VALUES(force_publish),
+        force_hide = VALUES(force_hide),
+        title = VALUES(title),
+        content = VALUES(content),
+        price_usd = VALUES(price_usd),
+        price_ars = VALUES(price_ars),
+        featured_image_id = VALUES(featured_image_id),
+        expires_at = VALUES(expires_at),
+        note = VALUES(note),
+        updated_by = VALUES(updated_by)`,
+      [
+        vehicle.id,
+        next.force_publish ? 1 : 0,
+        next.force_hide ? 1 : 0,
+        next.title,
+        next.content,
+        next.price_usd,
+        next.price_ars,
+        next.featured_image_id,
+        next.expires_at,
+        next.note,
+        changedBy,
+        changedBy
+      ]
+    );
+
+    const after = (await this.get(vehicle.id))!;
+    await VehicleEvents.record({
+      vehicleId: vehicle.id,
+      asofixId: vehicle.asofix_id,
+      eventType: 'override_set',
+      changes: VehicleEvents.diff(this.snapshot(before), this.snapshot(after)),
+      message: `Override modificado por ${changedBy}`
+    });
+    logger.info(`✍️  Override del vehículo ${vehicle.id} modificado por ${changedBy}: ${Object.keys(updates).join(', ')}`);
+
+    return after;
+  }
+
+  /**
+   * Elimina el override (el vehículo vuelve a mostrar los valores de la sincronización)
+   * @returns false si el vehículo no tenía override
+   */
+  static async remove(vehicle: OverrideTarget, changedBy: string): Promise<boolean> {
+    const before = await this.get(vehicle.id);
+    if (!before) return false;
+
+    await pool.execute('DELETE FROM vehicle_overrides WHERE vehicle_id = ?', [vehicle.id]);
+
+    await VehicleEvents.record({
+      vehicleId: vehicle.id,
+      asofixId: vehicle.asofix_id,
+      eventType: 'override_removed',
+      changes: VehicleEvents.diff(this.snapshot(before), {}),
+      message: `Override eliminado por ${changedBy}`
+    });
+    logger.info(`✍️  Override del vehículo ${vehicle.id} eliminado por ${changedBy}`);
+
+    return true;
+  }
+
+  /**
+   * Indica si el vehículo tiene force_publish vigente (la sincronización no lo archiva)
+   * No falla: si la tabla no existe se considera que no hay override
+   */
+  static async isForcePublished(vehicleId: number, db: DbConnection = pool): Promise<boolean> {
+    try {
+      const [rows] = await db.execute<any[]>(
+        `SELECT 1 FROM vehicle_overrides vo WHERE vo.vehicle_id = ? AND vo.force_publish = 1 AND ${ACTIVE_OVERRIDE}`,
+        [vehicleId]
+      );
+      return rows.length > 0;
+    } catch (error: any) {
+      logger.debug(`No se pudo consultar el override del vehículo ${vehicleId}: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Ordena las imágenes dejando primero la destacada efectiva (la del override si hay)
+   */
+  static featuredFirst<T extends { id: number }>(images: T[], featuredImageId: number | null): T[] {
+    if (!featuredImageId) return images;
+    const featured = images.find(image => image.id === featuredImageId);
+    return featured ? [featured, ...images.filter(image => image !== featured)] : images;
+  }
+
+  /**
+   * Valida los campos recibidos; devuelve solo los que vinieron en el body
+   */
+  private static validate(input: Record<string, unknown>): Partial<Record<OverrideField, any>> {
+    const updates: Partial<Record<OverrideField, any>> = {};
+
+    for (const [field, value] of Object.entries(input)) {
+      if (!(OVERRIDE_FIELDS as readonly string[]).includes(field)) {
+        throw new VehicleOverrideError(`Campo desconocido: ${field}. Válidos: ${OVERRIDE_FIELDS.join(', ')}`);
+      }
+
+      switch (field as OverrideField) {
+        case 'force_publish':
+        case 'force_hide':
+          if (typeof value !== 'boolean') {
+            throw new VehicleOverrideError(`${field} debe ser true o false`);
+          }
+          updates[field as OverrideField] = value;
+          break;
+        case 'title':
+        case 'content':
+        case 'note': {
+          if (value !== null && typeof value !== 'string') {
+            throw new VehicleOverrideError(`${field} debe ser un texto o null`);
+          }
+          const text = value === null ? null : (value as string).trim();
+          const maxLength = field === 'content' ? 65535 : 500;
+          if (text && text.length > maxLength) {
+            throw new VehicleOverrideError(`${field} supera los ${maxLength} caracteres`);
+          }
+          updates[field as OverrideField] = text || null;
+          break;
+        }
+        case 'price_usd':
+        case 'price_ars':
+          if (value !== null && (typeof value !== 'number' || !isFinite(value) || value <= 0)) {
+            throw new VehicleOverrideError(`${field} debe ser un número mayor a 0 o null`);
+          }
+          updates[field as OverrideField] = value;
+          break;
+        case 'featured_image_id':
+          if (value !== null && !Number.isInteger(value)) {
+            throw new VehicleOverrideError('featured_image_id debe ser el id de una imagen del vehículo o null');
+          }
+          updates.featured_image_id = value;
+          break;
+        case 'expires_at': {
+          if (value === null) {
+            updates.expires_at = null;
+            break;
+          }
+          const date = typeof value === 'string' ? new Date(value) : null;
+          if (!date || isNaN(date.getTime())) {
+            throw new VehicleOverrideError('expires_at debe ser una fecha ISO 8601 o null (sin vencimiento)');
+          }
+          if (date.getTime() <= Date.now()) {
+            throw new VehicleOverrideError('expires_at debe ser una fecha futura');
+          }
+          updates.expires_at = date;
+          break;
+        }
+      }
+    }
+
+    return updates;
+  }
+
+  /**
+   * Campos del override para el diff del historial
+   */
+  private static snapshot(override: VehicleOverride | null): Record<string, any> {
+    if (!override) return {};
+    const snapshot: Record<string, any> = {};
+    for (const field of OVERRIDE_FIELDS) {
+      const value = override[field];
+      snapshot[field] = value instanceof Date ? value.toISOString() : value;
+    }
+    snapshot.force_publish = override.force_publish ? 1 : 0;
+    snapshot.force_hide = override.force_hide ? 1 : 0;
+    return snapshot;
+  }
+
+  private static mapRow(row: any): VehicleOverride {
+    return {
+      vehicle_id: row.vehicle_id,
+      force_publish: !!row.force_publish,
+      force_hide: !!row.force_hide,
+      title: row.title,
+      content: row.content,
+      price_usd: row.price_usd !== null ? Number(row.price_usd) : null,
+      price_ars: row.price_ars !== null ? Number(row.price_ars) : null,
+      featured_image_id: row.featured_image_id,
+      expires_at: row.expires_at,
+      note: row.note,
+      created_by: row.created_by,
+      updated_by: row.updated_by,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+      active: !!row.active
+    };
+  }
+}
@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+
+export const WEBHOOK_SIGNATURE_HEADER = (process.env.SYNC_WEBHOOK_SIGNATURE_HEADER || 'x-webhook-signature').toLowerCase();
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-webhook-timestamp';
+
+/**
+ * Antigüedad máxima de x-webhook-timestamp (evita reenviar un request capturado)
+ */
+const WEBHOOK_TOLERANCE_SECONDS = parseInt(process.env.SYNC_WEBHOOK_TOLERANCE_SECONDS || '300', 10);
+
+export interface WebhookSignatureCheck {
+  valid: boolean;
+  reason?: string;
+}
+
+/**
+ * Firma HMAC-SHA256 de los webhooks de sincronización (POST /sync/webhook)
+ * Headers: `x-webhook-timestamp` (segundos unix) y `x-webhook-signature: sha256=<hex>` sobre
+ * `<timestamp>.<body crudo>`. El timestamp es obligatorio y se rechaza si es viejo, así una
+ * notificación capturada no se puede reenviar.
+ * El hex también se acepta sin el prefijo `sha256=` y en base64, para emisores que no dejan elegir el formato.
+ */
+export class WebhookSignature {
+  /**
+   * Secretos configurados (SYNC_WEBHOOK_SECRET, separados por coma para rotarlos sin cortar)
+   */
+  static getSecrets(): string[] {
+    return (process.env.SYNC_WEBHOOK_SECRET || '')
+      .split(',')
+      .map(secret => secret.trim())
+      .filter(secret => secret.length > 0);
+  }
+
+  /**
+   * Headers para firmar un body (lo usan el script de envío y el ASOFIX falso)
+   */
+  static sign(body: string | Buffer, secret: string, timestamp: number = Math.floor(Date.now() / 1000)): Record<string, string> {
+    const digest = this.digest(body, secret, String(timestamp));
+    return {
+      [WEBHOOK_SIGNATURE_HEADER]: `sha256=${digest.toString('hex')}`,
+      [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp)
+    };
+  }
+
+  /**
+   * Verifica la firma contra todos los secretos configurados (comparación en tiempo constante)
+   */
+  static verify(rawBody: Buffer | undefined, signatureHeader: string | undefined, timestampHeader: string | undefined): WebhookSignatureCheck {
+    const secrets = this.getSecrets();
+    if (secrets.length === 0) {
+      return { valid: false, reason: 'SYNC_WEBHOOK_SECRET no está configurado' };
+    }
+    if (!signatureHeader) {
+      return { valid: false, reason: `Falta el header ${WEBHOOK_SIGNATURE_HEADER}` };
+    }
+
+    if (!timestampHeader) {
+      return { valid: false, reason: `Falta el header ${WEBHOOK_TIMESTAMP_HEADER}` };
+    }
+
+    const timestamp = Number(timestampHeader);
+    if (!Number.isInteger(timestamp)) {
+      return { valid: false, reason: `${WEBHOOK_TIMESTAMP_HEADER} inválido` };
+    }
+    if (Math.abs(Date.now() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+      return { valid: false, reason: `${WEBHOOK_TIMESTAMP_HEADER} fuera de la tolerancia de ${WEBHOOK_TOLERANCE_SECONDS}s` };
+    }
+
+    const provided = this.decodeSignature(signatureHeader);
+    if (!provided) {
+      return { valid: false, reason: 'Firma con formato inválido' };
+    }
+
+    const body = rawBody || Buffer.alloc(0);
+    const matches = secrets.some(secret => {
+      const expected = this.digest(body, secret, timestampHeader);
+      return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+    });
+    return matches ? { valid: true } : { valid: false, reason: 'Firma inválida' };
+  }
+
+  private static digest(body: string | Buffer, secret: string, timestamp: string): Buffer {
+    return crypto.createHmac('sha256', secret)
+      .update(`${timestamp}.`)
+      .update(body)
+      .digest();
+  }
+
+  private static decodeSignature(header: string): Buffer | null {
+    const value = header.trim().replace(/^sha256=/i, '');
+    if (/^[0-9a-f]{64}$/i.test(value)) {
+      return Buffer.from(value, 'hex');
+    }
+    const decoded = Buffer.from(value, 'base64');
+    return decoded.length === 32 ? decoded : null;
+  }
+}
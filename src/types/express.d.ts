@@ -0,0 +1,15 @@
+/**
+ * Campos que la app agrega al Request de Express
+ */
+declare global {
+  namespace Express {
+    interface Request {
+      /**
+       * Body crudo que guarda express.json (lo usa la verificación de firma de POST /sync/webhook)
+       */
+      rawBody?: Buffer;
+    }
+  }
+}
+
+export {};
@@ -0,0 +1,49 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+import { AdminAuth } from '../src/services/admin-auth';
+
+function request(headers: Record<string, string>): Request {
+  return { headers } as unknown as Request;
+}
+
+afterEach(() => {
+  delete process.env.ADMIN_API_TOKENS;
+});
+
+test('devuelve el usuario dueño del token (Bearer o x-admin-token)', () => {
+  process.env.ADMIN_API_TOKENS = 'ana:token-ana, beto:token-beto';
+  assert.equal(AdminAuth.authenticate(request({ authorization: 'Bearer token-beto' })), 'beto');
+  assert.equal(AdminAuth.authenticate(request({ 'x-admin-token': 'token-ana' })), 'ana');
+});
+
+test('rechaza tokens inválidos, faltantes o entradas mal formadas', () => {
+  process.env.ADMIN_API_TOKENS = 'ana:token-ana,sin-usuario,:token-huerfano';
+  assert.equal(AdminAuth.authenticate(request({ authorization: 'Bearer otro' })), null);
+  assert.equal(AdminAuth.authenticate(request({})), null);
+  assert.equal(AdminAuth.authenticate(request({ authorization: 'Bearer token-huerfano' })), null);
+  assert.equal(AdminAuth.authenticate(request({ authorization: 'Bearer sin-usuario' })), null);
+});
+
+test('sin ADMIN_API_TOKENS rechaza todo', () => {
+  assert.equal(AdminAuth.authenticate(request({ authorization: 'Bearer cualquiera' })), null);
+});
+
+test('middleware responde 401 sin token y deja el usuario para el controlador', () => {
+  process.env.ADMIN_API_TOKENS = 'ana:token-ana';
+  const middleware = AdminAuth.middleware('probar');
+
+  let statusCode = 0;
+  const rejected: Partial<Response> = { locals: {} };
+  rejected.status = (code: number) => { statusCode = code; return rejected as Response; };
+  rejected.json = () => rejected as Response;
+  let nextCalled = false;
+  middleware(request({}), rejected as Response, () => { nextCalled = true; });
+  assert.equal(statusCode, 401);
+  assert.equal(nextCalled, false);
+
+  const accepted: Partial<Response> = { locals: {} };
+  middleware(request({ authorization: 'Bearer token-ana' }), accepted as Response, () => { nextCalled = true; });
+  assert.equal(nextCalled, true);
+  assert.equal(AdminAuth.currentUser(accepted as Response), 'ana');
+});
@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ArchiveGuard } from '../src/services/archive-guard';
+
+// Umbrales por defecto: SYNC_ARCHIVE_MAX_COUNT=25 y SYNC_ARCHIVE_MAX_PERCENT=10
+
+test('sin candidatos no se activa', () => {
+  assert.equal(ArchiveGuard.check(0, 0), null);
+  assert.equal(ArchiveGuard.check(0, 500), null);
+});
+
+test('se activa al superar la cantidad máxima', () => {
+  assert.equal(ArchiveGuard.check(25, 1000), null);
+
+  const reason = ArchiveGuard.check(26, 1000);
+  assert.match(reason ?? '', /26 vehículos \(máximo 25\)/);
+});
+
+test('se activa al superar el porcentaje del stock publicado', () => {
+  assert.equal(ArchiveGuard.check(10, 100), null);
+
+  const reason = ArchiveGuard.check(11, 100);
+  assert.match(reason ?? '', /11\.0% del stock publicado \(11 de 100, máximo 10%\)/);
+});
+
+test('sin stock publicado cualquier archivado cuenta como el 100%', () => {
+  assert.match(ArchiveGuard.check(1, 0) ?? '', /100\.0%/);
+});
+
+test('informa los umbrales configurados', () => {
+  assert.deepEqual(ArchiveGuard.getLimits(), { max_count: 25, max_percent: 10 });
+});
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ExchangeRates, ExchangeRate, ExchangeRateValidationError } from '../src/services/exchange-rates';
+
+const rate: ExchangeRate = {
+  id: 1,
+  rate_date: '2026-10-01',
+  ars_per_usd: 1450,
+  source: 'admin',
+  updated_by: 'test',
+  created_at: new Date(),
+  updated_at: new Date()
+};
+
+test('resolveCurrency reconoce los nombres de moneda de ASOFIX', () => {
+  assert.equal(ExchangeRates.resolveCurrency('USD'), 'USD');
+  assert.equal(ExchangeRates.resolveCurrency('U$S'), 'USD');
+  assert.equal(ExchangeRates.resolveCurrency('Dólares'), 'USD');
+  assert.equal(ExchangeRates.resolveCurrency('Dólar estadounidense'), 'USD');
+  assert.equal(ExchangeRates.resolveCurrency('Pesos Argentinos'), 'ARS');
+  assert.equal(ExchangeRates.resolveCurrency('$'), 'ARS');
+});
+
+test('resolveCurrency usa la moneda por defecto para nombres desconocidos o vacíos', () => {
+  const defaultCurrency = process.env.DEFAULT_PRICE_CURRENCY === 'USD' ? 'USD' : 'ARS';
+  assert.equal(ExchangeRates.resolveCurrency('Reales'), defaultCurrency);
+  assert.equal(ExchangeRates.resolveCurrency(null), defaultCurrency);
+});
+
+test('normalize convierte a la otra moneda con el tipo de cambio', () => {
+  assert.deepEqual(ExchangeRates.normalize(20000, 'USD', rate), {
+    price_currency: 'USD',
+    price_usd: 20000,
+    price_ars: null,
+    normalized_price_usd: 20000,
+    normalized_price_ars: 29000000,
+    exchange_rate: 1450,
+    exchange_rate_date: '2026-10-01'
+  });
+  assert.equal(ExchangeRates.normalize(1000, 'ARS', rate).normalized_price_usd, 0.69);
+});
+
+test('normalize sin tipo de cambio solo completa la moneda original; precio <= 0 queda sin precio', () => {
+  const withoutRate = ExchangeRates.normalize(1000, 'ARS', null);
+  assert.equal(withoutRate.normalized_price_ars, 1000);
+  assert.equal(withoutRate.normalized_price_usd, null);
+  assert.equal(ExchangeRates.normalize(0, 'USD', rate).price_currency, null);
+});
+
+test('parseFile lee CSV con encabezado, separador ; y coma decimal', () => {
+  assert.deepEqual(ExchangeRates.parseFile('fecha,tipo\n2026-10-01,1450\n\n2026-10-02,1461.5\n', 'csv'), [
+    { rate_date: '2026-10-01', ars_per_usd: 1450 },
+    { rate_date: '2026-10-02', ars_per_usd: 1461.5 }
+  ]);
+  assert.deepEqual(ExchangeRates.parseFile('2026-10-03;1470,25', 'csv'), [
+    { rate_date: '2026-10-03', ars_per_usd: 1470.25 }
+  ]);
+});
+
+test('parseFile lee JSON como lista o { rates } y acepta date/rate', () => {
+  const expected = [{ rate_date: '2026-10-01', ars_per_usd: 1450 }];
+  assert.deepEqual(ExchangeRates.parseFile('[{ "rate_date": "2026-10-01", "ars_per_usd": 1450 }]', 'json'), expected);
+  assert.deepEqual(ExchangeRates.parseFile('{ "rates": [{ "date": "2026-10-01", "rate": 1450 }] }', 'json'), expected);
+});
+
+test('parseFile rechaza fechas y valores inválidos', () => {
+  assert.throws(() => ExchangeRates.parseFile('2026-02-30,1450', 'csv'), ExchangeRateValidationError);
+  assert.throws(() => ExchangeRates.parseFile('2026-10-01,0', 'csv'), ExchangeRateValidationError);
+  assert.throws(() => ExchangeRates.parseFile('{ "rates": 3 }', 'json'), ExchangeRateValidationError);
+  assert.throws(() => ExchangeRates.parseFile('no es json', 'json'), ExchangeRateValidationError);
+  assert.throws(() => ExchangeRates.parseFile('fecha,tipo\n', 'csv'), ExchangeRateValidationError);
+});
@@ -0,0 +1,138 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AxiosError, AxiosInstance } from 'axios';
+import { CircuitBreaker, CircuitOpenError, ResilientHttpClient, ResilientHttpOptions, TokenBucket } from '../src/services/resilient-http';
+
+const failure = new Error('503 Service Unavailable');
+
+test('el circuito se abre después de failureThreshold errores seguidos', () => {
+  const breaker = new CircuitBreaker('test', 3, 60000);
+
+  for (let i = 0; i < 2; i++) {
+    breaker.beforeRequest();
+    breaker.onFailure(failure);
+  }
+  assert.equal(breaker.getState().state, 'closed');
+
+  breaker.beforeRequest();
+  breaker.onFailure(failure);
+  assert.equal(breaker.isOpen(), true);
+  assert.throws(() => breaker.beforeRequest(), CircuitOpenError);
+});
+
+test('un éxito reinicia el contador de errores', () => {
+  const breaker = new CircuitBreaker('test', 2, 60000);
+  breaker.onFailure(failure);
+  breaker.onSuccess();
+  breaker.onFailure(failure);
+  assert.equal(breaker.getState().state, 'closed');
+  assert.equal(breaker.getState().consecutive_failures, 1);
+});
+
+test('half-open deja pasar un único request de prueba y se cierra si sale bien', () => {
+  const breaker = new CircuitBreaker('test', 1, 0);
+  breaker.onFailure(failure);
+  assert.equal(breaker.isOpen(), true);
+
+  breaker.beforeRequest();
+  assert.equal(breaker.getState().state, 'half_open');
+  assert.throws(() => breaker.beforeRequest(), CircuitOpenError);
+
+  breaker.onSuccess();
+  assert.equal(breaker.getState().state, 'closed');
+  breaker.beforeRequest();
+});
+
+test('si falla el request de prueba el circuito se vuelve a abrir', () => {
+  const breaker = new CircuitBreaker('test', 5, 0);
+  for (let i = 0; i < 5; i++) breaker.onFailure(failure);
+
+  breaker.beforeRequest();
+  assert.equal(breaker.getState().state, 'half_open');
+  breaker.onFailure(failure);
+  assert.equal(breaker.isOpen(), true);
+  assert.equal(breaker.getState().consecutive_failures, 6);
+});
+
+test('el token bucket entrega la ráfaga sin esperar y descuenta tokens', async () => {
+  const bucket = new TokenBucket(1, 3);
+  await bucket.take();
+  await bucket.take();
+  assert.equal(bucket.getState().available_tokens, 1);
+});
+
+test('pause bloquea el bucket hasta que pasa el tiempo', () => {
+  const bucket = new TokenBucket(10, 10);
+  bucket.pause(60000);
+  assert.notEqual(bucket.getState().paused_until, null);
+});
+
+const clientOptions: ResilientHttpOptions = {
+  name: 'test',
+  maxRetries: 3,
+  retryBaseMs: 0,
+  retryMaxMs: 0,
+  retryAfterMaxMs: 0,
+  ratePerSecond: 0,
+  burst: 0,
+  failureThreshold: 1,
+  resetTimeoutMs: 0
+};
+
+/**
+ * Cliente axios que siempre falla con un error de red (reintentable)
+ */
+function failingHttp(): { http: AxiosInstance; calls: () => number } {
+  let calls = 0;
+  const http: Partial<AxiosInstance> = {
+    request: async () => {
+      calls++;
+      throw new AxiosError('socket hang up', 'ECONNRESET');
+    }
+  };
+  return { http: http as AxiosInstance, calls: () => calls };
+}
+
+test('el request se reintenta maxRetries veces y recién ahí cuenta para el circuito', async () => {
+  const { http, calls } = failingHttp();
+  const client = new ResilientHttpClient(http, clientOptions);
+
+  await assert.rejects(client.get('/'), AxiosError);
+  assert.equal(calls(), 4);
+  assert.equal(client.getState().circuit.consecutive_failures, 1);
+  assert.equal(client.isCircuitOpen(), true);
+});
+
+test('el request de prueba del half-open no se reintenta y libera el circuito', async () => {
+  const { http, calls } = failingHttp();
+  const client = new ResilientHttpClient(http, clientOptions);
+  await assert.rejects(client.get('/'), AxiosError);
+
+  // resetTimeoutMs = 0: el próximo request es la prueba; falla una vez y el circuito vuelve a abrirse
+  await assert.rejects(client.get('/'), AxiosError);
+  assert.equal(calls(), 5);
+  assert.equal(client.isCircuitOpen(), true);
+
+  // Sin una prueba colgada: el siguiente request vuelve a probar en lugar de rechazarse
+  await assert.rejects(client.get('/'), AxiosError);
+  assert.equal(calls(), 6);
+});
+
+test('deja de reintentar si el circuito se abre entre intentos', async () => {
+  let calls = 0;
+  let client: ResilientHttpClient;
+  const http: Partial<AxiosInstance> = {
+    request: async () => {
+      calls++;
+      if (calls === 1) {
+        // Mientras este intento espera, otro request agota sus reintentos y abre el circuito
+        await assert.rejects(client.get('/otro'), AxiosError);
+      }
+      throw new AxiosError('socket hang up', 'ECONNRESET');
+    }
+  };
+  client = new ResilientHttpClient(http as AxiosInstance, { ...clientOptions, resetTimeoutMs: 60000 });
+
+  await assert.rejects(client.get('/'), CircuitOpenError);
+  assert.equal(calls, 5);
+});
@@ -0,0 +1,52 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SpreadsheetInventorySource } from '../src/services/spreadsheet-source';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'planilla-'));
+
+after(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function source(lines: string[]): SpreadsheetInventorySource {
+  const filePath = path.join(dir, `stock-${Date.now()}-${Math.random().toString(36).slice(2)}.csv`);
+  fs.writeFileSync(filePath, lines.join('\n'));
+  return new SpreadsheetInventorySource(filePath, { name: 'sucursal-test' });
+}
+
+test('toma solo encabezados exactos, no los que contienen el nombre', async () => {
+  const { vehicles } = await source([
+    'brand,model,year,license_plate,precio_anterior,km_service,color_interior,precio,kilometros,color',
+    'Toyota,Corolla,2020,AB123CD,9000000,15000,Negro,12.500.000,45.000,Blanco'
+  ]).getPage(1);
+
+  assert.equal(vehicles.length, 1);
+  assert.equal(vehicles[0].price?.list_price, 12500000);
+  assert.equal(vehicles[0].kilometres, 45000);
+  assert.deepEqual(vehicles[0].colors, [{ name: 'Blanco' }]);
+});
+
+test('sin la columna exacta no usa una parecida', async () => {
+  const { vehicles } = await source([
+    'brand,model,year,license_plate,precio_anterior,color_interior',
+    'Ford,Ka,2018,AA111BB,5000000,Gris'
+  ]).getPage(1);
+
+  assert.equal(vehicles[0].price?.list_price, undefined);
+  assert.deepEqual(vehicles[0].colors, []);
+});
+
+test('ignora mayúsculas, acentos y separadores en los encabezados', async () => {
+  const { vehicles } = await source([
+    'brand,model,year,license_plate,Código,Precio Lista,Kilómetros,Ubicación',
+    'Fiat,Cronos,2022,AC222DD,F-001,8.000.000,12000,Depósito'
+  ]).getPage(1);
+
+  assert.equal(vehicles[0].id, 'sucursal-test:F-001');
+  assert.equal(vehicles[0].price?.list_price, 8000000);
+  assert.equal(vehicles[0].kilometres, 12000);
+  assert.equal(vehicles[0].stocks?.[0].location_name, 'Depósito');
+});
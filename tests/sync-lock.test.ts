@@ -0,0 +1,102 @@
+import { test, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import pool from '../src/config/database';
+import { SyncLock, SyncInProgressError } from '../src/services/sync-lock';
+
+/**
+ * Tabla sync_locks en memoria: reproduce las sentencias que usa SyncLock con un reloj propio (NOW())
+ */
+interface LockRow {
+  owner_id: string;
+  sync_type: string;
+  acquired_at: Date;
+  heartbeat_at: Date;
+  expires_at: Date;
+}
+
+let locks: Map<string, LockRow>;
+let now: number;
+
+async function execute(sql: string, params: any[] = []): Promise<[any, any]> {
+  const statement = sql.replace(/\s+/g, ' ').trim();
+  const [name] = params;
+
+  if (statement.startsWith('DELETE FROM sync_locks WHERE name = ? AND expires_at < NOW()')) {
+    const row = locks.get(name);
+    if (row && row.expires_at.getTime() < now) locks.delete(name);
+    return [{}, []];
+  }
+  if (statement.startsWith('INSERT INTO sync_locks')) {
+    const [, ownerId, syncType, , , ttlSeconds] = params;
+    if (locks.has(name)) {
+      throw Object.assign(new Error(`Duplicate entry '${name}'`), { code: 'ER_DUP_ENTRY' });
+    }
+    locks.set(name, {
+      owner_id: ownerId,
+      sync_type: syncType,
+      acquired_at: new Date(now),
+      heartbeat_at: new Date(now),
+      expires_at: new Date(now + ttlSeconds * 1000)
+    });
+    return [{}, []];
+  }
+  if (statement.startsWith('DELETE FROM sync_locks WHERE name = ? AND owner_id = ?')) {
+    if (locks.get(name)?.owner_id === params[1]) locks.delete(name);
+    return [{}, []];
+  }
+  if (statement.startsWith('SELECT') && statement.includes('FROM sync_locks')) {
+    const row = locks.get(name);
+    return [row && row.expires_at.getTime() >= now ? [row] : [], []];
+  }
+  throw new Error(`Sentencia no esperada en el test: ${statement}`);
+}
+
+beforeEach(() => {
+  locks = new Map();
+  now = Date.now();
+  mock.method(pool, 'execute', execute as unknown as typeof pool.execute);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+test('un segundo acquire falla con la sync que tiene el lock', async () => {
+  const lock = await SyncLock.acquire('cron');
+
+  await assert.rejects(SyncLock.acquire('manual'), (error: unknown) => {
+    assert.ok(error instanceof SyncInProgressError);
+    assert.equal(error.running?.sync_type, 'cron');
+    return true;
+  });
+
+  await SyncLock.release(lock);
+  const next = await SyncLock.acquire('manual');
+  await SyncLock.release(next);
+});
+
+test('un lock sin heartbeat dentro del TTL se toma', async () => {
+  const abandoned = await SyncLock.acquire('cron');
+
+  // El dueño murió: nadie renovó expires_at y pasó el TTL (default 120s)
+  now += 121 * 1000;
+  assert.equal(await SyncLock.getRunning(), null);
+
+  const lock = await SyncLock.acquire('manual');
+  assert.equal((await SyncLock.getRunning())?.sync_type, 'manual');
+
+  // El dueño anterior ya no puede liberar el lock del nuevo
+  await SyncLock.release(abandoned);
+  assert.equal((await SyncLock.getRunning())?.sync_type, 'manual');
+
+  await SyncLock.release(lock);
+  assert.equal(await SyncLock.getRunning(), null);
+});
+
+test('antes del TTL el lock sigue tomado', async () => {
+  const lock = await SyncLock.acquire('cron');
+  now += 119 * 1000;
+
+  await assert.rejects(SyncLock.acquire('manual'), SyncInProgressError);
+  await SyncLock.release(lock);
+});
@@ -0,0 +1,74 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadSyncSchedules } from '../src/config/sync-schedules';
+
+const ENV_KEYS = [
+  'SYNC_SCHEDULES',
+  'SYNC_CRON_SCHEDULE',
+  'SYNC_SCHEDULE_HOURLY_STEPS',
+  'SYNC_SCHEDULE_NIGHTLY_STEPS',
+  'SYNC_SCHEDULE_LIGHT_ENABLED',
+  'SYNC_SCHEDULE_LIGHT_CRON',
+  'SYNC_SCHEDULE_STOCK_RAPIDO_STEPS'
+];
+
+afterEach(() => {
+  for (const key of ENV_KEYS) delete process.env[key];
+});
+
+function byName(name: string) {
+  return loadSyncSchedules().find(schedule => schedule.name === name);
+}
+
+test('sin variables carga light, hourly y nightly', () => {
+  const schedules = loadSyncSchedules();
+  assert.deepEqual(schedules.map(schedule => [schedule.name, schedule.enabled, schedule.steps]), [
+    ['light', false, []],
+    ['hourly', true, ['images']],
+    ['nightly', true, ['reactivation', 'cleanup', 'images']]
+  ]);
+});
+
+test('_STEPS reemplaza los pasos, ignorando mayúsculas, espacios y pasos desconocidos', () => {
+  process.env.SYNC_SCHEDULE_HOURLY_STEPS = ' Images , cleanup,limpieza ';
+  assert.deepEqual(byName('hourly')?.steps, ['images', 'cleanup']);
+});
+
+test('_STEPS vacío deja el schedule solo con la Fase 1', () => {
+  process.env.SYNC_SCHEDULE_NIGHTLY_STEPS = '';
+  assert.deepEqual(byName('nightly')?.steps, []);
+});
+
+test('_CRON y _ENABLED se aplican sobre el schedule', () => {
+  process.env.SYNC_SCHEDULE_LIGHT_CRON = '*/5 * * * *';
+  process.env.SYNC_SCHEDULE_LIGHT_ENABLED = 'true';
+  const light = byName('light');
+  assert.equal(light?.cron, '*/5 * * * *');
+  assert.equal(light?.enabled, true);
+});
+
+test('SYNC_CRON_SCHEDULE sigue valiendo como cron de hourly', () => {
+  process.env.SYNC_CRON_SCHEDULE = '15 * * * *';
+  assert.equal(byName('hourly')?.cron, '15 * * * *');
+});
+
+test('SYNC_SCHEDULES reemplaza la lista y acepta overrides por nombre', () => {
+  process.env.SYNC_SCHEDULES = JSON.stringify([
+    { name: 'stock-rapido', cron: '*/10 * * * *', steps: ['images', 'otro'] },
+    { name: 'semanal', cron: '0 4 * * 0', enabled: false, incremental: false, steps: ['cleanup'] }
+  ]);
+  process.env.SYNC_SCHEDULE_STOCK_RAPIDO_STEPS = 'reactivation';
+
+  assert.deepEqual(loadSyncSchedules(), [
+    { name: 'stock-rapido', description: '', cron: '*/10 * * * *', enabled: true, incremental: true, steps: ['reactivation'] },
+    { name: 'semanal', description: '', cron: '0 4 * * 0', enabled: false, incremental: false, steps: ['cleanup'] }
+  ]);
+});
+
+test('SYNC_SCHEDULES inválido lanza un error', () => {
+  process.env.SYNC_SCHEDULES = '{no es json';
+  assert.throws(() => loadSyncSchedules(), /SYNC_SCHEDULES no es un JSON válido/);
+
+  process.env.SYNC_SCHEDULES = '{"name":"hourly"}';
+  assert.throws(() => loadSyncSchedules(), /debe ser un array/);
+});
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SyncWebhook, SyncWebhookError } from '../src/services/sync-webhook';
+
+test('parseTargets acepta id, patente, listas y vehicles, sin duplicados', () => {
+  assert.deepEqual(
+    SyncWebhook.parseTargets({
+      id: 1003,
+      ids: ['1003', '1004'],
+      plates: ['ab 123-cd'],
+      license_plates: ['AB123CD'],
+      vehicles: [{ id: '1005' }, { plate: 'xy-999' }]
+    }),
+    [
+      { type: 'id', value: '1003' },
+      { type: 'id', value: '1004' },
+      { type: 'license_plate', value: 'AB123CD' },
+      { type: 'id', value: '1005' },
+      { type: 'license_plate', value: 'XY999' }
+    ]
+  );
+});
+
+test('parseTargets acepta una lista de vehículos como body', () => {
+  assert.deepEqual(SyncWebhook.parseTargets([{ license_plate: 'aa 111 bb' }, { id: 7 }]), [
+    { type: 'license_plate', value: 'AA111BB' },
+    { type: 'id', value: '7' }
+  ]);
+});
+
+test('parseTargets rechaza notificaciones sin vehículos', () => {
+  for (const body of [{}, [], null, { id: '  ' }, { ids: 'no-es-lista' }]) {
+    assert.throws(() => SyncWebhook.parseTargets(body), (error: any) => error instanceof SyncWebhookError && error.statusCode === 400);
+  }
+});
+
+test('parseTargets rechaza más vehículos que SYNC_WEBHOOK_MAX_TARGETS', () => {
+  const ids = Array.from({ length: 51 }, (_, index) => index + 1);
+  assert.throws(() => SyncWebhook.parseTargets({ ids }), SyncWebhookError);
+});
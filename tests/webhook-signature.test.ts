@@ -0,0 +1,59 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { WebhookSignature, WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER } from '../src/services/webhook-signature';
+
+const body = JSON.stringify({ ids: ['1003'] });
+
+function verifySigned(rawBody: string, headers: Record<string, string>) {
+  return WebhookSignature.verify(Buffer.from(rawBody), headers[WEBHOOK_SIGNATURE_HEADER], headers[WEBHOOK_TIMESTAMP_HEADER]);
+}
+
+beforeEach(() => {
+  process.env.SYNC_WEBHOOK_SECRET = 'viejo, nuevo';
+});
+
+test('acepta un body firmado con cualquiera de los secretos configurados', () => {
+  assert.deepEqual(verifySigned(body, WebhookSignature.sign(body, 'viejo')), { valid: true });
+  assert.deepEqual(verifySigned(body, WebhookSignature.sign(body, 'nuevo')), { valid: true });
+});
+
+test('rechaza un body modificado o firmado con otro secreto', () => {
+  assert.equal(verifySigned(`${body} `, WebhookSignature.sign(body, 'nuevo')).valid, false);
+  assert.equal(verifySigned(body, WebhookSignature.sign(body, 'otro')).valid, false);
+});
+
+test('exige el timestamp y lo incluye en la firma', () => {
+  const headers = WebhookSignature.sign(body, 'nuevo');
+  const withoutTimestamp = WebhookSignature.verify(Buffer.from(body), headers[WEBHOOK_SIGNATURE_HEADER], undefined);
+  assert.equal(withoutTimestamp.valid, false);
+  assert.match(withoutTimestamp.reason || '', /x-webhook-timestamp/);
+
+  // Misma firma con otro timestamp: no se puede reutilizar
+  const otherTimestamp = String(Number(headers[WEBHOOK_TIMESTAMP_HEADER]) + 1);
+  assert.equal(WebhookSignature.verify(Buffer.from(body), headers[WEBHOOK_SIGNATURE_HEADER], otherTimestamp).valid, false);
+});
+
+test('rechaza timestamps fuera de la tolerancia', () => {
+  const old = Math.floor(Date.now() / 1000) - 3600;
+  const result = verifySigned(body, WebhookSignature.sign(body, 'nuevo', old));
+  assert.equal(result.valid, false);
+  assert.match(result.reason || '', /tolerancia/);
+});
+
+test('acepta el hex sin prefijo y la firma en base64', () => {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const digest = crypto.createHmac('sha256', 'nuevo').update(`${timestamp}.${body}`).digest();
+
+  assert.equal(WebhookSignature.verify(Buffer.from(body), digest.toString('hex'), timestamp).valid, true);
+  assert.equal(WebhookSignature.verify(Buffer.from(body), digest.toString('base64'), timestamp).valid, true);
+  assert.equal(WebhookSignature.verify(Buffer.from(body), 'sha256=zz', timestamp).valid, false);
+});
+
+test('sin SYNC_WEBHOOK_SECRET rechaza todo', () => {
+  const headers = WebhookSignature.sign(body, 'nuevo');
+  process.env.SYNC_WEBHOOK_SECRET = '';
+  const result = verifySigned(body, headers);
+  assert.equal(result.valid, false);
+  assert.match(result.reason || '', /SYNC_WEBHOOK_SECRET/);
+});